@@ -4,7 +4,9 @@ module.exports = {
   roots: ['<rootDir>/src', '<rootDir>/supabase'],
   testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
   transform: {
-    '^.+\\.ts$': 'ts-jest',
+    // Edge Function modules shared with the frontend use Deno-style `.ts`
+    // import specifiers (TS5097), which Jest resolves as-is
+    '^.+\\.ts$': ['ts-jest', { diagnostics: { ignoreCodes: [5097] } }],
   },
   moduleFileExtensions: ['ts', 'js', 'json'],
   collectCoverageFrom: [
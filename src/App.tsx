@@ -24,6 +24,10 @@ import McpServerPost from "./pages/McpServerPost";
 import McpManager from "./pages/McpManager";
 import RecommendedSites from "./pages/RecommendedSites";
 import SitesManager from "./pages/SitesManager";
+import SlackManager from "./pages/SlackManager";
+import OnboardingManager from "./pages/OnboardingManager";
+import IdeNewsManager from "./pages/IdeNewsManager";
+import IdeNewsTimeline from "./pages/IdeNewsTimeline";
 import NotFound from "./pages/NotFound";
 import TermsOfUse from "./pages/TermsOfUse";
 import PrivacyPolicy from "./pages/PrivacyPolicy";
@@ -133,6 +137,7 @@ const App = () => {
                   <Route path="/vps-generator" element={<VpsSchemaGenerator />} />
                   <Route path="/blog" element={<Blog />} />
                   <Route path="/blog/:slug" element={<BlogPost />} />
+                  <Route path="/ide-news/:fonte" element={<IdeNewsTimeline />} />
                   <Route path="/blog-manager" element={<BlogManager />} />
                   <Route path="/workflows" element={<Workflows />} />
                   <Route path="/workflows/:slug" element={<WorkflowPost />} />
@@ -142,6 +147,9 @@ const App = () => {
                   <Route path="/mcp-manager" element={<McpManager />} />
                   <Route path="/recommended-sites" element={<RecommendedSites />} />
                   <Route path="/sites-manager" element={<SitesManager />} />
+                  <Route path="/slack-manager" element={<SlackManager />} />
+                  <Route path="/onboarding-manager" element={<OnboardingManager />} />
+                  <Route path="/ide-news-manager" element={<IdeNewsManager />} />
                   <Route path="/termos-de-uso" element={<TermsOfUse />} />
                   <Route path="/politica-de-privacidade" element={<PrivacyPolicy />} />
                   <Route path="*" element={<NotFound />} />
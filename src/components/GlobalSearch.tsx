@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { FileText, Globe, Loader2, Plug, Workflow, type LucideIcon } from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { useCatalogSearch } from "@/hooks/useCatalogSearch";
+import { SEARCH_CONTENT_LABELS, searchHitHref, splitHighlight } from "@/lib/search";
+import type { CatalogSearchHit, SearchContentType } from "@/types/search";
+
+const TYPE_ICONS: Record<SearchContentType, LucideIcon> = {
+  workflow: Workflow,
+  mcp_server: Plug,
+  blog_post: FileText,
+  recommended_site: Globe,
+};
+
+const Highlighted = ({ text }: { text: string }) => (
+  <>
+    {splitHighlight(text).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="rounded-sm bg-primary/20 text-foreground">{segment.text}</mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      )
+    )}
+  </>
+);
+
+interface GlobalSearchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Busca global (Ctrl+K / ⌘K) em workflows, MCP servers, artigos e sites,
+ * via search_catalog()
+ */
+const GlobalSearch = ({ open, onOpenChange }: GlobalSearchProps) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState("");
+  const { results, total, loading, error, hasMore, loadMore } = useCatalogSearch(query);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.ctrlKey || event.metaKey)) {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [open, onOpenChange]);
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) setQuery("");
+    onOpenChange(value);
+  };
+
+  const handleSelect = (hit: CatalogSearchHit) => {
+    const href = searchHitHref(hit);
+    handleOpenChange(false);
+    if (hit.content_type === "recommended_site") {
+      window.open(href, "_blank", "noopener,noreferrer");
+    } else {
+      navigate(href);
+    }
+  };
+
+  // Grupos na ordem do resultado mais relevante de cada tipo
+  const groups = results.reduce<{ type: SearchContentType; hits: CatalogSearchHit[] }[]>((acc, hit) => {
+    const group = acc.find((g) => g.type === hit.content_type);
+    if (group) {
+      group.hits.push(hit);
+    } else {
+      acc.push({ type: hit.content_type, hits: [hit] });
+    }
+    return acc;
+  }, []);
+
+  const term = query.trim();
+
+  return (
+    <CommandDialog open={open} onOpenChange={handleOpenChange} shouldFilter={false}>
+      <CommandInput
+        placeholder="Buscar workflows, MCP servers, artigos e sites..."
+        value={query}
+        onValueChange={setQuery}
+      />
+      <CommandList className="max-h-[420px]">
+        {!term ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Digite para buscar em todo o conteúdo do Vibe Flow.
+          </p>
+        ) : error ? (
+          <p className="py-6 text-center text-sm text-destructive">{error}</p>
+        ) : loading && results.length === 0 ? (
+          <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Buscando...
+          </div>
+        ) : (
+          <CommandEmpty>Nenhum resultado para "{term}".</CommandEmpty>
+        )}
+
+        {term && groups.map(({ type, hits }) => {
+          const Icon = TYPE_ICONS[type];
+          return (
+            <CommandGroup key={type} heading={SEARCH_CONTENT_LABELS[type]}>
+              {hits.map((hit) => (
+                <CommandItem
+                  key={`${hit.content_type}-${hit.id}`}
+                  value={`${hit.content_type}-${hit.id}`}
+                  onSelect={() => handleSelect(hit)}
+                  className="items-start gap-3"
+                >
+                  <Icon className="mt-0.5 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 space-y-1">
+                    <p className="font-medium leading-snug">
+                      <Highlighted text={hit.title_highlight} />
+                    </p>
+                    {hit.snippet && (
+                      <p className="line-clamp-2 text-xs text-muted-foreground">
+                        <Highlighted text={hit.snippet} />
+                      </p>
+                    )}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          );
+        })}
+
+        {term && hasMore && (
+          <CommandGroup>
+            <CommandItem value="carregar-mais" onSelect={loadMore} className="justify-center text-sm text-muted-foreground">
+              {loading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                `Carregar mais resultados (${results.length} de ${total})`
+              )}
+            </CommandItem>
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default GlobalSearch;
@@ -1,11 +1,13 @@
 import { useState } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Bot, Menu, X, BookOpen, User, LogOut } from "lucide-react";
+import { Bot, Menu, X, BookOpen, User, LogOut, Search } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import GlobalSearch from "@/components/GlobalSearch";
 
 const Header = () => {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
   const navigate = useNavigate();
   const location = useLocation();
   const { user, signOut } = useAuth();
@@ -71,6 +73,19 @@ const Header = () => {
           </nav>
 
           <div className="hidden md:flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="lg"
+              onClick={() => setSearchOpen(true)}
+              className="text-muted-foreground"
+            >
+              <Search className="h-4 w-4" />
+              Buscar
+              <kbd className="pointer-events-none rounded border bg-muted px-1.5 font-mono text-[10px] font-medium">
+                Ctrl K
+              </kbd>
+            </Button>
+
             <Button
               variant="outline"
               size="lg"
@@ -104,15 +119,24 @@ const Header = () => {
             )}
           </div>
 
-          {/* Mobile menu button */}
-          <Button
-            variant="outline"
-            size="icon"
-            className="md:hidden"
-            onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-          >
-            {mobileMenuOpen ? <X className="h-4 w-4" /> : <Menu className="h-4 w-4" />}
-          </Button>
+          {/* Mobile search and menu buttons */}
+          <div className="flex items-center gap-2 md:hidden">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setSearchOpen(true)}
+              aria-label="Buscar"
+            >
+              <Search className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+            >
+              {mobileMenuOpen ? <X className="h-4 w-4" /> : <Menu className="h-4 w-4" />}
+            </Button>
+          </div>
         </div>
 
         {/* Mobile Navigation */}
@@ -178,6 +202,8 @@ const Header = () => {
           </div>
         )}
       </div>
+
+      <GlobalSearch open={searchOpen} onOpenChange={setSearchOpen} />
     </header>
   );
 };
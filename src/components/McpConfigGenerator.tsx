@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { Check, Copy, KeyRound, AlertTriangle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { generateMcpConfig, MCP_CLIENTS, MCP_CLIENT_ORDER, type McpClient } from "@/lib/mcp";
+import type { McpLaunchConfig } from "@/types/mcp";
+
+interface McpConfigGeneratorProps {
+  servers: McpLaunchConfig[];
+}
+
+/**
+ * Arquivo de configuração pronto para cada cliente MCP (Claude Desktop,
+ * Cursor, VS Code, Windsurf), com placeholders no lugar dos segredos
+ */
+const McpConfigGenerator = ({ servers }: McpConfigGeneratorProps) => {
+  const { toast } = useToast();
+  const [client, setClient] = useState<McpClient>("claude_desktop");
+  const [copied, setCopied] = useState(false);
+
+  const { content, skipped } = generateMcpConfig(client, servers);
+  const envVars = servers.flatMap((server) =>
+    server.env_vars.map((envVar) => ({ ...envVar, server: server.title }))
+  );
+  const hasSecrets = envVars.some((envVar) => envVar.required && envVar.secret);
+
+  const copyConfig = () => {
+    navigator.clipboard.writeText(content);
+    setCopied(true);
+    toast({
+      title: "Copiado!",
+      description: `Configuração do ${MCP_CLIENTS[client].label} copiada para a área de transferência.`,
+    });
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={client} onValueChange={(value) => setClient(value as McpClient)}>
+        <TabsList className="flex h-auto flex-wrap">
+          {MCP_CLIENT_ORDER.map((id) => (
+            <TabsTrigger key={id} value={id}>
+              {MCP_CLIENTS[id].label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+
+        {MCP_CLIENT_ORDER.map((id) => (
+          <TabsContent key={id} value={id} className="space-y-3">
+            <ul className="text-xs text-muted-foreground">
+              {MCP_CLIENTS[id].configPaths.map((path) => (
+                <li key={path}>
+                  <code>{path}</code>
+                </li>
+              ))}
+            </ul>
+            <div className="relative">
+              <pre className="max-h-96 overflow-auto rounded-lg bg-muted p-4 text-sm">
+                <code>{content}</code>
+              </pre>
+              <Button size="sm" variant="secondary" className="absolute right-2 top-2" onClick={copyConfig}>
+                {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          </TabsContent>
+        ))}
+      </Tabs>
+
+      {skipped.length > 0 && (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <AlertTriangle className="h-4 w-4 text-yellow-600" />
+          Sem comando de execução cadastrado: {skipped.join(", ")}
+        </p>
+      )}
+
+      {envVars.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="flex items-center gap-2 text-sm font-semibold">
+            <KeyRound className="h-4 w-4" />
+            Variáveis de ambiente
+          </h3>
+          {hasSecrets && (
+            <p className="text-sm text-muted-foreground">
+              {client === "vscode"
+                ? "O VS Code pede os valores secretos ao iniciar o servidor."
+                : "Substitua os valores entre < > pelos seus segredos antes de salvar."}
+            </p>
+          )}
+          <ul className="space-y-2 text-sm">
+            {envVars.map((envVar) => (
+              <li key={`${envVar.server}-${envVar.name}`} className="flex flex-wrap items-center gap-2">
+                <code className="rounded bg-muted px-2 py-0.5">{envVar.name}</code>
+                {envVar.required ? (
+                  <Badge variant="outline">obrigatória</Badge>
+                ) : (
+                  <Badge variant="secondary">opcional</Badge>
+                )}
+                {envVar.secret && <Badge variant="outline">secreta</Badge>}
+                <span className="text-muted-foreground">
+                  {envVar.description}
+                  {servers.length > 1 && ` (${envVar.server})`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default McpConfigGenerator;
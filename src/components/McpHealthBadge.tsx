@@ -0,0 +1,79 @@
+import { Archive, CircleCheck, Clock, Scale, Star, Tag } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { McpHealthInfo, McpHealthStatus } from "@/types/mcp";
+
+const HEALTH_STYLES: Record<McpHealthStatus, { label: string; icon: typeof Archive; className: string }> = {
+  maintained: {
+    label: "Mantido",
+    icon: CircleCheck,
+    className: "bg-green-500/10 text-green-600 border-green-500/20 hover:bg-green-500/20",
+  },
+  stale: {
+    label: "Parado",
+    icon: Clock,
+    className: "bg-yellow-500/10 text-yellow-600 border-yellow-500/20 hover:bg-yellow-500/20",
+  },
+  archived: {
+    label: "Arquivado",
+    icon: Archive,
+    className: "bg-red-500/10 text-red-600 border-red-500/20 hover:bg-red-500/20",
+  },
+};
+
+interface McpHealthBadgeProps {
+  server: McpHealthInfo;
+  className?: string;
+}
+
+/**
+ * Status de saúde do servidor (check-mcp-health), com o motivo, versão,
+ * estrelas e licença no tooltip. Servidores ainda não verificados não
+ * mostram nada.
+ */
+const McpHealthBadge = ({ server, className = "" }: McpHealthBadgeProps) => {
+  if (!server.health_status) return null;
+
+  const { label, icon: Icon, className: statusClassName } = HEALTH_STYLES[server.health_status];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className={`text-xs ${statusClassName} ${className}`}>
+          <Icon className="h-3 w-3 mr-1" />
+          {label}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs space-y-1">
+        {server.health_reason && <p>{server.health_reason}</p>}
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {server.latest_version && (
+            <span className="flex items-center gap-1">
+              <Tag className="h-3 w-3" />
+              v{server.latest_version}
+            </span>
+          )}
+          {server.github_stars !== null && (
+            <span className="flex items-center gap-1">
+              <Star className="h-3 w-3" />
+              {server.github_stars.toLocaleString("pt-BR")}
+            </span>
+          )}
+          {server.license && (
+            <span className="flex items-center gap-1">
+              <Scale className="h-3 w-3" />
+              {server.license}
+            </span>
+          )}
+        </div>
+        {server.health_checked_at && (
+          <p className="text-xs text-muted-foreground">
+            Verificado em {new Date(server.health_checked_at).toLocaleDateString("pt-BR")}
+          </p>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default McpHealthBadge;
@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { FileJson, Loader2, Trash2, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import McpConfigGenerator from "@/components/McpConfigGenerator";
+import { useMcpSelection } from "@/hooks/useMcpSelection";
+import type { McpLaunchConfig } from "@/types/mcp";
+
+const LAUNCH_COLUMNS = "slug, title, transport, launch_command, launch_args, server_url, env_vars";
+
+/**
+ * Barra fixa com os servidores MCP selecionados; gera um único arquivo de
+ * configuração com todos eles
+ */
+const McpSelectionBar = () => {
+  const { selected, remove, clear } = useMcpSelection();
+  const [open, setOpen] = useState(false);
+  const [servers, setServers] = useState<McpLaunchConfig[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || selected.length === 0) return;
+
+    let cancelled = false;
+    const fetchServers = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await (supabase as any)
+          .from("mcp_servers")
+          .select(LAUNCH_COLUMNS)
+          .in("slug", selected)
+          .eq("is_published", true);
+
+        if (error) throw error;
+        if (cancelled) return;
+        // Mantém a ordem em que foram selecionados
+        const rows = (data || []) as McpLaunchConfig[];
+        setServers(selected
+          .map((slug) => rows.find((row) => row.slug === slug))
+          .filter((row): row is McpLaunchConfig => Boolean(row)));
+      } catch (error) {
+        console.error("Erro ao carregar servidores selecionados:", error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchServers();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, selected]);
+
+  useEffect(() => {
+    if (selected.length === 0) setOpen(false);
+  }, [selected.length]);
+
+  if (selected.length === 0) return null;
+
+  return (
+    <>
+      <div className="fixed inset-x-0 bottom-4 z-40 flex justify-center px-4">
+        <div className="flex items-center gap-3 rounded-full border bg-background/95 px-4 py-2 shadow-lg backdrop-blur">
+          <span className="text-sm font-medium">
+            {selected.length} {selected.length === 1 ? "servidor selecionado" : "servidores selecionados"}
+          </span>
+          <Button size="sm" onClick={() => setOpen(true)}>
+            <FileJson className="h-4 w-4 mr-2" />
+            Gerar configuração
+          </Button>
+          <Button size="sm" variant="ghost" onClick={clear} aria-label="Limpar seleção">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Configuração dos servidores selecionados</DialogTitle>
+            <DialogDescription>
+              Um único arquivo com todos os servidores, no formato do seu cliente MCP.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading && servers.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {servers.map((server) => (
+                  <span key={server.slug} className="flex items-center gap-1 rounded-full bg-muted py-1 pl-3 pr-1 text-sm">
+                    {server.title}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-5 w-5 rounded-full"
+                      onClick={() => remove(server.slug)}
+                      aria-label={`Remover ${server.title}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </span>
+                ))}
+              </div>
+              <McpConfigGenerator servers={servers} />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default McpSelectionBar;
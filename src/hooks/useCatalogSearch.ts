@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { CatalogSearchHit, SearchContentType } from "@/types/search";
+
+interface CatalogSearchOptions {
+  /** Restrict the search to these content types (all when omitted) */
+  types?: SearchContentType[];
+  /** Results per page (search_catalog caps it at 100) */
+  pageSize?: number;
+  /** Only items of this category (workflows have none and are left out) */
+  category?: string | null;
+}
+
+// Espera o usuário parar de digitar antes de consultar
+const DEBOUNCE_MS = 250;
+
+/**
+ * Full-text search in the published catalog through the search_catalog()
+ * RPC. An empty query clears the results; loadMore() fetches the next page.
+ */
+export const useCatalogSearch = (query: string, { types, pageSize = 10, category = null }: CatalogSearchOptions = {}) => {
+  const [results, setResults] = useState<CatalogSearchHit[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Ignora respostas de consultas que já foram substituídas
+  const requestRef = useRef(0);
+  const typesKey = types?.join(",") ?? "";
+
+  const fetchPage = useCallback(async (term: string, offset: number) => {
+    const request = ++requestRef.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error } = await (supabase as any).rpc("search_catalog", {
+        p_query: term,
+        p_types: typesKey ? typesKey.split(",") : null,
+        p_limit: pageSize,
+        p_offset: offset,
+        p_category: category,
+      });
+      if (error) throw error;
+      if (request !== requestRef.current) return;
+
+      const page = (data || []) as CatalogSearchHit[];
+      setResults((previous) => (offset === 0 ? page : [...previous, ...page]));
+      setTotal(page.length > 0 ? Number(page[0].total_count) : offset);
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      console.error("Erro na busca:", err);
+      setError("Não foi possível buscar agora. Tente novamente.");
+    } finally {
+      if (request === requestRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [typesKey, pageSize, category]);
+
+  useEffect(() => {
+    const term = query.trim();
+    if (!term) {
+      requestRef.current++;
+      setResults([]);
+      setTotal(0);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    const timeout = setTimeout(() => fetchPage(term, 0), DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query, fetchPage]);
+
+  const hasMore = results.length < total;
+
+  const loadMore = useCallback(() => {
+    const term = query.trim();
+    if (term && hasMore && !loading) {
+      fetchPage(term, results.length);
+    }
+  }, [query, hasMore, loading, results.length, fetchPage]);
+
+  return { results, total, loading, error, hasMore, loadMore };
+};
@@ -6,8 +6,15 @@ interface NewsItem {
   resumo?: string | null;
   link: string;
   fonte: string;
+  /** Slug usado em /ide-news/:fonte */
+  fonte_slug?: string | null;
   cor?: string;
   logo?: string;
+  publicado_em?: string | null;
+  versao?: string | null;
+  /** Resumo em português gerado no sync-ide-news, quando configurado */
+  resumo_ia?: string | null;
+  tags?: string[];
 }
 
 export const useChangelogNews = () => {
@@ -25,8 +32,9 @@ export const useChangelogNews = () => {
       const { data, error } = await (supabase as any)
         .from('ide_news')
         .select('*')
+        .order('publicado_em', { ascending: false, nullsFirst: false })
         .order('created_at', { ascending: false })
-        .limit(18); // Limitar a 18 itens (2 por fonte, 9 fontes)
+        .limit(45); // Limitar a 45 itens (até 5 por fonte, 9 fontes)
 
       if (error) throw error;
 
@@ -42,15 +50,28 @@ export const useChangelogNews = () => {
         resumo: item.resumo,
         link: item.link,
         fonte: item.fonte,
+        fonte_slug: item.fonte_slug,
         cor: item.cor,
         logo: item.logo,
+        publicado_em: item.publicado_em,
+        versao: item.versao,
+        resumo_ia: item.resumo_ia,
+        tags: item.tags ?? [],
       }));
 
       setNoticias(noticiasFormatadas);
       
-      // Pegar a data de criação do item mais recente como "atualizado em"
-      if (data[0]?.created_at) {
-        setAtualizadoEm(new Date(data[0].created_at));
+      // A última sincronização é o last_seen_at mais recente (created_at é
+      // quando o item foi visto pela primeira vez)
+      const ultimaSincronizacao = data.reduce(
+        (maisRecente: string | undefined, item: { last_seen_at?: string; created_at: string }) => {
+          const vistoEm = item.last_seen_at ?? item.created_at;
+          return !maisRecente || vistoEm > maisRecente ? vistoEm : maisRecente;
+        },
+        undefined
+      );
+      if (ultimaSincronizacao) {
+        setAtualizadoEm(new Date(ultimaSincronizacao));
       } else {
         setAtualizadoEm(new Date());
       }
@@ -0,0 +1,63 @@
+import { useCallback, useSyncExternalStore } from "react";
+
+const STORAGE_KEY = "vibeflow:mcp-selection";
+
+const listeners = new Set<() => void>();
+let cached: string[] | null = null;
+
+const read = (): string[] => {
+  if (cached) return cached;
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    cached = Array.isArray(parsed) ? parsed.filter((slug): slug is string => typeof slug === "string") : [];
+  } catch {
+    cached = [];
+  }
+  return cached;
+};
+
+const write = (slugs: string[]) => {
+  cached = slugs;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(slugs));
+  listeners.forEach((listener) => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  // Mantém abas diferentes em sincronia
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) {
+      cached = null;
+      listener();
+    }
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+};
+
+/**
+ * MCP servers picked for a combined client config ("copiar todos os
+ * selecionados"). Slugs persist in localStorage and are shared by every
+ * component on the page.
+ */
+export const useMcpSelection = () => {
+  const selected = useSyncExternalStore(subscribe, read);
+
+  const isSelected = useCallback((slug: string) => selected.includes(slug), [selected]);
+
+  const toggle = useCallback((slug: string) => {
+    const current = read();
+    write(current.includes(slug) ? current.filter((s) => s !== slug) : [...current, slug]);
+  }, []);
+
+  const remove = useCallback((slug: string) => {
+    write(read().filter((s) => s !== slug));
+  }, []);
+
+  const clear = useCallback(() => write([]), []);
+
+  return { selected, isSelected, toggle, remove, clear };
+};
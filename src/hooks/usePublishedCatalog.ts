@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useCatalogSearch } from "@/hooks/useCatalogSearch";
+
+type PagedContentType = "mcp_server" | "blog_post";
+
+interface CatalogSource {
+  table: string;
+  /** Column and value that mark a row as published */
+  published: [string, string | boolean];
+  /** Newest first when there is no search term */
+  orderBy: string;
+}
+
+const SOURCES: Record<PagedContentType, CatalogSource> = {
+  mcp_server: { table: "mcp_servers", published: ["is_published", true], orderBy: "created_at" },
+  blog_post: { table: "blog_posts", published: ["status", "published"], orderBy: "published_at" },
+};
+
+interface PublishedCatalogOptions {
+  /** Search term; when set the list follows search_catalog() relevance */
+  search: string;
+  category: string | null;
+  pageSize?: number;
+}
+
+/**
+ * Paged list of published MCP servers or blog posts. Without a search term
+ * it is a ranged query (newest first); with one, each search_catalog() page
+ * is resolved to its full rows. Both are filtered by category in the
+ * database, and loadMore() fetches the next page.
+ */
+export const usePublishedCatalog = <T extends { id: string }>(
+  type: PagedContentType,
+  { search, category, pageSize = 12 }: PublishedCatalogOptions
+) => {
+  const source = SOURCES[type];
+  const searching = search.trim() !== "";
+
+  const [categories, setCategories] = useState<string[]>([]);
+  const [listing, setListing] = useState<T[]>([]);
+  const [listingTotal, setListingTotal] = useState(0);
+  const [listingLoading, setListingLoading] = useState(true);
+  // Ignora respostas de páginas que já foram substituídas
+  const listingRequestRef = useRef(0);
+
+  const {
+    results: hits,
+    total: hitsTotal,
+    loading: hitsLoading,
+    hasMore: hitsHaveMore,
+    loadMore: loadMoreHits,
+  } = useCatalogSearch(search, { types: [type], pageSize, category });
+  const [rowsById, setRowsById] = useState<Map<string, T>>(new Map());
+  const [pendingRows, setPendingRows] = useState(0);
+  const requestedRowsRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        const { data, error } = await (supabase as any)
+          .from(source.table)
+          .select("category")
+          .eq(...source.published)
+          .not("category", "is", null);
+
+        if (error) throw error;
+        const names = (data || []).map((row: { category: string }) => row.category);
+        setCategories([...new Set<string>(names)].sort());
+      } catch (error) {
+        console.error("Erro ao carregar categorias:", error);
+      }
+    };
+
+    fetchCategories();
+  }, [source]);
+
+  const fetchListingPage = useCallback(async (offset: number) => {
+    const request = ++listingRequestRef.current;
+    setListingLoading(true);
+    try {
+      let query = (supabase as any)
+        .from(source.table)
+        .select("*", { count: "exact" })
+        .eq(...source.published);
+      if (category) {
+        query = query.eq("category", category);
+      }
+
+      const { data, error, count } = await query
+        .order(source.orderBy, { ascending: false })
+        .range(offset, offset + pageSize - 1);
+
+      if (error) throw error;
+      if (request !== listingRequestRef.current) return;
+
+      const page = (data || []) as T[];
+      setListing((previous) => (offset === 0 ? page : [...previous, ...page]));
+      setListingTotal(count ?? offset + page.length);
+    } catch (error) {
+      if (request !== listingRequestRef.current) return;
+      console.error("Erro ao carregar a lista:", error);
+    } finally {
+      if (request === listingRequestRef.current) {
+        setListingLoading(false);
+      }
+    }
+  }, [source, category, pageSize]);
+
+  useEffect(() => {
+    if (searching) {
+      // Descarta uma página da lista que ainda esteja carregando
+      listingRequestRef.current++;
+      return;
+    }
+    fetchListingPage(0);
+  }, [searching, fetchListingPage]);
+
+  // search_catalog só devolve os metadados do resultado; os cards precisam
+  // da linha completa
+  useEffect(() => {
+    const missing = hits.map((hit) => hit.id).filter((id) => !requestedRowsRef.current.has(id));
+    if (missing.length === 0) return;
+    missing.forEach((id) => requestedRowsRef.current.add(id));
+
+    const fetchRows = async () => {
+      setPendingRows((pending) => pending + 1);
+      try {
+        const { data, error } = await (supabase as any)
+          .from(source.table)
+          .select("*")
+          .in("id", missing);
+
+        if (error) throw error;
+        setRowsById((previous) => {
+          const next = new Map(previous);
+          for (const row of (data || []) as T[]) {
+            next.set(row.id, row);
+          }
+          return next;
+        });
+      } catch (error) {
+        // Tenta de novo na próxima página de resultados
+        missing.forEach((id) => requestedRowsRef.current.delete(id));
+        console.error("Erro ao carregar os resultados da busca:", error);
+      } finally {
+        setPendingRows((pending) => pending - 1);
+      }
+    };
+
+    fetchRows();
+  }, [hits, source]);
+
+  const items = searching
+    ? hits.map((hit) => rowsById.get(hit.id)).filter((row): row is T => Boolean(row))
+    : listing;
+  const total = searching ? hitsTotal : listingTotal;
+  const loading = searching ? hitsLoading || pendingRows > 0 : listingLoading;
+  const hasMore = searching ? hitsHaveMore : listing.length < listingTotal;
+
+  const loadMore = useCallback(() => {
+    if (searching) {
+      loadMoreHits();
+    } else if (!listingLoading && listing.length < listingTotal) {
+      fetchListingPage(listing.length);
+    }
+  }, [searching, loadMoreHits, listingLoading, listing.length, listingTotal, fetchListingPage]);
+
+  return { items, total, categories, loading, hasMore, loadMore };
+};
@@ -0,0 +1,119 @@
+/**
+ * Tests for the MCP client configuration generator
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { generateMcpConfig, hasLaunchConfig } from '../clientConfig';
+import type { McpLaunchConfig } from '../../../types/mcp';
+
+const github: McpLaunchConfig = {
+  slug: 'github-mcp-server',
+  title: 'GitHub MCP Server',
+  transport: 'stdio',
+  launch_command: 'npx',
+  launch_args: ['-y', '@modelcontextprotocol/server-github'],
+  server_url: null,
+  env_vars: [
+    { name: 'GITHUB_PERSONAL_ACCESS_TOKEN', description: 'Token de acesso pessoal', required: true, secret: true },
+    { name: 'GITHUB_API_URL', description: 'URL da API', required: true, secret: false, example: 'https://api.github.com' },
+    { name: 'GITHUB_TOOLSETS', description: 'Ferramentas habilitadas', required: false, secret: false },
+  ],
+};
+
+const remote: McpLaunchConfig = {
+  slug: 'remote-docs',
+  title: 'Remote Docs',
+  transport: 'http',
+  launch_command: null,
+  launch_args: [],
+  server_url: 'https://mcp.example.com/mcp',
+  env_vars: [],
+};
+
+const incomplete: McpLaunchConfig = {
+  ...github,
+  slug: 'sem-comando',
+  launch_command: null,
+};
+
+const parse = (content: string) => JSON.parse(content);
+
+describe('generateMcpConfig', () => {
+  test('writes an mcpServers block with placeholders for secrets', () => {
+    const { content, skipped } = generateMcpConfig('claude_desktop', [github]);
+
+    expect(skipped).toEqual([]);
+    expect(parse(content)).toEqual({
+      mcpServers: {
+        'github-mcp-server': {
+          command: 'npx',
+          args: ['-y', '@modelcontextprotocol/server-github'],
+          env: {
+            GITHUB_PERSONAL_ACCESS_TOKEN: '<GITHUB_PERSONAL_ACCESS_TOKEN>',
+            GITHUB_API_URL: 'https://api.github.com',
+          },
+        },
+      },
+    });
+  });
+
+  test('omits env when the server needs no variables', () => {
+    const server = { ...github, env_vars: [] };
+    const entry = parse(generateMcpConfig('cursor', [server]).content).mcpServers['github-mcp-server'];
+
+    expect(entry).toEqual({ command: 'npx', args: ['-y', '@modelcontextprotocol/server-github'] });
+  });
+
+  test('uses VS Code servers with password inputs for secrets', () => {
+    const config = parse(generateMcpConfig('vscode', [github]).content);
+
+    expect(config.inputs).toEqual([
+      {
+        type: 'promptString',
+        id: 'github-mcp-server-github-personal-access-token',
+        description: 'Token de acesso pessoal',
+        password: true,
+      },
+    ]);
+    expect(config.servers['github-mcp-server']).toEqual({
+      type: 'stdio',
+      command: 'npx',
+      args: ['-y', '@modelcontextprotocol/server-github'],
+      env: {
+        GITHUB_PERSONAL_ACCESS_TOKEN: '${input:github-mcp-server-github-personal-access-token}',
+        GITHUB_API_URL: 'https://api.github.com',
+      },
+    });
+  });
+
+  test('writes each client remote format', () => {
+    const entry = (client: Parameters<typeof generateMcpConfig>[0]) => {
+      const config = parse(generateMcpConfig(client, [remote]).content);
+      return (config.mcpServers ?? config.servers)['remote-docs'];
+    };
+
+    expect(entry('cursor')).toEqual({ url: 'https://mcp.example.com/mcp' });
+    expect(entry('windsurf')).toEqual({ serverUrl: 'https://mcp.example.com/mcp' });
+    expect(entry('vscode')).toEqual({ type: 'http', url: 'https://mcp.example.com/mcp' });
+    expect(entry('claude_desktop')).toEqual({
+      command: 'npx',
+      args: ['-y', 'mcp-remote', 'https://mcp.example.com/mcp'],
+    });
+  });
+
+  test('combines selected servers and reports the ones without launch data', () => {
+    const { content, skipped } = generateMcpConfig('windsurf', [github, incomplete, remote, github]);
+
+    expect(Object.keys(parse(content).mcpServers)).toEqual(['github-mcp-server', 'remote-docs']);
+    expect(skipped).toEqual(['sem-comando']);
+  });
+});
+
+describe('hasLaunchConfig', () => {
+  test('requires a command for stdio and a URL for remote servers', () => {
+    expect(hasLaunchConfig(github)).toBe(true);
+    expect(hasLaunchConfig(incomplete)).toBe(false);
+    expect(hasLaunchConfig(remote)).toBe(true);
+    expect(hasLaunchConfig({ ...remote, server_url: null })).toBe(false);
+  });
+});
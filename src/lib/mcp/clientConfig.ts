@@ -0,0 +1,156 @@
+/**
+ * MCP client configuration generator
+ *
+ * Builds the JSON each supported client expects from the launch metadata
+ * stored on mcp_servers. Secrets are never filled in: they become
+ * placeholders (or VS Code password prompts) for the member to replace.
+ */
+
+import type { McpEnvVar, McpLaunchConfig } from '../../types/mcp';
+
+export type McpClient = 'claude_desktop' | 'cursor' | 'vscode' | 'windsurf';
+
+export interface McpClientInfo {
+  label: string;
+  /** Where the client reads the config from */
+  configPaths: string[];
+}
+
+export const MCP_CLIENTS: Record<McpClient, McpClientInfo> = {
+  claude_desktop: {
+    label: 'Claude Desktop',
+    configPaths: [
+      'macOS: ~/Library/Application Support/Claude/claude_desktop_config.json',
+      'Windows: %APPDATA%\\Claude\\claude_desktop_config.json',
+    ],
+  },
+  cursor: {
+    label: 'Cursor',
+    configPaths: ['Projeto: .cursor/mcp.json', 'Global: ~/.cursor/mcp.json'],
+  },
+  vscode: {
+    label: 'VS Code',
+    configPaths: ['Projeto: .vscode/mcp.json'],
+  },
+  windsurf: {
+    label: 'Windsurf',
+    configPaths: ['~/.codeium/windsurf/mcp_config.json'],
+  },
+};
+
+export const MCP_CLIENT_ORDER: McpClient[] = ['claude_desktop', 'cursor', 'vscode', 'windsurf'];
+
+export interface GeneratedMcpConfig {
+  /** Pretty-printed JSON, ready to paste into the config file */
+  content: string;
+  /** Slugs left out because they have no command (stdio) or URL (remote) */
+  skipped: string[];
+}
+
+interface VsCodeInput {
+  type: 'promptString';
+  id: string;
+  description: string;
+  password: true;
+}
+
+/**
+ * Whether the server has enough metadata to be launched by a client
+ */
+export function hasLaunchConfig(server: McpLaunchConfig): boolean {
+  return server.transport === 'stdio' ? Boolean(server.launch_command) : Boolean(server.server_url);
+}
+
+/**
+ * Placeholder written instead of a secret value
+ */
+export function envPlaceholder(envVar: McpEnvVar): string {
+  return `<${envVar.name}>`;
+}
+
+function envValue(envVar: McpEnvVar): string {
+  if (envVar.secret) return envPlaceholder(envVar);
+  return envVar.example ?? envPlaceholder(envVar);
+}
+
+// Só as obrigatórias entram no arquivo; as opcionais ficam na documentação
+function requiredEnv(server: McpLaunchConfig): McpEnvVar[] {
+  return server.env_vars.filter((envVar) => envVar.required);
+}
+
+function inputId(server: McpLaunchConfig, envVar: McpEnvVar): string {
+  return `${server.slug}-${envVar.name.toLowerCase().replace(/_/g, '-')}`;
+}
+
+function stdioEntry(server: McpLaunchConfig, env: Record<string, string>): Record<string, unknown> {
+  const entry: Record<string, unknown> = {
+    command: server.launch_command,
+    args: server.launch_args,
+  };
+  if (Object.keys(env).length > 0) {
+    entry.env = env;
+  }
+  return entry;
+}
+
+function plainEnv(server: McpLaunchConfig): Record<string, string> {
+  return Object.fromEntries(requiredEnv(server).map((envVar) => [envVar.name, envValue(envVar)]));
+}
+
+function serverEntry(client: McpClient, server: McpLaunchConfig, inputs: VsCodeInput[]): Record<string, unknown> {
+  const remote = server.transport !== 'stdio';
+
+  switch (client) {
+    case 'claude_desktop':
+      // O Claude Desktop só inicia processos locais; servidores remotos
+      // passam pela ponte mcp-remote
+      return remote
+        ? { command: 'npx', args: ['-y', 'mcp-remote', server.server_url] }
+        : stdioEntry(server, plainEnv(server));
+    case 'cursor':
+      return remote ? { url: server.server_url } : stdioEntry(server, plainEnv(server));
+    case 'windsurf':
+      return remote ? { serverUrl: server.server_url } : stdioEntry(server, plainEnv(server));
+    case 'vscode': {
+      if (remote) {
+        return { type: server.transport, url: server.server_url };
+      }
+      // Segredos viram prompts de senha (${input:id}) em vez de placeholders
+      const env: Record<string, string> = {};
+      for (const envVar of requiredEnv(server)) {
+        if (envVar.secret) {
+          const id = inputId(server, envVar);
+          inputs.push({ type: 'promptString', id, description: envVar.description || envVar.name, password: true });
+          env[envVar.name] = `\${input:${id}}`;
+        } else {
+          env[envVar.name] = envValue(envVar);
+        }
+      }
+      return { type: 'stdio', ...stdioEntry(server, env) };
+    }
+  }
+}
+
+/**
+ * Generates the config file content for one client with every given server
+ */
+export function generateMcpConfig(client: McpClient, servers: McpLaunchConfig[]): GeneratedMcpConfig {
+  const entries: Record<string, Record<string, unknown>> = {};
+  const inputs: VsCodeInput[] = [];
+  const skipped: string[] = [];
+
+  for (const server of servers) {
+    if (!hasLaunchConfig(server)) {
+      skipped.push(server.slug);
+      continue;
+    }
+    if (entries[server.slug]) continue;
+    entries[server.slug] = serverEntry(client, server, inputs);
+  }
+
+  const config = client === 'vscode'
+    ? { ...(inputs.length > 0 ? { inputs } : {}), servers: entries }
+    : { mcpServers: entries };
+
+  return { content: JSON.stringify(config, null, 2), skipped };
+}
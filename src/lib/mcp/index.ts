@@ -0,0 +1,15 @@
+/**
+ * MCP Server Utilities
+ *
+ * Central export point for the client configuration generator used by the
+ * MCP server pages.
+ */
+
+export {
+  generateMcpConfig,
+  hasLaunchConfig,
+  envPlaceholder,
+  MCP_CLIENTS,
+  MCP_CLIENT_ORDER,
+} from './clientConfig';
+export type { McpClient, McpClientInfo, GeneratedMcpConfig } from './clientConfig';
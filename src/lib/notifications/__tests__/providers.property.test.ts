@@ -0,0 +1,169 @@
+/**
+ * Property-Based Tests for the Discord, Teams and generic JSON formatters
+ *
+ * Feature: notification-channels
+ *
+ * For any workflow, MCP server, blog post or IDE news batch, every provider
+ * payload should carry each item's title and link, deletions should carry
+ * no link, and Discord payloads should stay within Discord's embed limits.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import fc from 'fast-check';
+import {
+  describeWorkflow,
+  describeMcpServer,
+  describeBlogPost,
+  describeIdeNews,
+  describeNotification,
+  formatDiscordMessage,
+  formatTeamsMessage,
+  formatGenericPayload,
+  formatProviderMessage,
+} from '../index';
+import type { NotificationContent } from '../../../types/notifications';
+
+const slugArb = fc.string({ minLength: 1, maxLength: 50 }).map(s => s.toLowerCase().replace(/[^a-z0-9-]/g, '-'));
+
+const workflowArb = fc.record({
+  title: fc.string({ minLength: 1, maxLength: 300 }),
+  slug: slugArb,
+  description: fc.option(fc.string({ maxLength: 500 }), { nil: null }),
+  image_url: fc.option(fc.webUrl(), { nil: null }),
+}).map(describeWorkflow);
+
+const mcpServerArb = fc.record({
+  title: fc.string({ minLength: 1, maxLength: 200 }),
+  slug: slugArb,
+  description: fc.option(fc.string({ maxLength: 500 }), { nil: null }),
+  tags: fc.option(fc.array(fc.string({ minLength: 1, maxLength: 20 }), { maxLength: 10 }), { nil: null }),
+  npm_package: fc.option(fc.string({ minLength: 1, maxLength: 50 }), { nil: null }),
+  github_url: fc.option(fc.webUrl(), { nil: null }),
+}).map(describeMcpServer);
+
+const blogPostArb = fc.record({
+  title: fc.string({ minLength: 1, maxLength: 200 }),
+  slug: slugArb,
+  excerpt: fc.option(fc.string({ maxLength: 300 }), { nil: null }),
+  content: fc.string({ maxLength: 1000 }),
+  cover_image_url: fc.option(fc.webUrl(), { nil: null }),
+}).map(describeBlogPost);
+
+const ideNewsArb = fc.array(
+  fc.record({
+    titulo: fc.string({ minLength: 1, maxLength: 200 }),
+    resumo: fc.option(fc.string({ maxLength: 300 }), { nil: null }),
+    link: fc.webUrl(),
+    fonte: fc.constantFrom('Cursor', 'Windsurf', 'Kiro'),
+  }),
+  { minLength: 1, maxLength: 15 }
+).map(describeIdeNews);
+
+const notificationArb: fc.Arbitrary<NotificationContent> = fc.oneof(
+  workflowArb,
+  mcpServerArb,
+  blogPostArb,
+  ideNewsArb
+);
+
+describe('Notification provider formatters - Property-Based Tests', () => {
+  test('Property: Discord payload carries every item within embed limits', () => {
+    fc.assert(
+      fc.property(notificationArb, (notification) => {
+        const message = formatDiscordMessage(notification);
+
+        expect(message.content).toBe(notification.heading);
+        expect(message.embeds.length).toBe(Math.min(notification.items.length, 10));
+        message.embeds.forEach((embed, i) => {
+          const item = notification.items[i];
+          expect(embed.title.length).toBeLessThanOrEqual(256);
+          expect((embed.description ?? '').length).toBeLessThanOrEqual(4096);
+          expect((embed.fields ?? []).length).toBeLessThanOrEqual(25);
+          expect(embed.url).toBe(item.url);
+          if (item.title.length <= 256) {
+            expect(embed.title).toBe(item.title);
+          }
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Property: Teams card has a title block per item and links to the content', () => {
+    fc.assert(
+      fc.property(notificationArb, (notification) => {
+        const message = formatTeamsMessage(notification);
+        const card = message.attachments[0].content;
+
+        expect(message.type).toBe('message');
+        expect(card.type).toBe('AdaptiveCard');
+        expect(card.body[0].text).toBe(notification.heading);
+
+        const containers = card.body.filter(block => block.type === 'Container');
+        expect(containers.length).toBe(notification.items.length);
+
+        const serialized = JSON.stringify(card);
+        notification.items.forEach((item) => {
+          expect(serialized).toContain(JSON.stringify(item.url).slice(1, -1));
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Property: Generic payload names the event and keeps every item', () => {
+    fc.assert(
+      fc.property(notificationArb, (notification) => {
+        const payload = formatGenericPayload(notification);
+
+        expect(payload.event).toBe(`${notification.contentType}.published`);
+        expect(payload.items).toEqual(notification.items);
+        expect(formatProviderMessage('generic', notification)).toMatchObject({ event: payload.event });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Property: Deletions carry no link in any provider', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom('workflow' as const, 'mcp_server' as const, 'blog_post' as const),
+        fc.string({ minLength: 1, maxLength: 100 }),
+        (contentType, title) => {
+          const notification = describeNotification(contentType, 'deleted', null, { title });
+
+          const discord = formatDiscordMessage(notification);
+          expect(discord.embeds[0].title).toBe(`~~${title}~~`);
+          expect(discord.embeds[0].url).toBeUndefined();
+
+          const teams = formatTeamsMessage(notification);
+          expect(teams.attachments[0].content.actions).toBeUndefined();
+
+          expect(formatGenericPayload(notification).items[0]).toMatchObject({ url: null, deleted: true });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('describeNotification', () => {
+  test('lists changed fields in update notifications', () => {
+    const notification = describeNotification(
+      'workflow',
+      'updated',
+      { title: 'Novo título', slug: 'novo', description: null, image_url: null },
+      { changes: [{ field: 'title', before: 'Antigo', after: 'Novo título' }] }
+    );
+
+    expect(notification.heading).toBe('✏️ Conteúdo Atualizado');
+
+    const discord = formatDiscordMessage(notification);
+    expect(discord.embeds[0].description).toContain('• **Título:** ~~Antigo~~ → Novo título');
+    expect(discord.embeds[0].url).toBe('https://vibeflow.site/workflows/novo');
+  });
+
+  test('requires content for publications', () => {
+    expect(() => describeNotification('blog_post', 'published', null)).toThrow();
+  });
+});
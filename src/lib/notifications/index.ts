@@ -0,0 +1,26 @@
+/**
+ * Notification Channel Utilities
+ *
+ * Central export point for the provider-agnostic notification content and
+ * the Discord, Microsoft Teams and generic JSON formatters. Slack messages
+ * are formatted by ../slack.
+ *
+ * The formatters live in supabase/functions/_shared/notifications and are
+ * shared with the Edge Functions.
+ */
+
+export {
+  describeWorkflow,
+  describeMcpServer,
+  describeBlogPost,
+  describeIdeNews,
+  describeContent,
+  describeNotification,
+  describeTestMessage,
+  describeJobFailureAlert,
+  describeMcpHealthAlert,
+} from '../../../supabase/functions/_shared/notifications/content';
+export { formatDiscordMessage } from '../../../supabase/functions/_shared/notifications/discord';
+export { formatTeamsMessage } from '../../../supabase/functions/_shared/notifications/teams';
+export { formatGenericPayload } from '../../../supabase/functions/_shared/notifications/generic';
+export { formatProviderMessage } from '../../../supabase/functions/_shared/notifications/providers';
@@ -0,0 +1,38 @@
+/**
+ * Tests for the search_catalog() result helpers
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { splitHighlight, searchHitHref } from '../highlight';
+
+describe('splitHighlight', () => {
+  test('splits ts_headline output into plain and matched segments', () => {
+    expect(splitHighlight('Guia de <mark>automação</mark> com <mark>n8n</mark>')).toEqual([
+      { text: 'Guia de ', match: false },
+      { text: 'automação', match: true },
+      { text: ' com ', match: false },
+      { text: 'n8n', match: true },
+    ]);
+  });
+
+  test('keeps other markup as plain text', () => {
+    expect(splitHighlight('<b>MCP</b> <mark>server</mark>')).toEqual([
+      { text: '<b>MCP</b> ', match: false },
+      { text: 'server', match: true },
+    ]);
+  });
+
+  test('returns the whole text when nothing matched', () => {
+    expect(splitHighlight('Sem destaque')).toEqual([{ text: 'Sem destaque', match: false }]);
+    expect(splitHighlight('')).toEqual([]);
+  });
+});
+
+describe('searchHitHref', () => {
+  test('links catalog items to their pages and sites to their URL', () => {
+    expect(searchHitHref({ content_type: 'workflow', slug: 'n8n-slack', url: null })).toBe('/workflows/n8n-slack');
+    expect(searchHitHref({ content_type: 'mcp_server', slug: 'filesystem', url: null })).toBe('/mcp-servers/filesystem');
+    expect(searchHitHref({ content_type: 'blog_post', slug: 'vibe-coding', url: null })).toBe('/blog/vibe-coding');
+    expect(searchHitHref({ content_type: 'recommended_site', slug: 'v0', url: 'https://v0.dev' })).toBe('https://v0.dev');
+  });
+});
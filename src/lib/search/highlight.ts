@@ -0,0 +1,68 @@
+/**
+ * Helpers for rendering search_catalog() results
+ */
+
+import type { CatalogSearchHit, SearchContentType } from '../../types/search';
+
+/**
+ * A piece of highlighted text; `match` pieces were wrapped in <mark>
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const MARK_PATTERN = /<mark>([\s\S]*?)<\/mark>/g;
+
+/**
+ * Splits a ts_headline() result into plain and matched segments, so the
+ * text is rendered by React (escaped) instead of as HTML
+ */
+export function splitHighlight(highlighted: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+
+  for (const match of highlighted.matchAll(MARK_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > last) {
+      segments.push({ text: highlighted.slice(last, start), match: false });
+    }
+    if (match[1]) {
+      segments.push({ text: match[1], match: true });
+    }
+    last = start + match[0].length;
+  }
+
+  if (last < highlighted.length) {
+    segments.push({ text: highlighted.slice(last), match: false });
+  }
+
+  return segments;
+}
+
+/**
+ * Group label of each content type in the global search
+ */
+export const SEARCH_CONTENT_LABELS: Record<SearchContentType, string> = {
+  workflow: 'Workflows',
+  mcp_server: 'MCP Servers',
+  blog_post: 'Artigos',
+  recommended_site: 'Sites recomendados',
+};
+
+/**
+ * Where a result leads: an app route, or the site itself for recommended
+ * sites
+ */
+export function searchHitHref(hit: Pick<CatalogSearchHit, 'content_type' | 'slug' | 'url'>): string {
+  switch (hit.content_type) {
+    case 'workflow':
+      return `/workflows/${hit.slug}`;
+    case 'mcp_server':
+      return `/mcp-servers/${hit.slug}`;
+    case 'blog_post':
+      return `/blog/${hit.slug}`;
+    case 'recommended_site':
+      return hit.url ?? '/recommended-sites';
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Catalog Search Utilities
+ *
+ * Central export point for the helpers used by the global search (Ctrl+K)
+ * and the page searches backed by the search_catalog() RPC.
+ */
+
+export { splitHighlight, searchHitHref, SEARCH_CONTENT_LABELS } from './highlight';
+export type { HighlightSegment } from './highlight';
@@ -0,0 +1,99 @@
+/**
+ * Property-Based Tests for formatUpdatedMessage and formatDeletedMessage
+ *
+ * Feature: slack-community-integration
+ *
+ * These property-based tests validate the update and deletion message
+ * variants: updates carry a diff summary and a link, deletions strike the
+ * title through and carry no link at all.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import fc from 'fast-check';
+import { formatUpdatedMessage, formatDeletedMessage } from '../formatters';
+
+const summaryArb = fc.record({
+  kind: fc.constantFrom('Workflow', 'MCP Server', 'Artigo'),
+  title: fc.string({ minLength: 1, maxLength: 100 }),
+  url: fc.webUrl(),
+});
+
+const changeArb = fc.record({
+  field: fc.constantFrom('title', 'description', 'content', 'tags', 'custom_field'),
+  before: fc.option(fc.string({ maxLength: 150 }), { nil: null }),
+  after: fc.option(fc.string({ maxLength: 150 }), { nil: null }),
+});
+
+describe('formatUpdatedMessage - Property-Based Tests', () => {
+  /**
+   * Property: Update message content
+   *
+   * For any updated content, the message should include the title, a
+   * button linking to the content, and one diff line per changed field
+   * (max 10, plus a "more fields" line).
+   */
+  test('Property: Update message content', () => {
+    fc.assert(
+      fc.property(summaryArb, fc.array(changeArb, { maxLength: 15 }), (summary, changes) => {
+        const message = formatUpdatedMessage(summary, changes);
+
+        expect(message.blocks[0].type).toBe('header');
+        expect(message.blocks[0].text?.text).toBe('✏️ Conteúdo Atualizado');
+        expect(message.blocks[1].text?.text).toContain(`*${summary.title}*`);
+        expect(message.text).toContain(summary.title);
+
+        const actions = message.blocks[message.blocks.length - 1];
+        expect(actions.type).toBe('actions');
+        expect(actions.elements?.[0].url).toBe(summary.url);
+
+        const diffBlock = message.blocks.find(b => b.text?.text.startsWith('*Alterações:*'));
+        if (changes.length === 0) {
+          expect(diffBlock).toBeUndefined();
+        } else {
+          const lines = diffBlock!.text!.text.split('\n').slice(1);
+          expect(lines.length).toBe(Math.min(changes.length, 10) + (changes.length > 10 ? 1 : 0));
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('shows short values inline and summarizes long ones', () => {
+    const message = formatUpdatedMessage(
+      { kind: 'Workflow', title: 'Novo título', url: 'https://vibeflow.site/workflows/x' },
+      [
+        { field: 'title', before: 'Título antigo', after: 'Novo título' },
+        { field: 'content', before: 'a'.repeat(200), after: 'b'.repeat(200) },
+        { field: 'custom_field', before: null, after: 'valor' },
+      ]
+    );
+
+    const diff = message.blocks[2].text!.text;
+    expect(diff).toContain('• *Título:* ~Título antigo~ → Novo título');
+    expect(diff).toContain('• *Conteúdo* atualizado');
+    expect(diff).toContain('• *custom_field* atualizado');
+  });
+});
+
+describe('formatDeletedMessage - Property-Based Tests', () => {
+  /**
+   * Property: Deletion message content
+   *
+   * For any deleted content, the message should strike through the title
+   * and contain no buttons or links.
+   */
+  test('Property: Deletion message has struck-through title and no link', () => {
+    fc.assert(
+      fc.property(summaryArb, ({ kind, title }) => {
+        const message = formatDeletedMessage({ kind, title });
+
+        expect(message.blocks[0].text?.text).toBe('🗑️ Conteúdo Removido');
+        expect(message.blocks[1].text?.text).toContain(`~${title}~`);
+        expect(message.blocks.some(b => b.type === 'actions')).toBe(false);
+        expect(JSON.stringify(message)).not.toContain('"url"');
+        expect(message.text).toContain(title);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Property-Based Tests for the feedback buttons
+ *
+ * Feature: slack-community-integration
+ *
+ * For any workflow or MCP server and any feedback counts, the feedback block
+ * should carry one button per action whose value round-trips to the content
+ * item, and refreshing the counts should replace the block instead of
+ * adding another one.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import fc from 'fast-check';
+import {
+  formatFeedbackBlock,
+  withFeedbackBlock,
+  parseFeedbackValue,
+  formatWorkflowMessage,
+  FEEDBACK_BLOCK_ID,
+} from '../formatters';
+import type { FeedbackCounts } from '../../../types/slack';
+
+const contentTypeArb = fc.constantFrom('workflow' as const, 'mcp_server' as const);
+
+const countsArb: fc.Arbitrary<FeedbackCounts> = fc.record({
+  useful: fc.nat({ max: 10000 }),
+  save: fc.nat({ max: 10000 }),
+  report: fc.nat({ max: 10000 }),
+});
+
+describe('Feedback buttons - Property-Based Tests', () => {
+  test('Property: Every button value round-trips to the content item', () => {
+    fc.assert(
+      fc.property(contentTypeArb, fc.uuid(), countsArb, (contentType, contentId, counts) => {
+        const block = formatFeedbackBlock(contentType, contentId, counts);
+
+        expect(block.type).toBe('actions');
+        expect(block.block_id).toBe(FEEDBACK_BLOCK_ID);
+        expect(block.elements?.map(e => e.action_id)).toEqual([
+          'feedback_useful',
+          'feedback_save',
+          'feedback_report',
+        ]);
+        block.elements?.forEach((element) => {
+          expect(parseFeedbackValue(element.value!)).toEqual({ contentType, contentId });
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Property: Useful and save buttons show their counts, report does not', () => {
+    fc.assert(
+      fc.property(contentTypeArb, fc.uuid(), countsArb, (contentType, contentId, counts) => {
+        const [useful, save, report] = formatFeedbackBlock(contentType, contentId, counts).elements!
+          .map(e => (typeof e.text === 'string' ? e.text : e.text!.text));
+
+        expect(useful.endsWith(` (${counts.useful})`)).toBe(counts.useful > 0);
+        expect(save.endsWith(` (${counts.save})`)).toBe(counts.save > 0);
+        expect(report).toBe('🚩 Reportar problema');
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Property: Refreshing counts keeps a single feedback block', () => {
+    fc.assert(
+      fc.property(contentTypeArb, fc.uuid(), fc.array(countsArb, { minLength: 1, maxLength: 5 }), (contentType, contentId, updates) => {
+        const original = formatWorkflowMessage({
+          id: contentId,
+          title: 'Workflow',
+          slug: 'workflow',
+          description: null,
+          content: '',
+          image_url: null,
+          is_published: true,
+          created_at: '2026-01-01T00:00:00Z',
+        });
+
+        const refreshed = updates.reduce(
+          (message, counts) => withFeedbackBlock(message, contentType, contentId, counts),
+          withFeedbackBlock(original, contentType, contentId)
+        );
+
+        expect(refreshed.blocks.length).toBe(original.blocks.length + 1);
+        expect(refreshed.blocks.slice(0, -1)).toEqual(original.blocks);
+        expect(refreshed.blocks[refreshed.blocks.length - 1]).toEqual(
+          formatFeedbackBlock(contentType, contentId, updates[updates.length - 1])
+        );
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('parseFeedbackValue', () => {
+  test('rejects values that are not feedback values', () => {
+    expect(parseFeedbackValue('')).toBeNull();
+    expect(parseFeedbackValue('workflow')).toBeNull();
+    expect(parseFeedbackValue('workflow:')).toBeNull();
+    expect(parseFeedbackValue('blog_post:123')).toBeNull();
+  });
+});
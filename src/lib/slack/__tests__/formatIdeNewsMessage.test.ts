@@ -356,4 +356,50 @@ describe('formatIdeNewsMessage', () => {
     expect(sectionBlock.text?.text).toMatch(/\*Markdown Test\*/);
     expect(sectionBlock.text?.text).toMatch(/<https:\/\/example\.com\/news\|Ler mais>/);
   });
+
+  /**
+   * Unit Test: Portuguese summary and tags
+   * 
+   * - resumo_ia (generated by sync-ide-news) replaces the source excerpt
+   * - Tags are listed after the source name
+   * - Items without resumo_ia keep the original resumo
+   */
+  test('prefers the Portuguese summary and lists tags', () => {
+    const newsItems = [
+      {
+        id: '123',
+        titulo: 'Cursor 1.7',
+        resumo: 'Agent can now take screenshots.',
+        resumo_ia: 'O agente agora tira screenshots e depura a interface. Útil para testar front-ends.',
+        tags: ['agent', 'ui'],
+        link: 'https://example.com/news',
+        fonte: 'Cursor',
+        cor: null,
+        logo: null,
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z',
+      },
+      {
+        id: '456',
+        titulo: 'Windsurf 1.12',
+        resumo: 'Patch release.',
+        resumo_ia: null,
+        tags: [],
+        link: 'https://example.com/news2',
+        fonte: 'Windsurf',
+        cor: null,
+        logo: null,
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z',
+      },
+    ];
+
+    const message = formatIdeNewsMessage(newsItems);
+
+    expect(message.blocks[1].text?.text).toBe(
+      '*Cursor 1.7*\nO agente agora tira screenshots e depura a interface. Útil para testar front-ends.\n' +
+      '<https://example.com/news|Ler mais> • Cursor • `agent` `ui`'
+    );
+    expect(message.blocks[2].text?.text).toBe('*Windsurf 1.12*\nPatch release.\n<https://example.com/news2|Ler mais> • Windsurf');
+  });
 });
@@ -0,0 +1,55 @@
+/**
+ * Tests for the scheduled job failure alert
+ *
+ * collect_scheduled_job_runs() sends this alert through notify-slack when a
+ * job reaches its failure_threshold consecutive failures. Slack channels get
+ * the Block Kit message; the other providers get the same information
+ * through describeJobFailureAlert.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { formatJobFailureAlert } from '../formatters';
+import { describeJobFailureAlert, formatGenericPayload } from '../../notifications';
+import type { ScheduledJobAlert } from '../../../types/notifications';
+
+const alert: ScheduledJobAlert = {
+  job_name: 'sync-ide-news',
+  function_name: 'sync-ide-news',
+  consecutive_failures: 3,
+  last_http_status: 500,
+  last_error: 'HTTP 500: {"success":false,"error":"Nenhuma fonte respondeu"}',
+  last_run_at: '2026-01-29T08:00:00+00:00',
+};
+
+describe('formatJobFailureAlert', () => {
+  test('names the job, the failure streak and the last error', () => {
+    const message = formatJobFailureAlert(alert);
+
+    expect(message.text).toBe('Job agendado sync-ide-news falhou 3 vezes seguidas');
+    const text = message.blocks[0].text?.text ?? '';
+    expect(text).toContain('*Job agendado falhando: sync-ide-news*');
+    expect(text).toContain('*Falhas seguidas:* 3');
+    expect(text).toContain('*Último status HTTP:* 500');
+    expect(text).toContain('>HTTP 500: {"success":false,"error":"Nenhuma fonte respondeu"}');
+    expect(message.blocks[1].elements?.[0].text).toBe('Última execução em 2026-01-29T08:00:00+00:00');
+  });
+
+  test('handles runs that never got an HTTP response', () => {
+    const message = formatJobFailureAlert({ ...alert, last_http_status: null, last_error: null });
+
+    const text = message.blocks[0].text?.text ?? '';
+    expect(text).not.toContain('status HTTP');
+    expect(text).toContain('falhou sem mensagem de erro');
+  });
+});
+
+describe('describeJobFailureAlert', () => {
+  test('is sent to generic webhooks as a scheduled_job.failed event', () => {
+    const payload = formatGenericPayload(describeJobFailureAlert(alert));
+
+    expect(payload.event).toBe('scheduled_job.failed');
+    expect(payload.content_type).toBeNull();
+    expect(payload.items[0].title).toBe('sync-ide-news');
+    expect(payload.items[0].fields).toContainEqual({ name: 'Falhas seguidas', value: '3' });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for the MCP server health alert
+ *
+ * check-mcp-health sends this alert through notify-slack when catalogued
+ * servers change health status. Slack channels get the Block Kit message;
+ * the other providers get the same information through
+ * describeMcpHealthAlert.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { formatMcpHealthAlert } from '../formatters';
+import { describeMcpHealthAlert, formatGenericPayload } from '../../notifications';
+import type { McpHealthAlert, McpHealthTransition } from '../../../types/notifications';
+
+const transition: McpHealthTransition = {
+  title: 'GitHub MCP Server',
+  slug: 'github-mcp-server',
+  from: 'maintained',
+  to: 'archived',
+  reason: 'Repositório arquivado no GitHub',
+};
+
+const alert: McpHealthAlert = {
+  transitions: [transition],
+  checked_at: '2026-01-29T06:00:00.000Z',
+};
+
+describe('formatMcpHealthAlert', () => {
+  test('lists each server with its old and new status and the reason', () => {
+    const message = formatMcpHealthAlert(alert);
+
+    expect(message.text).toBe('GitHub MCP Server: 🟢 Mantido → 🔴 Arquivado');
+    expect(message.blocks[0].text?.text).toBe('🩺 *Saúde dos MCP Servers: 1 mudança*');
+    const text = message.blocks[1].text?.text ?? '';
+    expect(text).toContain('*<https://vibeflow.site/mcp-servers/github-mcp-server|GitHub MCP Server>*');
+    expect(text).toContain('🟢 Mantido → 🔴 Arquivado');
+    expect(text).toContain('>Repositório arquivado no GitHub');
+    expect(message.blocks[2].elements?.[0].text).toBe('Verificado em 2026-01-29T06:00:00.000Z');
+  });
+
+  test('caps long lists and counts the servers left out', () => {
+    const transitions = Array.from({ length: 23 }, (_, i) => ({
+      ...transition,
+      title: `Servidor ${i}`,
+      slug: `servidor-${i}`,
+      from: 'maintained' as const,
+      to: 'stale' as const,
+    }));
+    const message = formatMcpHealthAlert({ ...alert, transitions });
+
+    expect(message.text).toBe('23 MCP Servers mudaram de status');
+    // Header + 20 servers + context
+    expect(message.blocks).toHaveLength(22);
+    expect(message.blocks[21].elements?.[0].text).toBe('E mais 3 servidores · Verificado em 2026-01-29T06:00:00.000Z');
+  });
+});
+
+describe('describeMcpHealthAlert', () => {
+  test('is sent to generic webhooks as an mcp_server.health_changed event', () => {
+    const payload = formatGenericPayload(describeMcpHealthAlert(alert));
+
+    expect(payload.event).toBe('mcp_server.health_changed');
+    expect(payload.content_type).toBeNull();
+    expect(payload.items[0].title).toBe('GitHub MCP Server');
+    expect(payload.items[0].fields).toContainEqual({ name: 'Status', value: '🟢 Mantido → 🔴 Arquivado' });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Property-Based Tests for formatOnboardingStepMessage
+ *
+ * Feature: slack-community-integration
+ *
+ * For any onboarding step and member name, the message should use the step
+ * title as header, replace every {name} placeholder and list every item of
+ * the step's content list.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import fc from 'fast-check';
+import { formatOnboardingStepMessage } from '../formatters';
+import type { CatalogSearchResult } from '../../../types/slack';
+
+const stepArb = fc.record({
+  title: fc.string({ minLength: 1, maxLength: 150 }),
+  body: fc.array(fc.string({ maxLength: 200 }).map(s => s.replace(/[{}]/g, '')), { minLength: 1, maxLength: 4 })
+    .map(parts => parts.join('{name}')),
+});
+
+const userNameArb = fc.string({ minLength: 1, maxLength: 50 }).filter(s => !s.includes('{name}'));
+
+const itemArb: fc.Arbitrary<CatalogSearchResult> = fc.record({
+  contentType: fc.constantFrom('workflow' as const, 'mcp_server' as const),
+  title: fc.string({ minLength: 1, maxLength: 100 }),
+  url: fc.webUrl({ validSchemes: ['https'] }),
+  description: fc.option(fc.string({ maxLength: 300 }), { nil: null }),
+});
+
+describe('formatOnboardingStepMessage - Property-Based Tests', () => {
+  test('Property: Title is the header and {name} is replaced', () => {
+    fc.assert(
+      fc.property(stepArb, userNameArb, (step, userName) => {
+        const message = formatOnboardingStepMessage(step, userName);
+
+        expect(message.blocks[0]).toEqual({
+          type: 'header',
+          text: { type: 'plain_text', text: step.title, emoji: true },
+        });
+        expect(message.text).toBe(step.title);
+
+        const bodyText = message.blocks[1].text!.text;
+        expect(bodyText).not.toContain('{name}');
+        if (step.body.length <= 2000) {
+          expect(bodyText).toBe(step.body.split('{name}').join(userName));
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Property: Content list items are linked', () => {
+    fc.assert(
+      fc.property(stepArb, userNameArb, fc.array(itemArb, { maxLength: 5 }), (step, userName, items) => {
+        const message = formatOnboardingStepMessage(step, userName, items);
+
+        expect(message.blocks.length).toBe(items.length > 0 ? 3 : 2);
+        items.forEach((item) => {
+          expect(message.blocks[2].text!.text).toContain(`<${item.url}|${item.title}>`);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
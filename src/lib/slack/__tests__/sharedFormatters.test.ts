@@ -0,0 +1,68 @@
+/**
+ * Tests for the formatter module shared with the Edge Functions
+ *
+ * Feature: slack-community-integration
+ *
+ * The frontend tests and the notify-slack / slack-outbox-worker / welcome-bot
+ * Edge Functions must run the same formatter code. These tests fail if a
+ * copy of the formatters reappears in an Edge Function or in src.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as frontendFormatters from '../formatters';
+import * as sharedFormatters from '../../../../supabase/functions/_shared/slack-formatters';
+import * as frontendNotifications from '../../notifications';
+import * as sharedContent from '../../../../supabase/functions/_shared/notifications/content';
+import * as sharedProviders from '../../../../supabase/functions/_shared/notifications/providers';
+
+const ROOT = path.resolve(__dirname, '../../../..');
+const FUNCTIONS_DIR = path.join(ROOT, 'supabase/functions');
+
+function listSourceFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return entry.name === '__tests__' || entry.name === '_shared' ? [] : listSourceFiles(fullPath);
+    }
+    return entry.name.endsWith('.ts') ? [fullPath] : [];
+  });
+}
+
+describe('Shared formatters', () => {
+  test('src/lib/slack/formatters re-exports the shared module', () => {
+    const names = Object.keys(sharedFormatters);
+
+    expect(names.length).toBeGreaterThan(0);
+    expect(Object.keys(frontendFormatters).sort()).toEqual(names.sort());
+    names.forEach((name) => {
+      expect(frontendFormatters[name as keyof typeof frontendFormatters])
+        .toBe(sharedFormatters[name as keyof typeof sharedFormatters]);
+    });
+  });
+
+  test('src/lib/notifications re-exports the shared provider formatters', () => {
+    expect(frontendNotifications.describeNotification).toBe(sharedContent.describeNotification);
+    expect(frontendNotifications.formatProviderMessage).toBe(sharedProviders.formatProviderMessage);
+  });
+
+  test('Edge Functions do not define their own message formatters', () => {
+    listSourceFiles(FUNCTIONS_DIR).forEach((file) => {
+      const relativePath = path.relative(ROOT, file);
+      const source = fs.readFileSync(file, 'utf8');
+
+      expect({ file: relativePath, copy: path.basename(file) === 'formatters.ts' })
+        .toEqual({ file: relativePath, copy: false });
+      expect({ file: relativePath, formatters: source.match(/function format\w*Message\b/g) ?? [] })
+        .toEqual({ file: relativePath, formatters: [] });
+    });
+  });
+
+  test('src wrappers contain no formatter implementations', () => {
+    ['src/lib/slack/formatters.ts', 'src/lib/slack/commands.ts', 'src/lib/notifications/index.ts'].forEach((file) => {
+      const source = fs.readFileSync(path.join(ROOT, file), 'utf8');
+      expect(source).not.toMatch(/\bfunction\b/);
+    });
+  });
+});
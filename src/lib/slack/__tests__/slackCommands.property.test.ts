@@ -0,0 +1,123 @@
+/**
+ * Property-Based Tests for the /vibeflow slash command
+ *
+ * Feature: slack-community-integration
+ *
+ * For any command text, parsing should pick a known subcommand and keep its
+ * argument, and search results should be listed with their links up to
+ * MAX_SEARCH_RESULTS.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import fc from 'fast-check';
+import { parseMentionSearchTerm, parseVibeflowCommand, sanitizeSearchTerm } from '../commands';
+import { formatSearchResultsMessage, MAX_SEARCH_RESULTS } from '../formatters';
+import type { CatalogSearchResult } from '../../../types/slack';
+
+const wordArb = fc.stringMatching(/^[a-z0-9-]{1,20}$/);
+
+const resultArb: fc.Arbitrary<CatalogSearchResult> = fc.record({
+  contentType: fc.constantFrom('workflow' as const, 'mcp_server' as const, 'blog_post' as const, 'ide_news' as const),
+  title: fc.string({ minLength: 1, maxLength: 100 }),
+  url: fc.webUrl({ validSchemes: ['https'] }),
+  description: fc.option(fc.string({ maxLength: 500 }), { nil: null }),
+});
+
+describe('/vibeflow command - Property-Based Tests', () => {
+  test('Property: Subcommands keep their argument', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom('search', 'mcp', 'workflow', 'SEARCH', 'Mcp'),
+        fc.array(wordArb, { minLength: 1, maxLength: 5 }),
+        (name, words) => {
+          const command = parseVibeflowCommand(`  ${name}   ${words.join('  ')} `);
+
+          expect(command.subcommand).toBe(name.toLowerCase());
+          expect(command.argument).toBe(words.join(' '));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Property: Text without a subcommand is a search', () => {
+    fc.assert(
+      fc.property(
+        wordArb.filter(w => !['search', 'mcp', 'workflow', 'news', 'help'].includes(w)),
+        fc.array(wordArb, { maxLength: 3 }),
+        (first, rest) => {
+          const text = [first, ...rest].join(' ');
+          expect(parseVibeflowCommand(text)).toEqual({ subcommand: 'search', argument: text });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Property: Sanitized terms are safe in PostgREST or filters', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 200 }), (term) => {
+        const sanitized = sanitizeSearchTerm(term);
+
+        expect(sanitized).not.toMatch(/[%_,()*\\"']/);
+        expect(sanitized.length).toBeLessThanOrEqual(100);
+        expect(sanitized).toBe(sanitized.trim());
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Property: Mentions are stripped from app_mention text', () => {
+    fc.assert(
+      fc.property(
+        fc.stringMatching(/^U[A-Z0-9]{8}$/),
+        fc.array(wordArb, { minLength: 1, maxLength: 5 }),
+        (botUserId, words) => {
+          const text = `<@${botUserId}> ${words.join(' ')}`;
+          expect(parseMentionSearchTerm(text)).toBe(words.join(' '));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Property: Search results link every listed item', () => {
+    fc.assert(
+      fc.property(fc.array(resultArb, { minLength: 1, maxLength: 25 }), (results) => {
+        const message = formatSearchResultsMessage('postgres', results);
+        const resultBlocks = message.blocks.slice(1, 1 + Math.min(results.length, MAX_SEARCH_RESULTS));
+
+        expect(message.blocks[0].text?.text).toContain(`*${results.length}*`);
+        resultBlocks.forEach((block, i) => {
+          expect(block.text?.text).toContain(`<${results[i].url}|${results[i].title}>`);
+        });
+        expect(message.blocks.length).toBe(
+          1 + Math.min(results.length, MAX_SEARCH_RESULTS) + (results.length > MAX_SEARCH_RESULTS ? 1 : 0)
+        );
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('parseVibeflowCommand', () => {
+  test('falls back to help without text or a required argument', () => {
+    expect(parseVibeflowCommand('')).toEqual({ subcommand: 'help', argument: '' });
+    expect(parseVibeflowCommand('mcp')).toEqual({ subcommand: 'help', argument: '' });
+    expect(parseVibeflowCommand('search   ')).toEqual({ subcommand: 'help', argument: '' });
+  });
+
+  test('ignores arguments of news', () => {
+    expect(parseVibeflowCommand('news cursor')).toEqual({ subcommand: 'news', argument: '' });
+  });
+
+  test('ignores channel and link tokens in mentions', () => {
+    expect(parseMentionSearchTerm('<@U123ABC> postgres <#C123|geral>')).toBe('postgres');
+    expect(parseMentionSearchTerm('<https://vibeflow.site|site> <@U123ABC>')).toBe('');
+  });
+
+  test('lists no results for an empty search', () => {
+    const message = formatSearchResultsMessage('inexistente', []);
+    expect(message.text).toBe('Nenhum resultado para inexistente');
+  });
+});
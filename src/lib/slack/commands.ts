@@ -0,0 +1,9 @@
+/**
+ * /vibeflow Slash Command Parsing
+ * 
+ * Re-exported from the module shared with the slack-commands Edge Function.
+ * 
+ * @see supabase/functions/_shared/slack-commands.ts
+ */
+
+export * from '../../../supabase/functions/_shared/slack-commands';
@@ -5,4 +5,5 @@
  * used in the Slack Community Integration feature.
  */
 
-export { formatWorkflowMessage, formatMcpServerMessage, formatBlogPostMessage, formatIdeNewsMessage, formatWelcomeMessage, truncateMessageText } from './formatters';
+export { formatWorkflowMessage, formatMcpServerMessage, formatBlogPostMessage, formatIdeNewsMessage, formatWelcomeMessage, formatUpdatedMessage, formatDeletedMessage, formatOnboardingStepMessage, formatTestMessage, formatJobFailureAlert, formatMcpHealthAlert, MCP_HEALTH_LABELS, formatFeedbackBlock, withFeedbackBlock, parseFeedbackValue, formatSearchResultsMessage, formatCommandHelpMessage, truncateMessageText } from './formatters';
+export { parseVibeflowCommand, sanitizeSearchTerm } from './commands';
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
@@ -25,6 +25,7 @@ import {
   ExternalLink
 } from 'lucide-react';
 import { useChangelogNews } from '@/hooks/useChangelogNews';
+import { usePublishedCatalog } from '@/hooks/usePublishedCatalog';
 
 interface BlogPost {
   id: string;
@@ -43,10 +44,17 @@ interface BlogPost {
 
 const Blog = () => {
   const navigate = useNavigate();
-  const [posts, setPosts] = useState<BlogPost[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  // Paginado no banco; com termo, em ordem de relevância (search_catalog)
+  const {
+    items: posts,
+    total: totalPosts,
+    categories,
+    loading,
+    hasMore,
+    loadMore,
+  } = usePublishedCatalog<BlogPost>('blog_post', { search: searchTerm, category: selectedCategory });
   const [selectedView, setSelectedView] = useState<'blog' | 'news' | 'workflows' | 'vps' | 'mcp' | 'sites'>('blog');
   const [workflows, setWorkflows] = useState<any[]>([]);
   const [loadingWorkflows, setLoadingWorkflows] = useState(false);
@@ -62,10 +70,6 @@ const Blog = () => {
     atualizar,
   } = useChangelogNews();
 
-  useEffect(() => {
-    fetchPosts();
-  }, []);
-
   useEffect(() => {
     if (selectedView === 'workflows') {
       fetchWorkflows();
@@ -131,32 +135,6 @@ const Blog = () => {
     }
   };
 
-  const fetchPosts = async () => {
-    try {
-      const { data, error } = await (supabase as any)
-        .from('blog_posts')
-        .select('*')
-        .eq('status', 'published')
-        .order('published_at', { ascending: false });
-
-      if (error) throw error;
-      setPosts(data || []);
-    } catch (error) {
-      console.error('Erro ao carregar posts:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const categories = [...new Set(posts.map(p => p.category).filter(Boolean))];
-
-  const filteredPosts = posts.filter(post => {
-    const matchesSearch = post.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (post.excerpt && post.excerpt.toLowerCase().includes(searchTerm.toLowerCase()));
-    const matchesCategory = !selectedCategory || post.category === selectedCategory;
-    return matchesSearch && matchesCategory;
-  });
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('pt-BR', {
       day: '2-digit',
@@ -224,7 +202,7 @@ const Blog = () => {
       </section>
 
       {/* Filtros/Abas */}
-      {posts.length > 0 && (
+      {(posts.length > 0 || categories.length > 0 || searchTerm.trim() !== '') && (
         <section className="py-6 border-b">
           <div className="container mx-auto px-4">
             <div className="flex flex-wrap items-center justify-center gap-2">
@@ -336,12 +314,12 @@ const Blog = () => {
           {/* View: Blog Posts */}
           {selectedView === 'blog' && (
             <>
-              {loading ? (
+              {loading && posts.length === 0 ? (
                 <div className="text-center py-12">
                   <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
                   <p className="text-muted-foreground">Carregando artigos...</p>
                 </div>
-              ) : filteredPosts.length === 0 ? (
+              ) : posts.length === 0 ? (
                 <div className="text-center py-12">
                   <BookOpen className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
                   <h3 className="text-xl font-semibold mb-2">Nenhum artigo encontrado</h3>
@@ -353,7 +331,7 @@ const Blog = () => {
                 </div>
               ) : (
                 <div className="grid gap-8 md:grid-cols-2 lg:grid-cols-3">
-                  {filteredPosts.map((post) => (
+                  {posts.map((post) => (
                     <Card 
                       key={post.id} 
                       className="overflow-hidden hover:shadow-lg transition-all cursor-pointer group"
@@ -428,6 +406,14 @@ const Blog = () => {
                   ))}
                 </div>
               )}
+
+              {hasMore && (
+                <div className="text-center mt-8">
+                  <Button variant="outline" onClick={loadMore} disabled={loading}>
+                    {loading ? 'Carregando...' : `Carregar mais (${posts.length} de ${totalPosts})`}
+                  </Button>
+                </div>
+              )}
             </>
           )}
 
@@ -512,22 +498,49 @@ const Blog = () => {
                       <CardHeader>
                         <div className="flex items-center justify-between gap-2 mb-2">
                           <CardTitle className="text-lg line-clamp-2">{item.titulo}</CardTitle>
-                          {item.fonte && (
-                            <span
-                              className="text-[11px] px-2 py-1 rounded-full font-medium"
-                              style={{
-                                backgroundColor: `${item.cor || '#e5e7eb'}20`,
-                                color: item.cor || '#111827',
-                                border: `1px solid ${item.cor || '#e5e7eb'}`,
-                              }}
-                            >
-                              {item.logo ? `${item.logo} ` : ''}{item.fonte}
-                            </span>
-                          )}
+                          {item.fonte && (() => {
+                            const chipStyle = {
+                              backgroundColor: `${item.cor || '#e5e7eb'}20`,
+                              color: item.cor || '#111827',
+                              border: `1px solid ${item.cor || '#e5e7eb'}`,
+                            };
+                            const chip = `${item.logo ? `${item.logo} ` : ''}${item.fonte}`;
+                            // O chip leva à linha do tempo da IDE
+                            return item.fonte_slug ? (
+                              <Link
+                                to={`/ide-news/${item.fonte_slug}`}
+                                className="text-[11px] px-2 py-1 rounded-full font-medium whitespace-nowrap hover:opacity-80"
+                                style={chipStyle}
+                                title={`Todas as releases de ${item.fonte}`}
+                              >
+                                {chip}
+                              </Link>
+                            ) : (
+                              <span className="text-[11px] px-2 py-1 rounded-full font-medium" style={chipStyle}>
+                                {chip}
+                              </span>
+                            );
+                          })()}
                         </div>
+                        {(item.versao || item.publicado_em) && (
+                          <p className="text-xs text-muted-foreground">
+                            {item.versao && <span className="font-mono">v{item.versao}</span>}
+                            {item.versao && item.publicado_em && ' · '}
+                            {item.publicado_em && new Date(item.publicado_em).toLocaleDateString('pt-BR')}
+                          </p>
+                        )}
                         <CardDescription className="line-clamp-3">
-                          {item.resumo || 'Atualização recente da IDE.'}
+                          {item.resumo_ia || item.resumo || 'Atualização recente da IDE.'}
                         </CardDescription>
+                        {item.tags && item.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {item.tags.map((tag) => (
+                              <Badge key={tag} variant="secondary" className="text-[10px]">
+                                {tag}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
                       </CardHeader>
                       <CardContent className="mt-auto">
                         <Button variant="ghost" className="w-full" asChild>
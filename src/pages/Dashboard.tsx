@@ -37,7 +37,10 @@ import {
   Copy,
   Workflow,
   Plug,
-  Star
+  Star,
+  Slack,
+  UserPlus,
+  Rss
 } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
@@ -164,6 +167,7 @@ const Dashboard = () => {
         { id: 'workflows' as ActiveSection, label: 'Workflows', icon: Workflow, description: 'Automações e processos', external: true, route: '/workflow-manager' },
         { id: 'mcp-servers' as ActiveSection, label: 'MCP Servers', icon: Plug, description: 'Servidores MCP', external: true, route: '/mcp-manager' },
         { id: 'sites' as ActiveSection, label: 'Sites Úteis', icon: Star, description: 'Sites recomendados', external: true, route: '/sites-manager' },
+        { id: 'ide-news' as ActiveSection, label: 'Novidades IDEs', icon: Rss, description: 'Fontes e sincronizações', external: true, route: '/ide-news-manager' },
         { id: 'newsletter', label: 'Newsletter', icon: Send, description: 'Lista de emails' },
       ]
     },
@@ -177,6 +181,8 @@ const Dashboard = () => {
       title: 'Sistema',
       items: [
         { id: 'settings', label: 'Configurações', icon: Settings, description: 'Preferências', external: true, route: '/settings' },
+        { id: 'slack' as ActiveSection, label: 'Notificações', icon: Slack, description: 'Slack, Discord e Teams', external: true, route: '/slack-manager' },
+        { id: 'onboarding' as ActiveSection, label: 'Onboarding', icon: UserPlus, description: 'Boas-vindas no Slack', external: true, route: '/onboarding-manager' },
       ]
     }
   ];
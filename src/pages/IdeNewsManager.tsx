@@ -0,0 +1,853 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import type { IdeNewsAdapterType, IdeNewsSource, IdeNewsSyncRun } from '@/types/ideNews';
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Save,
+  X,
+  Loader2,
+  RefreshCw,
+  Rss,
+  History,
+  Play,
+  ArrowUp,
+  ArrowDown
+} from 'lucide-react';
+
+const ADAPTER_LABELS: Record<IdeNewsAdapterType, string> = {
+  rss: 'RSS / Atom',
+  github_releases: 'GitHub Releases',
+  html: 'HTML (seletores)',
+  markdown: 'Markdown (r.jina.ai)',
+};
+
+const RUN_STATUS_LABELS: Record<IdeNewsSyncRun['status'], string> = {
+  running: 'Em andamento',
+  success: 'Concluída',
+  error: 'Falhou',
+};
+
+const RUNS_PAGE_SIZE = 50;
+const SLUG_PATTERN = /^[a-z0-9-]+$/;
+const REPO_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+
+const configText = (config: IdeNewsSource['adapter_config'], key: string): string => {
+  const value = config?.[key];
+  return typeof value === 'string' ? value : '';
+};
+
+const formatDuration = (run: IdeNewsSyncRun) => {
+  if (!run.sync_completed_at) return '-';
+  const seconds = Math.round((new Date(run.sync_completed_at).getTime() - new Date(run.sync_started_at).getTime()) / 1000);
+  return `${seconds}s`;
+};
+
+const IdeNewsManager = () => {
+  const navigate = useNavigate();
+  const { user, isAdmin, isLoading } = useAuth();
+  const { toast } = useToast();
+
+  const [sources, setSources] = useState<IdeNewsSource[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingSource, setEditingSource] = useState<IdeNewsSource | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [runningSlug, setRunningSlug] = useState<string | null>(null);
+
+  // Form state
+  const [slug, setSlug] = useState('');
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [logo, setLogo] = useState('');
+  const [color, setColor] = useState('#2563eb');
+  const [adapterType, setAdapterType] = useState<IdeNewsAdapterType>('rss');
+  const [feed, setFeed] = useState('');
+  const [repo, setRepo] = useState('');
+  const [itemSelector, setItemSelector] = useState('');
+  const [titleSelector, setTitleSelector] = useState('');
+  const [summarySelector, setSummarySelector] = useState('');
+  const [dateSelector, setDateSelector] = useState('');
+  const [linkSelector, setLinkSelector] = useState('');
+  const [itemLimit, setItemLimit] = useState('5');
+  const [isEnabled, setIsEnabled] = useState(true);
+
+  const [runs, setRuns] = useState<IdeNewsSyncRun[]>([]);
+  const [loadingRuns, setLoadingRuns] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading && (!user || !isAdmin)) {
+      navigate('/auth');
+    }
+  }, [user, isAdmin, isLoading, navigate]);
+
+  const fetchSources = useCallback(async () => {
+    try {
+      const { data, error } = await (supabase as any)
+        .from('ide_news_sources')
+        .select('*')
+        .order('position', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setSources(data || []);
+    } catch (error) {
+      console.error('Erro ao carregar fontes:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível carregar as fontes.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  const fetchRuns = useCallback(async () => {
+    setLoadingRuns(true);
+    try {
+      const { data, error } = await (supabase as any)
+        .from('ide_news_sync_log')
+        .select('*')
+        .order('sync_started_at', { ascending: false })
+        .limit(RUNS_PAGE_SIZE);
+
+      if (error) throw error;
+      setRuns(data || []);
+    } catch (error) {
+      console.error('Erro ao carregar sincronizações:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível carregar o histórico de sincronizações.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingRuns(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchSources();
+      fetchRuns();
+    }
+  }, [user, isAdmin, fetchSources, fetchRuns]);
+
+  const resetForm = () => {
+    setEditingSource(null);
+    setSlug('');
+    setName('');
+    setUrl('');
+    setLogo('');
+    setColor('#2563eb');
+    setAdapterType('rss');
+    setFeed('');
+    setRepo('');
+    setItemSelector('');
+    setTitleSelector('');
+    setSummarySelector('');
+    setDateSelector('');
+    setLinkSelector('');
+    setItemLimit('5');
+    setIsEnabled(true);
+  };
+
+  const startCreating = () => {
+    resetForm();
+    setIsCreating(true);
+  };
+
+  const startEditing = (source: IdeNewsSource) => {
+    const seletores = (source.adapter_config?.seletores ?? null) as IdeNewsSource['adapter_config'];
+
+    setEditingSource(source);
+    setSlug(source.slug);
+    setName(source.name);
+    setUrl(source.url);
+    setLogo(source.logo ?? '');
+    setColor(source.color ?? '#2563eb');
+    setAdapterType(source.adapter_type);
+    setFeed(configText(source.adapter_config, 'feed'));
+    setRepo(configText(source.adapter_config, 'repo'));
+    setItemSelector(configText(seletores, 'item'));
+    setTitleSelector(configText(seletores, 'titulo'));
+    setSummarySelector(configText(seletores, 'resumo'));
+    setDateSelector(configText(seletores, 'data'));
+    setLinkSelector(configText(seletores, 'link'));
+    setItemLimit(String(source.item_limit));
+    setIsEnabled(source.is_enabled);
+    setIsCreating(true);
+  };
+
+  const cancelEditing = () => {
+    resetForm();
+    setIsCreating(false);
+  };
+
+  // Mesmas regras de sources.ts (sync-ide-news): uma configuração incompleta
+  // faria a fonte falhar em toda sincronização
+  const buildAdapterConfig = (): Record<string, unknown> | string => {
+    switch (adapterType) {
+      case 'rss':
+        return feed.trim() ? { feed: feed.trim() } : 'Informe a URL do feed.';
+      case 'github_releases':
+        return REPO_PATTERN.test(repo.trim()) ? { repo: repo.trim() } : 'Informe o repositório no formato dono/repositorio.';
+      case 'html': {
+        if (!itemSelector.trim() || !titleSelector.trim()) return 'Informe os seletores de item e título.';
+        const seletores: Record<string, string> = { item: itemSelector.trim(), titulo: titleSelector.trim() };
+        if (summarySelector.trim()) seletores.resumo = summarySelector.trim();
+        if (dateSelector.trim()) seletores.data = dateSelector.trim();
+        if (linkSelector.trim()) seletores.link = linkSelector.trim();
+        return { seletores };
+      }
+      case 'markdown':
+        return {};
+    }
+  };
+
+  const handleSave = async () => {
+    if (!slug.trim() || !name.trim() || !url.trim()) {
+      toast({
+        title: 'Campos obrigatórios',
+        description: 'Preencha slug, nome e URL do changelog.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!SLUG_PATTERN.test(slug.trim())) {
+      toast({
+        title: 'Slug inválido',
+        description: 'Use apenas letras minúsculas, números e hífens.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const limit = parseInt(itemLimit, 10);
+    if (isNaN(limit) || limit < 1 || limit > 20) {
+      toast({
+        title: 'Limite inválido',
+        description: 'O limite deve ser entre 1 e 20 itens.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const adapterConfig = buildAdapterConfig();
+    if (typeof adapterConfig === 'string') {
+      toast({
+        title: 'Adaptador incompleto',
+        description: adapterConfig,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const sourceData = {
+        slug: slug.trim(),
+        name: name.trim(),
+        url: url.trim(),
+        logo: logo.trim() || null,
+        color: color || null,
+        adapter_type: adapterType,
+        adapter_config: adapterConfig,
+        item_limit: limit,
+        is_enabled: isEnabled,
+      };
+
+      const { error } = editingSource
+        ? await (supabase as any).from('ide_news_sources').update(sourceData).eq('id', editingSource.id)
+        : await (supabase as any).from('ide_news_sources').insert([{
+          ...sourceData,
+          position: sources.length > 0 ? Math.max(...sources.map(s => s.position)) + 1 : 0,
+        }]);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Sucesso',
+        description: editingSource ? 'Fonte atualizada com sucesso!' : 'Fonte criada com sucesso! Ela entra na próxima sincronização.',
+      });
+
+      await fetchSources();
+      cancelEditing();
+    } catch (error: any) {
+      console.error('Erro ao salvar fonte:', error);
+      toast({
+        title: 'Erro',
+        description: error.code === '23505'
+          ? 'Já existe uma fonte com este slug ou nome.'
+          : error.message || 'Não foi possível salvar a fonte.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleToggleEnabled = async (source: IdeNewsSource) => {
+    try {
+      const { error } = await (supabase as any)
+        .from('ide_news_sources')
+        .update({ is_enabled: !source.is_enabled })
+        .eq('id', source.id);
+
+      if (error) throw error;
+
+      setSources(prev => prev.map(s => (
+        s.id === source.id ? { ...s, is_enabled: !source.is_enabled } : s
+      )));
+    } catch (error: any) {
+      console.error('Erro ao alterar fonte:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível alterar o status da fonte.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Troca a fonte com a vizinha e grava a ordem da lista como position
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= sources.length) return;
+
+    const reordered = [...sources];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const changed = reordered
+      .map((source, position) => ({ id: source.id, position, previous: source.position }))
+      .filter(source => source.position !== source.previous);
+
+    try {
+      const results = await Promise.all(changed.map(source => (
+        (supabase as any).from('ide_news_sources').update({ position: source.position }).eq('id', source.id)
+      )));
+
+      const failed = results.find(result => result.error);
+      if (failed) throw failed.error;
+    } catch (error: any) {
+      console.error('Erro ao reordenar fontes:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível alterar a ordem das fontes.',
+        variant: 'destructive',
+      });
+    } finally {
+      await fetchSources();
+    }
+  };
+
+  const handleDelete = async (source: IdeNewsSource) => {
+    if (!confirm(`Tem certeza que deseja excluir a fonte ${source.name}? As novidades já gravadas continuam até saírem da lista.`)) return;
+
+    try {
+      const { error } = await (supabase as any)
+        .from('ide_news_sources')
+        .delete()
+        .eq('id', source.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Sucesso',
+        description: 'Fonte excluída com sucesso!',
+      });
+
+      await fetchSources();
+    } catch (error: any) {
+      console.error('Erro ao excluir fonte:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível excluir a fonte.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Roda sync-ide-news para uma fonte (ou todas, sem slug)
+  const handleRunNow = async (sourceSlug: string | null) => {
+    setRunningSlug(sourceSlug ?? 'all');
+    try {
+      const { data, error } = await (supabase as any).functions.invoke('sync-ide-news', {
+        body: sourceSlug ? { fonte: sourceSlug } : {},
+      });
+
+      if (error) throw error;
+
+      const failed: string[] = data?.failed_sources ?? [];
+      toast({
+        title: failed.length > 0 ? 'Sincronização com falhas' : 'Sincronização concluída',
+        description: `${data?.items_inserted ?? 0} novas, ${data?.items_updated ?? 0} atualizadas` +
+          (failed.length > 0 ? `. Falharam: ${failed.join(', ')}` : ''),
+        variant: failed.length > 0 ? 'destructive' : undefined,
+      });
+    } catch (error: any) {
+      console.error('Erro ao sincronizar:', error);
+      toast({
+        title: 'Erro',
+        description: 'A sincronização falhou. Veja o motivo no histórico.',
+        variant: 'destructive',
+      });
+    } finally {
+      setRunningSlug(null);
+      await fetchRuns();
+    }
+  };
+
+  if (isLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container mx-auto px-4 py-24">
+          <div className="text-center">
+            <Loader2 className="h-12 w-12 animate-spin text-primary mx-auto mb-4" />
+            <p className="text-muted-foreground">Carregando...</p>
+          </div>
+        </div>
+        <Footer />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <div className="container mx-auto px-4 py-24">
+        <div className="max-w-6xl mx-auto">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2">Novidades das IDEs</h1>
+            <p className="text-muted-foreground">
+              Fontes lidas pela sincronização diária (08:00 UTC) e histórico das execuções
+            </p>
+          </div>
+
+          <Tabs defaultValue="sources" className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="sources" className="flex items-center gap-2">
+                <Rss className="h-4 w-4" />
+                Fontes
+              </TabsTrigger>
+              <TabsTrigger value="runs" className="flex items-center gap-2">
+                <History className="h-4 w-4" />
+                Sincronizações
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="sources" className="space-y-6">
+              {!isCreating && (
+                <div className="flex justify-end">
+                  <Button onClick={startCreating}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Nova Fonte
+                  </Button>
+                </div>
+              )}
+
+              {/* Formulário de Criação/Edição */}
+              {isCreating && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>
+                      {editingSource ? 'Editar Fonte' : 'Nova Fonte'}
+                    </CardTitle>
+                    <CardDescription>
+                      O nome aparece nos cards de /blog; renomear uma fonte faz as novidades dela serem gravadas de novo
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid gap-4 md:grid-cols-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="name">Nome *</Label>
+                        <Input
+                          id="name"
+                          value={name}
+                          onChange={(e) => setName(e.target.value)}
+                          placeholder="VS Code"
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="slug">Slug *</Label>
+                        <Input
+                          id="slug"
+                          value={slug}
+                          onChange={(e) => setSlug(e.target.value.toLowerCase())}
+                          placeholder="vscode"
+                          className="font-mono"
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="itemLimit">Itens por sincronização</Label>
+                        <Input
+                          id="itemLimit"
+                          type="number"
+                          min={1}
+                          max={20}
+                          value={itemLimit}
+                          onChange={(e) => setItemLimit(e.target.value)}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="url">Página do changelog *</Label>
+                      <Input
+                        id="url"
+                        type="url"
+                        value={url}
+                        onChange={(e) => setUrl(e.target.value)}
+                        placeholder="https://code.visualstudio.com/updates"
+                      />
+                    </div>
+
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="logo">Logo (emoji)</Label>
+                        <Input
+                          id="logo"
+                          value={logo}
+                          onChange={(e) => setLogo(e.target.value)}
+                          placeholder="🧩"
+                          maxLength={8}
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="color">Cor</Label>
+                        <div className="flex gap-2">
+                          <Input
+                            id="color"
+                            type="color"
+                            value={color}
+                            onChange={(e) => setColor(e.target.value)}
+                            className="w-16 p-1"
+                          />
+                          <Input
+                            value={color}
+                            onChange={(e) => setColor(e.target.value)}
+                            className="font-mono"
+                            maxLength={7}
+                          />
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="adapterType">Adaptador *</Label>
+                      <Select value={adapterType} onValueChange={(value) => setAdapterType(value as IdeNewsAdapterType)}>
+                        <SelectTrigger id="adapterType">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(ADAPTER_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {adapterType === 'rss' && (
+                      <div className="space-y-2">
+                        <Label htmlFor="feed">URL do feed *</Label>
+                        <Input
+                          id="feed"
+                          type="url"
+                          value={feed}
+                          onChange={(e) => setFeed(e.target.value)}
+                          placeholder="https://blog.jetbrains.com/feed/"
+                        />
+                      </div>
+                    )}
+
+                    {adapterType === 'github_releases' && (
+                      <div className="space-y-2">
+                        <Label htmlFor="repo">Repositório *</Label>
+                        <Input
+                          id="repo"
+                          value={repo}
+                          onChange={(e) => setRepo(e.target.value)}
+                          placeholder="microsoft/vscode"
+                          className="font-mono"
+                        />
+                      </div>
+                    )}
+
+                    {adapterType === 'html' && (
+                      <div className="space-y-2">
+                        <p className="text-xs text-muted-foreground">
+                          Seletores no formato tag, .classe ou tag.classe
+                        </p>
+                        <div className="grid gap-4 md:grid-cols-5">
+                          {[
+                            { id: 'itemSelector', label: 'Item *', value: itemSelector, set: setItemSelector, placeholder: 'article' },
+                            { id: 'titleSelector', label: 'Título *', value: titleSelector, set: setTitleSelector, placeholder: 'h2' },
+                            { id: 'summarySelector', label: 'Resumo', value: summarySelector, set: setSummarySelector, placeholder: 'p' },
+                            { id: 'dateSelector', label: 'Data', value: dateSelector, set: setDateSelector, placeholder: 'time' },
+                            { id: 'linkSelector', label: 'Link', value: linkSelector, set: setLinkSelector, placeholder: 'a' },
+                          ].map(field => (
+                            <div key={field.id} className="space-y-2">
+                              <Label htmlFor={field.id}>{field.label}</Label>
+                              <Input
+                                id={field.id}
+                                value={field.value}
+                                onChange={(e) => field.set(e.target.value)}
+                                placeholder={field.placeholder}
+                                className="font-mono"
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {adapterType === 'markdown' && (
+                      <p className="text-xs text-muted-foreground">
+                        A página é convertida em markdown pelo r.jina.ai; cada heading vira uma novidade.
+                      </p>
+                    )}
+
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="enabled"
+                        checked={isEnabled}
+                        onCheckedChange={setIsEnabled}
+                      />
+                      <Label htmlFor="enabled">Fonte ativa</Label>
+                    </div>
+
+                    <div className="flex gap-2 pt-4">
+                      <Button onClick={handleSave}>
+                        <Save className="h-4 w-4 mr-2" />
+                        {editingSource ? 'Atualizar' : 'Criar'}
+                      </Button>
+                      <Button variant="outline" onClick={cancelEditing}>
+                        <X className="h-4 w-4 mr-2" />
+                        Cancelar
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Lista de Fontes */}
+              <Card>
+                <CardContent className="p-0">
+                  {sources.length === 0 ? (
+                    <p className="py-12 text-center text-muted-foreground">
+                      Nenhuma fonte cadastrada. A sincronização não terá o que ler.
+                    </p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Ordem</TableHead>
+                          <TableHead>Fonte</TableHead>
+                          <TableHead>Adaptador</TableHead>
+                          <TableHead>Itens</TableHead>
+                          <TableHead>Ativa</TableHead>
+                          <TableHead className="text-right">Ações</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {sources.map((source, index) => (
+                          <TableRow key={source.id}>
+                            <TableCell>
+                              <div className="flex gap-1">
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => handleMove(index, -1)}
+                                  disabled={index === 0}
+                                  aria-label="Subir"
+                                >
+                                  <ArrowUp className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => handleMove(index, 1)}
+                                  disabled={index === sources.length - 1}
+                                  aria-label="Descer"
+                                >
+                                  <ArrowDown className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-3">
+                                <span
+                                  className="flex h-8 w-8 items-center justify-center rounded-md text-lg"
+                                  style={{ backgroundColor: source.color ? `${source.color}22` : undefined }}
+                                >
+                                  {source.logo ?? '📰'}
+                                </span>
+                                <div>
+                                  <span className="font-medium">{source.name}</span>
+                                  <a
+                                    href={source.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="block font-mono text-xs text-muted-foreground hover:underline"
+                                  >
+                                    {source.slug}
+                                  </a>
+                                </div>
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{ADAPTER_LABELS[source.adapter_type] ?? source.adapter_type}</Badge>
+                            </TableCell>
+                            <TableCell>{source.item_limit}</TableCell>
+                            <TableCell>
+                              <Switch
+                                checked={source.is_enabled}
+                                onCheckedChange={() => handleToggleEnabled(source)}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleRunNow(source.slug)}
+                                  disabled={!source.is_enabled || runningSlug !== null}
+                                  title={source.is_enabled ? 'Rodar agora só esta fonte' : 'Ative a fonte para sincronizá-la'}
+                                >
+                                  {runningSlug === source.slug
+                                    ? <Loader2 className="h-4 w-4 animate-spin" />
+                                    : <Play className="h-4 w-4" />}
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => startEditing(source)}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleDelete(source)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="runs" className="space-y-6">
+              <div className="flex justify-end gap-2">
+                <Button onClick={() => handleRunNow(null)} disabled={runningSlug !== null}>
+                  {runningSlug === 'all'
+                    ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    : <Play className="h-4 w-4 mr-2" />}
+                  Sincronizar todas
+                </Button>
+                <Button variant="outline" onClick={fetchRuns} disabled={loadingRuns}>
+                  <RefreshCw className={`h-4 w-4 mr-2 ${loadingRuns ? 'animate-spin' : ''}`} />
+                  Atualizar
+                </Button>
+              </div>
+
+              <Card>
+                <CardContent className="p-0">
+                  {runs.length === 0 ? (
+                    <p className="py-12 text-center text-muted-foreground">
+                      Nenhuma sincronização registrada ainda.
+                    </p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Início</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Itens</TableHead>
+                          <TableHead>Fontes</TableHead>
+                          <TableHead>Erro</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {runs.map((run) => (
+                          <TableRow key={run.id}>
+                            <TableCell className="whitespace-nowrap text-sm">
+                              {new Date(run.sync_started_at).toLocaleString('pt-BR')}
+                              <span className="block text-xs text-muted-foreground">
+                                {run.source_slug ? `Só ${run.source_slug}` : 'Todas as fontes'} · {formatDuration(run)}
+                              </span>
+                            </TableCell>
+                            <TableCell>
+                              <Badge
+                                variant={run.status === 'error' ? 'destructive' : run.status === 'success' ? 'default' : 'secondary'}
+                              >
+                                {RUN_STATUS_LABELS[run.status] ?? run.status}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap text-sm">
+                              {run.items_fetched} lidos
+                              <span className="block text-xs text-muted-foreground">
+                                {run.items_inserted} novos · {run.items_updated} atualizados
+                              </span>
+                            </TableCell>
+                            <TableCell>
+                              {(run.source_results ?? []).length === 0 ? (
+                                <span className="text-xs text-muted-foreground">
+                                  {run.failed_sources?.length > 0 ? `Falharam: ${run.failed_sources.join(', ')}` : '-'}
+                                </span>
+                              ) : (
+                                <div className="flex flex-wrap gap-1">
+                                  {run.source_results.map((result) => (
+                                    <Badge
+                                      key={result.source}
+                                      variant={result.status === 'success' ? 'outline' : 'destructive'}
+                                      title={result.error ?? undefined}
+                                    >
+                                      {result.name} {result.status === 'success' ? `(${result.items})` : '✕'}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell className="max-w-xs truncate text-xs text-muted-foreground" title={run.error_message ?? undefined}>
+                              {run.error_message ?? '-'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default IdeNewsManager;
@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { ArrowLeft, ArrowRight, Calendar, Tag } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface Release {
+  id: string;
+  titulo: string;
+  resumo: string | null;
+  link: string;
+  fonte: string;
+  cor: string | null;
+  logo: string | null;
+  versao: string | null;
+  resumo_ia: string | null;
+  tags: string[];
+  publicado_em: string | null;
+  created_at: string;
+}
+
+// cleanup_old_ide_news mantém 200 novidades por fonte
+const TIMELINE_LIMIT = 200;
+
+/** Data exibida: a da release, ou a primeira vez que a sincronização a viu */
+const releaseDate = (release: Release) => release.publicado_em ?? release.created_at;
+
+const IdeNewsTimeline = () => {
+  const { fonte } = useParams<{ fonte: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [releases, setReleases] = useState<Release[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReleases = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await (supabase as any)
+        .from('ide_news')
+        .select('id, titulo, resumo, link, fonte, cor, logo, versao, resumo_ia, tags, publicado_em, created_at')
+        .eq('fonte_slug', fonte)
+        .order('publicado_em', { ascending: false, nullsFirst: false })
+        .order('created_at', { ascending: false })
+        .limit(TIMELINE_LIMIT);
+
+      if (error) throw error;
+      // Releases sem data da fonte entram pela data em que foram vistas
+      setReleases((data || []).sort((a: Release, b: Release) => (
+        new Date(releaseDate(b)).getTime() - new Date(releaseDate(a)).getTime()
+      )));
+    } catch (error) {
+      console.error('Erro ao carregar linha do tempo:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível carregar as releases.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [fonte, toast]);
+
+  useEffect(() => {
+    if (fonte) {
+      fetchReleases();
+    }
+  }, [fonte, fetchReleases]);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('pt-BR', {
+      day: '2-digit',
+      month: 'long',
+      year: 'numeric'
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container mx-auto px-4 py-24">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Carregando releases...</p>
+          </div>
+        </div>
+        <Footer />
+      </div>
+    );
+  }
+
+  if (releases.length === 0) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container mx-auto px-4 py-24">
+          <div className="text-center">
+            <h2 className="text-2xl font-bold mb-4">Nenhuma release encontrada para esta IDE</h2>
+            <Button onClick={() => navigate('/blog')}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Voltar para o blog
+            </Button>
+          </div>
+        </div>
+        <Footer />
+      </div>
+    );
+  }
+
+  // Nome, logo e cor vêm da release mais recente
+  const [latest] = releases;
+  const color = latest.cor || '#111827';
+  const years = releases.reduce<{ year: number; releases: Release[] }[]>((groups, release) => {
+    const year = new Date(releaseDate(release)).getFullYear();
+    const last = groups[groups.length - 1];
+    if (last?.year === year) {
+      last.releases.push(release);
+    } else {
+      groups.push({ year, releases: [release] });
+    }
+    return groups;
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <article className="container mx-auto px-4 py-24">
+        {/* Botão Voltar */}
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/blog')}
+          className="mb-6"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Voltar para o blog
+        </Button>
+
+        {/* Cabeçalho */}
+        <div className="max-w-3xl mx-auto mb-12">
+          <p className="text-sm text-muted-foreground uppercase tracking-widest mb-2">Linha do tempo</p>
+          <h1 className="text-4xl md:text-5xl font-bold mb-4">
+            {latest.logo ? `${latest.logo} ` : ''}{latest.fonte}
+          </h1>
+          <p className="text-muted-foreground">
+            {releases.length === 1 ? '1 release' : `${releases.length} releases`}
+            {latest.versao && <> · versão mais recente <span className="font-mono">{latest.versao}</span></>}
+          </p>
+        </div>
+
+        {/* Releases por ano */}
+        <div className="max-w-3xl mx-auto space-y-12">
+          {years.map(({ year, releases: yearReleases }) => (
+            <section key={year}>
+              <h2 className="text-2xl font-bold mb-6">{year}</h2>
+              <ol className="relative border-l-2 ml-3 space-y-8" style={{ borderColor: `${color}40` }}>
+                {yearReleases.map((release) => (
+                  <li key={release.id} className="ml-6">
+                    <span
+                      className="absolute -left-[9px] mt-2 h-4 w-4 rounded-full border-2 border-background"
+                      style={{ backgroundColor: color }}
+                    />
+                    <Card>
+                      <CardContent className="pt-6 space-y-3">
+                        <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+                          {release.versao && (
+                            <Badge variant="outline" className="font-mono" style={{ borderColor: color, color }}>
+                              <Tag className="h-3 w-3 mr-1" />
+                              {release.versao}
+                            </Badge>
+                          )}
+                          <span className="flex items-center gap-1">
+                            <Calendar className="h-4 w-4" />
+                            {formatDate(releaseDate(release))}
+                          </span>
+                        </div>
+                        <h3 className="text-lg font-semibold">{release.titulo}</h3>
+                        {(release.resumo_ia || release.resumo) && (
+                          <p className="text-muted-foreground">{release.resumo_ia || release.resumo}</p>
+                        )}
+                        {release.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {release.tags.map((tag) => (
+                              <Badge key={tag} variant="secondary">{tag}</Badge>
+                            ))}
+                          </div>
+                        )}
+                        <Button variant="link" className="px-0" asChild>
+                          <a href={release.link} target="_blank" rel="noreferrer">
+                            Ver release
+                            <ArrowRight className="h-4 w-4 ml-2" />
+                          </a>
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          ))}
+        </div>
+      </article>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default IdeNewsTimeline;
@@ -12,7 +12,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import type { McpEnvVar, McpImportResponse, McpServerDraft, McpServerDuplicate, McpTransport } from '@/types/mcp';
 import { 
   Plus, 
   Edit, 
@@ -22,7 +25,9 @@ import {
   X,
   Upload,
   Link as LinkIcon,
-  Loader2
+  Loader2,
+  Download,
+  AlertTriangle
 } from 'lucide-react';
 
 interface McpServer {
@@ -37,6 +42,11 @@ interface McpServer {
   npm_package: string | null;
   github_url: string | null;
   install_command: string | null;
+  transport: McpTransport;
+  launch_command: string | null;
+  launch_args: string[];
+  server_url: string | null;
+  env_vars: McpEnvVar[];
   is_published: boolean;
   views_count: number;
   created_at: string;
@@ -64,9 +74,17 @@ const McpManager = () => {
   const [npmPackage, setNpmPackage] = useState('');
   const [githubUrl, setGithubUrl] = useState('');
   const [installCommand, setInstallCommand] = useState('');
+  const [transport, setTransport] = useState<McpTransport>('stdio');
+  const [launchCommand, setLaunchCommand] = useState('');
+  const [launchArgs, setLaunchArgs] = useState('');
+  const [serverUrl, setServerUrl] = useState('');
+  const [envVars, setEnvVars] = useState<McpEnvVar[]>([]);
   const [isPublished, setIsPublished] = useState(false);
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [importSource, setImportSource] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [duplicates, setDuplicates] = useState<McpServerDuplicate[]>([]);
 
   useEffect(() => {
     if (!user) {
@@ -157,6 +175,11 @@ const McpManager = () => {
     setNpmPackage(server.npm_package || '');
     setGithubUrl(server.github_url || '');
     setInstallCommand(server.install_command || '');
+    setTransport(server.transport || 'stdio');
+    setLaunchCommand(server.launch_command || '');
+    setLaunchArgs((server.launch_args || []).join('\n'));
+    setServerUrl(server.server_url || '');
+    setEnvVars(server.env_vars || []);
     setIsPublished(server.is_published);
     setImagePreview(server.image_url);
     setIsCreating(true);
@@ -174,9 +197,78 @@ const McpManager = () => {
     setNpmPackage('');
     setGithubUrl('');
     setInstallCommand('');
+    setTransport('stdio');
+    setLaunchCommand('');
+    setLaunchArgs('');
+    setServerUrl('');
+    setEnvVars([]);
     setIsPublished(false);
     setImageFile(null);
     setImagePreview(null);
+    setImportSource('');
+    setDuplicates([]);
+  };
+
+  const applyDraft = (draft: McpServerDraft) => {
+    setTitle(draft.title);
+    setSlug(draft.slug);
+    setDescription(draft.description || '');
+    setContent(draft.content);
+    setTags(draft.tags.join(', '));
+    setNpmPackage(draft.npm_package || '');
+    setGithubUrl(draft.github_url || '');
+    setInstallCommand(draft.install_command || '');
+    setTransport(draft.transport);
+    setLaunchCommand(draft.launch_command || '');
+    setLaunchArgs(draft.launch_args.join('\n'));
+    setServerUrl(draft.server_url || '');
+    setEnvVars(draft.env_vars);
+  };
+
+  // Pré-preenche o formulário a partir do npm ou do GitHub (import-mcp-server)
+  const handleImport = async () => {
+    if (!importSource.trim()) return;
+
+    setImporting(true);
+    setDuplicates([]);
+    try {
+      const { data, error } = await (supabase as any).functions.invoke('import-mcp-server', {
+        body: { source: importSource.trim() },
+      });
+      const result = data as McpImportResponse | null;
+
+      if (error || !result?.success || !result.draft) {
+        throw new Error(result?.error || error?.message || 'Falha na importação');
+      }
+
+      applyDraft(result.draft);
+      setDuplicates(result.duplicates || []);
+      toast({
+        title: 'Importado',
+        description: 'Revise os campos antes de salvar.',
+      });
+    } catch (error: any) {
+      console.error('Erro ao importar servidor:', error);
+      toast({
+        title: 'Erro',
+        description: error.message || 'Não foi possível importar o servidor.',
+        variant: 'destructive',
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const updateEnvVar = (index: number, changes: Partial<McpEnvVar>) => {
+    setEnvVars(prev => prev.map((envVar, i) => (i === index ? { ...envVar, ...changes } : envVar)));
+  };
+
+  const addEnvVar = () => {
+    setEnvVars(prev => [...prev, { name: '', description: '', required: true, secret: false }]);
+  };
+
+  const removeEnvVar = (index: number) => {
+    setEnvVars(prev => prev.filter((_, i) => i !== index));
   };
 
   const cancelEditing = () => {
@@ -194,6 +286,15 @@ const McpManager = () => {
       return;
     }
 
+    if (transport !== 'stdio' && !serverUrl.trim()) {
+      toast({
+        title: 'URL do servidor obrigatória',
+        description: 'Servidores SSE/HTTP precisam da URL do endpoint.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     try {
       let finalImageUrl = imageUrl;
 
@@ -210,6 +311,22 @@ const McpManager = () => {
         .map(t => t.trim())
         .filter(Boolean);
 
+      // Um argumento por linha (argumentos podem conter espaços)
+      const argsArray = launchArgs
+        .split('\n')
+        .map(a => a.trim())
+        .filter(Boolean);
+
+      const envVarsData = envVars
+        .map(envVar => ({
+          name: envVar.name.trim(),
+          description: envVar.description.trim(),
+          required: envVar.required,
+          secret: envVar.secret,
+          ...(!envVar.secret && envVar.example?.trim() ? { example: envVar.example.trim() } : {}),
+        }))
+        .filter(envVar => envVar.name);
+
       const serverData = {
         title,
         slug,
@@ -221,6 +338,11 @@ const McpManager = () => {
         npm_package: npmPackage || null,
         github_url: githubUrl || null,
         install_command: installCommand || null,
+        transport,
+        launch_command: transport === 'stdio' ? launchCommand.trim() || null : null,
+        launch_args: transport === 'stdio' ? argsArray : [],
+        server_url: transport === 'stdio' ? null : serverUrl.trim(),
+        env_vars: transport === 'stdio' ? envVarsData : [],
         is_published: isPublished,
         author_id: user?.id,
         author_name: user?.email?.split('@')[0] || 'Admin',
@@ -338,6 +460,58 @@ const McpManager = () => {
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
+                {!editingServer && (
+                  <div className="space-y-2 rounded-lg border border-dashed p-4">
+                    <Label htmlFor="importSource">Importar do npm ou GitHub</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="importSource"
+                        value={importSource}
+                        onChange={(e) => setImportSource(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleImport()}
+                        placeholder="@modelcontextprotocol/server-github ou https://github.com/dono/repo"
+                        disabled={importing}
+                      />
+                      <Button variant="outline" onClick={handleImport} disabled={importing || !importSource.trim()}>
+                        {importing ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <Download className="h-4 w-4 mr-2" />
+                        )}
+                        Importar
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Preenche título, descrição, README, tags e comando de execução a partir do package.json e do README.
+                    </p>
+                  </div>
+                )}
+
+                {duplicates.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Possível duplicata</AlertTitle>
+                    <AlertDescription>
+                      <ul className="mt-1 space-y-1">
+                        {duplicates.map((duplicate) => (
+                          <li key={duplicate.id}>
+                            <a
+                              href={`/mcp-servers/${duplicate.slug}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="underline"
+                            >
+                              {duplicate.title}
+                            </a>{' '}
+                            ({duplicate.match === 'npm_package' ? 'mesmo pacote npm' : 'mesmo slug'}
+                            {!duplicate.is_published && ', rascunho'})
+                          </li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
                 <div className="grid gap-4 md:grid-cols-2">
                   <div className="space-y-2">
                     <Label htmlFor="title">Título *</Label>
@@ -437,6 +611,132 @@ const McpManager = () => {
                   />
                 </div>
 
+                {/* Execução: usada pelo gerador de configuração dos clientes MCP */}
+                <div className="space-y-4 rounded-lg border p-4">
+                  <div>
+                    <h3 className="font-semibold">Execução</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Gera a configuração para Claude Desktop, Cursor, VS Code e Windsurf na página do servidor.
+                    </p>
+                  </div>
+
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label>Transporte</Label>
+                      <Select value={transport} onValueChange={(value) => setTransport(value as McpTransport)}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o transporte" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="stdio">stdio (processo local)</SelectItem>
+                          <SelectItem value="sse">SSE (remoto)</SelectItem>
+                          <SelectItem value="http">HTTP (remoto)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {transport === 'stdio' ? (
+                      <div className="space-y-2">
+                        <Label htmlFor="launchCommand">Comando</Label>
+                        <Input
+                          id="launchCommand"
+                          value={launchCommand}
+                          onChange={(e) => setLaunchCommand(e.target.value)}
+                          placeholder="npx"
+                        />
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label htmlFor="serverUrl">URL do servidor *</Label>
+                        <Input
+                          id="serverUrl"
+                          value={serverUrl}
+                          onChange={(e) => setServerUrl(e.target.value)}
+                          placeholder="https://mcp.exemplo.com/mcp"
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  {transport === 'stdio' && (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="launchArgs">Argumentos (um por linha)</Label>
+                        <Textarea
+                          id="launchArgs"
+                          value={launchArgs}
+                          onChange={(e) => setLaunchArgs(e.target.value)}
+                          placeholder={'-y\n@modelcontextprotocol/server-github'}
+                          rows={3}
+                          className="font-mono text-sm"
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label>Variáveis de ambiente</Label>
+                          <Button type="button" size="sm" variant="outline" onClick={addEnvVar}>
+                            <Plus className="h-4 w-4 mr-2" />
+                            Adicionar variável
+                          </Button>
+                        </div>
+                        {envVars.map((envVar, index) => (
+                          <div key={index} className="space-y-2 rounded-md bg-muted/50 p-3">
+                            <div className="grid gap-2 md:grid-cols-2">
+                              <Input
+                                value={envVar.name}
+                                onChange={(e) => updateEnvVar(index, { name: e.target.value.toUpperCase() })}
+                                placeholder="GITHUB_PERSONAL_ACCESS_TOKEN"
+                                className="font-mono text-sm"
+                              />
+                              <Input
+                                value={envVar.description}
+                                onChange={(e) => updateEnvVar(index, { description: e.target.value })}
+                                placeholder="Token com acesso aos repositórios"
+                              />
+                            </div>
+                            <div className="flex flex-wrap items-center gap-4">
+                              <div className="flex items-center space-x-2">
+                                <Switch
+                                  id={`env-required-${index}`}
+                                  checked={envVar.required}
+                                  onCheckedChange={(checked) => updateEnvVar(index, { required: checked })}
+                                />
+                                <Label htmlFor={`env-required-${index}`}>Obrigatória</Label>
+                              </div>
+                              <div className="flex items-center space-x-2">
+                                <Switch
+                                  id={`env-secret-${index}`}
+                                  checked={envVar.secret}
+                                  onCheckedChange={(checked) => updateEnvVar(index, { secret: checked })}
+                                />
+                                <Label htmlFor={`env-secret-${index}`}>Secreta</Label>
+                              </div>
+                              {!envVar.secret && (
+                                <Input
+                                  value={envVar.example || ''}
+                                  onChange={(e) => updateEnvVar(index, { example: e.target.value })}
+                                  placeholder="Valor de exemplo"
+                                  className="h-8 flex-1 min-w-[160px]"
+                                />
+                              )}
+                              <Button
+                                type="button"
+                                size="sm"
+                                variant="ghost"
+                                className="ml-auto"
+                                onClick={() => removeEnvVar(index)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
+
                 {/* Upload de Imagem */}
                 <div className="space-y-2">
                   <Label>Imagem</Label>
@@ -5,7 +5,10 @@ import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Card, CardContent } from '@/components/ui/card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import McpConfigGenerator from '@/components/McpConfigGenerator';
+import McpHealthBadge from '@/components/McpHealthBadge';
+import McpSelectionBar from '@/components/McpSelectionBar';
 import { 
   ArrowLeft, 
   Calendar, 
@@ -15,14 +18,18 @@ import {
   Package,
   Terminal,
   Copy,
-  Check
+  Check,
+  FileJson,
+  ListPlus,
+  ListChecks
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useMcpSelection } from '@/hooks/useMcpSelection';
+import { hasLaunchConfig } from '@/lib/mcp';
+import type { McpHealthInfo, McpLaunchConfig } from '@/types/mcp';
 
-interface McpServer {
+interface McpServer extends McpLaunchConfig, McpHealthInfo {
   id: string;
-  title: string;
-  slug: string;
   description: string | null;
   content: string;
   image_url: string | null;
@@ -43,6 +50,7 @@ const McpServerPost = () => {
   const [server, setServer] = useState<McpServer | null>(null);
   const [loading, setLoading] = useState(true);
   const [copied, setCopied] = useState(false);
+  const { isSelected, toggle } = useMcpSelection();
 
   useEffect(() => {
     if (slug) {
@@ -146,8 +154,13 @@ const McpServerPost = () => {
 
         {/* Cabeçalho */}
         <div className="max-w-4xl mx-auto mb-8">
-          {server.category && (
-            <Badge className="mb-4">{server.category}</Badge>
+          {(server.category || server.health_status) && (
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              {server.category && (
+                <Badge>{server.category}</Badge>
+              )}
+              <McpHealthBadge server={server} />
+            </div>
           )}
           <h1 className="text-4xl md:text-5xl font-bold mb-4">{server.title}</h1>
           {server.description && (
@@ -219,6 +232,45 @@ const McpServerPost = () => {
             </Card>
           )}
 
+          {/* Gerador de configuração */}
+          {hasLaunchConfig(server) && (
+            <Card className="mb-8">
+              <CardHeader>
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="flex items-center gap-2 text-xl">
+                      <FileJson className="h-5 w-5 text-primary" />
+                      Configuração do cliente
+                    </CardTitle>
+                    <CardDescription>
+                      Cole no arquivo de configuração do seu editor ou assistente.
+                    </CardDescription>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant={isSelected(server.slug) ? 'secondary' : 'outline'}
+                    onClick={() => toggle(server.slug)}
+                  >
+                    {isSelected(server.slug) ? (
+                      <>
+                        <ListChecks className="h-4 w-4 mr-2" />
+                        Na seleção
+                      </>
+                    ) : (
+                      <>
+                        <ListPlus className="h-4 w-4 mr-2" />
+                        Adicionar à seleção
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <McpConfigGenerator servers={[server]} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Tags */}
           {server.tags && server.tags.length > 0 && (
             <div className="flex flex-wrap gap-2 mb-8">
@@ -249,6 +301,7 @@ const McpServerPost = () => {
         />
       </article>
 
+      <McpSelectionBar />
       <Footer />
     </div>
   );
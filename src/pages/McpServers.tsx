@@ -1,12 +1,17 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from '@/integrations/supabase/client';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import McpHealthBadge from '@/components/McpHealthBadge';
+import McpSelectionBar from '@/components/McpSelectionBar';
+import { useMcpSelection } from '@/hooks/useMcpSelection';
+import { usePublishedCatalog } from '@/hooks/usePublishedCatalog';
+import { hasLaunchConfig } from '@/lib/mcp';
+import type { McpHealthInfo, McpLaunchConfig } from '@/types/mcp';
 import { 
   Calendar, 
   Eye, 
@@ -16,13 +21,13 @@ import {
   Plug,
   Github,
   Package,
-  Terminal
+  Terminal,
+  ListPlus,
+  ListChecks
 } from 'lucide-react';
 
-interface McpServer {
+interface McpServer extends McpLaunchConfig, McpHealthInfo {
   id: string;
-  title: string;
-  slug: string;
   description: string | null;
   content: string;
   image_url: string | null;
@@ -38,40 +43,18 @@ interface McpServer {
 
 const McpServers = () => {
   const navigate = useNavigate();
-  const [servers, setServers] = useState<McpServer[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-
-  useEffect(() => {
-    fetchServers();
-  }, []);
-
-  const fetchServers = async () => {
-    try {
-      const { data, error } = await (supabase as any)
-        .from('mcp_servers')
-        .select('*')
-        .eq('is_published', true)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setServers(data || []);
-    } catch (error) {
-      console.error('Erro ao carregar servidores MCP:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const categories = [...new Set(servers.map(s => s.category).filter(Boolean))];
-
-  const filteredServers = servers.filter(server => {
-    const matchesSearch = server.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (server.description && server.description.toLowerCase().includes(searchTerm.toLowerCase()));
-    const matchesCategory = !selectedCategory || server.category === selectedCategory;
-    return matchesSearch && matchesCategory;
-  });
+  // Paginado no banco; com termo, em ordem de relevância (search_catalog)
+  const {
+    items: servers,
+    total,
+    categories,
+    loading,
+    hasMore,
+    loadMore,
+  } = usePublishedCatalog<McpServer>('mcp_server', { search: searchTerm, category: selectedCategory });
+  const { isSelected, toggle } = useMcpSelection();
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('pt-BR', {
@@ -155,12 +138,12 @@ const McpServers = () => {
       {/* Lista de Servidores */}
       <section className="py-12">
         <div className="container mx-auto px-4">
-          {loading ? (
+          {loading && servers.length === 0 ? (
             <div className="text-center py-12">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
               <p className="text-muted-foreground">Carregando servidores MCP...</p>
             </div>
-          ) : filteredServers.length === 0 ? (
+          ) : servers.length === 0 ? (
             <div className="text-center py-12">
               <Plug className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-xl font-semibold mb-2">Nenhum servidor encontrado</h3>
@@ -171,102 +154,129 @@ const McpServers = () => {
               </p>
             </div>
           ) : (
-            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-              {filteredServers.map((server) => (
-                <Card
-                  key={server.id}
-                  className="overflow-hidden hover:shadow-lg transition-all cursor-pointer group"
-                  onClick={() => navigate(`/mcp-servers/${server.slug}`)}
-                >
-                  <div className="relative h-48 bg-gradient-to-br from-primary/20 to-primary/5 overflow-hidden">
-                    {server.image_url ? (
-                      <img
-                        src={server.image_url}
-                        alt={server.title}
-                        className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
-                      />
-                    ) : (
-                      <div className="w-full h-full flex items-center justify-center">
-                        <Plug className="h-16 w-16 text-primary/40" />
-                      </div>
-                    )}
-                    <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent" />
-                    {server.category && (
-                      <Badge className={`absolute top-4 right-4 ${getCategoryColor(server.category)}`}>
-                        {server.category}
-                      </Badge>
-                    )}
-                  </div>
+            <>
+              <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                {servers.map((server) => (
+                  <Card
+                    key={server.id}
+                    className="overflow-hidden hover:shadow-lg transition-all cursor-pointer group"
+                    onClick={() => navigate(`/mcp-servers/${server.slug}`)}
+                  >
+                    <div className="relative h-48 bg-gradient-to-br from-primary/20 to-primary/5 overflow-hidden">
+                      {server.image_url ? (
+                        <img
+                          src={server.image_url}
+                          alt={server.title}
+                          className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center">
+                          <Plug className="h-16 w-16 text-primary/40" />
+                        </div>
+                      )}
+                      <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent" />
+                      {server.category && (
+                        <Badge className={`absolute top-4 right-4 ${getCategoryColor(server.category)}`}>
+                          {server.category}
+                        </Badge>
+                      )}
+                    </div>
 
-                  <CardHeader>
-                    <CardTitle className="line-clamp-2 group-hover:text-primary transition-colors">
-                      {server.title}
-                    </CardTitle>
-                    {server.description && (
-                      <CardDescription className="line-clamp-2">
-                        {server.description}
-                      </CardDescription>
-                    )}
-                  </CardHeader>
+                    <CardHeader>
+                      <CardTitle className="line-clamp-2 group-hover:text-primary transition-colors">
+                        {server.title}
+                      </CardTitle>
+                      {server.description && (
+                        <CardDescription className="line-clamp-2">
+                          {server.description}
+                        </CardDescription>
+                      )}
+                    </CardHeader>
 
-                  <CardContent className="space-y-4">
-                    {/* Meta Info */}
-                    <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
-                      <div className="flex items-center gap-1">
-                        <Calendar className="h-4 w-4" />
-                        <span>{formatDate(server.created_at)}</span>
+                    <CardContent className="space-y-4">
+                      {/* Meta Info */}
+                      <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                        <div className="flex items-center gap-1">
+                          <Calendar className="h-4 w-4" />
+                          <span>{formatDate(server.created_at)}</span>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Eye className="h-4 w-4" />
+                          <span>{server.views_count}</span>
+                        </div>
                       </div>
-                      <div className="flex items-center gap-1">
-                        <Eye className="h-4 w-4" />
-                        <span>{server.views_count}</span>
+
+                      {/* Links Rápidos */}
+                      <div className="flex flex-wrap gap-2">
+                        <McpHealthBadge server={server} />
+                        {server.npm_package && (
+                          <Badge variant="outline" className="text-xs">
+                            <Package className="h-3 w-3 mr-1" />
+                            npm
+                          </Badge>
+                        )}
+                        {server.github_url && (
+                          <Badge variant="outline" className="text-xs">
+                            <Github className="h-3 w-3 mr-1" />
+                            GitHub
+                          </Badge>
+                        )}
+                        {server.install_command && (
+                          <Badge variant="outline" className="text-xs">
+                            <Terminal className="h-3 w-3 mr-1" />
+                            CLI
+                          </Badge>
+                        )}
                       </div>
-                    </div>
 
-                    {/* Links Rápidos */}
-                    <div className="flex flex-wrap gap-2">
-                      {server.npm_package && (
-                        <Badge variant="outline" className="text-xs">
-                          <Package className="h-3 w-3 mr-1" />
-                          npm
-                        </Badge>
-                      )}
-                      {server.github_url && (
-                        <Badge variant="outline" className="text-xs">
-                          <Github className="h-3 w-3 mr-1" />
-                          GitHub
-                        </Badge>
+                      {/* Tags */}
+                      {server.tags && server.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {server.tags.slice(0, 3).map((tag, index) => (
+                            <Badge key={index} variant="secondary" className="text-xs">
+                              {tag}
+                            </Badge>
+                          ))}
+                        </div>
                       )}
-                      {server.install_command && (
-                        <Badge variant="outline" className="text-xs">
-                          <Terminal className="h-3 w-3 mr-1" />
-                          CLI
-                        </Badge>
-                      )}
-                    </div>
 
-                    {/* Tags */}
-                    {server.tags && server.tags.length > 0 && (
-                      <div className="flex flex-wrap gap-1">
-                        {server.tags.slice(0, 3).map((tag, index) => (
-                          <Badge key={index} variant="secondary" className="text-xs">
-                            {tag}
-                          </Badge>
-                        ))}
+                      <div className="flex gap-2">
+                        <Button variant="ghost" className="flex-1 group-hover:bg-primary group-hover:text-primary-foreground transition-colors">
+                          Ver detalhes
+                          <ArrowRight className="ml-2 h-4 w-4" />
+                        </Button>
+                        {hasLaunchConfig(server) && (
+                          <Button
+                            variant={isSelected(server.slug) ? 'secondary' : 'outline'}
+                            size="icon"
+                            title={isSelected(server.slug) ? 'Remover da seleção' : 'Adicionar à seleção'}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggle(server.slug);
+                            }}
+                          >
+                            {isSelected(server.slug) ? <ListChecks className="h-4 w-4" /> : <ListPlus className="h-4 w-4" />}
+                          </Button>
+                        )}
                       </div>
-                    )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
 
-                    <Button variant="ghost" className="w-full group-hover:bg-primary group-hover:text-primary-foreground transition-colors">
-                      Ver detalhes
-                      <ArrowRight className="ml-2 h-4 w-4" />
-                    </Button>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+              {hasMore && (
+                <div className="text-center mt-8">
+                  <Button variant="outline" onClick={loadMore} disabled={loading}>
+                    {loading ? 'Carregando...' : `Carregar mais (${servers.length} de ${total})`}
+                  </Button>
+                </div>
+              )}
+            </>
           )}
         </div>
       </section>
 
+      <McpSelectionBar />
       <Footer />
     </div>
   );
@@ -0,0 +1,891 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import type { OnboardingContentList, OnboardingStep, SlackChannelTip } from '@/types/slack';
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Save,
+  X,
+  Loader2,
+  RefreshCw,
+  ListOrdered,
+  ScrollText,
+  Hash
+} from 'lucide-react';
+
+interface WelcomeBotLog {
+  id: string;
+  user_id: string;
+  user_name: string;
+  step_name: string | null;
+  status: 'success' | 'failed';
+  error_message: string | null;
+  /** X-Slack-Retry-Num of the team_join delivery (0 = first delivery) */
+  retry_num: number;
+  retry_reason: string | null;
+  delivered_at: string;
+}
+
+const CONTENT_LIST_LABELS: Record<OnboardingContentList, string> = {
+  top_workflows: 'Workflows mais acessados',
+  top_mcp_servers: 'MCP servers mais acessados',
+};
+
+const NONE = 'none';
+const LOGS_PAGE_SIZE = 100;
+
+const formatDelay = (days: number) => {
+  if (days === 0) return 'Na entrada';
+  return days === 1 ? '1 dia depois' : `${days} dias depois`;
+};
+
+const OnboardingManager = () => {
+  const navigate = useNavigate();
+  const { user, isAdmin, isLoading } = useAuth();
+  const { toast } = useToast();
+
+  const [steps, setSteps] = useState<OnboardingStep[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingStep, setEditingStep] = useState<OnboardingStep | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [position, setPosition] = useState('0');
+  const [delayDays, setDelayDays] = useState('0');
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [contentList, setContentList] = useState<string>(NONE);
+  const [isEnabled, setIsEnabled] = useState(true);
+
+  const [tips, setTips] = useState<SlackChannelTip[]>([]);
+  const [editingTip, setEditingTip] = useState<SlackChannelTip | null>(null);
+  const [isCreatingTip, setIsCreatingTip] = useState(false);
+
+  // Tip form state
+  const [tipChannelId, setTipChannelId] = useState('');
+  const [tipChannelName, setTipChannelName] = useState('');
+  const [tipTitle, setTipTitle] = useState('');
+  const [tipBody, setTipBody] = useState('');
+  const [tipEnabled, setTipEnabled] = useState(true);
+
+  const [logs, setLogs] = useState<WelcomeBotLog[]>([]);
+  const [loadingLogs, setLoadingLogs] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading && (!user || !isAdmin)) {
+      navigate('/auth');
+    }
+  }, [user, isAdmin, isLoading, navigate]);
+
+  const fetchSteps = useCallback(async () => {
+    try {
+      const { data, error } = await (supabase as any)
+        .from('onboarding_steps')
+        .select('*')
+        .order('position', { ascending: true })
+        .order('delay_days', { ascending: true });
+
+      if (error) throw error;
+      setSteps(data || []);
+    } catch (error) {
+      console.error('Erro ao carregar etapas:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível carregar as etapas de onboarding.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  const fetchTips = useCallback(async () => {
+    try {
+      const { data, error } = await (supabase as any)
+        .from('slack_channel_tips')
+        .select('*')
+        .order('channel_name', { ascending: true });
+
+      if (error) throw error;
+      setTips(data || []);
+    } catch (error) {
+      console.error('Erro ao carregar dicas:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível carregar as dicas de canais.',
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
+  const fetchLogs = useCallback(async () => {
+    setLoadingLogs(true);
+    try {
+      const { data, error } = await (supabase as any)
+        .from('welcome_bot_logs')
+        .select('id, user_id, user_name, step_name, status, error_message, retry_num, retry_reason, delivered_at')
+        .order('delivered_at', { ascending: false })
+        .limit(LOGS_PAGE_SIZE);
+
+      if (error) throw error;
+      setLogs(data || []);
+    } catch (error) {
+      console.error('Erro ao carregar envios:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível carregar os envios do onboarding.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingLogs(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchSteps();
+      fetchTips();
+      fetchLogs();
+    }
+  }, [user, isAdmin, fetchSteps, fetchTips, fetchLogs]);
+
+  const resetForm = () => {
+    setEditingStep(null);
+    setName('');
+    setPosition(String(steps.length));
+    setDelayDays('0');
+    setTitle('');
+    setBody('');
+    setContentList(NONE);
+    setIsEnabled(true);
+  };
+
+  const startCreating = () => {
+    resetForm();
+    setIsCreating(true);
+  };
+
+  const startEditing = (step: OnboardingStep) => {
+    setEditingStep(step);
+    setName(step.name);
+    setPosition(String(step.position));
+    setDelayDays(String(step.delay_days));
+    setTitle(step.title);
+    setBody(step.body);
+    setContentList(step.content_list ?? NONE);
+    setIsEnabled(step.is_enabled);
+    setIsCreating(true);
+  };
+
+  const cancelEditing = () => {
+    resetForm();
+    setIsCreating(false);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || !title.trim() || !body.trim()) {
+      toast({
+        title: 'Campos obrigatórios',
+        description: 'Preencha nome, título e mensagem.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const delay = parseInt(delayDays, 10);
+    if (isNaN(delay) || delay < 0 || delay > 90) {
+      toast({
+        title: 'Atraso inválido',
+        description: 'O atraso deve ser entre 0 e 90 dias.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const stepData = {
+        name: name.trim(),
+        position: parseInt(position, 10) || 0,
+        delay_days: delay,
+        title: title.trim(),
+        body: body.trim(),
+        content_list: contentList === NONE ? null : contentList,
+        is_enabled: isEnabled,
+      };
+
+      if (editingStep) {
+        const { error } = await (supabase as any)
+          .from('onboarding_steps')
+          .update(stepData)
+          .eq('id', editingStep.id);
+
+        if (error) throw error;
+
+        toast({
+          title: 'Sucesso',
+          description: 'Etapa atualizada com sucesso!',
+        });
+      } else {
+        const { error } = await (supabase as any)
+          .from('onboarding_steps')
+          .insert([stepData]);
+
+        if (error) throw error;
+
+        toast({
+          title: 'Sucesso',
+          description: 'Etapa criada com sucesso! Ela vale para quem entrar a partir de agora.',
+        });
+      }
+
+      await fetchSteps();
+      cancelEditing();
+    } catch (error: any) {
+      console.error('Erro ao salvar etapa:', error);
+      toast({
+        title: 'Erro',
+        description: error.message || 'Não foi possível salvar a etapa.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleToggleEnabled = async (step: OnboardingStep) => {
+    try {
+      const { error } = await (supabase as any)
+        .from('onboarding_steps')
+        .update({ is_enabled: !step.is_enabled })
+        .eq('id', step.id);
+
+      if (error) throw error;
+
+      setSteps(prev => prev.map(s => (
+        s.id === step.id ? { ...s, is_enabled: !step.is_enabled } : s
+      )));
+    } catch (error: any) {
+      console.error('Erro ao alterar etapa:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível alterar o status da etapa.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Tem certeza que deseja excluir esta etapa? Envios agendados dela serão cancelados.')) return;
+
+    try {
+      const { error } = await (supabase as any)
+        .from('onboarding_steps')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Sucesso',
+        description: 'Etapa excluída com sucesso!',
+      });
+
+      await fetchSteps();
+    } catch (error: any) {
+      console.error('Erro ao excluir etapa:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível excluir a etapa.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const resetTipForm = () => {
+    setEditingTip(null);
+    setTipChannelId('');
+    setTipChannelName('');
+    setTipTitle('');
+    setTipBody('');
+    setTipEnabled(true);
+  };
+
+  const startCreatingTip = () => {
+    resetTipForm();
+    setIsCreatingTip(true);
+  };
+
+  const startEditingTip = (tip: SlackChannelTip) => {
+    setEditingTip(tip);
+    setTipChannelId(tip.channel_id);
+    setTipChannelName(tip.channel_name);
+    setTipTitle(tip.title);
+    setTipBody(tip.body);
+    setTipEnabled(tip.is_enabled);
+    setIsCreatingTip(true);
+  };
+
+  const cancelEditingTip = () => {
+    resetTipForm();
+    setIsCreatingTip(false);
+  };
+
+  const handleSaveTip = async () => {
+    if (!tipChannelId.trim() || !tipChannelName.trim() || !tipTitle.trim() || !tipBody.trim()) {
+      toast({
+        title: 'Campos obrigatórios',
+        description: 'Preencha canal, ID do canal, título e mensagem.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const tipData = {
+        channel_id: tipChannelId.trim(),
+        channel_name: tipChannelName.trim().replace(/^#/, ''),
+        title: tipTitle.trim(),
+        body: tipBody.trim(),
+        is_enabled: tipEnabled,
+      };
+
+      const { error } = editingTip
+        ? await (supabase as any).from('slack_channel_tips').update(tipData).eq('id', editingTip.id)
+        : await (supabase as any).from('slack_channel_tips').insert([tipData]);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Sucesso',
+        description: editingTip ? 'Dica atualizada com sucesso!' : 'Dica criada com sucesso!',
+      });
+
+      await fetchTips();
+      cancelEditingTip();
+    } catch (error: any) {
+      console.error('Erro ao salvar dica:', error);
+      toast({
+        title: 'Erro',
+        description: error.code === '23505'
+          ? 'Já existe uma dica para este canal.'
+          : error.message || 'Não foi possível salvar a dica.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleToggleTip = async (tip: SlackChannelTip) => {
+    try {
+      const { error } = await (supabase as any)
+        .from('slack_channel_tips')
+        .update({ is_enabled: !tip.is_enabled })
+        .eq('id', tip.id);
+
+      if (error) throw error;
+
+      setTips(prev => prev.map(t => (
+        t.id === tip.id ? { ...t, is_enabled: !tip.is_enabled } : t
+      )));
+    } catch (error: any) {
+      console.error('Erro ao alterar dica:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível alterar o status da dica.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDeleteTip = async (id: string) => {
+    if (!confirm('Tem certeza que deseja excluir esta dica?')) return;
+
+    try {
+      const { error } = await (supabase as any)
+        .from('slack_channel_tips')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Sucesso',
+        description: 'Dica excluída com sucesso!',
+      });
+
+      await fetchTips();
+    } catch (error: any) {
+      console.error('Erro ao excluir dica:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível excluir a dica.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (isLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container mx-auto px-4 py-24">
+          <div className="text-center">
+            <Loader2 className="h-12 w-12 animate-spin text-primary mx-auto mb-4" />
+            <p className="text-muted-foreground">Carregando...</p>
+          </div>
+        </div>
+        <Footer />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <div className="container mx-auto px-4 py-24">
+        <div className="max-w-6xl mx-auto">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2">Onboarding do Slack</h1>
+            <p className="text-muted-foreground">
+              Mensagens enviadas pelo bot aos novos membros da comunidade e a quem entra em cada canal
+            </p>
+          </div>
+
+          <Tabs defaultValue="steps" className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="steps" className="flex items-center gap-2">
+                <ListOrdered className="h-4 w-4" />
+                Etapas
+              </TabsTrigger>
+              <TabsTrigger value="channels" className="flex items-center gap-2">
+                <Hash className="h-4 w-4" />
+                Canais
+              </TabsTrigger>
+              <TabsTrigger value="logs" className="flex items-center gap-2">
+                <ScrollText className="h-4 w-4" />
+                Envios
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="steps" className="space-y-6">
+              {!isCreating && (
+                <div className="flex justify-end">
+                  <Button onClick={startCreating}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Nova Etapa
+                  </Button>
+                </div>
+              )}
+
+              {/* Formulário de Criação/Edição */}
+              {isCreating && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>
+                      {editingStep ? 'Editar Etapa' : 'Nova Etapa'}
+                    </CardTitle>
+                    <CardDescription>
+                      Use {'{name}'} na mensagem para o nome do membro e a sintaxe mrkdwn do Slack (ex.: {'<#geral|#geral>'})
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid gap-4 md:grid-cols-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="name">Nome *</Label>
+                        <Input
+                          id="name"
+                          value={name}
+                          onChange={(e) => setName(e.target.value)}
+                          placeholder="Boas-vindas"
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="delayDays">Enviar após (dias) *</Label>
+                        <Input
+                          id="delayDays"
+                          type="number"
+                          min={0}
+                          max={90}
+                          value={delayDays}
+                          onChange={(e) => setDelayDays(e.target.value)}
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="position">Ordem</Label>
+                        <Input
+                          id="position"
+                          type="number"
+                          value={position}
+                          onChange={(e) => setPosition(e.target.value)}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="title">Título *</Label>
+                      <Input
+                        id="title"
+                        value={title}
+                        onChange={(e) => setTitle(e.target.value)}
+                        placeholder="👋 Bem-vindo ao Vibe Flow!"
+                        maxLength={150}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="body">Mensagem *</Label>
+                      <Textarea
+                        id="body"
+                        value={body}
+                        onChange={(e) => setBody(e.target.value)}
+                        placeholder="Olá *{name}*! É ótimo ter você aqui."
+                        rows={8}
+                        className="font-mono text-sm"
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="contentList">Lista de conteúdo</Label>
+                      <Select value={contentList} onValueChange={setContentList}>
+                        <SelectTrigger id="contentList">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>Nenhuma</SelectItem>
+                          {Object.entries(CONTENT_LIST_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        Adiciona os 5 itens mais acessados ao final da mensagem.
+                      </p>
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="enabled"
+                        checked={isEnabled}
+                        onCheckedChange={setIsEnabled}
+                      />
+                      <Label htmlFor="enabled">Etapa ativa</Label>
+                    </div>
+
+                    <div className="flex gap-2 pt-4">
+                      <Button onClick={handleSave}>
+                        <Save className="h-4 w-4 mr-2" />
+                        {editingStep ? 'Atualizar' : 'Criar'}
+                      </Button>
+                      <Button variant="outline" onClick={cancelEditing}>
+                        <X className="h-4 w-4 mr-2" />
+                        Cancelar
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Lista de Etapas */}
+              {steps.length === 0 ? (
+                <Card>
+                  <CardContent className="py-12 text-center">
+                    <p className="text-muted-foreground mb-4">
+                      Nenhuma etapa configurada. Novos membros não receberão mensagens.
+                    </p>
+                    <Button onClick={startCreating}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Criar Primeira Etapa
+                    </Button>
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card>
+                  <CardContent className="p-0">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Etapa</TableHead>
+                          <TableHead>Envio</TableHead>
+                          <TableHead>Título</TableHead>
+                          <TableHead>Lista</TableHead>
+                          <TableHead>Ativa</TableHead>
+                          <TableHead className="text-right">Ações</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {steps.map((step) => (
+                          <TableRow key={step.id}>
+                            <TableCell className="font-medium">{step.name}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{formatDelay(step.delay_days)}</Badge>
+                            </TableCell>
+                            <TableCell className="max-w-xs truncate">{step.title}</TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {step.content_list ? CONTENT_LIST_LABELS[step.content_list] : '-'}
+                            </TableCell>
+                            <TableCell>
+                              <Switch
+                                checked={step.is_enabled}
+                                onCheckedChange={() => handleToggleEnabled(step)}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => startEditing(step)}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleDelete(step.id)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            <TabsContent value="channels" className="space-y-6">
+              {!isCreatingTip && (
+                <div className="flex justify-end">
+                  <Button onClick={startCreatingTip}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Nova Dica
+                  </Button>
+                </div>
+              )}
+
+              {/* Formulário de Criação/Edição */}
+              {isCreatingTip && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>
+                      {editingTip ? 'Editar Dica' : 'Nova Dica'}
+                    </CardTitle>
+                    <CardDescription>
+                      Mostrada só para quem entra no canal. Use {'{name}'} para mencionar o membro; o bot precisa estar no canal
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="tipChannelName">Canal *</Label>
+                        <Input
+                          id="tipChannelName"
+                          value={tipChannelName}
+                          onChange={(e) => setTipChannelName(e.target.value)}
+                          placeholder="ajuda"
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="tipChannelId">ID do canal *</Label>
+                        <Input
+                          id="tipChannelId"
+                          value={tipChannelId}
+                          onChange={(e) => setTipChannelId(e.target.value)}
+                          placeholder="C0123456789"
+                          className="font-mono"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="tipTitle">Título *</Label>
+                      <Input
+                        id="tipTitle"
+                        value={tipTitle}
+                        onChange={(e) => setTipTitle(e.target.value)}
+                        placeholder="💡 Dicas para #ajuda"
+                        maxLength={150}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="tipBody">Mensagem *</Label>
+                      <Textarea
+                        id="tipBody"
+                        value={tipBody}
+                        onChange={(e) => setTipBody(e.target.value)}
+                        placeholder="Oi {name}! Descreva sua IDE e o que já tentou para receber ajuda mais rápido."
+                        rows={6}
+                        className="font-mono text-sm"
+                      />
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="tipEnabled"
+                        checked={tipEnabled}
+                        onCheckedChange={setTipEnabled}
+                      />
+                      <Label htmlFor="tipEnabled">Dica ativa</Label>
+                    </div>
+
+                    <div className="flex gap-2 pt-4">
+                      <Button onClick={handleSaveTip}>
+                        <Save className="h-4 w-4 mr-2" />
+                        {editingTip ? 'Atualizar' : 'Criar'}
+                      </Button>
+                      <Button variant="outline" onClick={cancelEditingTip}>
+                        <X className="h-4 w-4 mr-2" />
+                        Cancelar
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Lista de Dicas */}
+              <Card>
+                <CardContent className="p-0">
+                  {tips.length === 0 ? (
+                    <p className="py-12 text-center text-muted-foreground">
+                      Nenhuma dica configurada.
+                    </p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Canal</TableHead>
+                          <TableHead>Título</TableHead>
+                          <TableHead>Ativa</TableHead>
+                          <TableHead className="text-right">Ações</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {tips.map((tip) => (
+                          <TableRow key={tip.id}>
+                            <TableCell className="font-medium">
+                              #{tip.channel_name}
+                              <span className="block font-mono text-xs text-muted-foreground">{tip.channel_id}</span>
+                            </TableCell>
+                            <TableCell className="max-w-xs truncate">{tip.title}</TableCell>
+                            <TableCell>
+                              <Switch
+                                checked={tip.is_enabled}
+                                onCheckedChange={() => handleToggleTip(tip)}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => startEditingTip(tip)}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleDeleteTip(tip.id)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="logs" className="space-y-6">
+              <div className="flex justify-end">
+                <Button variant="outline" onClick={fetchLogs} disabled={loadingLogs}>
+                  <RefreshCw className={`h-4 w-4 mr-2 ${loadingLogs ? 'animate-spin' : ''}`} />
+                  Atualizar
+                </Button>
+              </div>
+
+              <Card>
+                <CardContent className="p-0">
+                  {logs.length === 0 ? (
+                    <p className="py-12 text-center text-muted-foreground">
+                      Nenhum envio registrado ainda.
+                    </p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Data</TableHead>
+                          <TableHead>Membro</TableHead>
+                          <TableHead>Etapa</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Erro</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {logs.map((log) => (
+                          <TableRow key={log.id}>
+                            <TableCell className="whitespace-nowrap text-sm">
+                              {new Date(log.delivered_at).toLocaleString('pt-BR')}
+                            </TableCell>
+                            <TableCell>
+                              {log.user_name}
+                              <span className="block font-mono text-xs text-muted-foreground">{log.user_id}</span>
+                            </TableCell>
+                            <TableCell>{log.step_name ?? 'Boas-vindas (legado)'}</TableCell>
+                            <TableCell>
+                              <Badge variant={log.status === 'success' ? 'default' : 'destructive'}>
+                                {log.status === 'success' ? 'Enviado' : 'Falhou'}
+                              </Badge>
+                              {log.retry_num > 0 && (
+                                <Badge variant="outline" className="ml-2" title={log.retry_reason ?? undefined}>
+                                  Reenvio {log.retry_num} do Slack
+                                </Badge>
+                              )}
+                            </TableCell>
+                            <TableCell className="max-w-xs truncate text-xs text-muted-foreground">
+                              {log.error_message ?? '-'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default OnboardingManager;
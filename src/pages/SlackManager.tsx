@@ -0,0 +1,960 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import type { ContentType, NotificationAction } from '@/types/slack';
+import type { NotificationProvider } from '@/types/notifications';
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Save,
+  X,
+  Loader2,
+  Send,
+  RefreshCw,
+  RotateCcw,
+  Webhook,
+  ScrollText
+} from 'lucide-react';
+
+type DeliveryStatus = 'success' | 'failed' | 'skipped' | 'dead_letter';
+type DeliveryMode = 'webhook' | 'bot';
+type UpdateMode = 'edit' | 'thread';
+
+interface SlackWebhook {
+  id: string;
+  content_type: ContentType;
+  provider: NotificationProvider;
+  /** Masked URL; the real URL is stored encrypted and never returned to the browser */
+  webhook_url_hint: string | null;
+  channel_name: string;
+  is_enabled: boolean;
+  notify_actions: NotificationAction[];
+  delivery_mode: DeliveryMode;
+  /** Slack channel ID used in bot mode */
+  channel_id: string | null;
+  update_mode: UpdateMode;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SlackDeliveryLog {
+  id: string;
+  webhook_id: string | null;
+  content_type: ContentType;
+  content_id: string;
+  action: NotificationAction;
+  status: DeliveryStatus;
+  response_code: number | null;
+  error_message: string | null;
+  attempt_number: number;
+  payload_size: number;
+  delivered_at: string;
+  slack_webhooks: { channel_name: string } | null;
+}
+
+const CONTENT_TYPE_LABELS: Record<ContentType, string> = {
+  workflow: 'Workflows',
+  mcp_server: 'MCP Servers',
+  blog_post: 'Blog',
+  ide_news: 'Novidades de IDEs',
+};
+
+const ACTION_LABELS: Record<NotificationAction, string> = {
+  published: 'Publicação',
+  updated: 'Atualização',
+  deleted: 'Remoção',
+};
+
+const PROVIDER_LABELS: Record<NotificationProvider, string> = {
+  slack: 'Slack',
+  discord: 'Discord',
+  teams: 'Microsoft Teams',
+  generic: 'Webhook JSON',
+};
+
+// Accepted webhook URL prefixes per provider
+const PROVIDER_URL_PREFIXES: Record<NotificationProvider, string[]> = {
+  slack: ['https://hooks.slack.com/'],
+  discord: ['https://discord.com/api/webhooks/', 'https://discordapp.com/api/webhooks/'],
+  teams: ['https://'],
+  generic: ['https://'],
+};
+
+const PROVIDER_URL_PLACEHOLDERS: Record<NotificationProvider, string> = {
+  slack: 'https://hooks.slack.com/services/...',
+  discord: 'https://discord.com/api/webhooks/...',
+  teams: 'https://....webhook.office.com/...',
+  generic: 'https://example.com/webhooks/vibeflow',
+};
+
+const UPDATE_MODE_LABELS: Record<UpdateMode, string> = {
+  edit: 'Editar a mensagem original',
+  thread: 'Responder na thread',
+};
+
+const STATUS_LABELS: Record<DeliveryStatus, string> = {
+  success: 'Sucesso',
+  failed: 'Falhou',
+  skipped: 'Ignorado',
+  dead_letter: 'Esgotado',
+};
+
+const ALL = 'all';
+const LOGS_PAGE_SIZE = 100;
+
+const SlackManager = () => {
+  const navigate = useNavigate();
+  const { user, isAdmin, isLoading } = useAuth();
+  const { toast } = useToast();
+
+  const [webhooks, setWebhooks] = useState<SlackWebhook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingWebhook, setEditingWebhook] = useState<SlackWebhook | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  // Form state
+  const [contentType, setContentType] = useState<ContentType>('workflow');
+  const [provider, setProvider] = useState<NotificationProvider>('slack');
+  const [channelName, setChannelName] = useState('');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [isEnabled, setIsEnabled] = useState(true);
+  const [notifyActions, setNotifyActions] = useState<NotificationAction[]>(['published']);
+  const [deliveryMode, setDeliveryMode] = useState<DeliveryMode>('webhook');
+  const [channelId, setChannelId] = useState('');
+  const [updateMode, setUpdateMode] = useState<UpdateMode>('edit');
+
+  // Log filters
+  const [logs, setLogs] = useState<SlackDeliveryLog[]>([]);
+  const [loadingLogs, setLoadingLogs] = useState(false);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<string>(ALL);
+  const [contentTypeFilter, setContentTypeFilter] = useState<string>(ALL);
+  const [responseCodeFilter, setResponseCodeFilter] = useState('');
+  const [attemptFilter, setAttemptFilter] = useState('');
+
+  useEffect(() => {
+    if (!isLoading && (!user || !isAdmin)) {
+      navigate('/auth');
+    }
+  }, [user, isAdmin, isLoading, navigate]);
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      const { data, error } = await (supabase as any)
+        .from('slack_webhooks')
+        .select('id, content_type, provider, webhook_url_hint, channel_name, is_enabled, notify_actions, delivery_mode, channel_id, update_mode, created_at, updated_at')
+        .order('content_type', { ascending: true })
+        .order('channel_name', { ascending: true });
+
+      if (error) throw error;
+      setWebhooks(data || []);
+    } catch (error) {
+      console.error('Erro ao carregar webhooks:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível carregar os canais de notificação.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  const fetchLogs = useCallback(async () => {
+    setLoadingLogs(true);
+    try {
+      let query = (supabase as any)
+        .from('slack_delivery_logs')
+        .select('*, slack_webhooks(channel_name)')
+        .order('delivered_at', { ascending: false })
+        .limit(LOGS_PAGE_SIZE);
+
+      if (statusFilter !== ALL) query = query.eq('status', statusFilter);
+      if (contentTypeFilter !== ALL) query = query.eq('content_type', contentTypeFilter);
+      if (responseCodeFilter.trim()) query = query.eq('response_code', parseInt(responseCodeFilter, 10));
+      if (attemptFilter.trim()) query = query.eq('attempt_number', parseInt(attemptFilter, 10));
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setLogs(data || []);
+    } catch (error) {
+      console.error('Erro ao carregar logs:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível carregar os logs de entrega.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingLogs(false);
+    }
+  }, [statusFilter, contentTypeFilter, responseCodeFilter, attemptFilter, toast]);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchWebhooks();
+    }
+  }, [user, isAdmin, fetchWebhooks]);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchLogs();
+    }
+  }, [user, isAdmin, fetchLogs]);
+
+  const startCreating = () => {
+    resetForm();
+    setIsCreating(true);
+  };
+
+  const startEditing = (webhook: SlackWebhook) => {
+    setEditingWebhook(webhook);
+    setContentType(webhook.content_type);
+    setProvider(webhook.provider);
+    setChannelName(webhook.channel_name);
+    setWebhookUrl('');
+    setIsEnabled(webhook.is_enabled);
+    setNotifyActions(webhook.notify_actions);
+    setDeliveryMode(webhook.delivery_mode);
+    setChannelId(webhook.channel_id ?? '');
+    setUpdateMode(webhook.update_mode);
+    setIsCreating(true);
+  };
+
+  const resetForm = () => {
+    setEditingWebhook(null);
+    setContentType('workflow');
+    setProvider('slack');
+    setChannelName('');
+    setWebhookUrl('');
+    setIsEnabled(true);
+    setNotifyActions(['published']);
+    setDeliveryMode('webhook');
+    setChannelId('');
+    setUpdateMode('edit');
+  };
+
+  const handleProviderChange = (value: NotificationProvider) => {
+    setProvider(value);
+    // Only Slack supports the bot delivery mode
+    if (value !== 'slack') {
+      setDeliveryMode('webhook');
+    }
+  };
+
+  const toggleNotifyAction = (action: NotificationAction, checked: boolean) => {
+    setNotifyActions((current) =>
+      checked ? [...current, action] : current.filter((a) => a !== action)
+    );
+  };
+
+  const cancelEditing = () => {
+    resetForm();
+    setIsCreating(false);
+  };
+
+  const handleSave = async () => {
+    // The current URL is never sent to the browser, so it is only required
+    // when the webhook doesn't have one yet
+    const hasStoredUrl = !!editingWebhook?.webhook_url_hint;
+    if (
+      !channelName.trim() ||
+      (deliveryMode === 'webhook' && !hasStoredUrl && !webhookUrl.trim()) ||
+      (deliveryMode === 'bot' && !channelId.trim())
+    ) {
+      toast({
+        title: 'Campos obrigatórios',
+        description: deliveryMode === 'bot'
+          ? 'Preencha canal e ID do canal no Slack.'
+          : 'Preencha canal e URL do webhook.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (deliveryMode === 'bot' && !/^[CG][A-Z0-9]+$/.test(channelId.trim())) {
+      toast({
+        title: 'ID de canal inválido',
+        description: 'O ID do canal começa com C ou G (ex.: C0123456789).',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (notifyActions.length === 0) {
+      toast({
+        title: 'Nenhuma ação selecionada',
+        description: 'Escolha ao menos uma ação que deve notificar o canal.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const urlPrefixes = PROVIDER_URL_PREFIXES[provider];
+    if (
+      deliveryMode === 'webhook' &&
+      webhookUrl.trim() &&
+      !urlPrefixes.some((prefix) => webhookUrl.startsWith(prefix))
+    ) {
+      toast({
+        title: 'URL inválida',
+        description: `A URL deve começar com ${urlPrefixes.join(' ou ')}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const webhookData = {
+        content_type: contentType,
+        provider,
+        channel_name: channelName.startsWith('#') ? channelName : `#${channelName}`,
+        is_enabled: isEnabled,
+        notify_actions: notifyActions,
+        delivery_mode: deliveryMode,
+        channel_id: deliveryMode === 'bot' ? channelId.trim() : null,
+        update_mode: updateMode,
+        ...(deliveryMode === 'webhook' && webhookUrl.trim() && { webhook_url: webhookUrl.trim() }),
+      };
+
+      if (editingWebhook) {
+        const { error } = await (supabase as any)
+          .from('slack_webhooks')
+          .update(webhookData)
+          .eq('id', editingWebhook.id);
+
+        if (error) throw error;
+
+        toast({
+          title: 'Sucesso',
+          description: 'Webhook atualizado com sucesso!',
+        });
+      } else {
+        const { error } = await (supabase as any)
+          .from('slack_webhooks')
+          .insert([webhookData]);
+
+        if (error) throw error;
+
+        toast({
+          title: 'Sucesso',
+          description: 'Webhook criado com sucesso!',
+        });
+      }
+
+      await fetchWebhooks();
+      cancelEditing();
+    } catch (error: any) {
+      console.error('Erro ao salvar webhook:', error);
+      toast({
+        title: 'Erro',
+        description: error.message || 'Não foi possível salvar o webhook.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleToggleEnabled = async (webhook: SlackWebhook) => {
+    try {
+      const { error } = await (supabase as any)
+        .from('slack_webhooks')
+        .update({ is_enabled: !webhook.is_enabled })
+        .eq('id', webhook.id);
+
+      if (error) throw error;
+
+      setWebhooks(prev => prev.map(w => (
+        w.id === webhook.id ? { ...w, is_enabled: !webhook.is_enabled } : w
+      )));
+    } catch (error: any) {
+      console.error('Erro ao alterar webhook:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível alterar o status do webhook.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Tem certeza que deseja excluir este webhook? Os logs de entrega dele também serão removidos.')) return;
+
+    try {
+      const { error } = await (supabase as any)
+        .from('slack_webhooks')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Sucesso',
+        description: 'Webhook excluído com sucesso!',
+      });
+
+      await fetchWebhooks();
+      await fetchLogs();
+    } catch (error: any) {
+      console.error('Erro ao excluir webhook:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível excluir o webhook.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleSendTest = async (webhook: SlackWebhook) => {
+    setTestingId(webhook.id);
+    try {
+      const { data, error } = await (supabase as any).functions.invoke('notify-slack', {
+        body: { test: true, webhook_id: webhook.id },
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Falha ao enviar mensagem de teste');
+
+      toast({
+        title: 'Mensagem enviada',
+        description: `Mensagem de teste enviada para ${webhook.channel_name}.`,
+      });
+    } catch (error: any) {
+      console.error('Erro ao enviar mensagem de teste:', error);
+      toast({
+        title: 'Erro',
+        description: error.message || 'Não foi possível enviar a mensagem de teste.',
+        variant: 'destructive',
+      });
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleResend = async (log: SlackDeliveryLog) => {
+    setResendingId(log.id);
+    try {
+      const { data, error } = await (supabase as any).functions.invoke('notify-slack', {
+        body: {
+          content_type: log.content_type,
+          content_id: log.content_id,
+          action: log.action,
+          webhook_id: log.webhook_id,
+        },
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Falha ao reenviar notificação');
+
+      toast({
+        title: 'Notificação reenviada',
+        description: `Entrega para ${log.slack_webhooks?.channel_name ?? 'o canal'} concluída.`,
+      });
+    } catch (error: any) {
+      console.error('Erro ao reenviar notificação:', error);
+      toast({
+        title: 'Erro',
+        description: error.message || 'Não foi possível reenviar a notificação.',
+        variant: 'destructive',
+      });
+    } finally {
+      setResendingId(null);
+      await fetchLogs();
+    }
+  };
+
+  const clearFilters = () => {
+    setStatusFilter(ALL);
+    setContentTypeFilter(ALL);
+    setResponseCodeFilter('');
+    setAttemptFilter('');
+  };
+
+  const getStatusBadge = (status: DeliveryStatus) => {
+    switch (status) {
+      case 'success':
+        return <Badge variant="default">{STATUS_LABELS[status]}</Badge>;
+      case 'failed':
+      case 'dead_letter':
+        return <Badge variant="destructive">{STATUS_LABELS[status]}</Badge>;
+      default:
+        return <Badge variant="secondary">{STATUS_LABELS[status] ?? status}</Badge>;
+    }
+  };
+
+  if (isLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container mx-auto px-4 py-24">
+          <div className="text-center">
+            <Loader2 className="h-12 w-12 animate-spin text-primary mx-auto mb-4" />
+            <p className="text-muted-foreground">Carregando...</p>
+          </div>
+        </div>
+        <Footer />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <div className="container mx-auto px-4 py-24">
+        <div className="max-w-6xl mx-auto">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2">Notificações da Comunidade</h1>
+            <p className="text-muted-foreground">
+              Gerencie os canais do Slack, Discord e Teams e acompanhe as entregas
+            </p>
+          </div>
+
+          <Tabs defaultValue="webhooks" className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="webhooks" className="flex items-center gap-2">
+                <Webhook className="h-4 w-4" />
+                Webhooks
+              </TabsTrigger>
+              <TabsTrigger value="logs" className="flex items-center gap-2">
+                <ScrollText className="h-4 w-4" />
+                Logs de Entrega
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="webhooks" className="space-y-6">
+              {!isCreating && (
+                <div className="flex justify-end">
+                  <Button onClick={startCreating}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Novo Webhook
+                  </Button>
+                </div>
+              )}
+
+              {/* Formulário de Criação/Edição */}
+              {isCreating && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>
+                      {editingWebhook ? 'Editar Webhook' : 'Novo Webhook'}
+                    </CardTitle>
+                    <CardDescription>
+                      Cada tipo de conteúdo pode notificar vários canais
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="contentType">Tipo de conteúdo *</Label>
+                        <Select
+                          value={contentType}
+                          onValueChange={(value) => setContentType(value as ContentType)}
+                        >
+                          <SelectTrigger id="contentType">
+                            <SelectValue placeholder="Selecione o tipo" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(CONTENT_TYPE_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="channelName">Canal *</Label>
+                        <Input
+                          id="channelName"
+                          value={channelName}
+                          onChange={(e) => setChannelName(e.target.value)}
+                          placeholder="#anuncios"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="provider">Plataforma</Label>
+                        <Select
+                          value={provider}
+                          onValueChange={(value) => handleProviderChange(value as NotificationProvider)}
+                        >
+                          <SelectTrigger id="provider">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(PROVIDER_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {provider === 'slack' && (
+                        <div className="space-y-2">
+                          <Label htmlFor="deliveryMode">Modo de entrega</Label>
+                          <Select
+                            value={deliveryMode}
+                            onValueChange={(value) => setDeliveryMode(value as DeliveryMode)}
+                          >
+                            <SelectTrigger id="deliveryMode">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="webhook">Incoming webhook</SelectItem>
+                              <SelectItem value="bot">Bot (chat.postMessage)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <p className="text-xs text-muted-foreground">
+                            No modo bot, atualizações e remoções editam a mensagem original ou respondem na thread.
+                          </p>
+                        </div>
+                      )}
+                    </div>
+
+                    {deliveryMode === 'webhook' ? (
+                      <div className="space-y-2">
+                        <Label htmlFor="webhookUrl">URL do Webhook {!editingWebhook?.webhook_url_hint && '*'}</Label>
+                        <Input
+                          id="webhookUrl"
+                          value={webhookUrl}
+                          onChange={(e) => setWebhookUrl(e.target.value)}
+                          placeholder={editingWebhook?.webhook_url_hint
+                            ? `Atual: ${editingWebhook.webhook_url_hint} (deixe em branco para manter)`
+                            : PROVIDER_URL_PLACEHOLDERS[provider]}
+                          type="url"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          A URL é criptografada ao salvar e não pode ser exibida novamente.
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="grid gap-4 md:grid-cols-2">
+                        <div className="space-y-2">
+                          <Label htmlFor="channelId">ID do canal no Slack *</Label>
+                          <Input
+                            id="channelId"
+                            value={channelId}
+                            onChange={(e) => setChannelId(e.target.value)}
+                            placeholder="C0123456789"
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            O bot precisa ter sido adicionado ao canal.
+                          </p>
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label htmlFor="updateMode">Em atualizações</Label>
+                          <Select
+                            value={updateMode}
+                            onValueChange={(value) => setUpdateMode(value as UpdateMode)}
+                          >
+                            <SelectTrigger id="updateMode">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(UPDATE_MODE_LABELS).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="enabled"
+                        checked={isEnabled}
+                        onCheckedChange={setIsEnabled}
+                      />
+                      <Label htmlFor="enabled">Webhook ativo</Label>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Notificar quando o conteúdo for</Label>
+                      <div className="flex flex-wrap gap-4">
+                        {(Object.entries(ACTION_LABELS) as [NotificationAction, string][]).map(([action, label]) => (
+                          <div key={action} className="flex items-center space-x-2">
+                            <Checkbox
+                              id={`action-${action}`}
+                              checked={notifyActions.includes(action)}
+                              onCheckedChange={(checked) => toggleNotifyAction(action, checked === true)}
+                            />
+                            <Label htmlFor={`action-${action}`}>{label}</Label>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="flex gap-2 pt-4">
+                      <Button onClick={handleSave}>
+                        <Save className="h-4 w-4 mr-2" />
+                        {editingWebhook ? 'Atualizar' : 'Criar'}
+                      </Button>
+                      <Button variant="outline" onClick={cancelEditing}>
+                        <X className="h-4 w-4 mr-2" />
+                        Cancelar
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Lista de Webhooks */}
+              {webhooks.length === 0 ? (
+                <Card>
+                  <CardContent className="py-12 text-center">
+                    <p className="text-muted-foreground mb-4">
+                      Nenhum webhook configurado ainda.
+                    </p>
+                    <Button onClick={startCreating}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Criar Primeiro Webhook
+                    </Button>
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card>
+                  <CardContent className="p-0">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Canal</TableHead>
+                          <TableHead>Conteúdo</TableHead>
+                          <TableHead>Ações notificadas</TableHead>
+                          <TableHead>Destino</TableHead>
+                          <TableHead>Ativo</TableHead>
+                          <TableHead className="text-right">Ações</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {webhooks.map((webhook) => (
+                          <TableRow key={webhook.id}>
+                            <TableCell className="font-medium">{webhook.channel_name}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{CONTENT_TYPE_LABELS[webhook.content_type]}</Badge>
+                            </TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {webhook.notify_actions.map((action) => ACTION_LABELS[action]).join(', ')}
+                            </TableCell>
+                            <TableCell className="max-w-xs truncate font-mono text-xs text-muted-foreground">
+                              <Badge variant="secondary" className="mr-2 font-sans">
+                                {PROVIDER_LABELS[webhook.provider]}
+                              </Badge>
+                              {webhook.delivery_mode === 'bot'
+                                ? `Bot · ${webhook.channel_id}`
+                                : webhook.webhook_url_hint ?? '••••'}
+                            </TableCell>
+                            <TableCell>
+                              <Switch
+                                checked={webhook.is_enabled}
+                                onCheckedChange={() => handleToggleEnabled(webhook)}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleSendTest(webhook)}
+                                  disabled={testingId === webhook.id}
+                                  title="Enviar mensagem de teste"
+                                >
+                                  {testingId === webhook.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <Send className="h-4 w-4" />
+                                  )}
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => startEditing(webhook)}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleDelete(webhook.id)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            <TabsContent value="logs" className="space-y-6">
+              {/* Filtros */}
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="grid gap-4 md:grid-cols-5 items-end">
+                    <div className="space-y-2">
+                      <Label>Status</Label>
+                      <Select value={statusFilter} onValueChange={setStatusFilter}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL}>Todos</SelectItem>
+                          {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Conteúdo</Label>
+                      <Select value={contentTypeFilter} onValueChange={setContentTypeFilter}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL}>Todos</SelectItem>
+                          {Object.entries(CONTENT_TYPE_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="responseCode">Código HTTP</Label>
+                      <Input
+                        id="responseCode"
+                        type="number"
+                        value={responseCodeFilter}
+                        onChange={(e) => setResponseCodeFilter(e.target.value)}
+                        placeholder="Ex: 404"
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="attempt">Tentativa</Label>
+                      <Input
+                        id="attempt"
+                        type="number"
+                        min={0}
+                        value={attemptFilter}
+                        onChange={(e) => setAttemptFilter(e.target.value)}
+                        placeholder="Ex: 3"
+                      />
+                    </div>
+
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={clearFilters}>
+                        <X className="h-4 w-4 mr-2" />
+                        Limpar
+                      </Button>
+                      <Button variant="outline" onClick={fetchLogs} disabled={loadingLogs}>
+                        <RefreshCw className={`h-4 w-4 ${loadingLogs ? 'animate-spin' : ''}`} />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Tabela de Logs */}
+              <Card>
+                <CardContent className="p-0">
+                  {loadingLogs ? (
+                    <div className="py-12 text-center">
+                      <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+                    </div>
+                  ) : logs.length === 0 ? (
+                    <div className="py-12 text-center text-muted-foreground">
+                      Nenhuma entrega encontrada com esses filtros.
+                    </div>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Data</TableHead>
+                          <TableHead>Canal</TableHead>
+                          <TableHead>Conteúdo</TableHead>
+                          <TableHead>Ação</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>HTTP</TableHead>
+                          <TableHead>Tentativa</TableHead>
+                          <TableHead>Erro</TableHead>
+                          <TableHead className="text-right">Ações</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {logs.map((log) => (
+                          <TableRow key={log.id}>
+                            <TableCell className="whitespace-nowrap text-sm">
+                              {new Date(log.delivered_at).toLocaleString('pt-BR')}
+                            </TableCell>
+                            <TableCell>{log.slack_webhooks?.channel_name ?? '—'}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{CONTENT_TYPE_LABELS[log.content_type]}</Badge>
+                            </TableCell>
+                            <TableCell className="text-sm">{ACTION_LABELS[log.action]}</TableCell>
+                            <TableCell>{getStatusBadge(log.status)}</TableCell>
+                            <TableCell>{log.response_code ?? '—'}</TableCell>
+                            <TableCell>{log.attempt_number}</TableCell>
+                            <TableCell className="max-w-xs truncate text-xs text-muted-foreground" title={log.error_message ?? undefined}>
+                              {log.error_message ?? '—'}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {/* Deleted content can't be re-rendered, so deletions are not resendable */}
+                              {(log.status === 'failed' || log.status === 'dead_letter') && log.webhook_id && log.action !== 'deleted' && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleResend(log)}
+                                  disabled={resendingId === log.id}
+                                  title="Reenviar"
+                                >
+                                  {resendingId === log.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <RotateCcw className="h-4 w-4" />
+                                  )}
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default SlackManager;
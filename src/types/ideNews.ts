@@ -0,0 +1,10 @@
+/**
+ * IDE News Type Definitions
+ * 
+ * Re-exported from the module shared with the Supabase Edge Functions,
+ * so the admin page and sync-ide-news use the same types.
+ * 
+ * @see supabase/functions/_shared/ide-news-types.ts
+ */
+
+export * from '../../supabase/functions/_shared/ide-news-types';
@@ -5,3 +5,7 @@
  */
 
 export * from './slack';
+export * from './notifications';
+export * from './ideNews';
+export * from './search';
+export * from './mcp';
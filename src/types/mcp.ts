@@ -0,0 +1,10 @@
+/**
+ * MCP Server Type Definitions
+ *
+ * Re-exported from the module shared with the Supabase Edge Functions,
+ * so import-mcp-server and the MCP pages use the same types.
+ *
+ * @see supabase/functions/_shared/mcp-types.ts
+ */
+
+export * from '../../supabase/functions/_shared/mcp-types';
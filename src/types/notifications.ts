@@ -0,0 +1,9 @@
+/**
+ * Notification Provider Type Definitions
+ * 
+ * Re-exported from the module shared with the Supabase Edge Functions.
+ * 
+ * @see supabase/functions/_shared/notification-types.ts
+ */
+
+export * from '../../supabase/functions/_shared/notification-types';
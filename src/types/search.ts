@@ -0,0 +1,32 @@
+/**
+ * Catalog Search Type Definitions
+ *
+ * Rows returned by the search_catalog() RPC (full-text search across
+ * workflows, MCP servers, blog posts and recommended sites).
+ *
+ * @see supabase/migrations/20260129020000_catalog_full_text_search.sql
+ */
+
+/**
+ * Content types searched by search_catalog()
+ */
+export type SearchContentType = 'workflow' | 'mcp_server' | 'blog_post' | 'recommended_site';
+
+/**
+ * One search result, ordered by rank
+ */
+export interface CatalogSearchHit {
+  content_type: SearchContentType;
+  id: string;
+  title: string;
+  slug: string;
+  /** External URL (recommended sites only) */
+  url: string | null;
+  /** Title with the matched words wrapped in <mark>...</mark> */
+  title_highlight: string;
+  /** Description/excerpt fragments with <mark>...</mark>, null when empty */
+  snippet: string | null;
+  rank: number;
+  /** Total number of results for the query, for paging */
+  total_count: number;
+}
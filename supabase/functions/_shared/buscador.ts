@@ -0,0 +1,13 @@
+/**
+ * Fetch Layer
+ *
+ * Subset of fetch used by the Edge Functions that read npm and GitHub
+ * (import-mcp-server, check-mcp-health). The functions receive a Buscador
+ * instead of calling fetch, so tests can answer with saved responses from
+ * their __tests__/fixtures.
+ */
+
+export type Buscador = (
+  url: string,
+  init?: { headers?: Record<string, string> },
+) => Promise<{ ok: boolean; status: number; text(): Promise<string> }>;
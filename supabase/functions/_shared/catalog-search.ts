@@ -0,0 +1,84 @@
+/**
+ * Published catalog search shared by the slack-commands Edge Function
+ * (`/vibeflow search`) and welcome-bot (app_mention).
+ */
+
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import type { CatalogSearchResult } from './slack-types.ts';
+import { MAX_SEARCH_RESULTS } from './slack-formatters.ts';
+import { contentUrl } from './slack-content.ts';
+
+/**
+ * Searches the published catalog, MCP servers first. Each table returns up
+ * to MAX_SEARCH_RESULTS rows; the message lists the first
+ * MAX_SEARCH_RESULTS of the combined results.
+ *
+ * `term` is interpolated into PostgREST filters and must come from
+ * sanitizeSearchTerm().
+ */
+export async function searchCatalog(
+  supabase: SupabaseClient,
+  term: string
+): Promise<CatalogSearchResult[]> {
+  const pattern = `%${term}%`;
+
+  const [mcpServers, workflows, blogPosts, ideNews] = await Promise.all([
+    supabase
+      .from('mcp_servers')
+      .select('title, slug, description')
+      .eq('is_published', true)
+      .or(`title.ilike.${pattern},description.ilike.${pattern},npm_package.ilike.${pattern}`)
+      .limit(MAX_SEARCH_RESULTS),
+    supabase
+      .from('workflows')
+      .select('title, slug, description')
+      .eq('is_published', true)
+      .or(`title.ilike.${pattern},description.ilike.${pattern}`)
+      .limit(MAX_SEARCH_RESULTS),
+    supabase
+      .from('blog_posts')
+      .select('title, slug, excerpt')
+      .eq('status', 'published')
+      .or(`title.ilike.${pattern},excerpt.ilike.${pattern}`)
+      .limit(MAX_SEARCH_RESULTS),
+    supabase
+      .from('ide_news')
+      .select('titulo, resumo, link')
+      .or(`titulo.ilike.${pattern},resumo.ilike.${pattern}`)
+      .order('created_at', { ascending: false })
+      .limit(MAX_SEARCH_RESULTS),
+  ]);
+
+  for (const result of [mcpServers, workflows, blogPosts, ideNews]) {
+    if (result.error) {
+      throw new Error(`Search failed: ${result.error.message}`);
+    }
+  }
+
+  return [
+    ...(mcpServers.data ?? []).map((row): CatalogSearchResult => ({
+      contentType: 'mcp_server',
+      title: row.title,
+      url: contentUrl('mcp_server', row),
+      description: row.description,
+    })),
+    ...(workflows.data ?? []).map((row): CatalogSearchResult => ({
+      contentType: 'workflow',
+      title: row.title,
+      url: contentUrl('workflow', row),
+      description: row.description,
+    })),
+    ...(blogPosts.data ?? []).map((row): CatalogSearchResult => ({
+      contentType: 'blog_post',
+      title: row.title,
+      url: contentUrl('blog_post', row),
+      description: row.excerpt,
+    })),
+    ...(ideNews.data ?? []).map((row): CatalogSearchResult => ({
+      contentType: 'ide_news',
+      title: row.titulo,
+      url: contentUrl('ide_news', row),
+      description: row.resumo,
+    })),
+  ];
+}
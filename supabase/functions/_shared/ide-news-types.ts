@@ -0,0 +1,66 @@
+/**
+ * IDE News Type Definitions
+ *
+ * Rows of ide_news_sources and ide_news_sync_log, shared by the sync-ide-news
+ * Edge Function and the admin page (/ide-news-manager).
+ */
+
+/**
+ * How sync-ide-news reads a source's changelog
+ * (see supabase/functions/sync-ide-news/adapters.ts)
+ */
+export type IdeNewsAdapterType = 'rss' | 'github_releases' | 'html' | 'markdown';
+
+/**
+ * Source read by sync-ide-news (ide_news_sources row)
+ */
+export interface IdeNewsSource {
+  id: string;
+  slug: string;
+  /** Display name, stored in ide_news.fonte */
+  name: string;
+  /** Public changelog page */
+  url: string;
+  logo: string | null;
+  color: string | null;
+  adapter_type: IdeNewsAdapterType;
+  /** rss: { feed }, github_releases: { repo }, html: { seletores }, markdown: {} */
+  adapter_config: Record<string, unknown> | null;
+  item_limit: number;
+  position: number;
+  is_enabled: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Outcome of one source in a sync run
+ */
+export interface IdeNewsSourceResult {
+  source: string;
+  name: string;
+  status: 'success' | 'error';
+  items: number;
+  error: string | null;
+}
+
+export type IdeNewsSyncStatus = 'running' | 'success' | 'error';
+
+/**
+ * One sync-ide-news run (ide_news_sync_log row)
+ */
+export interface IdeNewsSyncRun {
+  id: string;
+  status: IdeNewsSyncStatus;
+  sync_started_at: string;
+  sync_completed_at: string | null;
+  items_fetched: number;
+  items_inserted: number;
+  items_updated: number;
+  failed_sources: string[];
+  source_results: IdeNewsSourceResult[];
+  /** Slug of the only source synced, or null when every enabled source ran */
+  source_slug: string | null;
+  error_message: string | null;
+  created_at: string;
+}
@@ -0,0 +1,241 @@
+// Conversão de markdown para o HTML das colunas `content` (README importado
+// por import-mcp-server e corpo dos pacotes de conteúdo de sync-content-packs)
+//
+// O HTML é montado só com as tags geradas aqui: todo texto do markdown é
+// escapado e o HTML cru (comum em READMEs: <p align>, <img>, <details>) perde
+// as tags e fica só com o texto. Links e imagens aceitam apenas http(s);
+// caminhos relativos são resolvidos contra o repositório quando ele é
+// conhecido e descartados caso contrário.
+
+export interface OpcoesMarkdown {
+  /** Base dos links relativos (ex: https://github.com/dono/repo/blob/HEAD/) */
+  baseLinks?: string;
+  /** Base das imagens relativas (ex: https://raw.githubusercontent.com/dono/repo/HEAD/) */
+  baseImagens?: string;
+  /** Remove o primeiro título de nível 1 (já usado como título do servidor) */
+  removerTitulo?: boolean;
+}
+
+// Selos de build/versão não fazem sentido na página do servidor
+const SELO = /shields\.io|badge|badgen\.net|img\.youtube|codecov\.io/i;
+
+const escapar = (texto: string): string =>
+  texto
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const removerTags = (texto: string): string =>
+  texto
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<\/?[a-zA-Z][^>]*>/g, '');
+
+/**
+ * URL aceita em href/src, já escapada para o atributo; null quando o
+ * esquema não é http(s) ou o caminho relativo não tem base
+ */
+const urlSegura = (url: string, base?: string): string | null => {
+  const bruta = url.replace(/&amp;/g, '&');
+  if (/^https?:\/\//i.test(bruta)) return escapar(bruta);
+  if (bruta.startsWith('#') || /^[a-z][a-z0-9+.-]*:/i.test(bruta) || bruta.startsWith('//') || !base) {
+    return null;
+  }
+  try {
+    return escapar(new URL(bruta, base).href);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Formatação de uma linha: código, imagens, links, negrito e itálico
+ */
+const inline = (texto: string, opcoes: OpcoesMarkdown): string => {
+  const codigos: string[] = [];
+  let html = texto.replace(/`([^`]+)`/g, (_, codigo: string) => {
+    codigos.push(`<code>${escapar(codigo)}</code>`);
+    return `\uE000${codigos.length - 1}\uE001`;
+  });
+
+  html = html.replace(/<(https?:\/\/[^>\s]+)>/g, '$1');
+  html = escapar(removerTags(html));
+
+  html = html.replace(/!\[([^\]]*)\]\(((?:[^()\s]|\([^()\s]*\))+)(?:\s+&quot;[^)]*&quot;)?\)/g, (_, alt: string, url: string) => {
+    if (SELO.test(url)) return '';
+    const src = urlSegura(url, opcoes.baseImagens);
+    return src ? `<img src="${src}" alt="${alt}" loading="lazy" />` : alt;
+  });
+
+  html = html.replace(/\[([^\]]*)\]\(((?:[^()\s]|\([^()\s]*\))+)(?:\s+&quot;[^)]*&quot;)?\)/g, (_, rotulo: string, url: string) => {
+    if (!rotulo.trim()) return '';
+    const href = urlSegura(url, opcoes.baseLinks);
+    return href ? `<a href="${href}" target="_blank" rel="noopener noreferrer">${rotulo}</a>` : rotulo;
+  });
+
+  html = html
+    .replace(/\*\*(?=\S)([^*]+?)\*\*|__(?=\S)([^_]+?)__/g, (_, a?: string, b?: string) => `<strong>${a ?? b}</strong>`)
+    .replace(/(^|[^*\w])\*(?=\S)([^*]+?)\*(?!\w)/g, '$1<em>$2</em>')
+    .replace(/(^|[^_\w])_(?=\S)([^_]+?)_(?!\w)/g, '$1<em>$2</em>');
+
+  return html.replace(/\uE000(\d+)\uE001/g, (_, indice: string) => codigos[Number(indice)]).trim();
+};
+
+const CERCA = /^\s*(```|~~~)/;
+const TITULO = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const REGRA = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const SEPARADOR_TABELA = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const celulas = (linha: string): string[] =>
+  linha.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(celula => celula.trim());
+
+/**
+ * Converte markdown em HTML seguro para renderizar com dangerouslySetInnerHTML
+ */
+export const markdownParaHtml = (markdown: string, opcoes: OpcoesMarkdown = {}): string => {
+  const linhas = markdown.replace(/\r\n?/g, '\n').replace(/<!--[\s\S]*?-->/g, '').split('\n');
+  const blocos: string[] = [];
+  let paragrafo: string[] = [];
+  let tituloRemovido = !opcoes.removerTitulo;
+
+  const fecharParagrafo = () => {
+    const texto = inline(paragrafo.join(' '), opcoes);
+    if (texto) blocos.push(`<p>${texto}</p>`);
+    paragrafo = [];
+  };
+
+  let i = 0;
+  while (i < linhas.length) {
+    const linha = linhas[i];
+
+    const cerca = linha.match(CERCA);
+    if (cerca) {
+      fecharParagrafo();
+      const codigo: string[] = [];
+      i++;
+      while (i < linhas.length && !linhas[i].trim().startsWith(cerca[1])) {
+        codigo.push(linhas[i]);
+        i++;
+      }
+      i++;
+      blocos.push(`<pre><code>${escapar(codigo.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    if (!linha.trim()) {
+      fecharParagrafo();
+      i++;
+      continue;
+    }
+
+    const titulo = linha.match(TITULO);
+    if (titulo) {
+      fecharParagrafo();
+      const nivel = titulo[1].length;
+      if (nivel === 1 && !tituloRemovido) {
+        tituloRemovido = true;
+      } else {
+        // A página já tem o <h1> do servidor
+        const tag = `h${Math.max(nivel, 2)}`;
+        const texto = inline(titulo[2], opcoes);
+        if (texto) blocos.push(`<${tag}>${texto}</${tag}>`);
+      }
+      i++;
+      continue;
+    }
+
+    if (REGRA.test(linha)) {
+      fecharParagrafo();
+      blocos.push('<hr />');
+      i++;
+      continue;
+    }
+
+    if (linha.trim().startsWith('>')) {
+      fecharParagrafo();
+      const citacao: string[] = [];
+      while (i < linhas.length && linhas[i].trim().startsWith('>')) {
+        citacao.push(linhas[i].trim().replace(/^>\s?/, ''));
+        i++;
+      }
+      // Alertas do GitHub (> [!NOTE]) viram citações comuns
+      const texto = inline(citacao.join(' ').replace(/^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\]\s*/i, ''), opcoes);
+      if (texto) blocos.push(`<blockquote><p>${texto}</p></blockquote>`);
+      continue;
+    }
+
+    const item = linha.match(ITEM);
+    if (item) {
+      fecharParagrafo();
+      const ordenada = /\d/.test(item[1]);
+      const itens: string[] = [];
+      while (i < linhas.length && linhas[i].trim()) {
+        const atual = linhas[i].match(ITEM);
+        if (atual) {
+          itens.push(atual[2]);
+        } else if (/^\s/.test(linhas[i]) && itens.length > 0) {
+          // Continuação do item anterior
+          itens[itens.length - 1] += ` ${linhas[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      const tag = ordenada ? 'ol' : 'ul';
+      blocos.push(`<${tag}>${itens.map(texto => `<li>${inline(texto, opcoes)}</li>`).join('')}</${tag}>`);
+      continue;
+    }
+
+    if (linha.includes('|') && i + 1 < linhas.length && SEPARADOR_TABELA.test(linhas[i + 1]) && linhas[i + 1].includes('-')) {
+      fecharParagrafo();
+      const cabecalho = celulas(linha);
+      i += 2;
+      const linhasTabela: string[][] = [];
+      while (i < linhas.length && linhas[i].includes('|') && linhas[i].trim()) {
+        linhasTabela.push(celulas(linhas[i]));
+        i++;
+      }
+      blocos.push(
+        '<table><thead><tr>' +
+        cabecalho.map(celula => `<th>${inline(celula, opcoes)}</th>`).join('') +
+        '</tr></thead><tbody>' +
+        linhasTabela.map(celulasLinha =>
+          `<tr>${celulasLinha.map(celula => `<td>${inline(celula, opcoes)}</td>`).join('')}</tr>`
+        ).join('') +
+        '</tbody></table>'
+      );
+      continue;
+    }
+
+    paragrafo.push(linha.trim());
+    i++;
+  }
+
+  fecharParagrafo();
+  return blocos.join('\n');
+};
+
+/**
+ * Texto do primeiro título de nível 1, sem formatação
+ */
+export const primeiroTitulo = (markdown: string): string | null => {
+  let emCodigo = false;
+  for (const linha of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    if (CERCA.test(linha)) {
+      emCodigo = !emCodigo;
+      continue;
+    }
+    if (emCodigo) continue;
+    const titulo = linha.match(/^#\s+(.*?)\s*#*\s*$/);
+    if (titulo) {
+      const texto = removerTags(titulo[1])
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/[*_`]/g, '')
+        .trim();
+      if (texto) return texto;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,99 @@
+/**
+ * MCP Server Type Definitions
+ *
+ * Launch metadata stored on mcp_servers, shared by the import-mcp-server
+ * Edge Function and the MCP pages (config generator, /mcp-manager).
+ *
+ * @see supabase/migrations/20260129030000_mcp_server_launch_config.sql
+ */
+
+/**
+ * How the client talks to the server: a local process (stdio) or a remote
+ * endpoint (sse / streamable http)
+ */
+export type McpTransport = 'stdio' | 'sse' | 'http';
+
+/**
+ * Environment variable read by a stdio server
+ */
+export interface McpEnvVar {
+  name: string;
+  description: string;
+  required: boolean;
+  /** Secrets are never filled in; the generated config gets a placeholder */
+  secret: boolean;
+  /** Value used for non-secret variables instead of a placeholder */
+  example?: string;
+}
+
+/**
+ * Launch metadata of one server, keyed by its slug in the generated config
+ */
+export interface McpLaunchConfig {
+  slug: string;
+  title: string;
+  transport: McpTransport;
+  launch_command: string | null;
+  launch_args: string[];
+  server_url: string | null;
+  env_vars: McpEnvVar[];
+}
+
+/**
+ * Freshness of a catalogued server, set by check-mcp-health:
+ * - maintained: npm release or repository push in the last 12 months
+ * - stale: no activity for 12 months
+ * - archived: repository archived or latest npm version deprecated
+ */
+export type McpHealthStatus = 'maintained' | 'stale' | 'archived';
+
+/**
+ * Health columns of mcp_servers shown on the catalog cards
+ *
+ * @see supabase/migrations/20260129040000_mcp_server_health.sql
+ */
+export interface McpHealthInfo {
+  /** null until the first check */
+  health_status: McpHealthStatus | null;
+  health_reason: string | null;
+  health_checked_at: string | null;
+  latest_version: string | null;
+  last_published_at: string | null;
+  github_stars: number | null;
+  license: string | null;
+}
+
+/**
+ * mcp_servers fields pre-filled by import-mcp-server for /mcp-manager
+ */
+export interface McpServerDraft extends McpLaunchConfig {
+  description: string | null;
+  /** README converted to sanitized HTML */
+  content: string;
+  tags: string[];
+  npm_package: string | null;
+  github_url: string | null;
+  install_command: string | null;
+}
+
+/**
+ * Existing server that looks like the imported one
+ */
+export interface McpServerDuplicate {
+  id: string;
+  title: string;
+  slug: string;
+  is_published: boolean;
+  /** Which field matched */
+  match: 'npm_package' | 'slug';
+}
+
+/**
+ * import-mcp-server response
+ */
+export interface McpImportResponse {
+  success: boolean;
+  draft?: McpServerDraft;
+  duplicates?: McpServerDuplicate[];
+  error?: string;
+}
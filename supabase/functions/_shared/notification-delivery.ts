@@ -0,0 +1,110 @@
+/**
+ * Provider routing shared by notify-slack and slack-outbox-worker.
+ *
+ * Every row in slack_webhooks is a notification channel with a provider:
+ * Slack channels use the Block Kit formatters and the delivery modes in
+ * slack-delivery.ts; Discord, Teams and generic JSON channels are plain
+ * incoming webhooks with their own payload formats.
+ */
+
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import type { SlackMessage } from './slack-types.ts';
+import { formatJobFailureAlert, formatMcpHealthAlert, formatTestMessage } from './slack-formatters.ts';
+import {
+  type ContentRecord,
+  type ContentType,
+  type NotificationAction,
+  type NotificationPayload,
+  formatActionMessage,
+} from './slack-content.ts';
+import {
+  type ContentRef,
+  type SendResult,
+  type SlackChannel,
+  postToWebhook,
+  sendSlackMessage,
+} from './slack-delivery.ts';
+import type {
+  DiscordMessage,
+  GenericWebhookPayload,
+  McpHealthAlert,
+  NotificationProvider,
+  ScheduledJobAlert,
+  TeamsMessage,
+} from './notification-types.ts';
+import {
+  describeJobFailureAlert,
+  describeMcpHealthAlert,
+  describeNotification,
+  describeTestMessage,
+} from './notifications/content.ts';
+import { formatProviderMessage } from './notifications/providers.ts';
+
+export type { NotificationProvider };
+
+export interface NotificationChannel extends SlackChannel {
+  provider: NotificationProvider;
+}
+
+export type ChannelMessage = SlackMessage | DiscordMessage | TeamsMessage | GenericWebhookPayload;
+
+/**
+ * Builds the message for a content notification in the provider's format
+ */
+export function formatChannelMessage(
+  provider: NotificationProvider,
+  contentType: ContentType,
+  action: NotificationAction,
+  content: ContentRecord | null,
+  payload: NotificationPayload = {}
+): ChannelMessage {
+  if (provider === 'slack') {
+    return formatActionMessage(contentType, action, content, payload);
+  }
+  return formatProviderMessage(provider, describeNotification(contentType, action, content, payload));
+}
+
+/**
+ * Builds the admin test message in the provider's format
+ */
+export function formatChannelTestMessage(provider: NotificationProvider, channelName: string): ChannelMessage {
+  if (provider === 'slack') {
+    return formatTestMessage(channelName);
+  }
+  return formatProviderMessage(provider, describeTestMessage(channelName));
+}
+
+/**
+ * Builds the scheduled job failure alert in the provider's format
+ */
+export function formatChannelJobAlert(provider: NotificationProvider, alert: ScheduledJobAlert): ChannelMessage {
+  if (provider === 'slack') {
+    return formatJobFailureAlert(alert);
+  }
+  return formatProviderMessage(provider, describeJobFailureAlert(alert));
+}
+
+/**
+ * Builds the MCP server health alert in the provider's format
+ */
+export function formatChannelMcpHealthAlert(provider: NotificationProvider, alert: McpHealthAlert): ChannelMessage {
+  if (provider === 'slack') {
+    return formatMcpHealthAlert(alert);
+  }
+  return formatProviderMessage(provider, describeMcpHealthAlert(alert));
+}
+
+/**
+ * Sends a message through the channel's provider
+ */
+export function sendNotification(
+  supabase: SupabaseClient,
+  channel: NotificationChannel,
+  message: ChannelMessage,
+  content: ContentRef | null,
+  signal?: AbortSignal
+): Promise<SendResult> {
+  return channel.provider === 'slack'
+    ? sendSlackMessage(supabase, channel, message as SlackMessage, content, signal)
+    : postToWebhook(channel, message, signal);
+}
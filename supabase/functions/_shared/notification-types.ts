@@ -0,0 +1,150 @@
+/**
+ * Notification Channel Type Definitions
+ *
+ * Provider-agnostic description of a content notification and the payload
+ * shapes of the non-Slack providers (Discord, Microsoft Teams and generic
+ * JSON webhooks). Slack keeps using the Block Kit types from ./slack.
+ */
+
+import type { ContentType, FieldChange, NotificationAction } from './slack-types.ts';
+import type { McpHealthStatus } from './mcp-types.ts';
+
+/**
+ * Services a notification channel can deliver to
+ */
+export type NotificationProvider = 'slack' | 'discord' | 'teams' | 'generic';
+
+/**
+ * One content item in a notification (IDE news batches carry several)
+ */
+export interface NotificationItem {
+  /** Content title */
+  title: string;
+  /** Public URL, or null when the content was deleted */
+  url: string | null;
+  /** Label for the link/button to the content (e.g. "Ver Workflow") */
+  linkLabel: string;
+  /** Short description or excerpt */
+  description: string | null;
+  /** Featured image */
+  imageUrl: string | null;
+  /** Extra name/value pairs (e.g. npm package, tags, source) */
+  fields: { name: string; value: string }[];
+  /** Secondary links (e.g. GitHub repository) */
+  links: { label: string; url: string }[];
+  /** Changed fields, for update notifications */
+  changes?: FieldChange[];
+  /** The content was deleted; renderers strike the title through */
+  deleted?: boolean;
+}
+
+/**
+ * Provider-agnostic notification, rendered by each provider's formatter
+ */
+export interface NotificationContent {
+  /** Null for test messages and job alerts */
+  contentType: ContentType | null;
+  /** Null for test messages and job alerts */
+  action: NotificationAction | null;
+  /** Generic webhook event when there is no content (defaults to "test") */
+  event?: string;
+  /** Headline with emoji (e.g. "🚀 Novo Workflow Publicado!") */
+  heading: string;
+  items: NotificationItem[];
+  /** Optional footer line */
+  footer?: string;
+}
+
+/**
+ * Discord webhook execute payload
+ * @see https://discord.com/developers/docs/resources/webhook#execute-webhook
+ */
+export interface DiscordMessage {
+  content: string;
+  username?: string;
+  embeds: DiscordEmbed[];
+}
+
+export interface DiscordEmbed {
+  title: string;
+  url?: string;
+  description?: string;
+  color?: number;
+  image?: { url: string };
+  fields?: { name: string; value: string; inline?: boolean }[];
+  footer?: { text: string };
+}
+
+/**
+ * Microsoft Teams webhook payload carrying an Adaptive Card
+ * @see https://learn.microsoft.com/microsoftteams/platform/webhooks-and-connectors/how-to/connectors-using
+ */
+export interface TeamsMessage {
+  type: 'message';
+  attachments: {
+    contentType: 'application/vnd.microsoft.card.adaptive';
+    contentUrl: null;
+    content: AdaptiveCard;
+  }[];
+}
+
+export interface AdaptiveCard {
+  $schema: string;
+  type: 'AdaptiveCard';
+  version: string;
+  body: Record<string, unknown>[];
+  actions?: { type: 'Action.OpenUrl'; title: string; url: string }[];
+}
+
+/**
+ * Payload posted to generic JSON webhooks (e.g. Zapier, n8n, custom bots)
+ */
+export interface GenericWebhookPayload {
+  /** Event name, e.g. "workflow.published" ("test" for test messages, "scheduled_job.failed" and "mcp_server.health_changed" for alerts) */
+  event: string;
+  content_type: ContentType | null;
+  action: NotificationAction | null;
+  heading: string;
+  items: NotificationItem[];
+  sent_at: string;
+}
+
+/**
+ * Alert sent by collect_scheduled_job_runs() when a scheduled job reaches
+ * its failure_threshold consecutive failures
+ */
+export interface ScheduledJobAlert {
+  /** scheduled_jobs.name */
+  job_name: string;
+  /** Edge Function the job calls */
+  function_name: string;
+  consecutive_failures: number;
+  /** HTTP status of the last run (null when the request never got a response) */
+  last_http_status: number | null;
+  last_error: string | null;
+  /** ISO timestamp of the last run */
+  last_run_at: string;
+}
+
+/**
+ * An MCP server whose health status changed in a check-mcp-health run
+ */
+export interface McpHealthTransition {
+  title: string;
+  slug: string;
+  /** Status before the check */
+  from: McpHealthStatus;
+  to: McpHealthStatus;
+  /** Why the server got the new status (e.g. "Repositório arquivado no GitHub") */
+  reason: string;
+}
+
+/**
+ * Alert sent by check-mcp-health to the alert_webhook_id of its scheduled
+ * job when catalogued servers change health status
+ */
+export interface McpHealthAlert {
+  transitions: McpHealthTransition[];
+  /** ISO timestamp of the check */
+  checked_at: string;
+}
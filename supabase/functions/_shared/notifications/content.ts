@@ -0,0 +1,370 @@
+/**
+ * Provider-agnostic Notification Content
+ *
+ * Describes workflows, MCP servers, blog posts and IDE news as
+ * NotificationContent so that every provider formatter (Discord, Teams,
+ * generic JSON) renders the same information. Headings and labels match the
+ * Slack Block Kit formatters in ../slack-formatters.ts.
+ */
+
+import type { ContentType, FieldChange, NotificationAction } from '../slack-types.ts';
+import type { McpHealthAlert, NotificationContent, NotificationItem, ScheduledJobAlert } from '../notification-types.ts';
+import { FIELD_LABELS, MCP_HEALTH_LABELS } from '../slack-formatters.ts';
+
+/**
+ * Content row columns read by the describe functions
+ */
+interface Workflow {
+  title: string;
+  slug: string;
+  description: string | null;
+  image_url: string | null;
+}
+
+interface McpServer {
+  title: string;
+  slug: string;
+  description: string | null;
+  tags: string[] | null;
+  npm_package: string | null;
+  github_url: string | null;
+}
+
+interface BlogPost {
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  content: string;
+  cover_image_url: string | null;
+}
+
+interface IdeNews {
+  titulo: string;
+  resumo: string | null;
+  link: string;
+  fonte: string;
+}
+
+/**
+ * Any content row (or IDE news batch) accepted by describeContent
+ */
+export type ContentRow = Workflow | McpServer | BlogPost | IdeNews | IdeNews[];
+
+/**
+ * Extra data captured when a notification was enqueued: the diff for
+ * updates and a title snapshot for deletions
+ */
+export interface NotificationPayload {
+  changes?: FieldChange[];
+  title?: string;
+}
+
+/**
+ * Human-readable name of each content type
+ */
+export const CONTENT_KINDS: Record<ContentType, string> = {
+  workflow: 'Workflow',
+  mcp_server: 'MCP Server',
+  blog_post: 'Artigo',
+  ide_news: 'Novidade de IDE',
+};
+
+// Values longer than this are summarized as "atualizado" instead of shown inline
+const MAX_INLINE_VALUE_LENGTH = 80;
+// Maximum number of changed fields listed in an update notification
+const MAX_CHANGE_LINES = 10;
+
+function item(fields: Partial<NotificationItem> & Pick<NotificationItem, 'title'>): NotificationItem {
+  return {
+    url: null,
+    linkLabel: '',
+    description: null,
+    imageUrl: null,
+    fields: [],
+    links: [],
+    ...fields,
+  };
+}
+
+/**
+ * Describes a workflow publication
+ */
+export function describeWorkflow(workflow: Workflow): NotificationContent {
+  return {
+    contentType: 'workflow',
+    action: 'published',
+    heading: '🚀 Novo Workflow Publicado!',
+    items: [
+      item({
+        title: workflow.title,
+        url: `https://vibeflow.site/workflows/${workflow.slug}`,
+        linkLabel: 'Ver Workflow',
+        description: workflow.description,
+        imageUrl: workflow.image_url,
+      }),
+    ],
+  };
+}
+
+/**
+ * Describes an MCP server publication (npm package and up to 5 tags as
+ * fields, GitHub as a secondary link)
+ */
+export function describeMcpServer(server: McpServer): NotificationContent {
+  const fields: NotificationItem['fields'] = [];
+  if (server.npm_package) {
+    fields.push({ name: 'Pacote npm', value: server.npm_package });
+  }
+  if (server.tags && server.tags.length > 0) {
+    fields.push({ name: 'Tags', value: server.tags.slice(0, 5).join(', ') });
+  }
+
+  return {
+    contentType: 'mcp_server',
+    action: 'published',
+    heading: '🔌 Novo MCP Server Disponível!',
+    items: [
+      item({
+        title: server.title,
+        url: `https://vibeflow.site/mcp-servers/${server.slug}`,
+        linkLabel: 'Ver Detalhes',
+        description: server.description,
+        fields,
+        links: server.github_url ? [{ label: 'GitHub', url: server.github_url }] : [],
+      }),
+    ],
+  };
+}
+
+/**
+ * Describes a blog post publication. Uses the excerpt, or the first 200
+ * characters of the content when there is none.
+ */
+export function describeBlogPost(post: BlogPost): NotificationContent {
+  const excerpt = post.excerpt ?? (
+    post.content.length > 200 ? `${post.content.substring(0, 200)}...` : post.content
+  );
+
+  return {
+    contentType: 'blog_post',
+    action: 'published',
+    heading: '📝 Novo Artigo Publicado!',
+    items: [
+      item({
+        title: post.title,
+        url: `https://vibeflow.site/blog/${post.slug}`,
+        linkLabel: 'Ler Mais',
+        description: excerpt,
+        imageUrl: post.cover_image_url,
+      }),
+    ],
+  };
+}
+
+/**
+ * Describes a batch of IDE news (max 10 items)
+ */
+export function describeIdeNews(newsItems: IdeNews[]): NotificationContent {
+  const items = newsItems.slice(0, 10);
+
+  return {
+    contentType: 'ide_news',
+    action: 'published',
+    heading: `🤖 ${items.length} Novidades de IDEs com IA`,
+    items: items.map((news) =>
+      item({
+        title: news.titulo,
+        url: news.link,
+        linkLabel: 'Ler mais',
+        description: news.resumo,
+        fields: [{ name: 'Fonte', value: news.fonte }],
+      })
+    ),
+    footer: 'Sincronizado automaticamente • https://vibeflow.site/ide-news',
+  };
+}
+
+/**
+ * Describes a content publication for any content type
+ */
+export function describeContent(
+  contentType: ContentType,
+  content: ContentRow
+): NotificationContent {
+  switch (contentType) {
+    case 'workflow':
+      return describeWorkflow(content as Workflow);
+    case 'mcp_server':
+      return describeMcpServer(content as McpServer);
+    case 'blog_post':
+      return describeBlogPost(content as BlogPost);
+    case 'ide_news':
+      // IDE news is batched; a single row is wrapped in an array
+      return describeIdeNews(Array.isArray(content) ? content : [content as IdeNews]);
+    default:
+      throw new Error(`Unknown content_type: ${contentType}`);
+  }
+}
+
+/**
+ * Describes a notification for any action. `content` is the current row
+ * and may be null for deletions, whose title comes from the payload.
+ */
+export function describeNotification(
+  contentType: ContentType,
+  action: NotificationAction,
+  content: ContentRow | null,
+  payload: NotificationPayload = {}
+): NotificationContent {
+  if (!content && action !== 'deleted') {
+    throw new Error(`Content required for ${action} notification: ${contentType}`);
+  }
+
+  switch (action) {
+    case 'published':
+      return describeContent(contentType, content!);
+    case 'updated': {
+      const published = describeContent(contentType, content!);
+      return {
+        contentType,
+        action,
+        heading: '✏️ Conteúdo Atualizado',
+        items: [
+          {
+            ...published.items[0],
+            linkLabel: 'Ver Atualização',
+            changes: payload.changes ?? [],
+          },
+        ],
+      };
+    }
+    case 'deleted': {
+      const title = payload.title
+        ?? (content ? describeContent(contentType, content).items[0].title : 'Conteúdo sem título');
+      return {
+        contentType,
+        action,
+        heading: '🗑️ Conteúdo Removido',
+        items: [
+          item({
+            title,
+            description: `${CONTENT_KINDS[contentType]} não está mais disponível no Vibe Flow.`,
+            deleted: true,
+          }),
+        ],
+      };
+    }
+    default:
+      throw new Error(`Unknown action: ${action}`);
+  }
+}
+
+/**
+ * Describes a test message sent from the admin page
+ */
+export function describeTestMessage(channelName: string): NotificationContent {
+  return {
+    contentType: null,
+    action: null,
+    heading: '✅ Mensagem de teste do Vibe Flow',
+    items: [
+      item({
+        title: 'Mensagem de teste',
+        description: `O webhook de ${channelName} está configurado corretamente.`,
+      }),
+    ],
+    footer: `Enviado pelo painel administrativo em ${new Date().toISOString()}`,
+  };
+}
+
+/**
+ * Describes a scheduled job that failed failure_threshold times in a row
+ */
+export function describeJobFailureAlert(alert: ScheduledJobAlert): NotificationContent {
+  const fields: NotificationItem['fields'] = [
+    { name: 'Edge Function', value: alert.function_name },
+    { name: 'Falhas seguidas', value: String(alert.consecutive_failures) },
+  ];
+  if (alert.last_http_status !== null) {
+    fields.push({ name: 'Último status HTTP', value: String(alert.last_http_status) });
+  }
+
+  return {
+    contentType: null,
+    action: null,
+    event: 'scheduled_job.failed',
+    heading: '🚨 Job agendado falhando',
+    items: [
+      item({
+        title: alert.job_name,
+        description: alert.last_error ?? 'A última execução falhou sem mensagem de erro.',
+        fields,
+      }),
+    ],
+    footer: `Última execução em ${alert.last_run_at}`,
+  };
+}
+
+/**
+ * Describes the MCP servers whose health status changed in a
+ * check-mcp-health run
+ */
+export function describeMcpHealthAlert(alert: McpHealthAlert): NotificationContent {
+  return {
+    contentType: null,
+    action: null,
+    event: 'mcp_server.health_changed',
+    heading: '🩺 Saúde dos MCP Servers',
+    items: alert.transitions.map((transition) =>
+      item({
+        title: transition.title,
+        url: `https://vibeflow.site/mcp-servers/${transition.slug}`,
+        linkLabel: 'Ver Detalhes',
+        description: transition.reason,
+        fields: [
+          {
+            name: 'Status',
+            value: `${MCP_HEALTH_LABELS[transition.from]} → ${MCP_HEALTH_LABELS[transition.to]}`,
+          },
+        ],
+      })
+    ),
+    footer: `Verificado em ${alert.checked_at}`,
+  };
+}
+
+/**
+ * Formats the changed fields of an update as diff lines (max 10, plus a
+ * "more fields" line). `strike` renders a removed value in the provider's
+ * markup; short single-line values are shown as "before → after", long or
+ * multi-line values only name the field.
+ */
+export function summarizeChanges(
+  changes: FieldChange[],
+  bold: (text: string) => string,
+  strike: (text: string) => string
+): string[] {
+  const isInline = (value: string | null) =>
+    value !== null && value.length <= MAX_INLINE_VALUE_LENGTH && !value.includes('\n');
+
+  const lines = changes.slice(0, MAX_CHANGE_LINES).map((change) => {
+    const label = FIELD_LABELS[change.field] ?? change.field;
+    if (isInline(change.before) && isInline(change.after)) {
+      return `• ${bold(`${label}:`)} ${strike(change.before!)} → ${change.after}`;
+    }
+    return `• ${bold(label)} atualizado`;
+  });
+
+  if (changes.length > MAX_CHANGE_LINES) {
+    lines.push(`• e mais ${changes.length - MAX_CHANGE_LINES} campos`);
+  }
+
+  return lines;
+}
+
+/**
+ * Truncates text to a provider's field limit, appending "..."
+ */
+export function truncate(text: string, maxLength: number): string {
+  return text.length <= maxLength ? text : `${text.substring(0, maxLength - 3)}...`;
+}
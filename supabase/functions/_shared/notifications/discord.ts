@@ -0,0 +1,85 @@
+/**
+ * Discord Message Formatter
+ *
+ * Renders a NotificationContent as a Discord webhook payload: the heading
+ * as message content and one embed per item (max 10, Discord's limit).
+ *
+ * @see https://discord.com/developers/docs/resources/message#embed-object
+ */
+
+import type { NotificationAction } from '../slack-types.ts';
+import type { DiscordEmbed, DiscordMessage, NotificationContent } from '../notification-types.ts';
+import { summarizeChanges, truncate } from './content.ts';
+
+// Discord embed limits
+const MAX_EMBEDS = 10;
+const MAX_TITLE_LENGTH = 256;
+const MAX_DESCRIPTION_LENGTH = 4096;
+const MAX_FIELDS = 25;
+const MAX_FIELD_VALUE_LENGTH = 1024;
+
+/**
+ * Embed color per action (Discord blurple, yellow and red); test messages
+ * are green
+ */
+const ACTION_COLORS: Record<NotificationAction, number> = {
+  published: 0x5865f2,
+  updated: 0xfee75c,
+  deleted: 0xed4245,
+};
+const TEST_COLOR = 0x57f287;
+
+/**
+ * Formats a notification for a Discord webhook
+ *
+ * @param notification - Provider-agnostic notification content
+ * @returns DiscordMessage - Payload for the Discord execute-webhook endpoint
+ */
+export function formatDiscordMessage(notification: NotificationContent): DiscordMessage {
+  const color = notification.action ? ACTION_COLORS[notification.action] : TEST_COLOR;
+
+  const embeds = notification.items.slice(0, MAX_EMBEDS).map((item): DiscordEmbed => {
+    const descriptionParts: string[] = [];
+    if (item.description) {
+      descriptionParts.push(item.description);
+    }
+    if (item.changes && item.changes.length > 0) {
+      const lines = summarizeChanges(item.changes, (text) => `**${text}**`, (text) => `~~${text}~~`);
+      descriptionParts.push(`**Alterações:**\n${lines.join('\n')}`);
+    }
+    if (item.url && item.linkLabel) {
+      descriptionParts.push(`[${item.linkLabel}](${item.url})`);
+    }
+
+    const fields = [
+      ...item.fields.map((field) => ({
+        name: field.name,
+        value: truncate(field.value, MAX_FIELD_VALUE_LENGTH),
+        inline: true,
+      })),
+      ...item.links.map((link) => ({ name: link.label, value: link.url })),
+    ].slice(0, MAX_FIELDS);
+
+    return {
+      title: truncate(item.deleted ? `~~${item.title}~~` : item.title, MAX_TITLE_LENGTH),
+      ...(item.url && { url: item.url }),
+      ...(descriptionParts.length > 0 && {
+        description: truncate(descriptionParts.join('\n\n'), MAX_DESCRIPTION_LENGTH),
+      }),
+      color,
+      ...(item.imageUrl && { image: { url: item.imageUrl } }),
+      ...(fields.length > 0 && { fields }),
+    };
+  });
+
+  // The footer goes on the last embed, as a trailer for the whole message
+  if (notification.footer && embeds.length > 0) {
+    embeds[embeds.length - 1].footer = { text: notification.footer };
+  }
+
+  return {
+    username: 'Vibe Flow',
+    content: notification.heading,
+    embeds,
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Generic JSON Webhook Formatter
+ *
+ * Posts the provider-agnostic notification as plain JSON, for automation
+ * tools (Zapier, n8n, Make) and custom bots.
+ */
+
+import type { GenericWebhookPayload, NotificationContent } from '../notification-types.ts';
+
+/**
+ * Formats a notification for a generic JSON webhook
+ *
+ * @param notification - Provider-agnostic notification content
+ * @returns GenericWebhookPayload - e.g. `{ event: 'workflow.published', ... }`
+ */
+export function formatGenericPayload(notification: NotificationContent): GenericWebhookPayload {
+  return {
+    event: notification.contentType && notification.action
+      ? `${notification.contentType}.${notification.action}`
+      : notification.event ?? 'test',
+    content_type: notification.contentType,
+    action: notification.action,
+    heading: notification.heading,
+    items: notification.items,
+    sent_at: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Provider Dispatch
+ *
+ * Picks the formatter for a notification channel's provider. Slack channels
+ * use the Block Kit formatters in ../slack instead.
+ */
+
+import type {
+  DiscordMessage,
+  GenericWebhookPayload,
+  NotificationContent,
+  NotificationProvider,
+  TeamsMessage,
+} from '../notification-types.ts';
+import { formatDiscordMessage } from './discord.ts';
+import { formatTeamsMessage } from './teams.ts';
+import { formatGenericPayload } from './generic.ts';
+
+/**
+ * Renders a notification for a non-Slack provider
+ *
+ * @param provider - Channel provider (discord, teams or generic)
+ * @param notification - Provider-agnostic notification content
+ * @returns The provider's webhook payload
+ */
+export function formatProviderMessage(
+  provider: Exclude<NotificationProvider, 'slack'>,
+  notification: NotificationContent
+): DiscordMessage | TeamsMessage | GenericWebhookPayload {
+  switch (provider) {
+    case 'discord':
+      return formatDiscordMessage(notification);
+    case 'teams':
+      return formatTeamsMessage(notification);
+    case 'generic':
+      return formatGenericPayload(notification);
+    default:
+      throw new Error(`Unknown provider: ${provider}`);
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Microsoft Teams Message Formatter
+ *
+ * Renders a NotificationContent as an Adaptive Card posted to a Teams
+ * incoming webhook (or a Teams Workflows "post to channel" webhook).
+ * Adaptive Card markdown has no strike-through, so deleted titles are
+ * marked "(removido)" and shown subtle instead.
+ *
+ * @see https://adaptivecards.io/explorer/
+ */
+
+import type { NotificationContent, TeamsMessage } from '../notification-types.ts';
+import { summarizeChanges } from './content.ts';
+
+/**
+ * Formats a notification for a Microsoft Teams webhook
+ *
+ * @param notification - Provider-agnostic notification content
+ * @returns TeamsMessage - Message with a single Adaptive Card attachment
+ */
+export function formatTeamsMessage(notification: NotificationContent): TeamsMessage {
+  const isSingleItem = notification.items.length === 1;
+
+  const body: Record<string, unknown>[] = [
+    {
+      type: 'TextBlock',
+      text: notification.heading,
+      weight: 'Bolder',
+      size: 'Large',
+      wrap: true,
+    },
+  ];
+
+  notification.items.forEach((item, index) => {
+    const containerItems: Record<string, unknown>[] = [
+      {
+        type: 'TextBlock',
+        text: item.deleted ? `${item.title} (removido)` : item.title,
+        weight: 'Bolder',
+        size: 'Medium',
+        isSubtle: !!item.deleted,
+        wrap: true,
+      },
+    ];
+
+    if (item.description) {
+      containerItems.push({ type: 'TextBlock', text: item.description, wrap: true });
+    }
+
+    if (item.imageUrl) {
+      containerItems.push({ type: 'Image', url: item.imageUrl, altText: item.title, size: 'Large' });
+    }
+
+    if (item.fields.length > 0) {
+      containerItems.push({
+        type: 'FactSet',
+        facts: item.fields.map((field) => ({ title: field.name, value: field.value })),
+      });
+    }
+
+    if (item.changes && item.changes.length > 0) {
+      const lines = summarizeChanges(item.changes, (text) => `**${text}**`, (text) => `"${text}"`);
+      containerItems.push({
+        type: 'TextBlock',
+        text: `**Alterações:**\n\n${lines.join('\n\n')}`,
+        wrap: true,
+      });
+    }
+
+    // Batches link each item inline; single items use card actions
+    if (!isSingleItem && item.url) {
+      containerItems.push({ type: 'TextBlock', text: `[${item.linkLabel}](${item.url})`, wrap: true });
+    }
+
+    body.push({
+      type: 'Container',
+      separator: index > 0,
+      items: containerItems,
+    });
+  });
+
+  if (notification.footer) {
+    body.push({
+      type: 'TextBlock',
+      text: notification.footer,
+      isSubtle: true,
+      size: 'Small',
+      wrap: true,
+    });
+  }
+
+  const [single] = notification.items;
+  const actions = isSingleItem && single.url
+    ? [
+        { type: 'Action.OpenUrl' as const, title: single.linkLabel, url: single.url },
+        ...single.links.map((link) => ({ type: 'Action.OpenUrl' as const, title: link.label, url: link.url })),
+      ]
+    : [];
+
+  return {
+    type: 'message',
+    attachments: [
+      {
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          body,
+          ...(actions.length > 0 && { actions }),
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,213 @@
+/**
+ * Onboarding sequence delivery shared by welcome-bot (day 0 step, sent when
+ * the member joins) and onboarding-worker (later steps, driven by pg_cron).
+ *
+ * Steps live in onboarding_steps; schedule_onboarding() creates one
+ * onboarding_schedule row per member and step, and claim_onboarding_steps()
+ * hands due rows to processOnboarding(). Every attempt is logged in
+ * welcome_bot_logs.
+ */
+
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import type {
+  CatalogSearchResult,
+  OnboardingContentList,
+  OnboardingStep,
+  SlackMessage,
+} from './slack-types.ts';
+import { formatOnboardingStepMessage } from './slack-formatters.ts';
+import { contentUrl } from './slack-content.ts';
+import { callSlackApi } from './slack-delivery.ts';
+import type { SlackEventDelivery } from './slack-events.ts';
+
+// Rows claimed per invocation (the cron runs every 15 minutes)
+const BATCH_SIZE = 20;
+// Attempts before a step is marked failed
+const MAX_ATTEMPTS = 3;
+// Delay before retrying a failed step
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+// Items listed by a step's content list
+const CONTENT_LIST_SIZE = 5;
+
+type ScheduleStatus = 'pending' | 'processing' | 'sent' | 'failed' | 'skipped';
+
+interface ScheduleRow {
+  id: string;
+  user_id: string;
+  user_name: string;
+  step_id: string;
+  attempts: number;
+}
+
+export interface OnboardingSummary {
+  claimed: number;
+  sent: number;
+  retried: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Opens a DM with the member and posts the message
+ */
+async function sendDirectMessage(botToken: string, userId: string, message: SlackMessage): Promise<void> {
+  const opened = await callSlackApi('conversations.open', botToken, { users: userId });
+  if (!opened.ok || !opened.channel) {
+    throw new Error(`Failed to open DM channel: ${opened.error ?? 'no channel returned'}`);
+  }
+
+  const posted = await callSlackApi('chat.postMessage', botToken, { channel: opened.channel, ...message });
+  if (!posted.ok) {
+    throw new Error(`Failed to send message: ${posted.error}`);
+  }
+}
+
+/**
+ * Most viewed published workflows or MCP servers
+ */
+async function fetchContentList(
+  supabase: SupabaseClient,
+  list: OnboardingContentList
+): Promise<CatalogSearchResult[]> {
+  const contentType = list === 'top_workflows' ? 'workflow' : 'mcp_server';
+  const { data, error } = await supabase
+    .from(list === 'top_workflows' ? 'workflows' : 'mcp_servers')
+    .select('title, slug, description')
+    .eq('is_published', true)
+    .order('views_count', { ascending: false })
+    .limit(CONTENT_LIST_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to fetch ${list}: ${error.message}`);
+  }
+
+  return (data ?? []).map((row) => ({
+    contentType,
+    title: row.title,
+    url: contentUrl(contentType, row),
+    description: row.description,
+  }));
+}
+
+/**
+ * Log delivery attempt to database. Logging failures are only reported, so
+ * they never fail the delivery.
+ */
+async function logDelivery(
+  supabase: SupabaseClient,
+  row: ScheduleRow,
+  step: OnboardingStep | null,
+  status: 'success' | 'failed',
+  errorMessage: string | null,
+  payloadSize: number,
+  delivery: SlackEventDelivery | undefined
+): Promise<void> {
+  const { error } = await supabase.from('welcome_bot_logs').insert({
+    user_id: row.user_id,
+    user_name: row.user_name,
+    step_id: step?.id ?? null,
+    step_name: step?.name ?? null,
+    status,
+    error_message: errorMessage,
+    payload_size: payloadSize,
+    event_id: delivery?.event_id ?? null,
+    retry_num: delivery?.retry_num ?? 0,
+    retry_reason: delivery?.retry_reason ?? null,
+    delivered_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error('Failed to log delivery:', error);
+  }
+}
+
+/**
+ * Sends one claimed step and records the outcome
+ */
+async function processRow(
+  supabase: SupabaseClient,
+  botToken: string,
+  row: ScheduleRow,
+  step: OnboardingStep | undefined,
+  delivery: SlackEventDelivery | undefined
+): Promise<ScheduleStatus> {
+  // The step was disabled after the member was scheduled
+  if (!step || !step.is_enabled) {
+    await supabase.from('onboarding_schedule').update({ status: 'skipped', locked_at: null }).eq('id', row.id);
+    return 'skipped';
+  }
+
+  let payloadSize = 0;
+  try {
+    const items = step.content_list ? await fetchContentList(supabase, step.content_list) : [];
+    const message = formatOnboardingStepMessage(step, row.user_name, items);
+    payloadSize = JSON.stringify(message).length;
+
+    await sendDirectMessage(botToken, row.user_id, message);
+
+    console.log(`✅ Onboarding step "${step.name}" sent to ${row.user_name} (${row.user_id})`);
+    await logDelivery(supabase, row, step, 'success', null, payloadSize, delivery);
+    await supabase.from('onboarding_schedule').update({ status: 'sent', locked_at: null }).eq('id', row.id);
+    return 'sent';
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Failed to send onboarding step "${step.name}" to ${row.user_id}:`, errorMessage);
+    await logDelivery(supabase, row, step, 'failed', errorMessage, payloadSize, delivery);
+
+    const status: ScheduleStatus = row.attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+    await supabase
+      .from('onboarding_schedule')
+      .update({
+        status,
+        locked_at: null,
+        ...(status === 'pending' && { send_at: new Date(Date.now() + RETRY_DELAY_MS).toISOString() }),
+      })
+      .eq('id', row.id);
+    return status;
+  }
+}
+
+/**
+ * Claims and sends due onboarding steps, optionally only for one member.
+ * `delivery` is the team_join event that triggered the call, recorded in
+ * the logs.
+ */
+export async function processOnboarding(
+  supabase: SupabaseClient,
+  botToken: string,
+  userId?: string,
+  delivery?: SlackEventDelivery
+): Promise<OnboardingSummary> {
+  const { data: rows, error: claimError } = await supabase
+    .rpc('claim_onboarding_steps', { p_batch_size: BATCH_SIZE, p_user_id: userId ?? null });
+
+  if (claimError) {
+    throw new Error(`Failed to claim onboarding steps: ${claimError.message}`);
+  }
+
+  const claimed = (rows ?? []) as ScheduleRow[];
+
+  const { data: steps, error: stepsError } = claimed.length > 0
+    ? await supabase
+        .from('onboarding_steps')
+        .select('*')
+        .in('id', [...new Set(claimed.map((row) => row.step_id))])
+    : { data: [], error: null };
+
+  if (stepsError) {
+    throw new Error(`Failed to fetch onboarding steps: ${stepsError.message}`);
+  }
+
+  const stepsById = new Map((steps as OnboardingStep[]).map((step) => [step.id, step]));
+  const outcomes = await Promise.all(
+    claimed.map((row) => processRow(supabase, botToken, row, stepsById.get(row.step_id), delivery))
+  );
+
+  return {
+    claimed: claimed.length,
+    sent: outcomes.filter(s => s === 'sent').length,
+    retried: outcomes.filter(s => s === 'pending').length,
+    failed: outcomes.filter(s => s === 'failed').length,
+    skipped: outcomes.filter(s => s === 'skipped').length,
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Parsing of the /vibeflow slash command and of bot mentions, shared by the
+ * slack-commands and welcome-bot Edge Functions and the frontend tests
+ * (through src/lib/slack/commands).
+ */
+
+export type VibeflowSubcommand = 'search' | 'mcp' | 'workflow' | 'news' | 'help';
+
+export interface VibeflowCommand {
+  subcommand: VibeflowSubcommand;
+  /** Search term or slug; empty for news and help */
+  argument: string;
+}
+
+/**
+ * Subcommands that need an argument, with the argument's name for the usage
+ * hint
+ */
+export const SUBCOMMAND_ARGUMENTS: Partial<Record<VibeflowSubcommand, string>> = {
+  search: 'termo',
+  mcp: 'slug',
+  workflow: 'slug',
+};
+
+const SUBCOMMANDS: VibeflowSubcommand[] = ['search', 'mcp', 'workflow', 'news', 'help'];
+
+/**
+ * Parses the text typed after /vibeflow. Unknown subcommands and missing
+ * arguments fall back to help; text without a known subcommand is treated
+ * as a search so `/vibeflow postgres` works.
+ */
+export function parseVibeflowCommand(text: string): VibeflowCommand {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return { subcommand: 'help', argument: '' };
+  }
+
+  const [first, ...rest] = trimmed.split(/\s+/);
+  const name = first.toLowerCase() as VibeflowSubcommand;
+  const argument = rest.join(' ');
+
+  if (!SUBCOMMANDS.includes(name)) {
+    return { subcommand: 'search', argument: trimmed };
+  }
+
+  if (SUBCOMMAND_ARGUMENTS[name] && !argument) {
+    return { subcommand: 'help', argument: '' };
+  }
+
+  return { subcommand: name, argument: SUBCOMMAND_ARGUMENTS[name] ? argument : '' };
+}
+
+/**
+ * Removes the characters that have a meaning in PostgREST `or` filters and
+ * ILIKE patterns, so a term can be interpolated into `title.ilike.%term%`
+ */
+export function sanitizeSearchTerm(term: string): string {
+  return term.replace(/[%_,()*\\"']/g, ' ').replace(/\s+/g, ' ').slice(0, 100).trim();
+}
+
+/**
+ * Search term of an app_mention: the message text without the user, channel
+ * and link tokens Slack adds (`<@U123>`, `<#C123|geral>`, `<https://...>`)
+ */
+export function parseMentionSearchTerm(text: string): string {
+  return sanitizeSearchTerm(text.replace(/<[^>]*>/g, ' '));
+}
@@ -0,0 +1,131 @@
+/**
+ * Content lookup and message formatting shared by the Slack Edge Functions
+ * (notify-slack and slack-outbox-worker).
+ */
+
+import {
+  formatWorkflowMessage,
+  formatMcpServerMessage,
+  formatBlogPostMessage,
+  formatIdeNewsMessage,
+  formatUpdatedMessage,
+  formatDeletedMessage,
+  withFeedbackBlock,
+  FEEDBACK_CONTENT_TYPES,
+  type BlogPost,
+  type ContentRecord,
+  type IdeNews,
+  type McpServer,
+  type Workflow,
+} from './slack-formatters.ts';
+import type { ContentType, NotificationAction, SlackMessage } from './slack-types.ts';
+import { CONTENT_KINDS, type NotificationPayload } from './notifications/content.ts';
+
+export type { ContentRecord, ContentType, NotificationAction, NotificationPayload };
+
+export const VALID_CONTENT_TYPES: ContentType[] = ['workflow', 'mcp_server', 'blog_post', 'ide_news'];
+
+export const VALID_ACTIONS: NotificationAction[] = ['published', 'updated', 'deleted'];
+
+/**
+ * Table holding the content rows for each content type
+ */
+export const CONTENT_TABLES: Record<ContentType, string> = {
+  workflow: 'workflows',
+  mcp_server: 'mcp_servers',
+  blog_post: 'blog_posts',
+  ide_news: 'ide_news',
+};
+
+/**
+ * Columns read from any content row to describe it in update and
+ * deletion messages
+ */
+interface ContentRow {
+  id?: string;
+  title?: string;
+  titulo?: string;
+  slug?: string;
+  link?: string;
+}
+
+/**
+ * Public URL of a content row
+ */
+export function contentUrl(contentType: ContentType, content: ContentRow): string {
+  switch (contentType) {
+    case 'workflow':
+      return `https://vibeflow.site/workflows/${content.slug}`;
+    case 'mcp_server':
+      return `https://vibeflow.site/mcp-servers/${content.slug}`;
+    case 'blog_post':
+      return `https://vibeflow.site/blog/${content.slug}`;
+    case 'ide_news':
+      return content.link ?? 'https://vibeflow.site/ide-news';
+  }
+}
+
+/**
+ * Title of a content row (IDE news uses the Portuguese column name)
+ */
+function contentTitle(contentType: ContentType, content: ContentRow): string {
+  return (contentType === 'ide_news' ? content.titulo : content.title) ?? '';
+}
+
+/**
+ * Builds the Slack message for a content row
+ */
+export function formatContentMessage(contentType: ContentType, content: ContentRecord): SlackMessage {
+  switch (contentType) {
+    case 'workflow':
+      return formatWorkflowMessage(content as Workflow);
+    case 'mcp_server':
+      return formatMcpServerMessage(content as McpServer);
+    case 'blog_post':
+      return formatBlogPostMessage(content as BlogPost);
+    case 'ide_news':
+      // IDE news is batched; a single row is wrapped in an array
+      return formatIdeNewsMessage([content as IdeNews]);
+    default:
+      throw new Error(`Unknown content_type: ${contentType}`);
+  }
+}
+
+/**
+ * Builds the Slack message for a notification action. `content` is the
+ * current row and may be null for deletions, in which case the title comes
+ * from the payload snapshot.
+ */
+export function formatActionMessage(
+  contentType: ContentType,
+  action: NotificationAction,
+  content: ContentRecord | null,
+  payload: NotificationPayload = {}
+): SlackMessage {
+  switch (action) {
+    case 'published': {
+      const message = formatContentMessage(contentType, content!);
+      // Workflows and MCP servers get the feedback buttons handled by
+      // slack-interactivity
+      return FEEDBACK_CONTENT_TYPES.includes(contentType) && content?.id
+        ? withFeedbackBlock(message, contentType, content.id)
+        : message;
+    }
+    case 'updated':
+      return formatUpdatedMessage(
+        {
+          kind: CONTENT_KINDS[contentType],
+          title: contentTitle(contentType, content ?? {}),
+          url: contentUrl(contentType, content ?? {}),
+        },
+        payload.changes ?? []
+      );
+    case 'deleted':
+      return formatDeletedMessage({
+        kind: CONTENT_KINDS[contentType],
+        title: payload.title ?? (content ? contentTitle(contentType, content) : 'Conteúdo sem título'),
+      });
+    default:
+      throw new Error(`Unknown action: ${action}`);
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Message delivery shared by the Slack Edge Functions (notify-slack and
+ * slack-outbox-worker).
+ *
+ * Channels use one of two delivery modes:
+ * - webhook: POST to the channel's incoming webhook URL (fire and forget)
+ * - bot: chat.postMessage with SLACK_BOT_TOKEN. The returned ts is stored per
+ *   content item in slack_messages, so later updates and deletions either
+ *   edit the original message (chat.update) or reply in its thread.
+ */
+
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import type { ContentType, NotificationAction, SlackMessage } from './slack-types.ts';
+
+export type DeliveryMode = 'webhook' | 'bot';
+
+export type UpdateMode = 'edit' | 'thread';
+
+export interface SlackChannel {
+  id: string;
+  channel_name: string;
+  delivery_mode: DeliveryMode;
+  /** Slack channel ID (bot mode) */
+  channel_id: string | null;
+  /** How bot mode handles updates/deletions of an already posted item */
+  update_mode: UpdateMode;
+  /** Decrypted URL (webhook mode) */
+  webhook_url?: string | null;
+}
+
+/**
+ * Content item a message is about; null for test messages, which are
+ * never tracked
+ */
+export interface ContentRef {
+  content_type: ContentType;
+  content_id: string;
+  action: NotificationAction;
+}
+
+export interface SendResult {
+  ok: boolean;
+  response_code: number | null;
+  error: string | null;
+}
+
+interface PostedMessage {
+  channel_id: string;
+  ts: string;
+}
+
+/**
+ * Calls a Slack Web API method. Slack reports most failures as HTTP 200
+ * with `ok: false`, so both are checked. `channel` is the channel id (for
+ * conversations.open, the id of the opened DM).
+ */
+export async function callSlackApi(
+  method: 'chat.postMessage' | 'chat.postEphemeral' | 'chat.update' | 'conversations.open',
+  token: string,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<SendResult & { channel?: string; ts?: string }> {
+  const response = await fetch(`https://slack.com/api/${method}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    return {
+      ok: false,
+      response_code: response.status,
+      error: `HTTP ${response.status}: ${await response.text()}`,
+    };
+  }
+
+  const data = await response.json();
+  if (!data.ok) {
+    return { ok: false, response_code: response.status, error: `${method} failed: ${data.error}` };
+  }
+
+  // conversations.open returns the channel as an object
+  const channel = typeof data.channel === 'object' ? data.channel?.id : data.channel;
+  return { ok: true, response_code: response.status, error: null, channel, ts: data.ts };
+}
+
+/**
+ * POSTs a JSON payload to a channel's incoming webhook URL. Also used for
+ * the Discord, Teams and generic providers, which only support webhooks.
+ */
+export async function postToWebhook(
+  channel: Pick<SlackChannel, 'channel_name' | 'webhook_url'>,
+  message: unknown,
+  signal?: AbortSignal
+): Promise<SendResult> {
+  if (!channel.webhook_url) {
+    throw new Error(`Could not decrypt URL for webhook ${channel.channel_name}`);
+  }
+
+  const response = await fetch(channel.webhook_url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(message),
+    signal,
+  });
+
+  if (response.ok) {
+    return { ok: true, response_code: response.status, error: null };
+  }
+
+  return {
+    ok: false,
+    response_code: response.status,
+    error: `HTTP ${response.status}: ${await response.text()}`,
+  };
+}
+
+async function sendViaBot(
+  supabase: SupabaseClient,
+  channel: SlackChannel,
+  message: SlackMessage,
+  content: ContentRef | null,
+  signal?: AbortSignal
+): Promise<SendResult> {
+  const token = Deno.env.get('SLACK_BOT_TOKEN');
+  if (!token) {
+    throw new Error('SLACK_BOT_TOKEN is not configured');
+  }
+
+  if (!channel.channel_id) {
+    throw new Error(`Channel ID not configured for ${channel.channel_name}`);
+  }
+
+  // Updates and deletions go to the message already posted for the item
+  let posted: PostedMessage | null = null;
+  if (content && content.action !== 'published') {
+    const { data, error } = await supabase
+      .from('slack_messages')
+      .select('channel_id, ts')
+      .eq('webhook_id', channel.id)
+      .eq('content_type', content.content_type)
+      .eq('content_id', content.content_id)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Failed to lookup posted message for ${channel.channel_name}:`, error);
+    }
+    posted = data;
+  }
+
+  if (posted && channel.update_mode === 'edit') {
+    const result = await callSlackApi('chat.update', token, {
+      channel: posted.channel_id,
+      ts: posted.ts,
+      ...message,
+    }, signal);
+
+    // The original was deleted in Slack; fall through and post a new message
+    if (result.ok || !result.error?.endsWith('message_not_found')) {
+      return result;
+    }
+    posted = null;
+  }
+
+  if (posted) {
+    return callSlackApi('chat.postMessage', token, {
+      channel: posted.channel_id,
+      thread_ts: posted.ts,
+      ...message,
+    }, signal);
+  }
+
+  const result = await callSlackApi('chat.postMessage', token, {
+    channel: channel.channel_id,
+    ...message,
+  }, signal);
+
+  if (result.ok && content && result.channel && result.ts) {
+    const { error: trackError } = await supabase
+      .from('slack_messages')
+      .upsert(
+        {
+          webhook_id: channel.id,
+          content_type: content.content_type,
+          content_id: content.content_id,
+          channel_id: result.channel,
+          ts: result.ts,
+        },
+        { onConflict: 'webhook_id,content_type,content_id' }
+      );
+
+    if (trackError) {
+      // The message was delivered; only later edits are affected
+      console.error(`Failed to track posted message for ${channel.channel_name}:`, trackError);
+    }
+  }
+
+  return { ok: result.ok, response_code: result.response_code, error: result.error };
+}
+
+/**
+ * Sends a message to a channel using its delivery mode. Network errors are
+ * thrown; Slack errors are returned as `ok: false`.
+ */
+export function sendSlackMessage(
+  supabase: SupabaseClient,
+  channel: SlackChannel,
+  message: SlackMessage,
+  content: ContentRef | null,
+  signal?: AbortSignal
+): Promise<SendResult> {
+  return channel.delivery_mode === 'bot'
+    ? sendViaBot(supabase, channel, message, content, signal)
+    : postToWebhook(channel, message, signal);
+}
@@ -0,0 +1,40 @@
+/**
+ * Typed dispatch of Slack Events API callbacks.
+ *
+ * welcome-bot registers one handler per event type; dispatchSlackEvent()
+ * picks the handler for an event, so each handler receives its event with
+ * the right type. Events without a handler are only acknowledged.
+ */
+
+import type { SlackEvent, SlackEventType } from './slack-types.ts';
+
+/**
+ * Handles one event type. `context` carries what the handlers share (the
+ * Supabase client, the bot token, the delivery metadata).
+ */
+export type SlackEventHandler<E extends SlackEvent, C> = (event: E, context: C) => Promise<void>;
+
+/**
+ * Handlers by event type
+ */
+export type SlackEventHandlers<C> = {
+  [T in SlackEventType]?: SlackEventHandler<Extract<SlackEvent, { type: T }>, C>;
+};
+
+/**
+ * Runs the handler registered for the event's type. Returns null when no
+ * handler is registered, so the caller can log the event as ignored.
+ */
+export function dispatchSlackEvent<C>(
+  handlers: SlackEventHandlers<C>,
+  event: { type: string },
+  context: C
+): Promise<void> | null {
+  // Only own keys: inherited names like "constructor" are not handlers
+  if (!Object.prototype.hasOwnProperty.call(handlers, event.type)) {
+    return null;
+  }
+
+  const handler = handlers[event.type as SlackEventType] as SlackEventHandler<SlackEvent, C> | undefined;
+  return handler ? handler(event as SlackEvent, context) : null;
+}
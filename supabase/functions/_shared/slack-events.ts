@@ -0,0 +1,76 @@
+/**
+ * Slack Events API deduplication shared by the Edge Functions that receive
+ * events (welcome-bot).
+ *
+ * Slack retries a delivery up to 3 times when the endpoint does not answer
+ * within 3 seconds, with the same event_id and the X-Slack-Retry-Num and
+ * X-Slack-Retry-Reason headers. claimSlackEvent() records the event_id in
+ * slack_processed_events so only the first delivery is processed.
+ */
+
+/**
+ * The part of the Supabase client claimSlackEvent() uses. A Supabase client
+ * satisfies it; tests pass an in-memory store.
+ */
+export interface SlackEventStore {
+  rpc(fn: 'claim_slack_event', params: Record<string, unknown>): PromiseLike<{ data: unknown; error: unknown }>;
+}
+
+/**
+ * Retry metadata of an event delivery
+ */
+export interface SlackRetryInfo {
+  /** 0 for the first delivery */
+  retry_num: number;
+  /** e.g. http_timeout, http_error; null for the first delivery */
+  retry_reason: string | null;
+}
+
+/**
+ * Event delivery metadata stored with the processed event and the logs
+ */
+export interface SlackEventDelivery extends SlackRetryInfo {
+  event_id: string;
+  event_type: string;
+  team_id: string | null;
+}
+
+/**
+ * Reads the retry headers Slack adds to redelivered events
+ */
+export function parseRetryHeaders(headers: Headers): SlackRetryInfo {
+  const retryNum = parseInt(headers.get('x-slack-retry-num') ?? '', 10);
+
+  return {
+    retry_num: Number.isInteger(retryNum) && retryNum > 0 ? retryNum : 0,
+    retry_reason: headers.get('x-slack-retry-reason') || null,
+  };
+}
+
+/**
+ * Records an event delivery. Returns false when the event_id was already
+ * processed, in which case the caller should only acknowledge the request.
+ *
+ * If the store is unavailable the event is processed anyway: the onboarding
+ * schedule is unique per member and step, so a duplicate delivery cannot
+ * send the same DM twice.
+ */
+export async function claimSlackEvent(
+  supabase: SlackEventStore,
+  delivery: SlackEventDelivery
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('claim_slack_event', {
+    p_event_id: delivery.event_id,
+    p_event_type: delivery.event_type,
+    p_team_id: delivery.team_id,
+    p_retry_num: delivery.retry_num,
+    p_retry_reason: delivery.retry_reason,
+  });
+
+  if (error) {
+    console.error(`Failed to record Slack event ${delivery.event_id}:`, error);
+    return true;
+  }
+
+  return data === true;
+}
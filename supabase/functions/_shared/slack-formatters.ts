@@ -0,0 +1,1157 @@
+/**
+ * Slack Message Formatters
+ * 
+ * Functions that format content into Slack Block Kit messages for the
+ * Slack Community Integration feature.
+ * 
+ * This module is the single source of truth for the Edge Functions (Deno)
+ * and the frontend/Jest, which imports it through src/lib/slack/formatters.
+ * Keep it free of Deno and browser APIs, and use `.ts` import specifiers.
+ * 
+ * Feature: slack-community-integration
+ * Tasks: 2.2 Implement formatWorkflowMessage function
+ *        2.4 Implement formatMcpServerMessage function
+ *        2.6 Implement formatBlogPostMessage function
+ * 
+ * @see https://api.slack.com/block-kit
+ */
+
+import type {
+  SlackMessage,
+  SlackBlock,
+  FieldChange,
+  ContentSummary,
+  ContentType,
+  FeedbackAction,
+  FeedbackCounts,
+  CatalogSearchResult,
+  OnboardingStep,
+} from './slack-types.ts';
+import type { McpHealthAlert, ScheduledJobAlert } from './notification-types.ts';
+import type { McpHealthStatus } from './mcp-types.ts';
+
+/**
+ * Workflow data structure from the database
+ */
+export interface Workflow {
+  id: string;
+  title: string;
+  slug: string;
+  description: string | null;
+  content: string;
+  image_url: string | null;
+  is_published: boolean;
+  created_at: string;
+}
+
+/**
+ * MCP Server data structure from the database
+ */
+export interface McpServer {
+  id: string;
+  title: string;
+  slug: string;
+  description: string | null;
+  content: string;
+  image_url: string | null;
+  author_id: string | null;
+  author_name: string | null;
+  category: string | null;
+  tags: string[] | null;
+  npm_package: string | null;
+  github_url: string | null;
+  install_command: string | null;
+  is_published: boolean;
+  views_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Blog Post data structure from the database
+ */
+export interface BlogPost {
+  id: string;
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  content: string;
+  cover_image_url: string | null;
+  status: string;
+  created_at: string;
+}
+
+/**
+ * IDE News data structure from the database
+ */
+export interface IdeNews {
+  id: string;
+  titulo: string;
+  resumo: string | null;
+  link: string;
+  fonte: string;
+  cor: string | null;
+  logo: string | null;
+  /** Portuguese summary generated by sync-ide-news (preferred over resumo) */
+  resumo_ia?: string | null;
+  tags?: string[] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Any content row accepted by the message formatters
+ */
+export type ContentRecord = Workflow | McpServer | BlogPost | IdeNews;
+
+/**
+ * Formats a workflow publication notification for Slack
+ * 
+ * Creates a rich Block Kit message with:
+ * - Header block with emoji
+ * - Section block with title and description
+ * - Image accessory (if image_url present)
+ * - Actions block with "View Workflow" button
+ * 
+ * @param workflow - The workflow to format
+ * @returns SlackMessage - Formatted Slack Block Kit message
+ * 
+ * @example
+ * ```typescript
+ * const workflow = {
+ *   id: '123',
+ *   title: 'My Workflow',
+ *   slug: 'my-workflow',
+ *   description: 'A great workflow',
+ *   image_url: 'https://example.com/image.jpg',
+ *   // ... other fields
+ * };
+ * const message = formatWorkflowMessage(workflow);
+ * // Send message to Slack webhook
+ * ```
+ */
+export function formatWorkflowMessage(workflow: Workflow): SlackMessage {
+  // Build the section block with title and description
+  const sectionText = workflow.description
+    ? `*${workflow.title}*\n${workflow.description}`
+    : `*${workflow.title}*`;
+
+  // Build the blocks array
+  const blocks: SlackMessage['blocks'] = [
+    // Header block with emoji
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: '🚀 Novo Workflow Publicado!',
+        emoji: true,
+      },
+    },
+    // Section block with title, description, and optional image
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: sectionText,
+      },
+      // Add image accessory if image_url is present
+      ...(workflow.image_url && {
+        accessory: {
+          type: 'image',
+          image_url: workflow.image_url,
+          alt_text: workflow.title,
+        },
+      }),
+    },
+    // Actions block with "View Workflow" button
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: {
+            type: 'plain_text',
+            text: 'Ver Workflow',
+            emoji: true,
+          },
+          url: `https://vibeflow.site/workflows/${workflow.slug}`,
+          style: 'primary',
+        },
+      ],
+    },
+  ];
+
+  return {
+    blocks,
+    // Fallback text for notifications
+    text: `Novo Workflow Publicado: ${workflow.title}`,
+  };
+}
+
+/**
+ * Formats an MCP server publication notification for Slack
+ * 
+ * Creates a rich Block Kit message with:
+ * - Header block with emoji
+ * - Section block with name (title), description, and npm package
+ * - Context block with up to 5 tags
+ * - Actions block with "View Details" and "GitHub" buttons
+ * 
+ * @param server - The MCP server to format
+ * @returns SlackMessage - Formatted Slack Block Kit message
+ * 
+ * @example
+ * ```typescript
+ * const server = {
+ *   id: '123',
+ *   title: 'My MCP Server',
+ *   slug: 'my-mcp-server',
+ *   description: 'A great MCP server',
+ *   npm_package: '@example/mcp-server',
+ *   github_url: 'https://github.com/example/mcp-server',
+ *   tags: ['ai', 'automation', 'tools'],
+ *   // ... other fields
+ * };
+ * const message = formatMcpServerMessage(server);
+ * // Send message to Slack webhook
+ * ```
+ */
+export function formatMcpServerMessage(server: McpServer): SlackMessage {
+  // Build the section text with name, description, and npm package
+  const descriptionText = server.description ? `${server.description}\n\n` : '';
+  const npmPackageText = server.npm_package ? `📦 \`${server.npm_package}\`` : '';
+  const sectionText = `*${server.title}*\n${descriptionText}${npmPackageText}`;
+
+  // Build the blocks array
+  const blocks: SlackMessage['blocks'] = [
+    // Header block with emoji
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: '🔌 Novo MCP Server Disponível!',
+        emoji: true,
+      },
+    },
+    // Section block with name, description, and npm package
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: sectionText,
+      },
+    },
+  ];
+
+  // Add context block with tags if tags exist
+  if (server.tags && server.tags.length > 0) {
+    // Take up to 5 tags and format them
+    const tagsText = server.tags
+      .slice(0, 5)
+      .map(tag => `\`${tag}\``)
+      .join(' ');
+
+    blocks.push({
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: tagsText,
+        },
+      ],
+    });
+  }
+
+  // Build actions block with buttons
+  const actionElements: SlackMessage['blocks'][0]['elements'] = [
+    // "View Details" button (always present)
+    {
+      type: 'button',
+      text: {
+        type: 'plain_text',
+        text: 'Ver Detalhes',
+        emoji: true,
+      },
+      url: `https://vibeflow.site/mcp-servers/${server.slug}`,
+      style: 'primary',
+    },
+  ];
+
+  // Add "GitHub" button if github_url is present
+  if (server.github_url) {
+    actionElements.push({
+      type: 'button',
+      text: {
+        type: 'plain_text',
+        text: 'GitHub',
+        emoji: true,
+      },
+      url: server.github_url,
+    });
+  }
+
+  // Add actions block
+  blocks.push({
+    type: 'actions',
+    elements: actionElements,
+  });
+
+  return {
+    blocks,
+    // Fallback text for notifications
+    text: `Novo MCP Server Disponível: ${server.title}`,
+  };
+}
+
+/**
+ * Formats a blog post publication notification for Slack
+ * 
+ * Creates a rich Block Kit message with:
+ * - Header block with emoji
+ * - Section block with title and excerpt (first 200 chars)
+ * - Image accessory (if cover_image_url present)
+ * - Actions block with "Read More" button
+ * 
+ * @param post - The blog post to format
+ * @returns SlackMessage - Formatted Slack Block Kit message
+ * 
+ * @example
+ * ```typescript
+ * const post = {
+ *   id: '123',
+ *   title: 'My Blog Post',
+ *   slug: 'my-blog-post',
+ *   excerpt: 'This is a great blog post about...',
+ *   content: 'Full content here...',
+ *   cover_image_url: 'https://example.com/image.jpg',
+ *   status: 'published',
+ *   created_at: '2024-01-01T00:00:00Z',
+ * };
+ * const message = formatBlogPostMessage(post);
+ * // Send message to Slack webhook
+ * ```
+ */
+export function formatBlogPostMessage(post: BlogPost): SlackMessage {
+  // Generate excerpt: use provided excerpt or first 200 chars of content
+  let excerpt: string;
+  if (post.excerpt !== null && post.excerpt !== undefined) {
+    // Use the provided excerpt (even if empty string)
+    excerpt = post.excerpt;
+  } else {
+    // Take first 200 characters from content
+    excerpt = post.content.substring(0, 200);
+    // Add ellipsis if content was truncated
+    if (post.content.length > 200) {
+      excerpt += '...';
+    }
+  }
+
+  // Build the section text with title and excerpt
+  const sectionText = `*${post.title}*\n${excerpt}`;
+
+  // Build the blocks array
+  const blocks: SlackMessage['blocks'] = [
+    // Header block with emoji
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: '📝 Novo Artigo Publicado!',
+        emoji: true,
+      },
+    },
+    // Section block with title, excerpt, and optional image
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: sectionText,
+      },
+      // Add image accessory if cover_image_url is present
+      ...(post.cover_image_url && {
+        accessory: {
+          type: 'image',
+          image_url: post.cover_image_url,
+          alt_text: post.title,
+        },
+      }),
+    },
+    // Actions block with "Read More" button
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: {
+            type: 'plain_text',
+            text: 'Ler Mais',
+            emoji: true,
+          },
+          url: `https://vibeflow.site/blog/${post.slug}`,
+          style: 'primary',
+        },
+      ],
+    },
+  ];
+
+  return {
+    blocks,
+    // Fallback text for notifications
+    text: `Novo Artigo Publicado: ${post.title}`,
+  };
+}
+
+/**
+ * Formats IDE news batch notifications for Slack
+ * 
+ * Creates a rich Block Kit message with:
+ * - Header block with count and emoji
+ * - Section blocks for each news item (max 10 items), using the Portuguese
+ *   summary (resumo_ia) when present and listing the item's tags
+ * - Context block with "View all" link
+ * 
+ * @param newsItems - Array of IDE news items to format (will be limited to first 10)
+ * @returns SlackMessage - Formatted Slack Block Kit message
+ * 
+ * @example
+ * ```typescript
+ * const newsItems = [
+ *   {
+ *     id: '123',
+ *     titulo: 'New AI Feature',
+ *     resumo: 'Amazing new feature...',
+ *     link: 'https://example.com/news',
+ *     fonte: 'Cursor',
+ *     cor: '#0066cc',
+ *     logo: 'https://example.com/logo.png',
+ *     created_at: '2024-01-01T00:00:00Z',
+ *     updated_at: '2024-01-01T00:00:00Z',
+ *   },
+ *   // ... more items
+ * ];
+ * const message = formatIdeNewsMessage(newsItems);
+ * // Send message to Slack webhook
+ * ```
+ */
+export function formatIdeNewsMessage(newsItems: IdeNews[]): SlackMessage {
+  // Batch maximum 10 items per message
+  const items = newsItems.slice(0, 10);
+  
+  // Build the blocks array
+  const blocks: SlackMessage['blocks'] = [
+    // Header block with count
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: `🤖 ${items.length} Novidades de IDEs com IA`,
+        emoji: true,
+      },
+    },
+  ];
+  
+  // Add section blocks for each news item
+  items.forEach((news) => {
+    const resumo = news.resumo_ia || news.resumo;
+    const resumoText = resumo ? `${resumo}\n` : '';
+    const tagsText = news.tags?.length ? ` • ${news.tags.map((tag) => `\`${tag}\``).join(' ')}` : '';
+    const sectionText = `*${news.titulo}*\n${resumoText}<${news.link}|Ler mais> • ${news.fonte}${tagsText}`;
+    
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: sectionText,
+      },
+    });
+  });
+  
+  // Add context block with "View all" link
+  blocks.push({
+    type: 'context',
+    elements: [
+      {
+        type: 'mrkdwn',
+        text: 'Sincronizado automaticamente • <https://vibeflow.site/ide-news|Ver todas>',
+      },
+    ],
+  });
+  
+  return {
+    blocks,
+    // Fallback text for notifications
+    text: `${items.length} Novidades de IDEs com IA`,
+  };
+}
+
+/**
+ * Formats a welcome message for new Slack workspace members
+ * 
+ * Creates a rich Block Kit message with:
+ * - Header block with welcome emoji
+ * - Section blocks with welcome text and navigation guide
+ * - Links to #regras, #geral, and #ajuda channels
+ * 
+ * @returns SlackMessage - Formatted Slack Block Kit message
+ * 
+ * @example
+ * ```typescript
+ * const message = formatWelcomeMessage();
+ * // Send message to new member via Slack API
+ * ```
+ */
+export function formatWelcomeMessage(): SlackMessage {
+  // Build the blocks array
+  const blocks: SlackMessage['blocks'] = [
+    // Header block with welcome emoji
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: '👋 Bem-vindo ao Vibe Flow!',
+        emoji: true,
+      },
+    },
+    // Section block with welcome text
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: 'Olá! É ótimo ter você aqui. Este é o espaço da comunidade Vibe Flow, onde compartilhamos conhecimento sobre automação, IA e ferramentas de produtividade.',
+      },
+    },
+    // Section block with navigation guide
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: '*Canais importantes para você começar:*\n\n' +
+              '• <#regras|#regras> - Conheça as regras da comunidade\n' +
+              '• <#geral|#geral> - Conversas gerais e networking\n' +
+              '• <#ajuda|#ajuda> - Precisa de ajuda? Pergunte aqui!\n\n' +
+              'Sinta-se à vontade para explorar os outros canais e participar das discussões. Estamos aqui para ajudar! 🚀',
+      },
+    },
+  ];
+
+  return {
+    blocks,
+    // Fallback text for notifications
+    text: 'Bem-vindo ao Vibe Flow! Confira os canais #regras, #geral e #ajuda para começar.',
+  };
+}
+
+/**
+ * Display labels for content fields listed in update notifications
+ */
+export const FIELD_LABELS: Record<string, string> = {
+  title: 'Título',
+  titulo: 'Título',
+  slug: 'Slug',
+  description: 'Descrição',
+  excerpt: 'Resumo',
+  resumo: 'Resumo',
+  content: 'Conteúdo',
+  image_url: 'Imagem',
+  cover_image_url: 'Imagem de capa',
+  category: 'Categoria',
+  tags: 'Tags',
+  npm_package: 'Pacote npm',
+  github_url: 'GitHub',
+  install_command: 'Comando de instalação',
+  link: 'Link',
+  fonte: 'Fonte',
+};
+
+// Values longer than this are summarized as "atualizado" instead of shown inline
+const MAX_INLINE_VALUE_LENGTH = 80;
+// Maximum number of changed fields listed in an update notification
+const MAX_CHANGE_LINES = 10;
+
+/**
+ * Formats one line of the diff summary. Short single-line values are shown
+ * as "~before~ → after"; long or multi-line values only name the field.
+ */
+function formatFieldChange(change: FieldChange): string {
+  const label = FIELD_LABELS[change.field] ?? change.field;
+  const isInline = (value: string | null) =>
+    value !== null && value.length <= MAX_INLINE_VALUE_LENGTH && !value.includes('\n');
+
+  if (isInline(change.before) && isInline(change.after)) {
+    return `• *${label}:* ~${change.before}~ → ${change.after}`;
+  }
+  return `• *${label}* atualizado`;
+}
+
+/**
+ * Formats a content update notification for Slack
+ * 
+ * Creates a Block Kit message with:
+ * - Header block with emoji
+ * - Section block with title and content kind
+ * - Section block with a diff summary of changed fields (if any, max 10)
+ * - Actions block with "View Update" button
+ * 
+ * @param summary - Title, kind and URL of the updated content
+ * @param changes - Fields changed by the update
+ * @returns SlackMessage - Formatted Slack Block Kit message
+ * 
+ * @example
+ * ```typescript
+ * const message = formatUpdatedMessage(
+ *   { kind: 'Workflow', title: 'My Workflow', url: 'https://vibeflow.site/workflows/my-workflow' },
+ *   [{ field: 'title', before: 'Old title', after: 'My Workflow' }]
+ * );
+ * ```
+ */
+export function formatUpdatedMessage(summary: ContentSummary, changes: FieldChange[]): SlackMessage {
+  const blocks: SlackMessage['blocks'] = [
+    // Header block with emoji
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: '✏️ Conteúdo Atualizado',
+        emoji: true,
+      },
+    },
+    // Section block with title and kind
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*${summary.title}*\n${summary.kind}`,
+      },
+    },
+  ];
+
+  // Add diff summary if the changed fields are known
+  if (changes.length > 0) {
+    const lines = changes.slice(0, MAX_CHANGE_LINES).map(formatFieldChange);
+    if (changes.length > MAX_CHANGE_LINES) {
+      lines.push(`• e mais ${changes.length - MAX_CHANGE_LINES} campos`);
+    }
+
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*Alterações:*\n${lines.join('\n')}`,
+      },
+    });
+  }
+
+  // Actions block with "View Update" button
+  blocks.push({
+    type: 'actions',
+    elements: [
+      {
+        type: 'button',
+        text: {
+          type: 'plain_text',
+          text: 'Ver Atualização',
+          emoji: true,
+        },
+        url: summary.url,
+        style: 'primary',
+      },
+    ],
+  });
+
+  return {
+    blocks,
+    // Fallback text for notifications
+    text: `Conteúdo Atualizado: ${summary.title}`,
+  };
+}
+
+/**
+ * Formats a content deletion notification for Slack
+ * 
+ * Creates a Block Kit message with:
+ * - Header block with emoji
+ * - Section block with the title struck through
+ * 
+ * The content no longer exists, so the message has no link or buttons.
+ * 
+ * @param summary - Title and kind of the deleted content
+ * @returns SlackMessage - Formatted Slack Block Kit message
+ * 
+ * @example
+ * ```typescript
+ * const message = formatDeletedMessage({ kind: 'Workflow', title: 'My Workflow' });
+ * ```
+ */
+export function formatDeletedMessage(summary: Omit<ContentSummary, 'url'>): SlackMessage {
+  const blocks: SlackMessage['blocks'] = [
+    // Header block with emoji
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: '🗑️ Conteúdo Removido',
+        emoji: true,
+      },
+    },
+    // Section block with struck-through title
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `~${summary.title}~\n${summary.kind} não está mais disponível no Vibe Flow.`,
+      },
+    },
+  ];
+
+  return {
+    blocks,
+    // Fallback text for notifications
+    text: `Conteúdo Removido: ${summary.title}`,
+  };
+}
+
+/**
+ * Formats an onboarding step sent by welcome-bot as a direct message
+ * 
+ * Creates a Block Kit message with:
+ * - Header block with the step title
+ * - Section block with the step body, with {name} replaced by the member name
+ * - One section block listing the catalog items (if any)
+ * 
+ * @param step - Title and mrkdwn body of the step
+ * @param userName - Display name of the new member
+ * @param items - Catalog items of the step's content list
+ * @returns SlackMessage - Formatted Slack Block Kit message
+ */
+export function formatOnboardingStepMessage(
+  step: Pick<OnboardingStep, 'title' | 'body'>,
+  userName: string,
+  items: CatalogSearchResult[] = []
+): SlackMessage {
+  const blocks: SlackMessage['blocks'] = [
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: step.title,
+        emoji: true,
+      },
+    },
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: truncateMessageText(step.body.split('{name}').join(userName)),
+      },
+    },
+  ];
+
+  if (items.length > 0) {
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: items
+          .map(item => `• *<${item.url}|${item.title}>*${item.description ? ` - ${truncateMessageText(item.description, 100)}` : ''}`)
+          .join('\n'),
+      },
+    });
+  }
+
+  return {
+    blocks,
+    // Fallback text for notifications
+    text: step.title,
+  };
+}
+
+/**
+ * Formats the test message sent from the admin page to verify a webhook
+ * 
+ * @param channelName - Channel the webhook posts to
+ * @returns SlackMessage - Formatted Slack Block Kit message
+ */
+export function formatTestMessage(channelName: string): SlackMessage {
+  return {
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `✅ *Mensagem de teste do Vibe Flow*\nO webhook de ${channelName} está configurado corretamente.`,
+        },
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `Enviado pelo painel administrativo em ${new Date().toISOString()}`,
+          },
+        ],
+      },
+    ],
+    // Fallback text for notifications
+    text: `Mensagem de teste do Vibe Flow para ${channelName}`,
+  };
+}
+
+/**
+ * Formats the alert sent when a scheduled job fails failure_threshold times
+ * in a row (see collect_scheduled_job_runs)
+ */
+export function formatJobFailureAlert(alert: ScheduledJobAlert): SlackMessage {
+  const details = [
+    `*Edge Function:* \`${alert.function_name}\``,
+    `*Falhas seguidas:* ${alert.consecutive_failures}`,
+  ];
+  if (alert.last_http_status !== null) {
+    details.push(`*Último status HTTP:* ${alert.last_http_status}`);
+  }
+  const error = (alert.last_error ?? 'A última execução falhou sem mensagem de erro.').replace(/\n/g, '\n>');
+
+  return {
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: truncateMessageText(`🚨 *Job agendado falhando: ${alert.job_name}*\n${details.join('\n')}\n>${error}`),
+        },
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `Última execução em ${alert.last_run_at}`,
+          },
+        ],
+      },
+    ],
+    // Fallback text for notifications
+    text: `Job agendado ${alert.job_name} falhou ${alert.consecutive_failures} vezes seguidas`,
+  };
+}
+
+/**
+ * Display labels for the MCP server health statuses
+ */
+export const MCP_HEALTH_LABELS: Record<McpHealthStatus, string> = {
+  maintained: '🟢 Mantido',
+  stale: '🟡 Parado',
+  archived: '🔴 Arquivado',
+};
+
+// Transitions listed one per block; the rest are summarized in one line
+const MAX_HEALTH_TRANSITIONS = 20;
+
+/**
+ * Formats the alert sent by check-mcp-health when catalogued MCP servers
+ * change health status
+ */
+export function formatMcpHealthAlert(alert: McpHealthAlert): SlackMessage {
+  const { transitions } = alert;
+  const blocks: SlackBlock[] = [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `🩺 *Saúde dos MCP Servers: ${transitions.length} ${transitions.length === 1 ? 'mudança' : 'mudanças'}*`,
+      },
+    },
+  ];
+
+  for (const transition of transitions.slice(0, MAX_HEALTH_TRANSITIONS)) {
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: truncateMessageText(
+          `*<https://vibeflow.site/mcp-servers/${transition.slug}|${transition.title}>*: ` +
+          `${MCP_HEALTH_LABELS[transition.from]} → ${MCP_HEALTH_LABELS[transition.to]}\n>${transition.reason}`
+        ),
+      },
+    });
+  }
+
+  const remaining = transitions.length - MAX_HEALTH_TRANSITIONS;
+  blocks.push({
+    type: 'context',
+    elements: [
+      {
+        type: 'mrkdwn',
+        text: remaining > 0
+          ? `E mais ${remaining} servidores · Verificado em ${alert.checked_at}`
+          : `Verificado em ${alert.checked_at}`,
+      },
+    ],
+  });
+
+  return {
+    blocks,
+    // Fallback text for notifications
+    text: transitions.length === 1
+      ? `${transitions[0].title}: ${MCP_HEALTH_LABELS[transitions[0].from]} → ${MCP_HEALTH_LABELS[transitions[0].to]}`
+      : `${transitions.length} MCP Servers mudaram de status`,
+  };
+}
+
+/**
+ * block_id of the feedback buttons, used to find and replace them when the
+ * counts change
+ */
+export const FEEDBACK_BLOCK_ID = 'content_feedback';
+
+/**
+ * Button labels for each feedback action
+ */
+export const FEEDBACK_LABELS: Record<FeedbackAction, string> = {
+  useful: '👍 Útil',
+  save: '🔖 Salvar para depois',
+  report: '🚩 Reportar problema',
+};
+
+/**
+ * Content types whose notifications carry feedback buttons
+ */
+export const FEEDBACK_CONTENT_TYPES: ContentType[] = ['workflow', 'mcp_server'];
+
+/**
+ * Builds the actions block with the feedback buttons for a content item
+ * 
+ * Each button has `action_id` `feedback_<action>` and the value
+ * `<content_type>:<content_id>`, which the slack-interactivity Edge
+ * Function parses with parseFeedbackValue(). Useful and save show their
+ * live counts; reports are only visible to admins.
+ * 
+ * @param contentType - Type of the content item
+ * @param contentId - ID of the content item
+ * @param counts - Current feedback counts
+ * @returns SlackBlock - Actions block with the feedback buttons
+ */
+export function formatFeedbackBlock(
+  contentType: ContentType,
+  contentId: string,
+  counts: FeedbackCounts = { useful: 0, save: 0, report: 0 }
+): SlackBlock {
+  const actions: FeedbackAction[] = ['useful', 'save', 'report'];
+
+  return {
+    type: 'actions',
+    block_id: FEEDBACK_BLOCK_ID,
+    elements: actions.map((action) => ({
+      type: 'button',
+      text: {
+        type: 'plain_text',
+        text: action !== 'report' && counts[action] > 0
+          ? `${FEEDBACK_LABELS[action]} (${counts[action]})`
+          : FEEDBACK_LABELS[action],
+        emoji: true,
+      },
+      action_id: `feedback_${action}`,
+      value: `${contentType}:${contentId}`,
+    })),
+  };
+}
+
+/**
+ * Adds the feedback buttons to a message, replacing any existing feedback
+ * block so it can be used both when posting and when refreshing counts
+ * 
+ * @param message - Message to add the buttons to
+ * @param contentType - Type of the content item
+ * @param contentId - ID of the content item
+ * @param counts - Current feedback counts
+ * @returns SlackMessage - Copy of the message with the feedback block last
+ */
+export function withFeedbackBlock(
+  message: SlackMessage,
+  contentType: ContentType,
+  contentId: string,
+  counts?: FeedbackCounts
+): SlackMessage {
+  return {
+    ...message,
+    blocks: [
+      ...message.blocks.filter(block => block.block_id !== FEEDBACK_BLOCK_ID),
+      formatFeedbackBlock(contentType, contentId, counts),
+    ],
+  };
+}
+
+/**
+ * Parses the value of a feedback button
+ * 
+ * @param value - Button value (`<content_type>:<content_id>`)
+ * @returns The content item, or null if the value is not a feedback value
+ */
+export function parseFeedbackValue(
+  value: string
+): { contentType: ContentType; contentId: string } | null {
+  const separator = value.indexOf(':');
+  if (separator === -1) {
+    return null;
+  }
+
+  const contentType = value.slice(0, separator) as ContentType;
+  const contentId = value.slice(separator + 1);
+  if (!FEEDBACK_CONTENT_TYPES.includes(contentType) || !contentId) {
+    return null;
+  }
+
+  return { contentType, contentId };
+}
+
+/**
+ * Maximum number of results listed by the /vibeflow search command
+ */
+export const MAX_SEARCH_RESULTS = 10;
+
+/**
+ * Labels of each content type in search results
+ */
+const SEARCH_RESULT_KINDS: Record<ContentType, string> = {
+  workflow: '🚀 Workflow',
+  mcp_server: '🔌 MCP Server',
+  blog_post: '📝 Artigo',
+  ide_news: '📰 Novidade de IDE',
+};
+
+/**
+ * Formats the results of the /vibeflow search command
+ * 
+ * Creates a Block Kit message with:
+ * - Section block with the search term and the number of results
+ * - One section block per result (up to MAX_SEARCH_RESULTS) with a link,
+ *   the content type and the first 150 characters of the description
+ * - Context block pointing to the site when results were omitted
+ * 
+ * @param term - Search term typed by the member
+ * @param results - Matching catalog items
+ * @returns SlackMessage - Formatted Slack Block Kit message
+ */
+export function formatSearchResultsMessage(term: string, results: CatalogSearchResult[]): SlackMessage {
+  if (results.length === 0) {
+    return {
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `🔎 Nenhum resultado para *${term}*.\nTente outro termo ou navegue em <https://vibeflow.site|vibeflow.site>.`,
+          },
+        },
+      ],
+      text: `Nenhum resultado para ${term}`,
+    };
+  }
+
+  const blocks: SlackMessage['blocks'] = [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `🔎 *${results.length}* resultado${results.length === 1 ? '' : 's'} para *${term}*`,
+      },
+    },
+    ...results.slice(0, MAX_SEARCH_RESULTS).map((result): SlackBlock => {
+      const description = result.description
+        ? `\n${truncateMessageText(result.description, 150)}`
+        : '';
+      return {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*<${result.url}|${result.title}>*\n${SEARCH_RESULT_KINDS[result.contentType]}${description}`,
+        },
+      };
+    }),
+  ];
+
+  if (results.length > MAX_SEARCH_RESULTS) {
+    blocks.push({
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `Mostrando ${MAX_SEARCH_RESULTS} de ${results.length}. Veja mais em <https://vibeflow.site|vibeflow.site>.`,
+        },
+      ],
+    });
+  }
+
+  return {
+    blocks,
+    text: `${results.length} resultado${results.length === 1 ? '' : 's'} para ${term}`,
+  };
+}
+
+/**
+ * Formats the usage of the /vibeflow command, shown for `help`, an empty
+ * command or a subcommand missing its argument
+ * 
+ * @returns SlackMessage - Formatted Slack Block Kit message
+ */
+export function formatCommandHelpMessage(): SlackMessage {
+  return {
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: [
+            '*Comandos do Vibe Flow*',
+            '• `/vibeflow search <termo>` - Busca workflows, MCP servers, artigos e novidades',
+            '• `/vibeflow mcp <slug>` - Detalhes de um MCP server',
+            '• `/vibeflow workflow <slug>` - Detalhes de um workflow',
+            '• `/vibeflow news` - Últimas novidades das IDEs',
+          ].join('\n'),
+        },
+      },
+    ],
+    text: 'Comandos do Vibe Flow',
+  };
+}
+
+/**
+ * Truncates message text to Slack's 3000 character limit
+ * 
+ * Ensures that message text does not exceed Slack's maximum character limit
+ * by truncating at word boundaries when possible and appending "..." to
+ * indicate truncation.
+ * 
+ * @param text - The text to truncate
+ * @param maxLength - Maximum length (default: 3000 characters)
+ * @returns Truncated text with "..." appended if truncated
+ * 
+ * @example
+ * ```typescript
+ * const longText = 'A'.repeat(3500);
+ * const truncated = truncateMessageText(longText);
+ * console.log(truncated.length); // 3000
+ * console.log(truncated.endsWith('...')); // true
+ * ```
+ */
+export function truncateMessageText(text: string, maxLength: number = 3000): string {
+  // If text is within limit, return as-is
+  if (text.length <= maxLength) {
+    return text;
+  }
+  
+  // Reserve 3 characters for "..."
+  const truncateAt = maxLength - 3;
+  
+  // Try to truncate at word boundary
+  const truncated = text.substring(0, truncateAt);
+  const lastSpaceIndex = truncated.lastIndexOf(' ');
+  
+  // If we found a space and it's not too far back (within 50 chars),
+  // truncate at the word boundary
+  if (lastSpaceIndex > truncateAt - 50 && lastSpaceIndex > 0) {
+    return truncated.substring(0, lastSpaceIndex) + '...';
+  }
+  
+  // Otherwise, truncate at the character limit
+  return truncated + '...';
+}
@@ -0,0 +1,75 @@
+/**
+ * Slack request signature verification shared by the Edge Functions that
+ * receive requests from Slack (welcome-bot and slack-interactivity).
+ */
+
+import { createHmac } from 'https://deno.land/std@0.168.0/node/crypto.ts';
+
+/**
+ * Verify Slack request signature
+ * Ensures the request actually came from Slack
+ * 
+ * Implementation follows Slack's official specification:
+ * https://api.slack.com/authentication/verifying-requests-from-slack
+ * 
+ * Security features:
+ * - Replay attack prevention (5-minute timestamp window)
+ * - HMAC-SHA256 signature verification
+ * - Timing-safe comparison to prevent timing attacks
+ */
+export function verifySlackSignature(
+  body: string,
+  timestamp: string,
+  signature: string,
+  signingSecret: string
+): boolean {
+  // Validate inputs
+  if (!body || !timestamp || !signature || !signingSecret) {
+    console.error('Missing required parameters for signature verification');
+    return false;
+  }
+
+  // Reject old requests (replay attack prevention)
+  // Slack recommends rejecting requests older than 5 minutes
+  const requestTime = parseInt(timestamp);
+  if (isNaN(requestTime)) {
+    console.error('Invalid timestamp format');
+    return false;
+  }
+
+  const currentTime = Math.floor(Date.now() / 1000);
+  const timeDiff = Math.abs(currentTime - requestTime);
+  
+  if (timeDiff > 60 * 5) {
+    console.error(`Request timestamp too old: ${timeDiff} seconds (max: 300)`);
+    return false;
+  }
+
+  // Compute expected signature using HMAC-SHA256
+  // Format: v0:timestamp:body
+  const sigBasestring = `v0:${timestamp}:${body}`;
+  const hmac = createHmac('sha256', signingSecret);
+  hmac.update(sigBasestring);
+  const expectedSignature = `v0=${hmac.digest('hex')}`;
+
+  // Timing-safe comparison to prevent timing attacks
+  // Compare byte-by-byte to ensure constant-time comparison
+  if (signature.length !== expectedSignature.length) {
+    console.error('Signature length mismatch');
+    return false;
+  }
+
+  let isValid = true;
+  for (let i = 0; i < signature.length; i++) {
+    if (signature.charCodeAt(i) !== expectedSignature.charCodeAt(i)) {
+      isValid = false;
+    }
+  }
+
+  if (!isValid) {
+    console.error('Signature verification failed');
+    console.debug('Expected signature format: v0=<hex_digest>');
+  }
+
+  return isValid;
+}
@@ -0,0 +1,284 @@
+/**
+ * Slack Message Type Definitions
+ * 
+ * These types define the structure for Slack Block Kit messages used in the
+ * Slack Community Integration feature. They follow the Slack Block Kit API
+ * specification for rich message formatting.
+ * 
+ * @see https://api.slack.com/block-kit
+ */
+
+/**
+ * Content types that can trigger Slack notifications
+ */
+export type ContentType = 'workflow' | 'mcp_server' | 'blog_post' | 'ide_news';
+
+/**
+ * Main Slack message structure using Block Kit format
+ */
+export interface SlackMessage {
+  /** Array of Block Kit blocks that compose the message */
+  blocks: SlackBlock[];
+  /** Optional fallback text for notifications (plain text) */
+  text?: string;
+}
+
+/**
+ * Slack Block Kit block types
+ * Blocks are the building blocks of messages in Slack
+ */
+export interface SlackBlock {
+  /** Type of block */
+  type: 'header' | 'section' | 'actions' | 'context' | 'divider';
+  /** Text content for header and section blocks */
+  text?: SlackText;
+  /** Array of elements for actions and context blocks */
+  elements?: SlackElement[];
+  /** Accessory element for section blocks (e.g., image) */
+  accessory?: SlackAccessory;
+  /** Identifies the block in interaction payloads */
+  block_id?: string;
+}
+
+/**
+ * Text object for Slack blocks
+ */
+export interface SlackText {
+  /** Type of text formatting */
+  type: 'plain_text' | 'mrkdwn';
+  /** The actual text content */
+  text: string;
+  /** Whether to enable emoji parsing (plain_text only) */
+  emoji?: boolean;
+}
+
+/**
+ * Interactive and display elements for Slack blocks
+ */
+export interface SlackElement {
+  /** Type of element */
+  type: 'button' | 'mrkdwn' | 'image';
+  /** Text for button elements (SlackText object) or mrkdwn elements (string) */
+  text?: SlackText | string;
+  /** URL for button and image elements */
+  url?: string;
+  /** Style for button elements */
+  style?: 'primary' | 'danger';
+  /** Image URL for image elements */
+  image_url?: string;
+  /** Alt text for image elements */
+  alt_text?: string;
+  /** Identifies interactive buttons in interaction payloads */
+  action_id?: string;
+  /** Value sent back with the interaction payload */
+  value?: string;
+}
+
+/**
+ * Accessory elements that can be attached to section blocks
+ */
+export interface SlackAccessory {
+  /** Type of accessory (currently only image is used) */
+  type: 'image';
+  /** URL of the image */
+  image_url: string;
+  /** Alt text for the image */
+  alt_text: string;
+}
+
+/**
+ * Button element for actions blocks
+ */
+export interface SlackButton extends SlackElement {
+  type: 'button';
+  text: SlackText;
+  url: string;
+  style?: 'primary' | 'danger';
+}
+
+/**
+ * Image element for context blocks
+ */
+export interface SlackImageElement extends SlackElement {
+  type: 'image';
+  image_url: string;
+  alt_text: string;
+}
+
+/**
+ * Markdown text element for context blocks
+ */
+export interface SlackMarkdownElement extends SlackElement {
+  type: 'mrkdwn';
+  text: string;
+}
+
+/**
+ * Actions that can trigger a Slack notification for a content item
+ */
+export type NotificationAction = 'published' | 'updated' | 'deleted';
+
+/**
+ * A single changed field in an update notification.
+ * Values are text snapshots (truncated by the database trigger).
+ */
+export interface FieldChange {
+  /** Column name of the changed field */
+  field: string;
+  /** Previous value, or null if it was empty */
+  before: string | null;
+  /** New value, or null if it was cleared */
+  after: string | null;
+}
+
+/**
+ * Content-type agnostic description of a content item used by the
+ * update and deletion message variants
+ */
+export interface ContentSummary {
+  /** Human-readable content type (e.g. "Workflow") */
+  kind: string;
+  /** Content title */
+  title: string;
+  /** Public URL of the content */
+  url: string;
+}
+
+/**
+ * Feedback buttons on workflow and MCP server notifications
+ */
+export type FeedbackAction = 'useful' | 'save' | 'report';
+
+/**
+ * Number of Slack members who gave each feedback on a content item
+ */
+export type FeedbackCounts = Record<FeedbackAction, number>;
+
+/**
+ * A catalog item returned by the /vibeflow search command
+ */
+export interface CatalogSearchResult {
+  /** Type of the matched content */
+  contentType: ContentType;
+  /** Content title */
+  title: string;
+  /** Public URL of the content */
+  url: string;
+  /** Description, excerpt or summary, if any */
+  description: string | null;
+}
+
+/**
+ * Catalog list appended to an onboarding step
+ */
+export type OnboardingContentList = 'top_workflows' | 'top_mcp_servers';
+
+/**
+ * A step of the onboarding sequence sent to new members by welcome-bot
+ */
+export interface OnboardingStep {
+  id: string;
+  /** Order of the step in the sequence */
+  position: number;
+  /** Internal name shown in the admin and the logs */
+  name: string;
+  /** Days after the member joined the step is sent (0 = right away) */
+  delay_days: number;
+  /** Header of the message */
+  title: string;
+  /** Slack mrkdwn body; {name} is replaced by the member name */
+  body: string;
+  /** Optional list of catalog items appended to the message */
+  content_list: OnboardingContentList | null;
+  is_enabled: boolean;
+}
+
+/**
+ * Welcome tip sent when a member joins a specific Slack channel
+ */
+export interface SlackChannelTip {
+  id: string;
+  /** Slack channel ID, e.g. C0123456789 */
+  channel_id: string;
+  /** Channel name shown in the admin */
+  channel_name: string;
+  /** Header of the message */
+  title: string;
+  /** Slack mrkdwn body; {name} is replaced by a mention of the member */
+  body: string;
+  is_enabled: boolean;
+}
+
+/**
+ * Events API team_join: a new member joined the workspace
+ */
+export interface SlackTeamJoinEvent {
+  type: 'team_join';
+  user: {
+    id: string;
+    name: string;
+    real_name: string;
+    profile?: {
+      email?: string;
+      display_name?: string;
+    };
+  };
+  event_ts: string;
+}
+
+/**
+ * Events API member_joined_channel: a member joined a channel the bot is in
+ */
+export interface SlackMemberJoinedChannelEvent {
+  type: 'member_joined_channel';
+  user: string;
+  channel: string;
+  channel_type: string;
+  team: string;
+  inviter?: string;
+  event_ts: string;
+}
+
+/**
+ * Events API app_mention: a message mentioning the bot
+ */
+export interface SlackAppMentionEvent {
+  type: 'app_mention';
+  user: string;
+  text: string;
+  channel: string;
+  ts: string;
+  /** Set when the mention is a thread reply */
+  thread_ts?: string;
+  /** Set when the message was posted by a bot */
+  bot_id?: string;
+  event_ts: string;
+}
+
+/**
+ * Events API reaction_added: a member reacted to a message
+ */
+export interface SlackReactionAddedEvent {
+  type: 'reaction_added';
+  user: string;
+  /** Emoji name without colons, e.g. thumbsup */
+  reaction: string;
+  item: {
+    type: 'message' | 'file' | 'file_comment';
+    channel: string;
+    ts: string;
+  };
+  item_user?: string;
+  event_ts: string;
+}
+
+/**
+ * Events handled by welcome-bot
+ */
+export type SlackEvent =
+  | SlackTeamJoinEvent
+  | SlackMemberJoinedChannelEvent
+  | SlackAppMentionEvent
+  | SlackReactionAddedEvent;
+
+export type SlackEventType = SlackEvent['type'];
@@ -0,0 +1,44 @@
+/**
+ * Per-row webhook URL decryption used by _shared/slack-webhooks.ts.
+ *
+ * Kept apart from the OpenPGP and Supabase imports so it runs under Jest.
+ */
+
+/**
+ * A slack_webhooks row with its armored, encrypted webhook_url
+ */
+export interface EncryptedWebhookUrl {
+  id: string;
+  webhook_url: string;
+}
+
+/**
+ * Decrypts one armored ciphertext
+ */
+export type DecryptWebhookUrl = (ciphertext: string) => Promise<string>;
+
+/**
+ * Returns a map of webhook id to decrypted URL. A row that cannot be
+ * decrypted is logged and left out of the map, so only that channel fails
+ * (postToWebhook reports the missing URL) and goes through the normal
+ * retry, dead-letter and delivery log path.
+ */
+export async function decryptWebhookRows(
+  rows: EncryptedWebhookUrl[],
+  decrypt: DecryptWebhookUrl
+): Promise<Map<string, string>> {
+  const urls = new Map<string, string>();
+
+  await Promise.all(
+    rows.map(async (row) => {
+      try {
+        urls.set(row.id, await decrypt(row.webhook_url));
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Failed to decrypt webhook URL ${row.id}: ${reason}`);
+      }
+    })
+  );
+
+  return urls;
+}
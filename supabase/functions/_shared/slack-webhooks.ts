@@ -0,0 +1,48 @@
+/**
+ * Webhook URL decryption shared by the Slack delivery Edge Functions.
+ *
+ * slack_webhooks.webhook_url is PGP-encrypted at rest. The database only
+ * hands out the ciphertext; it is decrypted here with the
+ * SLACK_WEBHOOK_PRIVATE_KEY secret, so the private key and the plaintext
+ * URLs never reach Postgres.
+ */
+
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import * as openpgp from 'npm:openpgp@5.11.2';
+import { type EncryptedWebhookUrl, decryptWebhookRows } from './slack-webhook-decryption.ts';
+
+/**
+ * Returns a map of webhook id to decrypted webhook URL. Rows that cannot be
+ * decrypted are left out (see decryptWebhookRows).
+ */
+export async function decryptWebhookUrls(
+  supabase: SupabaseClient,
+  webhookIds: string[]
+): Promise<Map<string, string>> {
+  if (webhookIds.length === 0) {
+    return new Map();
+  }
+
+  const armoredKey = Deno.env.get('SLACK_WEBHOOK_PRIVATE_KEY');
+  if (!armoredKey) {
+    throw new Error('SLACK_WEBHOOK_PRIVATE_KEY is not configured');
+  }
+
+  const { data, error } = await supabase
+    .from('slack_webhooks')
+    .select('id, webhook_url')
+    .in('id', webhookIds)
+    .not('webhook_url', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to load webhook URLs: ${error.message}`);
+  }
+
+  const privateKey = await openpgp.readPrivateKey({ armoredKey });
+
+  return decryptWebhookRows(data as EncryptedWebhookUrl[], async (ciphertext) => {
+    const message = await openpgp.readMessage({ armoredMessage: ciphertext });
+    const { data: url } = await openpgp.decrypt({ message, decryptionKeys: privateKey });
+    return url as string;
+  });
+}
@@ -0,0 +1,234 @@
+/**
+ * Unit Tests for the check-mcp-health classifier
+ *
+ * The network goes through a Buscador backed by ./fixtures (trimmed copies
+ * of the npm registry and GitHub API responses); unknown URLs answer 404.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  DIAS_PARADO,
+  classificar,
+  lerGithub,
+  lerNpm,
+  lerUrlGithub,
+  verificarServidor,
+  type Buscador,
+  type DadosGithub,
+  type DadosNpm,
+} from '../saude.ts';
+
+const fixture = (nome: string): string => readFileSync(join(__dirname, 'fixtures', nome), 'utf-8');
+
+const ROTAS: Record<string, string> = {
+  'https://registry.npmjs.org/@modelcontextprotocol%2Fserver-github': 'npm-server-github.json',
+  'https://registry.npmjs.org/@upstash%2Fcontext7-mcp': 'npm-context7.json',
+  'https://api.github.com/repos/upstash/context7': 'github-context7-repo.json',
+  'https://api.github.com/repos/modelcontextprotocol/servers': 'github-servers-repo.json',
+  'https://api.github.com/repos/modelcontextprotocol/servers/commits?path=src%2Feverything&sha=main&per_page=1':
+    'github-servers-commits-everything.json',
+  'https://api.github.com/repos/exemplo/mcp-server-legacy': 'github-archived-repo.json',
+};
+
+const criarBuscador = (rotas: Record<string, string> = ROTAS) => {
+  const urls: string[] = [];
+  const buscar: Buscador = async (url) => {
+    urls.push(url);
+    const nome = rotas[url];
+    return nome
+      ? { ok: true, status: 200, text: async () => fixture(nome) }
+      : { ok: false, status: 404, text: async () => 'Not Found' };
+  };
+  return { buscar, urls };
+};
+
+const AGORA = new Date('2025-07-15T06:00:00Z');
+
+const npm = (dados: Partial<DadosNpm> = {}): DadosNpm => ({
+  versao: '1.0.0',
+  publicado_em: null,
+  descontinuado: null,
+  licenca: null,
+  ...dados,
+});
+
+const github = (dados: Partial<DadosGithub> = {}): DadosGithub => ({
+  arquivado: false,
+  estrelas: 10,
+  atualizado_em: null,
+  licenca: null,
+  ...dados,
+});
+
+describe('lerNpm', () => {
+  it('reads the latest version, its publish date, deprecation and license', () => {
+    expect(lerNpm(JSON.parse(fixture('npm-server-github.json')))).toEqual({
+      versao: '2025.4.8',
+      publicado_em: '2025-04-08T19:42:46.560Z',
+      descontinuado: 'Package no longer supported. Contact Support at https://www.npmjs.com/support for more info.',
+      licenca: 'MIT',
+    });
+    expect(lerNpm(JSON.parse(fixture('npm-context7.json'))).descontinuado).toBeNull();
+  });
+
+  it('accepts legacy license objects', () => {
+    expect(lerNpm({ license: { type: 'Apache-2.0' } }).licenca).toBe('Apache-2.0');
+  });
+});
+
+describe('lerGithub', () => {
+  it('reads archived, stars, last push and the SPDX license', () => {
+    expect(lerGithub(JSON.parse(fixture('github-context7-repo.json')))).toEqual({
+      arquivado: false,
+      estrelas: 21873,
+      atualizado_em: '2025-07-10T08:12:31Z',
+      licenca: 'MIT',
+    });
+  });
+
+  it('ignores licenses GitHub could not identify', () => {
+    expect(lerGithub(JSON.parse(fixture('github-servers-repo.json'))).licenca).toBeNull();
+    expect(lerGithub(JSON.parse(fixture('github-archived-repo.json'))).licenca).toBeNull();
+  });
+});
+
+describe('lerUrlGithub', () => {
+  it('reads owner and repository', () => {
+    expect(lerUrlGithub('https://github.com/upstash/context7')).toEqual({ dono: 'upstash', repo: 'context7' });
+    expect(lerUrlGithub('https://github.com/upstash/context7.git')).toEqual({ dono: 'upstash', repo: 'context7' });
+    expect(lerUrlGithub('https://github.com/upstash/context7#readme')).toEqual({ dono: 'upstash', repo: 'context7' });
+  });
+
+  it('keeps the branch and folder of monorepo servers', () => {
+    expect(lerUrlGithub('https://github.com/modelcontextprotocol/servers/tree/main/src/everything/')).toEqual({
+      dono: 'modelcontextprotocol',
+      repo: 'servers',
+      ramo: 'main',
+      diretorio: 'src/everything',
+    });
+  });
+
+  it('rejects URLs outside GitHub', () => {
+    expect(lerUrlGithub('https://gitlab.com/dono/repo')).toBeNull();
+  });
+});
+
+describe('classificar', () => {
+  it('marks archived repositories and deprecated versions as archived', () => {
+    expect(classificar(npm({ publicado_em: '2025-07-01T00:00:00Z' }), github({ arquivado: true }), AGORA))
+      .toEqual({ status: 'archived', motivo: 'Repositório arquivado no GitHub' });
+    expect(classificar(npm({ versao: '2.0.0', descontinuado: 'Use @novo/pacote' }), null, AGORA))
+      .toEqual({ status: 'archived', motivo: 'Versão 2.0.0 descontinuada no npm: Use @novo/pacote' });
+  });
+
+  it('uses the most recent of npm release and GitHub activity', () => {
+    expect(classificar(
+      npm({ versao: '0.1.0', publicado_em: '2023-01-10T00:00:00Z' }),
+      github({ atualizado_em: '2025-05-02T10:00:00Z' }),
+      AGORA,
+    )).toEqual({ status: 'maintained', motivo: 'Último commit no GitHub em 02/05/2025' });
+  });
+
+  it(`marks servers without activity for more than ${DIAS_PARADO} days as stale`, () => {
+    expect(classificar(npm({ versao: '0.3.1', publicado_em: '2024-03-01T00:00:00Z' }), null, AGORA)).toEqual({
+      status: 'stale',
+      motivo: 'Sem release nem commits há 16 meses (versão 0.3.1 publicada no npm em 01/03/2024)',
+    });
+    expect(classificar(npm({ publicado_em: '2024-07-16T00:00:00Z' }), null, AGORA)?.status).toBe('maintained');
+  });
+
+  it('returns null without any date', () => {
+    expect(classificar(null, null, AGORA)).toBeNull();
+    expect(classificar(npm(), github(), AGORA)).toBeNull();
+  });
+});
+
+describe('verificarServidor', () => {
+  it('checks npm and GitHub', async () => {
+    const { buscar, urls } = criarBuscador();
+    const verificacao = await verificarServidor(
+      { npm_package: '@upstash/context7-mcp', github_url: 'https://github.com/upstash/context7' },
+      buscar,
+      { agora: AGORA },
+    );
+
+    expect(urls).toEqual([
+      'https://registry.npmjs.org/@upstash%2Fcontext7-mcp',
+      'https://api.github.com/repos/upstash/context7',
+    ]);
+    expect(verificacao).toMatchObject({
+      status: 'maintained',
+      motivo: 'Último commit no GitHub em 10/07/2025',
+      npm: { versao: '1.0.14', licenca: 'MIT' },
+      github: { estrelas: 21873 },
+      erros: [],
+    });
+  });
+
+  it('uses the last commit of the server folder in monorepos', async () => {
+    const { buscar } = criarBuscador();
+    const verificacao = await verificarServidor(
+      { npm_package: null, github_url: 'https://github.com/modelcontextprotocol/servers/tree/main/src/everything' },
+      buscar,
+      { agora: AGORA },
+    );
+
+    expect(verificacao.github?.atualizado_em).toBe('2024-06-03T09:15:00Z');
+    expect(verificacao.status).toBe('stale');
+  });
+
+  it('flags deprecated npm packages even when the monorepo is active', async () => {
+    const { buscar } = criarBuscador();
+    const verificacao = await verificarServidor(
+      { npm_package: '@modelcontextprotocol/server-github', github_url: 'https://github.com/modelcontextprotocol/servers' },
+      buscar,
+      { agora: AGORA },
+    );
+
+    expect(verificacao.status).toBe('archived');
+    expect(verificacao.motivo).toMatch(/^Versão 2025\.4\.8 descontinuada no npm/);
+  });
+
+  it('sends the GitHub token when given', async () => {
+    const headers: Array<Record<string, string> | undefined> = [];
+    const { buscar } = criarBuscador();
+    await verificarServidor(
+      { npm_package: null, github_url: 'https://github.com/upstash/context7' },
+      async (url, init) => {
+        headers.push(init?.headers);
+        return buscar(url, init);
+      },
+      { githubToken: 'ghp_teste', agora: AGORA },
+    );
+
+    expect(headers[0]?.Authorization).toBe('Bearer ghp_teste');
+  });
+
+  it('classifies with the source that answered and reports the other', async () => {
+    const { buscar } = criarBuscador(
+      Object.fromEntries(Object.entries(ROTAS).filter(([url]) => !url.startsWith('https://registry.npmjs.org')))
+    );
+    const erroGithub: Buscador = async (url, init) =>
+      url.startsWith('https://api.github.com')
+        ? { ok: false, status: 403, text: async () => 'rate limited' }
+        : buscar(url, init);
+
+    const semNpm = await verificarServidor(
+      { npm_package: '@upstash/context7-mcp', github_url: 'https://github.com/upstash/context7' },
+      buscar,
+      { agora: AGORA },
+    );
+    expect(semNpm.status).toBe('maintained');
+    expect(semNpm.erros).toEqual(['Pacote npm "@upstash/context7-mcp" não encontrado']);
+
+    const semDados = await verificarServidor(
+      { npm_package: null, github_url: 'https://github.com/upstash/context7' },
+      erroGithub,
+      { agora: AGORA },
+    );
+    expect(semDados).toMatchObject({ status: null, motivo: null, github: null });
+    expect(semDados.erros).toEqual(['Falha ao acessar https://api.github.com/repos/upstash/context7 (status 403)']);
+  });
+});
@@ -0,0 +1,202 @@
+// Edge Function: check-mcp-health
+// Verifica a saúde dos servidores MCP publicados (npm e GitHub) e grava o
+// resultado em mcp_servers (health_status, latest_version, github_stars...)
+// e no histórico mcp_server_health_checks
+// Roda diariamente às 06:00 UTC via pg_cron (run_scheduled_job('mcp-health-check'))
+// Mudanças de status são avisadas no alert_webhook_id do job via notify-slack;
+// a primeira verificação de cada servidor não gera aviso.
+// GITHUB_TOKEN (opcional) evita o limite anônimo da API do GitHub.
+// Só admins (ou a service_role) podem chamar.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { verificarServidor, type ServidorMcp } from "./saude.ts";
+import type { McpHealthAlert, McpHealthTransition } from "../_shared/notification-types.ts";
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Linha de scheduled_jobs cujo alert_webhook_id recebe as mudanças de status
+const JOB = 'mcp-health-check';
+
+const responder = (body: Record<string, unknown>, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+/**
+ * Avisa as mudanças de status no webhook de alertas do job. Falhas ficam no
+ * log: a verificação já foi gravada.
+ */
+const avisarMudancas = async (
+  supabase: ReturnType<typeof createClient>,
+  alerta: McpHealthAlert,
+): Promise<void> => {
+  const { data: job, error } = await supabase
+    .from('scheduled_jobs')
+    .select('alert_webhook_id')
+    .eq('name', JOB)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Erro ao buscar o webhook de alertas:', error);
+    return;
+  }
+  if (!job?.alert_webhook_id) {
+    console.warn(`⚠️  ${alerta.transitions.length} mudança(s) de status sem alert_webhook_id em scheduled_jobs (${JOB})`);
+    return;
+  }
+
+  const { error: notifyError } = await supabase.functions.invoke('notify-slack', {
+    body: { webhook_id: job.alert_webhook_id, health_alert: alerta },
+  });
+  if (notifyError) {
+    console.error('Erro ao enviar o alerta de saúde:', notifyError);
+  }
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Criar cliente Supabase com service_role para bypass RLS
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Service role (runner de jobs agendados) ou um admin autenticado
+    const token = req.headers.get('authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return responder({ success: false, error: 'Missing authorization header' }, 401);
+    }
+    if (token !== supabaseServiceKey) {
+      const { data: { user }, error: authError } = await createClient(supabaseUrl, token).auth.getUser();
+      if (authError || !user) {
+        return responder({ success: false, error: 'Invalid or expired authentication token' }, 401);
+      }
+      const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+      if (!isAdmin) {
+        return responder({ success: false, error: 'Apenas administradores podem verificar a saúde dos servidores MCP' }, 403);
+      }
+    }
+
+    const githubToken = Deno.env.get('GITHUB_TOKEN') || undefined;
+
+    const { data: servidores, error: servidoresError } = await supabase
+      .from('mcp_servers')
+      .select('id, title, slug, npm_package, github_url, health_status')
+      .eq('is_published', true)
+      .or('npm_package.not.is.null,github_url.not.is.null')
+      .order('title');
+
+    if (servidoresError) {
+      throw new Error(`Erro ao carregar servidores: ${servidoresError.message}`);
+    }
+
+    const verificadoEm = new Date();
+    const mudancas: McpHealthTransition[] = [];
+    let verificados = 0;
+    let falhas = 0;
+
+    // Um servidor por vez para não esbarrar no limite da API do GitHub
+    for (const servidor of (servidores ?? []) as ServidorMcp[]) {
+      try {
+        const verificacao = await verificarServidor(servidor, fetch, { githubToken, agora: verificadoEm });
+        const erro = verificacao.erros.join('; ') || null;
+
+        const { error: historicoError } = await supabase
+          .from('mcp_server_health_checks')
+          .insert({
+            server_id: servidor.id,
+            checked_at: verificadoEm.toISOString(),
+            status: verificacao.status,
+            previous_status: servidor.health_status,
+            reason: verificacao.motivo,
+            latest_version: verificacao.npm?.versao ?? null,
+            last_published_at: verificacao.npm?.publicado_em ?? null,
+            npm_deprecated: verificacao.npm?.descontinuado ?? null,
+            repo_archived: verificacao.github?.arquivado ?? null,
+            repo_pushed_at: verificacao.github?.atualizado_em ?? null,
+            github_stars: verificacao.github?.estrelas ?? null,
+            license: verificacao.npm?.licenca ?? verificacao.github?.licenca ?? null,
+            error_message: erro,
+          });
+        if (historicoError) throw historicoError;
+
+        // Sem resposta do npm nem do GitHub o servidor mantém o último status
+        if (!verificacao.status) {
+          console.error(`❌ ${servidor.slug}: ${erro ?? 'sem dados de npm nem GitHub'}`);
+          falhas++;
+          continue;
+        }
+
+        const { error: updateError } = await supabase
+          .from('mcp_servers')
+          .update({
+            health_status: verificacao.status,
+            health_reason: verificacao.motivo,
+            health_checked_at: verificadoEm.toISOString(),
+            ...(verificacao.npm ? {
+              latest_version: verificacao.npm.versao,
+              last_published_at: verificacao.npm.publicado_em,
+            } : {}),
+            ...(verificacao.github ? {
+              repo_archived: verificacao.github.arquivado,
+              github_stars: verificacao.github.estrelas,
+            } : {}),
+            license: verificacao.npm?.licenca ?? verificacao.github?.licenca ?? null,
+          })
+          .eq('id', servidor.id);
+        if (updateError) throw updateError;
+
+        verificados++;
+        if (erro) {
+          console.warn(`⚠️  ${servidor.slug}: ${erro}`);
+        }
+
+        if (servidor.health_status && servidor.health_status !== verificacao.status) {
+          mudancas.push({
+            title: servidor.title,
+            slug: servidor.slug,
+            from: servidor.health_status,
+            to: verificacao.status,
+            reason: verificacao.motivo ?? '',
+          });
+        }
+      } catch (error) {
+        console.error(`❌ Erro ao verificar ${servidor.slug}:`, error.message ?? error);
+        falhas++;
+      }
+    }
+
+    console.log(`🩺 ${verificados} servidor(es) verificado(s), ${falhas} falha(s), ${mudancas.length} mudança(s) de status`);
+
+    if (mudancas.length > 0) {
+      await avisarMudancas(supabase, { transitions: mudancas, checked_at: verificadoEm.toISOString() });
+    }
+
+    // Nenhum servidor respondeu: o runner conta como falha do job
+    const total = servidores?.length ?? 0;
+    const success = total === 0 || verificados > 0;
+    return responder({
+      success,
+      ...(success ? {} : { error: 'Nenhum servidor pôde ser verificado' }),
+      checked: verificados,
+      failed: falhas,
+      transitions: mudancas,
+    }, success ? 200 : 500);
+  } catch (error) {
+    console.error('❌ Erro na verificação de saúde dos servidores MCP:', error);
+    return responder({ success: false, error: error.message }, 500);
+  }
+});
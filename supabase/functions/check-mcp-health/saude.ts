@@ -0,0 +1,260 @@
+// Verificação de saúde dos servidores MCP
+//
+// Para cada servidor do catálogo lê a última versão no npm (data de
+// publicação, descontinuação e licença) e o repositório no GitHub
+// (arquivado, estrelas, último push) e classifica o servidor como
+// maintained, stale ou archived.
+//
+// Toda a rede passa pelo Buscador recebido (fetch na Edge Function, respostas
+// salvas em __tests__/fixtures nos testes).
+
+import type { Buscador } from '../_shared/buscador.ts';
+import type { McpHealthStatus } from '../_shared/mcp-types.ts';
+
+export type { Buscador };
+
+// Sem release nem commits há mais de 12 meses o servidor fica "parado"
+export const DIAS_PARADO = 365;
+
+const DIA_MS = 24 * 60 * 60 * 1000;
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; VibeFlow/1.0)';
+
+export interface DadosNpm {
+  /** dist-tags.latest */
+  versao: string | null;
+  /** Data de publicação da última versão (ISO) */
+  publicado_em: string | null;
+  /** Mensagem de descontinuação da última versão */
+  descontinuado: string | null;
+  licenca: string | null;
+}
+
+export interface DadosGithub {
+  arquivado: boolean;
+  estrelas: number | null;
+  /** Último push no repositório ou último commit da pasta do servidor (ISO) */
+  atualizado_em: string | null;
+  licenca: string | null;
+}
+
+export interface Classificacao {
+  status: McpHealthStatus;
+  motivo: string;
+}
+
+/** Colunas de mcp_servers lidas pela verificação */
+export interface ServidorMcp {
+  id: string;
+  title: string;
+  slug: string;
+  npm_package: string | null;
+  github_url: string | null;
+  health_status: McpHealthStatus | null;
+}
+
+export interface Verificacao {
+  /** null quando nem o npm nem o GitHub trouxeram dados */
+  status: McpHealthStatus | null;
+  motivo: string | null;
+  npm: DadosNpm | null;
+  github: DadosGithub | null;
+  /** Falhas de acesso ao npm ou ao GitHub */
+  erros: string[];
+}
+
+export interface OpcoesVerificacao {
+  /** Token do GitHub (GITHUB_TOKEN) para não esbarrar no limite anônimo */
+  githubToken?: string;
+  agora?: Date;
+}
+
+interface RegistroNpm {
+  'dist-tags'?: { latest?: string };
+  time?: Record<string, string>;
+  versions?: Record<string, { deprecated?: string; license?: unknown }>;
+  license?: unknown;
+}
+
+const nomeLicenca = (licenca: unknown): string | null => {
+  if (typeof licenca === 'string') return licenca.trim() || null;
+  const tipo = (licenca as { type?: unknown } | null)?.type;
+  return typeof tipo === 'string' ? tipo.trim() || null : null;
+};
+
+/**
+ * Dados da última versão a partir do documento do registry do npm
+ */
+export const lerNpm = (registro: RegistroNpm): DadosNpm => {
+  const versao = registro['dist-tags']?.latest ?? null;
+  const ultima = versao ? registro.versions?.[versao] : undefined;
+  return {
+    versao,
+    publicado_em: (versao && registro.time?.[versao]) || null,
+    descontinuado: typeof ultima?.deprecated === 'string' && ultima.deprecated.trim()
+      ? ultima.deprecated.trim()
+      : null,
+    licenca: nomeLicenca(ultima?.license) ?? nomeLicenca(registro.license),
+  };
+};
+
+interface RepositorioGithubApi {
+  archived?: boolean;
+  stargazers_count?: number;
+  pushed_at?: string | null;
+  license?: { spdx_id?: string | null } | null;
+}
+
+/**
+ * Dados do repositório a partir da API do GitHub
+ */
+export const lerGithub = (repositorio: RepositorioGithubApi): DadosGithub => {
+  const spdx = repositorio.license?.spdx_id;
+  return {
+    arquivado: repositorio.archived === true,
+    estrelas: typeof repositorio.stargazers_count === 'number' ? repositorio.stargazers_count : null,
+    atualizado_em: repositorio.pushed_at ?? null,
+    // NOASSERTION: o GitHub não reconheceu a licença
+    licenca: spdx && spdx !== 'NOASSERTION' ? spdx : null,
+  };
+};
+
+export interface UrlGithub {
+  dono: string;
+  repo: string;
+  /** Ramo e pasta em monorepos (`/tree/<ramo>/<pasta>`) */
+  ramo?: string;
+  diretorio?: string;
+}
+
+/**
+ * Dono, repositório e pasta de um github_url do catálogo
+ */
+export const lerUrlGithub = (url: string): UrlGithub | null => {
+  const encontrado = url
+    .trim()
+    .match(/github\.com\/([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:\/tree\/([^/?#]+)\/([^?#]*[^/?#]))?(?:[/?#].*)?$/i);
+  if (!encontrado) return null;
+  const [, dono, repo, ramo, diretorio] = encontrado;
+  return { dono, repo, ...(ramo && diretorio ? { ramo, diretorio } : {}) };
+};
+
+const formatarData = (iso: string): string => iso.slice(0, 10).split('-').reverse().join('/');
+
+/**
+ * Status de saúde a partir dos dados do npm e do GitHub; null quando não há
+ * nenhuma data para comparar
+ */
+export const classificar = (
+  npm: DadosNpm | null,
+  github: DadosGithub | null,
+  agora: Date,
+): Classificacao | null => {
+  if (github?.arquivado) {
+    return { status: 'archived', motivo: 'Repositório arquivado no GitHub' };
+  }
+  if (npm?.descontinuado) {
+    return { status: 'archived', motivo: `Versão ${npm.versao} descontinuada no npm: ${npm.descontinuado}` };
+  }
+
+  const atividades = [
+    npm?.publicado_em ? { data: npm.publicado_em, descricao: `Versão ${npm.versao} publicada no npm` } : null,
+    github?.atualizado_em ? { data: github.atualizado_em, descricao: 'Último commit no GitHub' } : null,
+  ].filter((atividade): atividade is { data: string; descricao: string } =>
+    atividade !== null && !Number.isNaN(Date.parse(atividade.data))
+  );
+  if (atividades.length === 0) return null;
+
+  const recente = atividades.reduce((a, b) => (Date.parse(b.data) > Date.parse(a.data) ? b : a));
+  const dias = Math.floor((agora.getTime() - Date.parse(recente.data)) / DIA_MS);
+
+  if (dias > DIAS_PARADO) {
+    return {
+      status: 'stale',
+      motivo: `Sem release nem commits há ${Math.floor(dias / 30)} meses (${recente.descricao.toLowerCase()} em ${formatarData(recente.data)})`,
+    };
+  }
+  return { status: 'maintained', motivo: `${recente.descricao} em ${formatarData(recente.data)}` };
+};
+
+const buscarJson = async <T>(
+  buscar: Buscador,
+  url: string,
+  headers: Record<string, string> = {},
+): Promise<T | null> => {
+  const resposta = await buscar(url, { headers: { 'User-Agent': USER_AGENT, ...headers } });
+  if (resposta.status === 404) return null;
+  if (!resposta.ok) {
+    throw new Error(`Falha ao acessar ${url} (status ${resposta.status})`);
+  }
+  return JSON.parse(await resposta.text()) as T;
+};
+
+const githubHeaders = (token?: string): Record<string, string> => ({
+  'Accept': 'application/vnd.github+json',
+  ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+});
+
+/**
+ * Consulta o npm e o GitHub de um servidor e classifica sua saúde. Falhas de
+ * uma das fontes ficam em `erros` e a classificação usa a outra.
+ */
+export const verificarServidor = async (
+  servidor: Pick<ServidorMcp, 'npm_package' | 'github_url'>,
+  buscar: Buscador,
+  opcoes: OpcoesVerificacao = {},
+): Promise<Verificacao> => {
+  const erros: string[] = [];
+  let npm: DadosNpm | null = null;
+  let github: DadosGithub | null = null;
+
+  if (servidor.npm_package) {
+    try {
+      const registro = await buscarJson<RegistroNpm>(
+        buscar,
+        `https://registry.npmjs.org/${servidor.npm_package.replace('/', '%2F')}`,
+      );
+      if (registro) {
+        npm = lerNpm(registro);
+      } else {
+        erros.push(`Pacote npm "${servidor.npm_package}" não encontrado`);
+      }
+    } catch (error) {
+      erros.push(error.message);
+    }
+  }
+
+  const url = servidor.github_url ? lerUrlGithub(servidor.github_url) : null;
+  if (url) {
+    const api = `https://api.github.com/repos/${url.dono}/${url.repo}`;
+    try {
+      const repositorio = await buscarJson<RepositorioGithubApi>(buscar, api, githubHeaders(opcoes.githubToken));
+      if (repositorio) {
+        github = lerGithub(repositorio);
+        // Em monorepos o push do repositório não diz nada sobre o servidor:
+        // vale o último commit da pasta dele
+        if (url.diretorio) {
+          const commits = await buscarJson<Array<{ commit?: { committer?: { date?: string } } }>>(
+            buscar,
+            `${api}/commits?path=${encodeURIComponent(url.diretorio)}&sha=${encodeURIComponent(url.ramo ?? '')}&per_page=1`,
+            githubHeaders(opcoes.githubToken),
+          );
+          github.atualizado_em = commits?.[0]?.commit?.committer?.date ?? null;
+        }
+      } else {
+        erros.push(`Repositório "${url.dono}/${url.repo}" não encontrado no GitHub`);
+      }
+    } catch (error) {
+      erros.push(error.message);
+    }
+  }
+
+  const classificacao = classificar(npm, github, opcoes.agora ?? new Date());
+  return {
+    status: classificacao?.status ?? null,
+    motivo: classificacao?.motivo ?? null,
+    npm,
+    github,
+    erros,
+  };
+};
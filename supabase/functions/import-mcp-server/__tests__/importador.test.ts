@@ -0,0 +1,171 @@
+/**
+ * Unit Tests for the import-mcp-server importer
+ *
+ * The network goes through a Buscador backed by ./fixtures (trimmed copies
+ * of the npm registry and GitHub API responses); unknown URLs answer 404.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  ErroImportacao,
+  extrairVariaveis,
+  importarServidor,
+  lerOrigem,
+  lerRepositorio,
+  type Buscador,
+} from '../importador.ts';
+
+const fixture = (nome: string): string => readFileSync(join(__dirname, 'fixtures', nome), 'utf-8');
+
+const ROTAS: Record<string, string> = {
+  'https://registry.npmjs.org/@modelcontextprotocol%2Fserver-github': 'npm-server-github.json',
+  'https://api.github.com/repos/modelcontextprotocol/servers': 'github-servers-repo.json',
+  'https://api.github.com/repos/upstash/context7': 'github-context7-repo.json',
+  'https://api.github.com/repos/upstash/context7/readme': 'github-context7-readme.md',
+  'https://raw.githubusercontent.com/upstash/context7/master/package.json': 'github-context7-package.json',
+};
+
+const criarBuscador = (rotas: Record<string, string> = ROTAS) => {
+  const urls: string[] = [];
+  const buscar: Buscador = async (url) => {
+    urls.push(url);
+    const nome = rotas[url];
+    return nome
+      ? { ok: true, status: 200, text: async () => fixture(nome) }
+      : { ok: false, status: 404, text: async () => 'Not Found' };
+  };
+  return { buscar, urls };
+};
+
+describe('lerOrigem', () => {
+  it('recognizes npm packages in every accepted form', () => {
+    const esperado = { tipo: 'npm', pacote: '@modelcontextprotocol/server-github' };
+
+    expect(lerOrigem('@modelcontextprotocol/server-github')).toEqual(esperado);
+    expect(lerOrigem('npm:@modelcontextprotocol/server-github')).toEqual(esperado);
+    expect(lerOrigem('https://www.npmjs.com/package/@modelcontextprotocol/server-github')).toEqual(esperado);
+    expect(lerOrigem('  mcp-server-fetch ')).toEqual({ tipo: 'npm', pacote: 'mcp-server-fetch' });
+  });
+
+  it('recognizes GitHub repositories', () => {
+    const esperado = { tipo: 'github', dono: 'upstash', repo: 'context7' };
+
+    expect(lerOrigem('https://github.com/upstash/context7')).toEqual(esperado);
+    expect(lerOrigem('github.com/upstash/context7.git')).toEqual(esperado);
+    expect(lerOrigem('https://github.com/upstash/context7/tree/master/src/')).toEqual(esperado);
+    expect(lerOrigem('upstash/context7')).toEqual(esperado);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => lerOrigem('')).toThrow(ErroImportacao);
+    expect(() => lerOrigem('https://gitlab.com/dono/repo')).toThrow(ErroImportacao);
+  });
+});
+
+describe('lerRepositorio', () => {
+  it('reads the repository field in its common formats', () => {
+    expect(lerRepositorio('github:dono/repo')).toEqual({ dono: 'dono', repo: 'repo' });
+    expect(lerRepositorio({ url: 'git+https://github.com/dono/repo.git', directory: 'src/servidor/' }))
+      .toEqual({ dono: 'dono', repo: 'repo', diretorio: 'src/servidor' });
+    expect(lerRepositorio({ url: 'git@github.com:dono/repo.git' })).toEqual({ dono: 'dono', repo: 'repo' });
+    expect(lerRepositorio({ url: 'https://gitlab.com/dono/repo' })).toBeNull();
+    expect(lerRepositorio(undefined)).toBeNull();
+  });
+});
+
+describe('extrairVariaveis', () => {
+  it('collects env keys from config examples, flagging secrets', () => {
+    const readme = '"env": { "API_KEY": "<KEY>", "BASE_URL": "https://api" }\n\n"env": {"API_KEY": "x", "GITHUB_PAT": "y"}';
+
+    expect(extrairVariaveis(readme)).toEqual([
+      { name: 'API_KEY', description: '', required: true, secret: true },
+      { name: 'BASE_URL', description: '', required: true, secret: false },
+      { name: 'GITHUB_PAT', description: '', required: true, secret: true },
+    ]);
+  });
+});
+
+describe('importarServidor', () => {
+  it('imports an npm package using the latest version and the npm README', async () => {
+    const { buscar, urls } = criarBuscador();
+
+    const rascunho = await importarServidor('@modelcontextprotocol/server-github', buscar);
+
+    expect(rascunho).toMatchObject({
+      slug: 'github-mcp-server',
+      title: 'GitHub MCP Server',
+      description: 'MCP server for using the GitHub API',
+      tags: ['github', 'git'],
+      npm_package: '@modelcontextprotocol/server-github',
+      github_url: 'https://github.com/modelcontextprotocol/servers/tree/main/src/github',
+      install_command: 'npx -y @modelcontextprotocol/server-github',
+      transport: 'stdio',
+      launch_command: 'npx',
+      launch_args: ['-y', '@modelcontextprotocol/server-github'],
+      server_url: null,
+      env_vars: [{ name: 'GITHUB_PERSONAL_ACCESS_TOKEN', description: '', required: true, secret: true }],
+    });
+    // Selo removido; link relativo resolvido a partir da pasta do pacote
+    expect(rascunho.content).not.toContain('shields.io');
+    expect(rascunho.content).not.toContain('<h1>');
+    expect(rascunho.content).toContain('href="https://github.com/modelcontextprotocol/servers/blob/main/LICENSE"');
+    expect(urls).toContain('https://api.github.com/repos/modelcontextprotocol/servers/readme/src/github');
+  });
+
+  it('imports a GitHub repository with its package.json and README', async () => {
+    const { buscar } = criarBuscador();
+
+    const rascunho = await importarServidor('https://github.com/upstash/context7', buscar);
+
+    expect(rascunho).toMatchObject({
+      slug: 'context7-mcp-up-to-date-code-docs-for-any-prompt',
+      title: 'Context7 MCP - Up-to-date Code Docs For Any Prompt',
+      description: 'MCP server for Context7',
+      tags: ['context7', 'documentation', 'llm', 'vibe-coding'],
+      npm_package: '@upstash/context7-mcp',
+      github_url: 'https://github.com/upstash/context7',
+      launch_command: 'npx',
+      launch_args: ['-y', '@upstash/context7-mcp'],
+      env_vars: [],
+    });
+    expect(rascunho.content).toContain('<h2>❌ Without Context7</h2>');
+    expect(rascunho.content).toContain('href="https://github.com/upstash/context7/blob/master/CONTRIBUTING.md"');
+    expect(rascunho.content).not.toMatch(/javascript:|onclick|<p align/);
+  });
+
+  it('leaves launch fields empty for repositories without a publishable package', async () => {
+    const { buscar } = criarBuscador({
+      'https://api.github.com/repos/modelcontextprotocol/servers': 'github-servers-repo.json',
+    });
+
+    const rascunho = await importarServidor('modelcontextprotocol/servers', buscar);
+
+    expect(rascunho).toMatchObject({
+      title: 'Servers',
+      description: 'Model Context Protocol Servers',
+      content: '',
+      npm_package: null,
+      install_command: null,
+      launch_command: null,
+      launch_args: [],
+    });
+  });
+
+  it('reports missing packages and repositories as 404', async () => {
+    const { buscar } = criarBuscador({});
+
+    await expect(importarServidor('pacote-que-nao-existe', buscar)).rejects.toMatchObject({ status: 404 });
+    await expect(importarServidor('dono/repo', buscar)).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('fails with 502 when the registry is unavailable', async () => {
+    const buscar: Buscador = async () => ({ ok: false, status: 503, text: async () => '' });
+
+    await expect(importarServidor('mcp-server-fetch', buscar)).rejects.toMatchObject({
+      name: 'ErroImportacao',
+      status: 502,
+    });
+  });
+});
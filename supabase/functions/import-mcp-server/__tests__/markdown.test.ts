@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for the import-mcp-server README converter
+ *
+ * The HTML ends up in mcp_servers.content and is rendered with
+ * dangerouslySetInnerHTML, so besides the markdown features these tests
+ * pin down what never gets through: raw HTML, event handlers and
+ * non-http(s) URLs.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { markdownParaHtml, primeiroTitulo } from '../../_shared/markdown.ts';
+
+describe('markdownParaHtml', () => {
+  it('converts headings, paragraphs, lists and emphasis', () => {
+    const html = markdownParaHtml([
+      '# Servidor',
+      '',
+      'Primeira linha',
+      'continua aqui com **negrito** e *itálico*.',
+      '',
+      '## Recursos',
+      '',
+      '- Leitura de `arquivos`',
+      '- Escrita',
+      '  em duas linhas',
+      '',
+      '1. Instale',
+      '2. Configure',
+    ].join('\n'));
+
+    expect(html).toBe([
+      '<h2>Servidor</h2>',
+      '<p>Primeira linha continua aqui com <strong>negrito</strong> e <em>itálico</em>.</p>',
+      '<h2>Recursos</h2>',
+      '<ul><li>Leitura de <code>arquivos</code></li><li>Escrita em duas linhas</li></ul>',
+      '<ol><li>Instale</li><li>Configure</li></ol>',
+    ].join('\n'));
+  });
+
+  it('removes the title when asked and keeps underscores inside names', () => {
+    const html = markdownParaHtml('# GitHub MCP Server\n\nDefina GITHUB_PERSONAL_ACCESS_TOKEN antes.', {
+      removerTitulo: true,
+    });
+
+    expect(html).toBe('<p>Defina GITHUB_PERSONAL_ACCESS_TOKEN antes.</p>');
+  });
+
+  it('escapes fenced code blocks verbatim', () => {
+    const html = markdownParaHtml('```json\n{ "env": { "TOKEN": "<SEU_TOKEN>" } }\n```');
+
+    expect(html).toBe('<pre><code>{ &quot;env&quot;: { &quot;TOKEN&quot;: &quot;&lt;SEU_TOKEN&gt;&quot; } }</code></pre>');
+  });
+
+  it('renders tables and blockquotes, dropping GitHub alert markers', () => {
+    const html = markdownParaHtml([
+      '| Cliente | Arquivo |',
+      '| --- | --- |',
+      '| Cursor | `.cursor/mcp.json` |',
+      '',
+      '> [!WARNING]',
+      '> Use um token só de leitura.',
+    ].join('\n'));
+
+    expect(html).toBe([
+      '<table><thead><tr><th>Cliente</th><th>Arquivo</th></tr></thead>' +
+        '<tbody><tr><td>Cursor</td><td><code>.cursor/mcp.json</code></td></tr></tbody></table>',
+      '<blockquote><p>Use um token só de leitura.</p></blockquote>',
+    ].join('\n'));
+  });
+
+  it('strips raw HTML and unsafe links, keeping their text', () => {
+    const html = markdownParaHtml([
+      '<div align="center"><script>alert(1)</script></div>',
+      '',
+      'Veja <a href="javascript:alert(1)" onclick="roubar()">aqui</a> ou [isto](javascript:alert(2)).',
+      '',
+      '<img src=x onerror="alert(3)">',
+    ].join('\n'));
+
+    expect(html).toBe('<p>Veja aqui ou isto.</p>');
+    expect(html).not.toMatch(/<(script|a|img|div)\b/);
+  });
+
+  it('resolves relative links and images against the repository and drops badges', () => {
+    const html = markdownParaHtml(
+      '[![npm](https://img.shields.io/npm/v/pacote)](https://npmjs.com/package/pacote) ' +
+        '![Arquitetura](docs/arquitetura.png) [Licença](../../LICENSE) [Topo](#uso)',
+      {
+        baseLinks: 'https://github.com/dono/repo/blob/main/src/servidor/',
+        baseImagens: 'https://raw.githubusercontent.com/dono/repo/main/src/servidor/',
+      },
+    );
+
+    expect(html).toBe(
+      '<p><img src="https://raw.githubusercontent.com/dono/repo/main/src/servidor/docs/arquitetura.png" alt="Arquitetura" loading="lazy" /> ' +
+        '<a href="https://github.com/dono/repo/blob/main/LICENSE" target="_blank" rel="noopener noreferrer">Licença</a> Topo</p>'
+    );
+  });
+
+  it('keeps relative links as text when the repository is unknown', () => {
+    expect(markdownParaHtml('[Guia](docs/guia.md)')).toBe('<p>Guia</p>');
+  });
+});
+
+describe('primeiroTitulo', () => {
+  it('returns the first level-1 heading outside code blocks, without markup', () => {
+    const markdown = '```sh\n# comentário\n```\n\n# **Context7** [MCP](https://context7.com)\n\n# Outro';
+
+    expect(primeiroTitulo(markdown)).toBe('Context7 MCP');
+  });
+
+  it('returns null without a level-1 heading', () => {
+    expect(primeiroTitulo('## Seção\n\nTexto')).toBeNull();
+  });
+});
@@ -0,0 +1,293 @@
+// Importador de servidores MCP
+//
+// A partir de um pacote npm (`@escopo/pacote`, `npm:pacote` ou a URL do
+// npmjs.com) ou de um repositório GitHub (`dono/repo` ou a URL), lê o
+// package.json e o README e monta o rascunho que pré-preenche o formulário
+// de /mcp-manager.
+//
+// Toda a rede passa pelo Buscador recebido (fetch na Edge Function, páginas
+// salvas em __tests__/fixtures nos testes).
+
+import type { Buscador } from '../_shared/buscador.ts';
+import type { McpEnvVar, McpServerDraft } from '../_shared/mcp-types.ts';
+import { markdownParaHtml, primeiroTitulo } from '../_shared/markdown.ts';
+
+export type { Buscador };
+
+export type Origem =
+  | { tipo: 'npm'; pacote: string }
+  | { tipo: 'github'; dono: string; repo: string };
+
+export class ErroImportacao extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'ErroImportacao';
+  }
+}
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; VibeFlow/1.0)';
+
+const MAX_TAGS = 8;
+
+// Palavras-chave que todo servidor MCP tem
+const TAGS_IGNORADAS = new Set(['mcp', 'mcp-server', 'model-context-protocol', 'modelcontextprotocol', 'server']);
+
+// Variáveis de ambiente tratadas como segredo
+const SEGREDO = /TOKEN|KEY|SECRET|PASSWORD|PASSWD|CREDENTIAL|\bPAT\b|_PAT$/;
+
+const NOME_NPM = /^(@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*$/i;
+
+/**
+ * Identifica o que foi digitado no campo "Importar"
+ */
+export const lerOrigem = (entrada: string): Origem => {
+  const valor = entrada.trim().replace(/\/+$/, '');
+
+  const github = valor.match(/^(?:https?:\/\/)?(?:www\.)?github\.com\/([\w.-]+)\/([\w.-]+)/i);
+  if (github) {
+    return { tipo: 'github', dono: github[1], repo: github[2].replace(/\.git$/i, '') };
+  }
+
+  const npmjs = valor.match(/^(?:https?:\/\/)?(?:www\.)?npmjs\.com\/package\/((?:@[^/]+\/)?[^/?#]+)/i);
+  if (npmjs) {
+    return { tipo: 'npm', pacote: decodeURIComponent(npmjs[1]) };
+  }
+
+  const pacote = valor.replace(/^npm:/i, '');
+  // `dono/repo` sem @ é repositório; pacotes com escopo começam com @
+  const repo = pacote.match(/^([\w.-]+)\/([\w.-]+)$/);
+  if (repo && !pacote.startsWith('@')) {
+    return { tipo: 'github', dono: repo[1], repo: repo[2].replace(/\.git$/i, '') };
+  }
+
+  if (NOME_NPM.test(pacote)) {
+    return { tipo: 'npm', pacote: pacote.toLowerCase() };
+  }
+
+  throw new ErroImportacao('Informe um pacote npm (ex: @modelcontextprotocol/server-github) ou a URL de um repositório GitHub');
+};
+
+/**
+ * Slug no mesmo formato do formulário de /mcp-manager
+ */
+export const gerarSlug = (texto: string): string =>
+  texto
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '');
+
+/**
+ * Título a partir do nome do pacote: `@escopo/server-github` -> `Server Github`
+ */
+const tituloDoPacote = (nome: string): string =>
+  nome
+    .replace(/^@[^/]+\//, '')
+    .split(/[-_.]+/)
+    .filter(Boolean)
+    .map(parte => parte.charAt(0).toUpperCase() + parte.slice(1))
+    .join(' ');
+
+interface RepositorioGithub {
+  dono: string;
+  repo: string;
+  /** Pasta do pacote em monorepos (`repository.directory`) */
+  diretorio?: string;
+}
+
+/**
+ * Repositório GitHub de um campo `repository` do package.json
+ */
+export const lerRepositorio = (repository: unknown): RepositorioGithub | null => {
+  const campo = typeof repository === 'string'
+    ? { url: repository }
+    : (repository as { url?: string; directory?: string } | null);
+  const url = campo?.url;
+  if (!url) return null;
+
+  const abreviado = url.match(/^(?:github:)?([\w.-]+)\/([\w.-]+)$/);
+  const completo = url.match(/github\.com[/:]([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:[/#].*)?$/i);
+  const encontrado = completo ?? abreviado;
+  if (!encontrado) return null;
+
+  const diretorio = campo?.directory?.replace(/^\/+|\/+$/g, '');
+  return { dono: encontrado[1], repo: encontrado[2], ...(diretorio ? { diretorio } : {}) };
+};
+
+/**
+ * Variáveis de ambiente dos blocos `"env": { ... }` dos exemplos de
+ * configuração do README
+ */
+export const extrairVariaveis = (readme: string): McpEnvVar[] => {
+  const nomes = new Set<string>();
+  for (const bloco of readme.matchAll(/"env"\s*:\s*\{([^}]*)\}/g)) {
+    for (const chave of bloco[1].matchAll(/"([A-Z][A-Z0-9_]*)"\s*:/g)) {
+      nomes.add(chave[1]);
+    }
+  }
+  return [...nomes].map(name => ({
+    name,
+    description: '',
+    required: true,
+    secret: SEGREDO.test(name),
+  }));
+};
+
+const normalizarTags = (tags: unknown): string[] => {
+  if (!Array.isArray(tags)) return [];
+  const unicas = new Set(
+    tags
+      .filter((tag): tag is string => typeof tag === 'string')
+      .map(tag => tag.trim().toLowerCase())
+      .filter(tag => tag && !TAGS_IGNORADAS.has(tag))
+  );
+  return [...unicas].slice(0, MAX_TAGS);
+};
+
+const buscarTexto = async (
+  buscar: Buscador,
+  url: string,
+  headers: Record<string, string> = {},
+): Promise<string | null> => {
+  const resposta = await buscar(url, { headers: { 'User-Agent': USER_AGENT, ...headers } });
+  if (resposta.status === 404) return null;
+  if (!resposta.ok) {
+    throw new ErroImportacao(`Falha ao acessar ${url} (status ${resposta.status})`, 502);
+  }
+  return resposta.text();
+};
+
+interface Repositorio {
+  description: string | null;
+  html_url: string;
+  default_branch: string;
+  topics?: string[];
+  archived?: boolean;
+}
+
+interface PackageJson {
+  name?: string;
+  description?: string;
+  keywords?: string[];
+  repository?: unknown;
+  bin?: string | Record<string, string>;
+  private?: boolean;
+  readme?: string;
+}
+
+const githubHeaders = (token?: string): Record<string, string> => ({
+  'Accept': 'application/vnd.github+json',
+  ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+});
+
+const buscarRepositorio = async (
+  buscar: Buscador,
+  { dono, repo, diretorio }: RepositorioGithub,
+  token?: string,
+): Promise<{ repositorio: Repositorio; readme: string | null; pacote: PackageJson | null } | null> => {
+  const json = await buscarTexto(buscar, `https://api.github.com/repos/${dono}/${repo}`, githubHeaders(token));
+  if (!json) return null;
+
+  const repositorio = JSON.parse(json) as Repositorio;
+  const pasta = diretorio ? `/${diretorio}` : '';
+  const readme = await buscarTexto(buscar, `https://api.github.com/repos/${dono}/${repo}/readme${pasta}`, {
+    ...githubHeaders(token),
+    'Accept': 'application/vnd.github.raw',
+  });
+  const packageJson = await buscarTexto(
+    buscar,
+    `https://raw.githubusercontent.com/${dono}/${repo}/${repositorio.default_branch}${pasta}/package.json`,
+  );
+
+  return { repositorio, readme, pacote: packageJson ? JSON.parse(packageJson) as PackageJson : null };
+};
+
+export interface OpcoesImportacao {
+  /** Token do GitHub (GITHUB_TOKEN) para não esbarrar no limite anônimo */
+  githubToken?: string;
+}
+
+/**
+ * Monta o rascunho do servidor MCP a partir do npm ou do GitHub
+ */
+export const importarServidor = async (
+  entrada: string,
+  buscar: Buscador,
+  opcoes: OpcoesImportacao = {},
+): Promise<McpServerDraft> => {
+  const origem = lerOrigem(entrada);
+
+  let pacote: PackageJson | null = null;
+  let nomePacote: string | null = null;
+  let repositorio: Repositorio | null = null;
+  let readme: string | null = null;
+  let github: RepositorioGithub | null = null;
+
+  if (origem.tipo === 'npm') {
+    const json = await buscarTexto(buscar, `https://registry.npmjs.org/${origem.pacote.replace('/', '%2F')}`);
+    if (!json) {
+      throw new ErroImportacao(`Pacote npm "${origem.pacote}" não encontrado`, 404);
+    }
+    const registro = JSON.parse(json) as PackageJson & {
+      'dist-tags'?: { latest?: string };
+      versions?: Record<string, PackageJson>;
+    };
+    const ultima = registro['dist-tags']?.latest;
+    pacote = { ...registro, ...(ultima ? registro.versions?.[ultima] : {}) };
+    nomePacote = registro.name ?? origem.pacote;
+    readme = registro.readme?.trim() || null;
+    github = lerRepositorio(pacote.repository);
+
+    // O README do npm pode estar vazio; o do repositório serve de reserva
+    if (github) {
+      const doRepositorio = await buscarRepositorio(buscar, github, opcoes.githubToken);
+      repositorio = doRepositorio?.repositorio ?? null;
+      readme = readme ?? doRepositorio?.readme ?? null;
+    }
+  } else {
+    github = { dono: origem.dono, repo: origem.repo };
+    const doRepositorio = await buscarRepositorio(buscar, github, opcoes.githubToken);
+    if (!doRepositorio) {
+      throw new ErroImportacao(`Repositório "${origem.dono}/${origem.repo}" não encontrado no GitHub`, 404);
+    }
+    repositorio = doRepositorio.repositorio;
+    readme = doRepositorio.readme;
+    pacote = doRepositorio.pacote;
+    // Só pacotes publicáveis: o package.json de um monorepo é `private`
+    nomePacote = pacote && !pacote.private && pacote.name ? pacote.name : null;
+  }
+
+  const ramo = repositorio?.default_branch ?? 'HEAD';
+  const pasta = github?.diretorio ? `${github.diretorio}/` : '';
+  const raiz = repositorio?.html_url
+    ?? (github ? `https://github.com/${github.dono}/${github.repo}` : null);
+  const githubUrl = raiz && github?.diretorio ? `${raiz}/tree/${ramo}/${github.diretorio}` : raiz;
+  const titulo = (readme && primeiroTitulo(readme))
+    || tituloDoPacote(nomePacote ?? github?.repo ?? '');
+
+  // Pacotes com `bin` rodam com npx
+  const executavel = Boolean(nomePacote && pacote?.bin);
+
+  return {
+    slug: gerarSlug(titulo),
+    title: titulo,
+    description: pacote?.description?.trim() || repositorio?.description?.trim() || null,
+    content: readme
+      ? markdownParaHtml(readme, {
+        removerTitulo: true,
+        baseLinks: github ? `https://github.com/${github.dono}/${github.repo}/blob/${ramo}/${pasta}` : undefined,
+        baseImagens: github ? `https://raw.githubusercontent.com/${github.dono}/${github.repo}/${ramo}/${pasta}` : undefined,
+      })
+      : '',
+    tags: normalizarTags([...(pacote?.keywords ?? []), ...(repositorio?.topics ?? [])]),
+    npm_package: nomePacote,
+    github_url: githubUrl,
+    install_command: executavel ? `npx -y ${nomePacote}` : null,
+    transport: 'stdio',
+    launch_command: executavel ? 'npx' : null,
+    launch_args: executavel ? ['-y', nomePacote as string] : [],
+    server_url: null,
+    env_vars: readme ? extrairVariaveis(readme) : [],
+  };
+};
@@ -0,0 +1,105 @@
+// Edge Function: import-mcp-server
+// Lê um pacote npm ou repositório GitHub e devolve o rascunho que
+// pré-preenche o formulário de /mcp-manager (título, descrição, README em
+// HTML, tags, pacote, comando de execução e variáveis de ambiente)
+// Body: { "source": "@modelcontextprotocol/server-github" | "https://github.com/dono/repo" }
+// Não grava nada: o admin revisa o rascunho e salva pelo formulário.
+// `duplicates` lista os servidores já cadastrados com o mesmo pacote npm ou slug.
+// GITHUB_TOKEN (opcional) evita o limite anônimo da API do GitHub.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { ErroImportacao, importarServidor } from "./importador.ts";
+import type { McpImportResponse, McpServerDraft, McpServerDuplicate } from "../_shared/mcp-types.ts";
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const responder = (body: McpImportResponse, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+/**
+ * Servidores já cadastrados com o mesmo pacote npm ou slug
+ */
+const buscarDuplicados = async (
+  supabase: ReturnType<typeof createClient>,
+  rascunho: McpServerDraft,
+): Promise<McpServerDuplicate[]> => {
+  const duplicados: McpServerDuplicate[] = [];
+  const campos: Array<['npm_package' | 'slug', string | null]> = [
+    ['npm_package', rascunho.npm_package],
+    ['slug', rascunho.slug],
+  ];
+
+  for (const [campo, valor] of campos) {
+    if (!valor) continue;
+    const { data, error } = await supabase
+      .from('mcp_servers')
+      .select('id, title, slug, is_published')
+      .eq(campo, valor);
+    if (error) throw error;
+
+    for (const servidor of data ?? []) {
+      if (!duplicados.some(d => d.id === servidor.id)) {
+        duplicados.push({ ...servidor, match: campo });
+      }
+    }
+  }
+
+  return duplicados;
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Só usuários autenticados (o mesmo acesso de /mcp-manager)
+    const token = req.headers.get('authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return responder({ success: false, error: 'Missing authorization header' }, 401);
+    }
+    const { data: { user }, error: authError } = await createClient(supabaseUrl, token).auth.getUser();
+    if (authError || !user) {
+      return responder({ success: false, error: 'Invalid or expired authentication token' }, 401);
+    }
+
+    const { source } = await req.json().catch(() => ({}));
+    if (typeof source !== 'string' || !source.trim()) {
+      return responder({ success: false, error: 'Missing required parameter: source' }, 400);
+    }
+
+    console.log(`📦 Importando servidor MCP: ${source}`);
+    const draft = await importarServidor(source, fetch, {
+      githubToken: Deno.env.get('GITHUB_TOKEN') || undefined,
+    });
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const duplicates = await buscarDuplicados(supabase, draft);
+    if (duplicates.length > 0) {
+      console.log(`⚠️  ${duplicates.length} servidor(es) parecido(s) já cadastrado(s): ${duplicates.map(d => d.slug).join(', ')}`);
+    }
+
+    return responder({ success: true, draft, duplicates });
+  } catch (error) {
+    if (error instanceof ErroImportacao) {
+      return responder({ success: false, error: error.message }, error.status);
+    }
+    console.error('❌ Erro ao importar servidor MCP:', error);
+    return responder({ success: false, error: error.message ?? 'Erro ao importar servidor MCP' }, 500);
+  }
+});
@@ -0,0 +1,148 @@
+/**
+ * Property-Based Tests for notify-slack Edge Function - Bot Delivery Mode
+ *
+ * Feature: slack-community-integration
+ * Property: Bot-mode messages are edited or threaded, never duplicated
+ *
+ * For any sequence of actions on a content item delivered to a bot-mode
+ * channel, only the first publication posts a top-level message. Later
+ * updates and deletions edit that message (update_mode 'edit') or reply in
+ * its thread (update_mode 'thread'), and the stored ts always points at the
+ * top-level message.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import fc from 'fast-check';
+
+// Type definitions matching _shared/slack-delivery.ts
+type NotificationAction = 'published' | 'updated' | 'deleted';
+type UpdateMode = 'edit' | 'thread';
+
+interface PostedMessage {
+  channel_id: string;
+  ts: string;
+}
+
+interface SlackCall {
+  method: 'chat.postMessage' | 'chat.update';
+  channel: string;
+  ts?: string;
+  thread_ts?: string;
+}
+
+/**
+ * Simulates sendViaBot from _shared/slack-delivery.ts against an in-memory
+ * Slack channel and slack_messages row.
+ * This is a copy of the implementation for testing purposes.
+ */
+function simulateBotDelivery(
+  channelId: string,
+  updateMode: UpdateMode,
+  actions: NotificationAction[],
+  deletedInSlack: Set<number> = new Set()
+): { calls: SlackCall[]; tracked: PostedMessage | null } {
+  const calls: SlackCall[] = [];
+  const slackMessages = new Set<string>();
+  let tracked: PostedMessage | null = null;
+  let nextTs = 1;
+
+  const postMessage = (channel: string, threadTs?: string) => {
+    const ts = `${nextTs++}.000100`;
+    calls.push({ method: 'chat.postMessage', channel, ...(threadTs && { thread_ts: threadTs }) });
+    if (!threadTs) slackMessages.add(ts);
+    return ts;
+  };
+
+  actions.forEach((action, index) => {
+    // The top-level message can be deleted by a Slack user between actions
+    if (deletedInSlack.has(index) && tracked) {
+      slackMessages.delete(tracked.ts);
+    }
+
+    let posted = action !== 'published' ? tracked : null;
+
+    if (posted && updateMode === 'edit') {
+      calls.push({ method: 'chat.update', channel: posted.channel_id, ts: posted.ts });
+      if (slackMessages.has(posted.ts)) {
+        return;
+      }
+      // message_not_found: fall through and post a new message
+      posted = null;
+    }
+
+    if (posted) {
+      postMessage(posted.channel_id, posted.ts);
+      return;
+    }
+
+    const ts = postMessage(channelId);
+    tracked = { channel_id: channelId, ts };
+  });
+
+  return { calls, tracked };
+}
+
+const actionsArb = fc.array(fc.constantFrom<NotificationAction>('updated', 'deleted'), { maxLength: 10 });
+
+describe('Bot Delivery Mode - Property Tests', () => {
+  it('should post a single top-level message and edit it on every update', () => {
+    fc.assert(
+      fc.property(fc.constantFrom('C0123', 'G0456'), actionsArb, (channelId, followUps) => {
+        const { calls, tracked } = simulateBotDelivery(channelId, 'edit', ['published', ...followUps]);
+
+        expect(calls[0]).toEqual({ method: 'chat.postMessage', channel: channelId });
+        expect(calls.filter(c => c.method === 'chat.postMessage')).toHaveLength(1);
+        calls.slice(1).forEach((call) => {
+          expect(call).toEqual({ method: 'chat.update', channel: channelId, ts: tracked!.ts });
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should reply in the original thread when update_mode is thread', () => {
+    fc.assert(
+      fc.property(fc.constantFrom('C0123', 'G0456'), actionsArb, (channelId, followUps) => {
+        const { calls, tracked } = simulateBotDelivery(channelId, 'thread', ['published', ...followUps]);
+
+        expect(calls).toHaveLength(followUps.length + 1);
+        expect(calls.filter(c => !c.thread_ts)).toHaveLength(1);
+        calls.slice(1).forEach((call) => {
+          expect(call.method).toBe('chat.postMessage');
+          expect(call.thread_ts).toBe(tracked!.ts);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should post a new top-level message for updates of untracked content', () => {
+    fc.assert(
+      fc.property(fc.constantFrom<UpdateMode>('edit', 'thread'), (updateMode) => {
+        const { calls, tracked } = simulateBotDelivery('C0123', updateMode, ['updated']);
+
+        expect(calls).toEqual([{ method: 'chat.postMessage', channel: 'C0123' }]);
+        expect(tracked).not.toBeNull();
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  it('should repost and track the new message when the original was deleted in Slack', () => {
+    const { calls, tracked } = simulateBotDelivery(
+      'C0123',
+      'edit',
+      ['published', 'updated', 'updated'],
+      new Set([1])
+    );
+
+    expect(calls.map(c => c.method)).toEqual([
+      'chat.postMessage',
+      'chat.update',
+      'chat.postMessage',
+      'chat.update',
+    ]);
+    expect(calls[3].ts).toBe(tracked!.ts);
+    expect(tracked!.ts).not.toBe('1.000100');
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Property-Based Tests for notify-slack Edge Function - Multi-Channel Fan-out
+ *
+ * Feature: slack-community-integration
+ * Property: Fan-out to every enabled webhook
+ *
+ * For any content_type with N enabled webhooks, a notification should be
+ * delivered to all N channels, produce exactly one slack_delivery_logs row
+ * per webhook, and return one per-channel result in the response. Disabled
+ * webhooks and webhooks for other content types are never contacted.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import fc from 'fast-check';
+
+// Type definitions matching the Edge Function
+type ContentType = 'workflow' | 'mcp_server' | 'blog_post' | 'ide_news';
+type DeliveryStatus = 'success' | 'failed' | 'skipped';
+
+interface SlackWebhook {
+  id: string;
+  content_type: ContentType;
+  webhook_url: string;
+  channel_name: string;
+  is_enabled: boolean;
+}
+
+interface ChannelDeliveryResult {
+  webhook_id: string;
+  channel_name: string;
+  status: DeliveryStatus;
+  response_code: number | null;
+  attempt_number: number;
+  error?: string;
+}
+
+interface DeliveryLogEntry {
+  webhook_id: string | null;
+  content_type: ContentType;
+  content_id: string;
+  status: DeliveryStatus;
+  attempt_number: number;
+}
+
+interface FanOutResult {
+  success: boolean;
+  status: DeliveryStatus;
+  httpStatus: number;
+  results: ChannelDeliveryResult[];
+  logs: DeliveryLogEntry[];
+}
+
+/**
+ * Simulates the fan-out logic from the Edge Function. `failingUrls` lists
+ * the webhook URLs that reject every attempt.
+ */
+async function simulateFanOut(
+  contentType: ContentType,
+  contentId: string,
+  webhooks: SlackWebhook[],
+  failingUrls: Set<string>
+): Promise<FanOutResult> {
+  const logs: DeliveryLogEntry[] = [];
+  const targets = webhooks.filter(
+    w => w.content_type === contentType && w.is_enabled
+  );
+
+  if (targets.length === 0) {
+    logs.push({
+      webhook_id: null,
+      content_type: contentType,
+      content_id: contentId,
+      status: 'skipped',
+      attempt_number: 0,
+    });
+    return { success: true, status: 'skipped', httpStatus: 200, results: [], logs };
+  }
+
+  const results = await Promise.all(
+    targets.map(async (webhook): Promise<ChannelDeliveryResult> => {
+      const fails = failingUrls.has(webhook.webhook_url);
+      const result: ChannelDeliveryResult = {
+        webhook_id: webhook.id,
+        channel_name: webhook.channel_name,
+        status: fails ? 'failed' : 'success',
+        response_code: fails ? 500 : 200,
+        attempt_number: fails ? 3 : 1,
+        ...(fails && { error: 'HTTP 500: internal_error' }),
+      };
+      logs.push({
+        webhook_id: webhook.id,
+        content_type: contentType,
+        content_id: contentId,
+        status: result.status,
+        attempt_number: result.attempt_number,
+      });
+      return result;
+    })
+  );
+
+  const successCount = results.filter(r => r.status === 'success').length;
+  const allDelivered = successCount === results.length;
+
+  return {
+    success: allDelivered,
+    status: allDelivered ? 'success' : 'failed',
+    httpStatus: successCount > 0 ? 200 : 500,
+    results,
+    logs,
+  };
+}
+
+const contentTypeArb = fc.constantFrom<ContentType>('workflow', 'mcp_server', 'blog_post', 'ide_news');
+
+const webhooksArb = fc.uniqueArray(
+  fc.record({
+    id: fc.uuid(),
+    content_type: contentTypeArb,
+    webhook_url: fc.webUrl({ validSchemes: ['https'] }),
+    channel_name: fc.stringMatching(/^#[a-z0-9-]{1,20}$/),
+    is_enabled: fc.boolean(),
+  }),
+  { selector: w => w.id, maxLength: 10 }
+);
+
+describe('Property: Fan-out to every enabled webhook', () => {
+  it('should deliver to every enabled webhook for the content_type', async () => {
+    await fc.assert(
+      fc.asyncProperty(contentTypeArb, fc.uuid(), webhooksArb, async (contentType, contentId, webhooks) => {
+        const result = await simulateFanOut(contentType, contentId, webhooks, new Set());
+        const expectedIds = webhooks
+          .filter(w => w.content_type === contentType && w.is_enabled)
+          .map(w => w.id);
+
+        expect(result.results.map(r => r.webhook_id).sort()).toEqual([...expectedIds].sort());
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should write exactly one log row per targeted webhook', async () => {
+    await fc.assert(
+      fc.asyncProperty(contentTypeArb, fc.uuid(), webhooksArb, async (contentType, contentId, webhooks) => {
+        const result = await simulateFanOut(contentType, contentId, webhooks, new Set());
+
+        if (result.status === 'skipped') {
+          expect(result.logs).toHaveLength(1);
+          expect(result.logs[0].webhook_id).toBeNull();
+          return;
+        }
+
+        expect(result.logs).toHaveLength(result.results.length);
+        const loggedIds = new Set(result.logs.map(l => l.webhook_id));
+        expect(loggedIds.size).toBe(result.results.length);
+        result.logs.forEach(log => {
+          expect(log.content_type).toBe(contentType);
+          expect(log.content_id).toBe(contentId);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should report a failing channel without affecting the others', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        contentTypeArb,
+        fc.uuid(),
+        fc.uniqueArray(fc.uuid(), { minLength: 2, maxLength: 5 }),
+        fc.nat(),
+        async (contentType, contentId, ids, failingSeed) => {
+          const webhooks: SlackWebhook[] = ids.map((id, i) => ({
+            id,
+            content_type: contentType,
+            webhook_url: `https://hooks.slack.com/services/T/B/${i}`,
+            channel_name: `#canal-${i}`,
+            is_enabled: true,
+          }));
+          const failing = webhooks[failingSeed % webhooks.length];
+
+          const result = await simulateFanOut(
+            contentType,
+            contentId,
+            webhooks,
+            new Set([failing.webhook_url])
+          );
+
+          expect(result.results).toHaveLength(webhooks.length);
+          result.results.forEach(r => {
+            expect(r.status).toBe(r.webhook_id === failing.id ? 'failed' : 'success');
+          });
+          expect(result.success).toBe(false);
+          expect(result.status).toBe('failed');
+          // Partial delivery is not a server error
+          expect(result.httpStatus).toBe(200);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should return 500 only when every channel fails', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        contentTypeArb,
+        fc.uuid(),
+        fc.uniqueArray(fc.uuid(), { minLength: 1, maxLength: 5 }),
+        async (contentType, contentId, ids) => {
+          const webhooks: SlackWebhook[] = ids.map((id, i) => ({
+            id,
+            content_type: contentType,
+            webhook_url: `https://hooks.slack.com/services/T/B/${i}`,
+            channel_name: `#canal-${i}`,
+            is_enabled: true,
+          }));
+
+          const result = await simulateFanOut(
+            contentType,
+            contentId,
+            webhooks,
+            new Set(webhooks.map(w => w.webhook_url))
+          );
+
+          expect(result.httpStatus).toBe(500);
+          expect(result.results.every(r => r.status === 'failed')).toBe(true);
+          expect(result.results.every(r => r.attempt_number <= 3)).toBe(true);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
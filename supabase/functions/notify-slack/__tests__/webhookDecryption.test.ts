@@ -0,0 +1,64 @@
+/**
+ * Unit Tests for webhook URL decryption
+ *
+ * One undecryptable row must not take the other channels down: it is left
+ * out of the map so only its delivery fails.
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { decryptWebhookRows, type EncryptedWebhookUrl } from '../../_shared/slack-webhook-decryption.ts';
+
+const ARMOR = '-----BEGIN PGP MESSAGE-----\n';
+
+/**
+ * Stand-in for OpenPGP: the "ciphertext" is the armored base64 of the URL
+ */
+const encrypt = (url: string) => ARMOR + Buffer.from(url).toString('base64');
+
+const decrypt = async (ciphertext: string): Promise<string> => {
+  if (!ciphertext.startsWith(ARMOR)) {
+    throw new Error('Misformed armored text');
+  }
+  return Buffer.from(ciphertext.slice(ARMOR.length), 'base64').toString();
+};
+
+describe('decryptWebhookRows', () => {
+  it('decrypts every row', async () => {
+    const rows: EncryptedWebhookUrl[] = [
+      { id: 'w1', webhook_url: encrypt('https://hooks.slack.com/services/T/B/one') },
+      { id: 'w2', webhook_url: encrypt('https://discord.com/api/webhooks/1/two') },
+    ];
+
+    const urls = await decryptWebhookRows(rows, decrypt);
+
+    expect(urls).toEqual(new Map([
+      ['w1', 'https://hooks.slack.com/services/T/B/one'],
+      ['w2', 'https://discord.com/api/webhooks/1/two'],
+    ]));
+  });
+
+  it('leaves out a row with a corrupt ciphertext and keeps the others', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const rows: EncryptedWebhookUrl[] = [
+      { id: 'w1', webhook_url: encrypt('https://hooks.slack.com/services/T/B/one') },
+      { id: 'w2', webhook_url: 'corrompido' },
+      { id: 'w3', webhook_url: encrypt('https://hooks.slack.com/services/T/B/three') },
+    ];
+
+    const urls = await decryptWebhookRows(rows, decrypt);
+
+    expect([...urls.keys()].sort()).toEqual(['w1', 'w3']);
+    expect(urls.has('w2')).toBe(false);
+    expect(errorSpy).toHaveBeenCalledWith('Failed to decrypt webhook URL w2: Misformed armored text');
+    errorSpy.mockRestore();
+  });
+
+  it('returns an empty map when no row can be decrypted', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const urls = await decryptWebhookRows([{ id: 'w1', webhook_url: 'x' }], decrypt);
+
+    expect(urls.size).toBe(0);
+    errorSpy.mockRestore();
+  });
+});
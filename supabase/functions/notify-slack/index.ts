@@ -1,11 +1,25 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from 'jsr:@supabase/supabase-js@2';
+import type { FieldChange } from '../_shared/slack-types.ts';
+import type { McpHealthAlert, ScheduledJobAlert } from '../_shared/notification-types.ts';
 import {
-  formatWorkflowMessage,
-  formatMcpServerMessage,
-  formatBlogPostMessage,
-  formatIdeNewsMessage,
-} from './formatters.ts';
+  type ContentType,
+  type NotificationAction,
+  VALID_CONTENT_TYPES,
+  VALID_ACTIONS,
+  CONTENT_TABLES,
+} from '../_shared/slack-content.ts';
+import { decryptWebhookUrls } from '../_shared/slack-webhooks.ts';
+import {
+  type ChannelMessage,
+  type NotificationChannel,
+  type NotificationProvider,
+  formatChannelJobAlert,
+  formatChannelMcpHealthAlert,
+  formatChannelMessage,
+  formatChannelTestMessage,
+  sendNotification,
+} from '../_shared/notification-delivery.ts';
 
 // CORS headers for preflight requests
 const corsHeaders = {
@@ -14,13 +28,39 @@ const corsHeaders = {
 };
 
 // Type definitions
-type ContentType = 'workflow' | 'mcp_server' | 'blog_post' | 'ide_news';
 type DeliveryStatus = 'success' | 'failed' | 'skipped';
 
 interface NotifySlackRequest {
   content_type: ContentType;
   content_id: string;
-  action: 'published' | 'updated' | 'deleted';
+  action: NotificationAction;
+  /** Changed fields, listed in 'updated' notifications */
+  changes?: FieldChange[];
+  /** Title snapshot for 'deleted' notifications (the row no longer exists) */
+  title?: string;
+  /** Deliver only to this webhook (used by the admin resend action) */
+  webhook_id?: string;
+  /** Send a test message to webhook_id instead of a content notification */
+  test?: boolean;
+  /** Send a scheduled job failure alert to webhook_id (collect_scheduled_job_runs) */
+  job_alert?: ScheduledJobAlert;
+  /** Send MCP server health changes to webhook_id (check-mcp-health) */
+  health_alert?: McpHealthAlert;
+}
+
+interface SlackWebhook extends NotificationChannel {
+  content_type: ContentType;
+  is_enabled: boolean;
+  notify_actions: NotificationAction[];
+}
+
+interface ChannelDeliveryResult {
+  webhook_id: string;
+  channel_name: string;
+  status: DeliveryStatus;
+  response_code: number | null;
+  attempt_number: number;
+  error?: string;
 }
 
 interface NotifySlackResponse {
@@ -29,6 +69,102 @@ interface NotifySlackResponse {
   delivery_time_ms: number;
   message?: string;
   error?: string;
+  results?: ChannelDeliveryResult[];
+}
+
+/**
+ * Delivers a message to a single channel (any provider) with retry logic
+ * (exponential backoff: 1s, 2s, 4s) and records the attempt in slack_delivery_logs.
+ */
+async function deliverToWebhook(
+  supabase: ReturnType<typeof createClient>,
+  webhook: SlackWebhook,
+  message: ChannelMessage,
+  contentType: ContentType | null,
+  contentId: string | null,
+  action: NotificationAction = 'published'
+): Promise<ChannelDeliveryResult> {
+  let deliveryStatus: DeliveryStatus = 'failed';
+  let responseCode: number | null = null;
+  let errorMessage: string | null = null;
+  let attemptNumber = 0;
+  const maxAttempts = 3;
+  const retryDelays = [1000, 2000, 4000]; // milliseconds
+
+  for (attemptNumber = 1; attemptNumber <= maxAttempts; attemptNumber++) {
+    try {
+      console.log(`Attempt ${attemptNumber} to send webhook to ${webhook.channel_name}`);
+
+      const result = await sendNotification(
+        supabase,
+        webhook,
+        message,
+        contentType && contentId
+          ? { content_type: contentType, content_id: contentId, action }
+          : null
+      );
+
+      responseCode = result.response_code;
+
+      if (result.ok) {
+        // Success!
+        deliveryStatus = 'success';
+        errorMessage = null;
+        console.log(`Webhook delivered to ${webhook.channel_name} on attempt ${attemptNumber}`);
+        break;
+      }
+
+      // Failed but got a response
+      errorMessage = result.error;
+      console.error(`Webhook delivery to ${webhook.channel_name} failed on attempt ${attemptNumber}:`, errorMessage);
+    } catch (error) {
+      // Network error or other exception
+      errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Webhook delivery to ${webhook.channel_name} failed on attempt ${attemptNumber}:`, errorMessage);
+    }
+
+    // If this isn't the last attempt, wait before retrying
+    if (attemptNumber < maxAttempts) {
+      const delay = retryDelays[attemptNumber - 1];
+      console.log(`Waiting ${delay}ms before retry...`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  // The loop counter ends one past the last attempt when every attempt fails
+  const attemptsMade = Math.min(attemptNumber, maxAttempts);
+
+  // Log delivery attempt to database (test messages have no content to log against)
+  if (contentType && contentId) {
+    const { error: logError } = await supabase
+      .from('slack_delivery_logs')
+      .insert({
+        webhook_id: webhook.id,
+        content_type: contentType,
+        content_id: contentId,
+        action,
+        status: deliveryStatus,
+        response_code: responseCode,
+        error_message: errorMessage,
+        attempt_number: attemptsMade,
+        payload_size: JSON.stringify(message).length,
+        delivered_at: new Date().toISOString(),
+      });
+
+    if (logError) {
+      console.error(`Failed to log delivery attempt for ${webhook.channel_name}:`, logError);
+      // Don't fail the delivery if logging fails
+    }
+  }
+
+  return {
+    webhook_id: webhook.id,
+    channel_name: webhook.channel_name,
+    status: deliveryStatus,
+    response_code: responseCode,
+    attempt_number: attemptsMade,
+    ...(errorMessage && { error: errorMessage }),
+  };
 }
 
 Deno.serve(async (req) => {
@@ -72,6 +208,7 @@ Deno.serve(async (req) => {
     // Check if request is from service role (internal trigger)
     const token = authHeader.replace('Bearer ', '');
     const isServiceRole = token === serviceRoleKey;
+    let userId: string | null = null;
     
     if (!isServiceRole) {
       // For non-service-role requests, validate JWT token
@@ -95,11 +232,131 @@ Deno.serve(async (req) => {
           }
         );
       }
+      userId = user.id;
     }
 
     // Parse request body
     const body: NotifySlackRequest = await req.json();
-    const { content_type, content_id, action } = body;
+    const { content_type, content_id, action, changes, title, webhook_id, test, job_alert, health_alert } = body;
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Alerts are sent with the service role by collect_scheduled_job_runs()
+    // (job_alert) and check-mcp-health (health_alert); users cannot post
+    // arbitrary alert text to a channel
+    if ((job_alert || health_alert) && !isServiceRole) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          status: 'failed',
+          delivery_time_ms: Date.now() - startTime,
+          error: 'Alerts can only be sent with the service role',
+        } as NotifySlackResponse),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Test messages and single-webhook resends are admin actions; triggers
+    // and the outbox worker call with the service role
+    if (userId && (test || webhook_id)) {
+      const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: userId, _role: 'admin' });
+
+      if (!isAdmin) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            status: 'failed',
+            delivery_time_ms: Date.now() - startTime,
+            error: 'Only admins can send test messages or resend notifications',
+          } as NotifySlackResponse),
+          {
+            status: 403,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+    }
+
+    // Test message or alert: deliver a fixed message to a single webhook,
+    // enabled or not
+    if (test || job_alert || health_alert) {
+      const kind = job_alert ? 'Job alert' : health_alert ? 'Health alert' : 'Test message';
+
+      if (!webhook_id) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            status: 'failed',
+            delivery_time_ms: Date.now() - startTime,
+            error: `Missing required parameter for ${kind.toLowerCase()}: webhook_id`,
+          } as NotifySlackResponse),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const { data: webhook, error: webhookError } = await supabase
+        .from('slack_webhooks')
+        .select('*')
+        .eq('id', webhook_id)
+        .single();
+
+      if (webhookError || !webhook) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            status: 'failed',
+            delivery_time_ms: Date.now() - startTime,
+            error: `Webhook not found: ${webhook_id}`,
+          } as NotifySlackResponse),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const webhookUrls = await decryptWebhookUrls(
+        supabase,
+        webhook.delivery_mode === 'webhook' ? [webhook.id] : []
+      );
+      const result = await deliverToWebhook(
+        supabase,
+        { ...webhook, webhook_url: webhookUrls.get(webhook.id) } as SlackWebhook,
+        job_alert
+          ? formatChannelJobAlert(webhook.provider, job_alert)
+          : health_alert
+            ? formatChannelMcpHealthAlert(webhook.provider, health_alert)
+            : formatChannelTestMessage(webhook.provider, webhook.channel_name),
+        null,
+        null
+      );
+
+      return new Response(
+        JSON.stringify({
+          success: result.status === 'success',
+          status: result.status,
+          delivery_time_ms: Date.now() - startTime,
+          message: result.status === 'success'
+            ? `${kind} sent to ${webhook.channel_name}`
+            : `${kind} to ${webhook.channel_name} failed`,
+          error: result.error,
+          results: [result],
+        } as NotifySlackResponse),
+        {
+          status: result.status === 'success' ? 200 : 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
 
     // Validate input parameters
     if (!content_type || !content_id || !action) {
@@ -118,14 +375,13 @@ Deno.serve(async (req) => {
     }
 
     // Validate content_type
-    const validContentTypes: ContentType[] = ['workflow', 'mcp_server', 'blog_post', 'ide_news'];
-    if (!validContentTypes.includes(content_type)) {
+    if (!VALID_CONTENT_TYPES.includes(content_type)) {
       return new Response(
         JSON.stringify({
           success: false,
           status: 'failed',
           delivery_time_ms: Date.now() - startTime,
-          error: `Invalid content_type. Must be one of: ${validContentTypes.join(', ')}`,
+          error: `Invalid content_type. Must be one of: ${VALID_CONTENT_TYPES.join(', ')}`,
         } as NotifySlackResponse),
         {
           status: 400,
@@ -134,22 +390,40 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    // Validate action
+    if (!VALID_ACTIONS.includes(action)) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          status: 'failed',
+          delivery_time_ms: Date.now() - startTime,
+          error: `Invalid action. Must be one of: ${VALID_ACTIONS.join(', ')}`,
+        } as NotifySlackResponse),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
 
-    // Lookup webhook configuration
-    const { data: webhook, error: webhookError } = await supabase
+    // Lookup every enabled webhook for this content type that opted into
+    // the action (fan-out), or only the requested webhook when resending
+    // a single delivery
+    const webhookQuery = supabase
       .from('slack_webhooks')
       .select('*')
-      .eq('content_type', content_type)
-      .eq('is_enabled', true)
-      .single();
+      .eq('content_type', content_type);
+
+    const { data: webhooks, error: webhookError } = webhook_id
+      ? await webhookQuery.eq('id', webhook_id)
+      : await webhookQuery.eq('is_enabled', true).contains('notify_actions', [action]);
 
-    if (webhookError || !webhook) {
+    if (webhookError || !webhooks || webhooks.length === 0) {
       // No webhook configured - skip sending
-      console.log(`No enabled webhook found for content_type: ${content_type}`);
+      if (webhookError) {
+        console.error('Failed to lookup webhooks:', webhookError);
+      }
+      console.log(`No enabled webhook found for content_type: ${content_type}, action: ${action}`);
       
       // Log skip event
       const { error: logError } = await supabase
@@ -158,6 +432,7 @@ Deno.serve(async (req) => {
           webhook_id: null,
           content_type: content_type,
           content_id: content_id,
+          action,
           status: 'skipped',
           response_code: null,
           error_message: null,
@@ -176,7 +451,7 @@ Deno.serve(async (req) => {
           success: true,
           status: 'skipped',
           delivery_time_ms: deliveryTimeMs,
-          message: `No webhook configured for ${content_type}`,
+          message: `No webhook configured for ${content_type} ${action} notifications`,
         } as NotifySlackResponse),
         {
           status: 200,
@@ -186,33 +461,18 @@ Deno.serve(async (req) => {
     }
 
     // Fetch content based on content_type
-    let content: any = null;
-    let tableName: string;
-    
-    switch (content_type) {
-      case 'workflow':
-        tableName = 'workflows';
-        break;
-      case 'mcp_server':
-        tableName = 'mcp_servers';
-        break;
-      case 'blog_post':
-        tableName = 'blog_posts';
-        break;
-      case 'ide_news':
-        tableName = 'ide_news';
-        break;
-      default:
-        throw new Error(`Unknown content_type: ${content_type}`);
-    }
+    const tableName = CONTENT_TABLES[content_type];
 
     const { data: contentData, error: contentError } = await supabase
       .from(tableName)
       .select('*')
       .eq('id', content_id)
-      .single();
+      .maybeSingle();
+
+    // Deleted content is usually gone already; its title comes from the request
+    const hasDeletedSnapshot = action === 'deleted' && !!title;
 
-    if (contentError || !contentData) {
+    if (contentError || (!contentData && !hasDeletedSnapshot)) {
       console.error(`Content not found: ${content_type} ${content_id}`, contentError);
       
       const deliveryTimeMs = Date.now() - startTime;
@@ -230,122 +490,55 @@ Deno.serve(async (req) => {
       );
     }
 
-    content = contentData;
-
-    // Format message based on content_type
-    let slackMessage: any;
-    
-    switch (content_type) {
-      case 'workflow':
-        slackMessage = formatWorkflowMessage(content);
-        break;
-      case 'mcp_server':
-        slackMessage = formatMcpServerMessage(content);
-        break;
-      case 'blog_post':
-        slackMessage = formatBlogPostMessage(content);
-        break;
-      case 'ide_news':
-        // For IDE news, we expect content to be an array or single item
-        // If single item, wrap in array for batching
-        const newsItems = Array.isArray(content) ? content : [content];
-        slackMessage = formatIdeNewsMessage(newsItems);
-        break;
-      default:
-        throw new Error(`Unknown content_type: ${content_type}`);
-    }
-
-    // Webhook delivery with retry logic (exponential backoff: 1s, 2s, 4s)
-    let deliveryStatus: DeliveryStatus = 'failed';
-    let responseCode: number | null = null;
-    let errorMessage: string | null = null;
-    let attemptNumber = 0;
-    const maxAttempts = 3;
-    const retryDelays = [1000, 2000, 4000]; // milliseconds
-
-    for (attemptNumber = 1; attemptNumber <= maxAttempts; attemptNumber++) {
-      try {
-        console.log(`Attempt ${attemptNumber} to send webhook to ${webhook.channel_name}`);
-        
-        const response = await fetch(webhook.webhook_url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(slackMessage),
-        });
-
-        responseCode = response.status;
-
-        if (response.ok) {
-          // Success!
-          deliveryStatus = 'success';
-          errorMessage = null;
-          console.log(`Webhook delivered successfully on attempt ${attemptNumber}`);
-          break;
-        } else {
-          // Failed but got a response
-          const responseText = await response.text();
-          errorMessage = `HTTP ${response.status}: ${responseText}`;
-          console.error(`Webhook delivery failed on attempt ${attemptNumber}:`, errorMessage);
-          
-          // If this isn't the last attempt, wait before retrying
-          if (attemptNumber < maxAttempts) {
-            const delay = retryDelays[attemptNumber - 1];
-            console.log(`Waiting ${delay}ms before retry...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-          }
-        }
-      } catch (error) {
-        // Network error or other exception
-        errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`Webhook delivery failed on attempt ${attemptNumber}:`, errorMessage);
-        
-        // If this isn't the last attempt, wait before retrying
-        if (attemptNumber < maxAttempts) {
-          const delay = retryDelays[attemptNumber - 1];
-          console.log(`Waiting ${delay}ms before retry...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
+    // Format message based on content_type and action, once per provider
+    const messages = new Map<NotificationProvider, ChannelMessage>();
+    const messageFor = (provider: NotificationProvider): ChannelMessage => {
+      if (!messages.has(provider)) {
+        messages.set(provider, formatChannelMessage(provider, content_type, action, contentData, { changes, title }));
       }
-    }
-
-    // Log delivery attempt to database
-    const payloadSize = JSON.stringify(slackMessage).length;
-    
-    const { error: logError } = await supabase
-      .from('slack_delivery_logs')
-      .insert({
-        webhook_id: webhook.id,
-        content_type: content_type,
-        content_id: content_id,
-        status: deliveryStatus,
-        response_code: responseCode,
-        error_message: errorMessage,
-        attempt_number: attemptNumber,
-        payload_size: payloadSize,
-        delivered_at: new Date().toISOString(),
-      });
+      return messages.get(provider)!;
+    };
 
-    if (logError) {
-      console.error('Failed to log delivery attempt:', logError);
-      // Don't fail the function if logging fails
-    }
+    // Deliver to every channel in parallel; each delivery logs its own row
+    // Bot-mode channels post with SLACK_BOT_TOKEN and have no URL to decrypt
+    const webhookUrls = await decryptWebhookUrls(
+      supabase,
+      webhooks.filter(w => w.delivery_mode === 'webhook').map(w => w.id)
+    );
+    const results = await Promise.all(
+      (webhooks as SlackWebhook[]).map((webhook) =>
+        deliverToWebhook(
+          supabase,
+          { ...webhook, webhook_url: webhookUrls.get(webhook.id) },
+          messageFor(webhook.provider),
+          content_type,
+          content_id,
+          action
+        )
+      )
+    );
 
+    const successCount = results.filter(r => r.status === 'success').length;
+    const allDelivered = successCount === results.length;
     const deliveryTimeMs = Date.now() - startTime;
 
     return new Response(
       JSON.stringify({
-        success: deliveryStatus === 'success',
-        status: deliveryStatus,
+        success: allDelivered,
+        status: allDelivered ? 'success' : 'failed',
         delivery_time_ms: deliveryTimeMs,
-        message: deliveryStatus === 'success' 
-          ? 'Notification sent successfully' 
-          : `Failed after ${attemptNumber} attempts`,
-        error: errorMessage,
+        message: `Notification delivered to ${successCount} of ${results.length} channels`,
+        error: allDelivered
+          ? undefined
+          : results
+              .filter(r => r.status !== 'success')
+              .map(r => `${r.channel_name}: ${r.error}`)
+              .join('; '),
+        results,
       } as NotifySlackResponse),
       {
-        status: deliveryStatus === 'success' ? 200 : 500,
+        // Partial delivery still returns 200 so callers don't re-send to healthy channels
+        status: successCount > 0 ? 200 : 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       }
     );
@@ -0,0 +1,76 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { type OnboardingSummary, processOnboarding } from '../_shared/onboarding.ts';
+
+// CORS headers for preflight requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface WorkerResponse extends OnboardingSummary {
+  success: boolean;
+  error?: string;
+}
+
+const EMPTY_SUMMARY: OnboardingSummary = { claimed: 0, sent: 0, retried: 0, failed: 0, skipped: 0 };
+
+/**
+ * Onboarding Worker Edge Function
+ *
+ * Invoked by pg_cron every 15 minutes. Sends the onboarding steps scheduled
+ * by welcome-bot whose delay has elapsed (day 1, day 7, ...).
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Only the cron job (service role) may send scheduled steps
+  const token = req.headers.get('authorization')?.replace('Bearer ', '');
+  if (!token || token !== supabaseServiceKey) {
+    return new Response(
+      JSON.stringify({ success: false, ...EMPTY_SUMMARY, error: 'Unauthorized' } as WorkerResponse),
+      {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  try {
+    const slackBotToken = Deno.env.get('SLACK_BOT_TOKEN');
+    if (!slackBotToken) {
+      throw new Error('SLACK_BOT_TOKEN is not configured');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const summary = await processOnboarding(supabase, slackBotToken);
+
+    if (summary.claimed > 0) {
+      console.log('Onboarding batch processed:', summary);
+    }
+
+    return new Response(JSON.stringify({ success: true, ...summary } as WorkerResponse), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in onboarding-worker function:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        ...EMPTY_SUMMARY,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      } as WorkerResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
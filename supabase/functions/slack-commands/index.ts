@@ -0,0 +1,164 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import type { SlackMessage } from '../_shared/slack-types.ts';
+import {
+  formatCommandHelpMessage,
+  formatIdeNewsMessage,
+  formatMcpServerMessage,
+  formatSearchResultsMessage,
+  formatWorkflowMessage,
+  withFeedbackBlock,
+} from '../_shared/slack-formatters.ts';
+import { searchCatalog } from '../_shared/catalog-search.ts';
+import { parseVibeflowCommand, sanitizeSearchTerm } from '../_shared/slack-commands.ts';
+import { verifySlackSignature } from '../_shared/slack-signature.ts';
+
+/**
+ * /vibeflow slash command
+ *
+ * Subcommands:
+ * - search <termo>: workflows, MCP servers, blog posts and IDE news
+ * - mcp <slug> / workflow <slug>: a single published item
+ * - news: the latest IDE news
+ *
+ * Replies are ephemeral (only visible to the member who typed the command)
+ * and returned in the HTTP response, so Slack's 3-second limit applies.
+ */
+
+/** Number of IDE news items listed by `/vibeflow news` */
+const NEWS_LIMIT = 5;
+
+function ephemeral(message: SlackMessage): Response {
+  return new Response(
+    JSON.stringify({ response_type: 'ephemeral', ...message }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+function notFound(text: string): Response {
+  return ephemeral({
+    blocks: [{ type: 'section', text: { type: 'mrkdwn', text } }],
+    text,
+  });
+}
+
+/**
+ * Publication messages start with a "Novo ... Publicado" header, which does
+ * not apply to a lookup
+ */
+function withoutHeader(message: SlackMessage): SlackMessage {
+  return { ...message, blocks: message.blocks.filter(block => block.type !== 'header') };
+}
+
+Deno.serve(async (req) => {
+  try {
+    const slackSigningSecret = Deno.env.get('SLACK_SIGNING_SECRET');
+    if (!slackSigningSecret) {
+      console.error('Missing Slack credentials');
+      return new Response(
+        JSON.stringify({ error: 'Server configuration error' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body = await req.text();
+    const timestamp = req.headers.get('x-slack-request-timestamp') || '';
+    const signature = req.headers.get('x-slack-signature') || '';
+
+    if (!verifySlackSignature(body, timestamp, signature, slackSigningSecret)) {
+      console.error('❌ Slack signature verification failed');
+      return new Response(
+        JSON.stringify({ error: 'Invalid signature' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Slash command payloads are form-encoded
+    const params = new URLSearchParams(body);
+
+    // Slack periodically checks the SSL certificate of the endpoint
+    if (params.get('ssl_check') === '1') {
+      return new Response(null, { status: 200 });
+    }
+
+    const command = parseVibeflowCommand(params.get('text') ?? '');
+    console.log(`💬 ${params.get('user_id')} ran ${params.get('command')} ${command.subcommand} ${command.argument}`);
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    switch (command.subcommand) {
+      case 'search': {
+        const term = sanitizeSearchTerm(command.argument);
+        if (!term) {
+          return ephemeral(formatCommandHelpMessage());
+        }
+        const results = await searchCatalog(supabase, term);
+        return ephemeral(formatSearchResultsMessage(term, results));
+      }
+
+      case 'mcp': {
+        const { data, error } = await supabase
+          .from('mcp_servers')
+          .select('*')
+          .eq('slug', command.argument)
+          .eq('is_published', true)
+          .maybeSingle();
+
+        if (error) {
+          throw new Error(`Failed to fetch MCP server: ${error.message}`);
+        }
+        if (!data) {
+          return notFound(`Nenhum MCP server encontrado com o slug \`${command.argument}\`. Tente \`/vibeflow search ${command.argument}\`.`);
+        }
+        return ephemeral(withFeedbackBlock(withoutHeader(formatMcpServerMessage(data)), 'mcp_server', data.id));
+      }
+
+      case 'workflow': {
+        const { data, error } = await supabase
+          .from('workflows')
+          .select('*')
+          .eq('slug', command.argument)
+          .eq('is_published', true)
+          .maybeSingle();
+
+        if (error) {
+          throw new Error(`Failed to fetch workflow: ${error.message}`);
+        }
+        if (!data) {
+          return notFound(`Nenhum workflow encontrado com o slug \`${command.argument}\`. Tente \`/vibeflow search ${command.argument}\`.`);
+        }
+        return ephemeral(withFeedbackBlock(withoutHeader(formatWorkflowMessage(data)), 'workflow', data.id));
+      }
+
+      case 'news': {
+        const { data, error } = await supabase
+          .from('ide_news')
+          .select('*')
+          .order('created_at', { ascending: false })
+          .limit(NEWS_LIMIT);
+
+        if (error) {
+          throw new Error(`Failed to fetch IDE news: ${error.message}`);
+        }
+        if (!data || data.length === 0) {
+          return notFound('Nenhuma novidade de IDE por enquanto.');
+        }
+        return ephemeral(formatIdeNewsMessage(data));
+      }
+
+      default:
+        return ephemeral(formatCommandHelpMessage());
+    }
+  } catch (error: any) {
+    console.error('❌ Error in slack-commands:', error);
+    // Slack shows the body of a 200 response to the member; other statuses
+    // only show a generic failure
+    return ephemeral({
+      blocks: [{ type: 'section', text: { type: 'mrkdwn', text: '⚠️ Não foi possível executar o comando. Tente novamente em instantes.' } }],
+      text: 'Não foi possível executar o comando.',
+    });
+  }
+});
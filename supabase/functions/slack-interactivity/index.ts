@@ -0,0 +1,222 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import type { FeedbackAction, FeedbackCounts, SlackBlock } from '../_shared/slack-types.ts';
+import { parseFeedbackValue, withFeedbackBlock } from '../_shared/slack-formatters.ts';
+import { verifySlackSignature } from '../_shared/slack-signature.ts';
+
+/**
+ * Slack interactivity endpoint
+ *
+ * Receives the block_actions payloads sent when a member clicks a button in
+ * a notification. Feedback buttons ("👍 Útil", "Salvar para depois" and
+ * "Reportar problema") are recorded in slack_content_feedback and the
+ * message is refreshed with the live counts through the payload's
+ * response_url. URL buttons also send a payload and are only acknowledged.
+ */
+
+const FEEDBACK_ACTIONS: FeedbackAction[] = ['useful', 'save', 'report'];
+
+/**
+ * Subset of the block_actions payload used by this function
+ * @see https://api.slack.com/reference/interaction-payloads/block-actions
+ */
+interface BlockActionsPayload {
+  type: 'block_actions';
+  user: {
+    id: string;
+    username?: string;
+    name?: string;
+  };
+  team: {
+    id: string;
+  } | null;
+  actions: {
+    action_id: string;
+    block_id?: string;
+    value?: string;
+  }[];
+  message?: {
+    text?: string;
+    blocks: SlackBlock[];
+  };
+  response_url?: string;
+}
+
+/**
+ * Records a click. Useful and save toggle, so a second click removes the
+ * member's feedback; a report is kept after the first click.
+ */
+async function recordFeedback(
+  supabase: SupabaseClient,
+  row: {
+    content_type: string;
+    content_id: string;
+    action: FeedbackAction;
+    slack_user_id: string;
+    slack_user_name: string | null;
+    slack_team_id: string | null;
+  }
+): Promise<void> {
+  if (row.action !== 'report') {
+    const { data: removed, error: deleteError } = await supabase
+      .from('slack_content_feedback')
+      .delete()
+      .eq('content_type', row.content_type)
+      .eq('content_id', row.content_id)
+      .eq('action', row.action)
+      .eq('slack_user_id', row.slack_user_id)
+      .select('id');
+
+    if (deleteError) {
+      throw new Error(`Failed to update feedback: ${deleteError.message}`);
+    }
+    if (removed && removed.length > 0) {
+      return;
+    }
+  }
+
+  const { error } = await supabase
+    .from('slack_content_feedback')
+    .upsert(row, {
+      onConflict: 'content_type,content_id,action,slack_user_id',
+      ignoreDuplicates: true,
+    });
+
+  if (error) {
+    throw new Error(`Failed to record feedback: ${error.message}`);
+  }
+}
+
+/**
+ * Counts the feedback recorded for a content item
+ */
+async function getFeedbackCounts(
+  supabase: SupabaseClient,
+  contentType: string,
+  contentId: string
+): Promise<FeedbackCounts> {
+  const { data, error } = await supabase
+    .from('slack_content_feedback')
+    .select('action')
+    .eq('content_type', contentType)
+    .eq('content_id', contentId);
+
+  if (error) {
+    throw new Error(`Failed to count feedback: ${error.message}`);
+  }
+
+  const counts: FeedbackCounts = { useful: 0, save: 0, report: 0 };
+  for (const row of data ?? []) {
+    counts[row.action as FeedbackAction]++;
+  }
+  return counts;
+}
+
+/**
+ * Posts to the interaction's response_url (valid for 5 uses in 30 minutes)
+ */
+async function respond(responseUrl: string, body: Record<string, unknown>): Promise<void> {
+  const response = await fetch(responseUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    console.error(`response_url returned HTTP ${response.status}: ${await response.text()}`);
+  }
+}
+
+Deno.serve(async (req) => {
+  try {
+    const slackSigningSecret = Deno.env.get('SLACK_SIGNING_SECRET');
+    if (!slackSigningSecret) {
+      console.error('Missing Slack credentials');
+      return new Response(
+        JSON.stringify({ error: 'Server configuration error' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body = await req.text();
+    const timestamp = req.headers.get('x-slack-request-timestamp') || '';
+    const signature = req.headers.get('x-slack-signature') || '';
+
+    if (!verifySlackSignature(body, timestamp, signature, slackSigningSecret)) {
+      console.error('❌ Slack signature verification failed');
+      return new Response(
+        JSON.stringify({ error: 'Invalid signature' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Interaction payloads are form-encoded with a JSON `payload` field
+    const rawPayload = new URLSearchParams(body).get('payload');
+    if (!rawPayload) {
+      return new Response(
+        JSON.stringify({ error: 'Missing payload' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const payload = JSON.parse(rawPayload);
+    if (payload.type !== 'block_actions') {
+      console.log('Received unsupported interaction type:', payload.type);
+      return new Response(null, { status: 200 });
+    }
+
+    const interaction = payload as BlockActionsPayload;
+    const action = interaction.actions.find(a => a.action_id.startsWith('feedback_'));
+    const feedbackAction = action?.action_id.slice('feedback_'.length) as FeedbackAction | undefined;
+    const target = action?.value ? parseFeedbackValue(action.value) : null;
+
+    if (!feedbackAction || !FEEDBACK_ACTIONS.includes(feedbackAction) || !target) {
+      // URL buttons and unknown actions only need an acknowledgement
+      return new Response(null, { status: 200 });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    console.log(`👆 ${interaction.user.id} clicked ${feedbackAction} on ${target.contentType} ${target.contentId}`);
+
+    await recordFeedback(supabase, {
+      content_type: target.contentType,
+      content_id: target.contentId,
+      action: feedbackAction,
+      slack_user_id: interaction.user.id,
+      slack_user_name: interaction.user.name ?? interaction.user.username ?? null,
+      slack_team_id: interaction.team?.id ?? null,
+    });
+
+    const counts = await getFeedbackCounts(supabase, target.contentType, target.contentId);
+
+    if (interaction.response_url && interaction.message) {
+      const updated = withFeedbackBlock(
+        { blocks: interaction.message.blocks, text: interaction.message.text },
+        target.contentType,
+        target.contentId,
+        counts
+      );
+      await respond(interaction.response_url, { replace_original: true, ...updated });
+
+      if (feedbackAction === 'report') {
+        await respond(interaction.response_url, {
+          response_type: 'ephemeral',
+          replace_original: false,
+          text: '🚩 Obrigado! Nossa equipe vai revisar este conteúdo.',
+        });
+      }
+    }
+
+    return new Response(null, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error in slack-interactivity:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
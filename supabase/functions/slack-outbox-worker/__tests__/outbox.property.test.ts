@@ -0,0 +1,148 @@
+/**
+ * Property-Based Tests for slack-outbox-worker Edge Function
+ *
+ * Feature: slack-community-integration
+ * Property: Durable delivery with backoff and dead-lettering
+ *
+ * For any claimed outbox row, a successful delivery should mark it delivered;
+ * a failed delivery should reschedule it with exponential backoff (capped at
+ * 2 hours) until max_attempts is exhausted, at which point it should move to
+ * dead_letter. Every attempt is recorded in slack_delivery_logs.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import fc from 'fast-check';
+
+// Type definitions matching the Edge Function
+type OutboxStatus = 'pending' | 'processing' | 'delivered' | 'dead_letter';
+type LogStatus = 'success' | 'failed' | 'dead_letter';
+
+interface OutboxRow {
+  id: string;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: number;
+}
+
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts
+ * This is a copy of the implementation for testing purposes
+ */
+function computeBackoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+/**
+ * Simulates claim_slack_outbox followed by processRow for a single row
+ */
+function simulateAttempt(
+  row: OutboxRow,
+  delivered: boolean,
+  now: number
+): { row: OutboxRow; logStatus: LogStatus; logAttempt: number } {
+  // claim_slack_outbox increments attempts
+  const attempts = row.attempts + 1;
+
+  let status: OutboxStatus;
+  if (delivered) {
+    status = 'delivered';
+  } else if (attempts >= row.max_attempts) {
+    status = 'dead_letter';
+  } else {
+    status = 'pending';
+  }
+
+  return {
+    row: {
+      ...row,
+      status,
+      attempts,
+      next_attempt_at: status === 'pending' ? now + computeBackoffMs(attempts) : now,
+    },
+    logStatus: delivered ? 'success' : status === 'dead_letter' ? 'dead_letter' : 'failed',
+    logAttempt: attempts,
+  };
+}
+
+describe('Property: Durable delivery with backoff and dead-lettering', () => {
+  it('should grow the backoff exponentially up to the 2 hour cap', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 50 }), (attempts) => {
+        const delay = computeBackoffMs(attempts);
+        const next = computeBackoffMs(attempts + 1);
+
+        expect(delay).toBeGreaterThanOrEqual(BASE_BACKOFF_MS);
+        expect(delay).toBeLessThanOrEqual(MAX_BACKOFF_MS);
+        expect(next).toBeGreaterThanOrEqual(delay);
+        if (delay < MAX_BACKOFF_MS / 2) {
+          expect(next).toBe(delay * 2);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should spread the default 10 attempts over several hours', () => {
+    const totalMs = Array.from({ length: 9 }, (_, i) => computeBackoffMs(i + 1))
+      .reduce((sum, delay) => sum + delay, 0);
+
+    expect(totalMs).toBeGreaterThan(4 * 60 * 60 * 1000);
+  });
+
+  it('should mark a row delivered on success regardless of prior failures', () => {
+    fc.assert(
+      fc.property(
+        fc.uuid(),
+        fc.integer({ min: 1, max: 20 }),
+        fc.nat(),
+        (id, maxAttempts, priorSeed) => {
+          const prior = priorSeed % maxAttempts;
+          const result = simulateAttempt(
+            { id, status: 'processing', attempts: prior, max_attempts: maxAttempts, next_attempt_at: 0 },
+            true,
+            1000
+          );
+
+          expect(result.row.status).toBe('delivered');
+          expect(result.logStatus).toBe('success');
+          expect(result.logAttempt).toBe(prior + 1);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should retry failures until max_attempts and then dead-letter', () => {
+    fc.assert(
+      fc.property(fc.uuid(), fc.integer({ min: 1, max: 20 }), (id, maxAttempts) => {
+        let row: OutboxRow = { id, status: 'pending', attempts: 0, max_attempts: maxAttempts, next_attempt_at: 0 };
+        const logStatuses: LogStatus[] = [];
+        let now = 0;
+
+        while (row.status === 'pending') {
+          const result = simulateAttempt(row, false, now);
+          logStatuses.push(result.logStatus);
+
+          if (result.row.status === 'pending') {
+            expect(result.row.next_attempt_at).toBe(now + computeBackoffMs(result.row.attempts));
+          }
+
+          row = result.row;
+          now = row.next_attempt_at;
+        }
+
+        expect(row.status).toBe('dead_letter');
+        expect(row.attempts).toBe(maxAttempts);
+        // One log row per attempt, only the last one is dead_letter
+        expect(logStatuses).toHaveLength(maxAttempts);
+        expect(logStatuses[logStatuses.length - 1]).toBe('dead_letter');
+        expect(logStatuses.slice(0, -1).every(s => s === 'failed')).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
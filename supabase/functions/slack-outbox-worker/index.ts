@@ -0,0 +1,272 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import {
+  type ContentType,
+  type NotificationAction,
+  type NotificationPayload,
+  CONTENT_TABLES,
+} from '../_shared/slack-content.ts';
+import { decryptWebhookUrls } from '../_shared/slack-webhooks.ts';
+import { formatChannelMessage, sendNotification } from '../_shared/notification-delivery.ts';
+
+// CORS headers for preflight requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Rows claimed per invocation (the cron runs every minute)
+const BATCH_SIZE = 20;
+// Timeout for a single Slack request
+const REQUEST_TIMEOUT_MS = 10000;
+// Backoff: 1min, 2min, 4min, ... capped at 2h (10 attempts span ~6h)
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 2 * 60 * 60 * 1000;
+
+// Type definitions
+type OutboxStatus = 'pending' | 'processing' | 'delivered' | 'dead_letter';
+
+interface OutboxRow {
+  id: string;
+  webhook_id: string;
+  content_type: ContentType;
+  content_id: string;
+  action: NotificationAction;
+  payload: NotificationPayload;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+}
+
+interface WorkerResponse {
+  success: boolean;
+  claimed: number;
+  delivered: number;
+  retried: number;
+  dead_lettered: number;
+  error?: string;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts
+ */
+function computeBackoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+/**
+ * Processes a single claimed outbox row: one delivery attempt, then either
+ * marks it delivered, reschedules it, or moves it to the dead-letter state.
+ */
+async function processRow(
+  supabase: ReturnType<typeof createClient>,
+  row: OutboxRow,
+  webhookUrls: Map<string, string>
+): Promise<OutboxStatus> {
+  let responseCode: number | null = null;
+  let errorMessage: string | null = null;
+  let payloadSize = 0;
+  let delivered = false;
+
+  try {
+    const { data: webhook, error: webhookError } = await supabase
+      .from('slack_webhooks')
+      .select('*')
+      .eq('id', row.webhook_id)
+      .single();
+
+    if (webhookError || !webhook) {
+      throw new Error(`Webhook not found: ${row.webhook_id}`);
+    }
+
+    if (!webhook.is_enabled) {
+      throw new Error(`Webhook disabled: ${webhook.channel_name}`);
+    }
+
+    const { data: content, error: contentError } = await supabase
+      .from(CONTENT_TABLES[row.content_type])
+      .select('*')
+      .eq('id', row.content_id)
+      .maybeSingle();
+
+    // Deleted rows are gone; their message is built from the payload snapshot
+    if (contentError || (!content && row.action !== 'deleted')) {
+      throw new Error(`Content not found: ${row.content_type} ${row.content_id}`);
+    }
+
+    const message = formatChannelMessage(webhook.provider, row.content_type, row.action, content, row.payload);
+    payloadSize = JSON.stringify(message).length;
+
+    const result = await sendNotification(
+      supabase,
+      { ...webhook, webhook_url: webhookUrls.get(row.webhook_id) },
+      message,
+      { content_type: row.content_type, content_id: row.content_id, action: row.action },
+      AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    );
+
+    responseCode = result.response_code;
+
+    if (result.ok) {
+      delivered = true;
+    } else {
+      errorMessage = result.error;
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  let nextStatus: OutboxStatus;
+  const now = new Date();
+
+  if (delivered) {
+    nextStatus = 'delivered';
+  } else if (row.attempts >= row.max_attempts) {
+    nextStatus = 'dead_letter';
+  } else {
+    nextStatus = 'pending';
+  }
+
+  const { error: updateError } = await supabase
+    .from('slack_outbox')
+    .update({
+      status: nextStatus,
+      locked_at: null,
+      last_error: errorMessage,
+      last_response_code: responseCode,
+      delivered_at: delivered ? now.toISOString() : null,
+      next_attempt_at: nextStatus === 'pending'
+        ? new Date(now.getTime() + computeBackoffMs(row.attempts)).toISOString()
+        : now.toISOString(),
+    })
+    .eq('id', row.id);
+
+  if (updateError) {
+    console.error(`Failed to update outbox row ${row.id}:`, updateError);
+  }
+
+  const { error: logError } = await supabase
+    .from('slack_delivery_logs')
+    .insert({
+      webhook_id: row.webhook_id,
+      outbox_id: row.id,
+      content_type: row.content_type,
+      content_id: row.content_id,
+      action: row.action,
+      status: delivered ? 'success' : nextStatus === 'dead_letter' ? 'dead_letter' : 'failed',
+      response_code: responseCode,
+      error_message: errorMessage,
+      attempt_number: row.attempts,
+      payload_size: payloadSize,
+      delivered_at: now.toISOString(),
+    });
+
+  if (logError) {
+    console.error(`Failed to log delivery attempt for outbox row ${row.id}:`, logError);
+  }
+
+  if (nextStatus === 'dead_letter') {
+    console.error(`Outbox row ${row.id} moved to dead letter after ${row.attempts} attempts:`, errorMessage);
+  } else if (nextStatus === 'pending') {
+    console.warn(`Outbox row ${row.id} failed attempt ${row.attempts}, retrying later:`, errorMessage);
+  }
+
+  return nextStatus;
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Only the cron job (service role) may drain the outbox
+  const token = req.headers.get('authorization')?.replace('Bearer ', '');
+  if (!token || token !== supabaseServiceKey) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        claimed: 0,
+        delivered: 0,
+        retried: 0,
+        dead_lettered: 0,
+        error: 'Unauthorized',
+      } as WorkerResponse),
+      {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: rows, error: claimError } = await supabase
+      .rpc('claim_slack_outbox', { p_batch_size: BATCH_SIZE });
+
+    if (claimError) {
+      throw new Error(`Failed to claim outbox rows: ${claimError.message}`);
+    }
+
+    const claimed = (rows ?? []) as OutboxRow[];
+
+    // Bot-mode channels post with SLACK_BOT_TOKEN and have no URL to decrypt
+    const { data: urlWebhooks, error: modeError } = claimed.length > 0
+      ? await supabase
+          .from('slack_webhooks')
+          .select('id')
+          .in('id', [...new Set(claimed.map((row) => row.webhook_id))])
+          .eq('delivery_mode', 'webhook')
+      : { data: [], error: null };
+
+    if (modeError) {
+      throw new Error(`Failed to lookup webhook delivery modes: ${modeError.message}`);
+    }
+
+    const webhookUrls = await decryptWebhookUrls(
+      supabase,
+      (urlWebhooks ?? []).map((w: { id: string }) => w.id)
+    );
+    const outcomes = await Promise.all(
+      claimed.map((row) => processRow(supabase, row, webhookUrls))
+    );
+
+    const summary: WorkerResponse = {
+      success: true,
+      claimed: claimed.length,
+      delivered: outcomes.filter(s => s === 'delivered').length,
+      retried: outcomes.filter(s => s === 'pending').length,
+      dead_lettered: outcomes.filter(s => s === 'dead_letter').length,
+    };
+
+    if (summary.claimed > 0) {
+      console.log('Slack outbox batch processed:', summary);
+    }
+
+    return new Response(JSON.stringify(summary), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in slack-outbox-worker function:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        claimed: 0,
+        delivered: 0,
+        retried: 0,
+        dead_lettered: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      } as WorkerResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
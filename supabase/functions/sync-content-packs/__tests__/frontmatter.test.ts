@@ -0,0 +1,114 @@
+/**
+ * Unit Tests for the content pack front matter parser
+ *
+ * Only the YAML subset used by the packs is accepted; anything else must
+ * fail with the line number instead of being read wrong.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ErroFrontMatter, lerFrontMatter } from '../frontmatter.ts';
+
+describe('lerFrontMatter', () => {
+  it('reads scalars, inline lists and the markdown body', () => {
+    const { dados, corpo } = lerFrontMatter([
+      '---',
+      '# Comentário',
+      'title: Configurar Tailwind CSS',
+      'npm_package: "@modelcontextprotocol/server-time"',
+      "author_name: 'D''Ávila'",
+      'published: false',
+      'stars: 42',
+      'image_url:',
+      'tags: [react, "css, tailwind", 3]',
+      'empty: []',
+      '---',
+      '',
+      '## Objetivo',
+      '',
+      'Texto.',
+    ].join('\n'));
+
+    expect(dados).toEqual({
+      title: 'Configurar Tailwind CSS',
+      npm_package: '@modelcontextprotocol/server-time',
+      author_name: "D'Ávila",
+      published: false,
+      stars: 42,
+      image_url: null,
+      tags: ['react', 'css, tailwind', 3],
+      empty: [],
+    });
+    expect(corpo).toBe('## Objetivo\n\nTexto.');
+  });
+
+  it('reads block lists of values and of objects', () => {
+    const { dados } = lerFrontMatter([
+      '---',
+      'launch_args:',
+      '  - -y',
+      '  - "@upstash/context7-mcp"',
+      'env_vars:',
+      '  - name: API_KEY',
+      '    secret: true',
+      '',
+      '  - name: BASE_URL',
+      '    example: http://localhost:8080',
+      'category: web',
+      '---',
+    ].join('\n'));
+
+    expect(dados).toEqual({
+      launch_args: ['-y', '@upstash/context7-mcp'],
+      env_vars: [
+        { name: 'API_KEY', secret: true },
+        { name: 'BASE_URL', example: 'http://localhost:8080' },
+      ],
+      category: 'web',
+    });
+  });
+
+  it('reads folded and literal block scalars', () => {
+    const { dados } = lerFrontMatter([
+      '---',
+      'description: >',
+      '  Primeira linha',
+      '  continua aqui.',
+      '',
+      '  Segundo parágrafo.',
+      'notes: |',
+      '  linha 1',
+      '  linha 2',
+      '---',
+    ].join('\n'));
+
+    expect(dados.description).toBe('Primeira linha continua aqui.\nSegundo parágrafo.');
+    expect(dados.notes).toBe('linha 1\nlinha 2');
+  });
+
+  it('accepts Windows line endings', () => {
+    expect(lerFrontMatter('---\r\ntitle: Teste\r\n---\r\nCorpo\r\n')).toEqual({ dados: { title: 'Teste' }, corpo: 'Corpo' });
+  });
+
+  it('rejects files without a closed front matter block', () => {
+    expect(() => lerFrontMatter('title: Teste')).toThrow('deve começar com um bloco de front matter');
+    expect(() => lerFrontMatter('---\ntitle: Teste\n')).toThrow('sem o --- de fechamento');
+  });
+
+  it('reports unsupported constructions with the line number', () => {
+    const erro = (texto: string) => {
+      try {
+        lerFrontMatter(texto);
+      } catch (error) {
+        return error as ErroFrontMatter;
+      }
+      throw new Error('expected an error');
+    };
+
+    expect(erro('---\ntitle: Teste\nlinks: {a: 1}\n---').message).toBe('Linha 3: construção YAML não suportada: {a: 1}');
+    expect(erro('---\ntitle: Teste\n  slug: teste\n---').linha).toBe(3);
+    expect(erro('---\ntitle: "Teste\n---').message).toMatch(/^Linha 2: aspas não fechadas/);
+    expect(erro('---\ntitle: A\ntitle: B\n---').message).toBe('Linha 3: chave "title" repetida');
+    expect(erro('---\ntags: [a, [b]]\n---').message).toBe('Linha 2: listas aninhadas não são suportadas');
+    expect(erro('---\napenas texto\n---').message).toBe('Linha 2: esperado "chave: valor", encontrado "apenas texto"');
+  });
+});
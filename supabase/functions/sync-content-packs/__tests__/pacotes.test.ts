@@ -0,0 +1,234 @@
+/**
+ * Unit Tests for the content pack importer
+ *
+ * The database is an in-memory BancoPacotes; the last describe block reads
+ * the real files in ../packs so a broken pack fails CI instead of the sync.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  NOMES_PACOTES,
+  calcularHash,
+  lerItem,
+  sincronizarPacote,
+  type ArquivoPacote,
+  type BancoPacotes,
+  type Linha,
+  type LinhaExistente,
+  type Tabela,
+} from '../pacotes.ts';
+
+const WORKFLOW: ArquivoPacote = {
+  nome: 'setup-vitest.md',
+  texto: [
+    '---',
+    'title: Configurar Vitest',
+    'description: Testes unitários em projetos Vite',
+    '---',
+    '',
+    '## Passo 1',
+    '',
+    '```',
+    'npm install -D vitest',
+    '```',
+  ].join('\n'),
+};
+
+const criarBanco = (existentes: Array<LinhaExistente & { tabela: Tabela }> = []) => {
+  const inseridas: Array<{ tabela: Tabela; linha: Linha }> = [];
+  const atualizadas: Array<{ tabela: Tabela; id: string; linha: Linha }> = [];
+  const banco: BancoPacotes = {
+    async buscar(tabela, slugs) {
+      return existentes
+        .filter(linha => linha.tabela === tabela && slugs.includes(linha.slug))
+        .map(({ id, slug, content_hash }) => ({ id, slug, content_hash }));
+    },
+    async inserir(tabela, linha) {
+      inseridas.push({ tabela, linha });
+    },
+    async atualizar(tabela, id, linha) {
+      atualizadas.push({ tabela, id, linha });
+    },
+  };
+  return { banco, inseridas, atualizadas };
+};
+
+describe('lerItem', () => {
+  it('maps a workflow file to its columns, with the slug from the file name', async () => {
+    const item = await lerItem('workflows', WORKFLOW);
+
+    expect(item.slug).toBe('setup-vitest');
+    expect(item.publicado).toBe(true);
+    expect(item.linha).toEqual({
+      title: 'Configurar Vitest',
+      description: 'Testes unitários em projetos Vite',
+      content: '<h2>Passo 1</h2>\n<pre><code>npm install -D vitest</code></pre>',
+      image_url: null,
+      author_name: 'Vibe Flow',
+    });
+    expect(item.hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('maps MCP servers with launch config and env vars', async () => {
+    const item = await lerItem('mcp-servers', {
+      nome: 'context7.md',
+      texto: [
+        '---',
+        'title: Context7',
+        'slug: context7-mcp-server',
+        'npm_package: "@upstash/context7-mcp"',
+        'launch_command: npx',
+        'launch_args: ["-y", "@upstash/context7-mcp"]',
+        'env_vars:',
+        '  - name: CONTEXT7_API_KEY',
+        '    description: Chave da API',
+        '    required: false',
+        '    secret: true',
+        '---',
+        'Documentação atualizada para LLMs.',
+      ].join('\n'),
+    });
+
+    expect(item.slug).toBe('context7-mcp-server');
+    expect(item.linha).toMatchObject({
+      transport: 'stdio',
+      launch_command: 'npx',
+      launch_args: ['-y', '@upstash/context7-mcp'],
+      server_url: null,
+      tags: [],
+      env_vars: [{ name: 'CONTEXT7_API_KEY', description: 'Chave da API', required: false, secret: true }],
+    });
+  });
+
+  it('uses the body of a site as its description', async () => {
+    const item = await lerItem('sites', {
+      nome: 'regex101.md',
+      texto: '---\ntitle: Regex101\nurl: https://regex101.com\ntags: [regex]\n---\n\nTeste expressões\nregulares online\n',
+    });
+
+    expect(item.linha.description).toBe('Teste expressões regulares online');
+    expect(item.linha.url).toBe('https://regex101.com');
+  });
+
+  it('rejects invalid items', async () => {
+    await expect(lerItem('workflows', { nome: 'Sem Titulo.md', texto: '---\ntitle: X\n---\nCorpo' }))
+      .rejects.toThrow('slug inválido "Sem Titulo"');
+    await expect(lerItem('workflows', { nome: 'vazio.md', texto: '---\ntitle: X\n---\n' }))
+      .rejects.toThrow('o corpo em markdown está vazio');
+    await expect(lerItem('sites', { nome: 'site.md', texto: '---\ntitle: X\nurl: javascript:alert(1)\n---\n' }))
+      .rejects.toThrow('"url" deve ser uma URL http(s)');
+    await expect(lerItem('mcp-servers', { nome: 'remoto.md', texto: '---\ntitle: X\ntransport: sse\n---\nCorpo' }))
+      .rejects.toThrow('campo obrigatório "server_url" ausente');
+  });
+});
+
+describe('calcularHash', () => {
+  it('does not depend on key order', async () => {
+    expect(await calcularHash({ title: 'A', tags: ['x'] })).toBe(await calcularHash({ tags: ['x'], title: 'A' }));
+    expect(await calcularHash({ title: 'A' })).not.toBe(await calcularHash({ title: 'B' }));
+  });
+});
+
+describe('sincronizarPacote', () => {
+  it('creates new slugs as published rows with the hash and author', async () => {
+    const { banco, inseridas } = criarBanco();
+    const resultado = await sincronizarPacote('workflows', [WORKFLOW], banco, { autorId: 'admin-1' });
+
+    expect(resultado).toMatchObject({ pack: 'workflows', table: 'workflows', created: 1, updated: 0, unchanged: 0, failed: 0 });
+    expect(resultado.items).toEqual([{ file: 'setup-vitest.md', slug: 'setup-vitest', action: 'created' }]);
+    expect(inseridas[0].linha).toMatchObject({
+      slug: 'setup-vitest',
+      title: 'Configurar Vitest',
+      is_published: true,
+      author_id: 'admin-1',
+    });
+    expect(inseridas[0].linha.content_hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('updates rows whose hash changed and leaves the others alone', async () => {
+    const { hash } = await lerItem('workflows', WORKFLOW);
+    const outro: ArquivoPacote = { nome: 'dark-mode.md', texto: '---\ntitle: Dark Mode\n---\nNova versão' };
+    const { banco, inseridas, atualizadas } = criarBanco([
+      { tabela: 'workflows', id: 'w1', slug: 'setup-vitest', content_hash: hash },
+      { tabela: 'workflows', id: 'w2', slug: 'dark-mode', content_hash: 'versao-anterior' },
+    ]);
+
+    const resultado = await sincronizarPacote('workflows', [WORKFLOW, outro], banco);
+
+    expect(resultado).toMatchObject({ created: 0, updated: 1, unchanged: 1, failed: 0 });
+    expect(inseridas).toHaveLength(0);
+    expect(atualizadas).toHaveLength(1);
+    expect(atualizadas[0].id).toBe('w2');
+    // Publicação e autor continuam como estão na linha
+    expect(atualizadas[0].linha).not.toHaveProperty('is_published');
+    expect(atualizadas[0].linha).not.toHaveProperty('author_id');
+  });
+
+  it('adopts rows created before the packs (no hash)', async () => {
+    const { banco, atualizadas } = criarBanco([
+      { tabela: 'workflows', id: 'w1', slug: 'setup-vitest', content_hash: null },
+    ]);
+
+    const resultado = await sincronizarPacote('workflows', [WORKFLOW], banco);
+
+    expect(resultado.updated).toBe(1);
+    expect(atualizadas[0].linha.content_hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('only reports what would change in dry run', async () => {
+    const { banco, inseridas, atualizadas } = criarBanco([
+      { tabela: 'workflows', id: 'w2', slug: 'dark-mode', content_hash: 'versao-anterior' },
+    ]);
+    const outro: ArquivoPacote = { nome: 'dark-mode.md', texto: '---\ntitle: Dark Mode\n---\nNova versão' };
+
+    const resultado = await sincronizarPacote('workflows', [WORKFLOW, outro], banco, { dryRun: true });
+
+    expect(resultado).toMatchObject({ created: 1, updated: 1, unchanged: 0, failed: 0 });
+    expect(inseridas).toHaveLength(0);
+    expect(atualizadas).toHaveLength(0);
+  });
+
+  it('reports invalid files, duplicate slugs and write errors without stopping', async () => {
+    const { banco } = criarBanco();
+    const falhaAoGravar: BancoPacotes = {
+      ...banco,
+      async inserir(_tabela, linha) {
+        if (linha.slug === 'setup-vitest') throw new Error('duplicate key value violates unique constraint');
+      },
+    };
+
+    const resultado = await sincronizarPacote('workflows', [
+      { nome: 'quebrado.md', texto: 'sem front matter' },
+      WORKFLOW,
+      { nome: 'copia.md', texto: '---\ntitle: Cópia\nslug: setup-vitest\n---\nCorpo' },
+      { nome: 'ok.md', texto: '---\ntitle: Ok\n---\nCorpo' },
+    ], falhaAoGravar);
+
+    expect(resultado).toMatchObject({ created: 1, failed: 3 });
+    expect(resultado.items).toEqual([
+      { file: 'quebrado.md', slug: null, action: 'failed', error: 'o arquivo deve começar com um bloco de front matter (---)' },
+      { file: 'copia.md', slug: null, action: 'failed', error: 'slug "setup-vitest" repetido (também em setup-vitest.md)' },
+      { file: 'setup-vitest.md', slug: 'setup-vitest', action: 'failed', error: 'duplicate key value violates unique constraint' },
+      { file: 'ok.md', slug: 'ok', action: 'created' },
+    ]);
+  });
+});
+
+describe('packs/', () => {
+  const PASTA = join(__dirname, '..', 'packs');
+
+  it.each(NOMES_PACOTES)('every file of the %s pack is valid', async (pacote) => {
+    const arquivos = readdirSync(join(PASTA, pacote))
+      .filter(nome => nome.endsWith('.md'))
+      .map(nome => ({ nome, texto: readFileSync(join(PASTA, pacote, nome), 'utf-8') }));
+    const { banco } = criarBanco();
+
+    const resultado = await sincronizarPacote(pacote, arquivos, banco, { dryRun: true });
+
+    expect(arquivos.length).toBeGreaterThan(0);
+    expect(resultado.items.filter(item => item.action === 'failed')).toEqual([]);
+    expect(resultado.created).toBe(arquivos.length);
+  });
+});
@@ -0,0 +1,233 @@
+// Front matter YAML dos arquivos dos pacotes de conteúdo
+//
+// Cada arquivo começa com um bloco `---` de YAML seguido do corpo em
+// markdown. Só o subconjunto de YAML usado pelos pacotes é aceito:
+//
+//   chave: valor             texto, "texto", 'texto', número, true/false, null
+//   tags: [a, b, "c, d"]     lista na mesma linha
+//   descricao: >             texto em várias linhas (| mantém as quebras)
+//   env_vars:                lista em bloco, de valores ou de objetos
+//     - name: API_KEY
+//       secret: true
+//
+// Qualquer outra construção é erro, com o número da linha.
+
+export type ValorFrontMatter =
+  | string
+  | number
+  | boolean
+  | null
+  | ValorFrontMatter[]
+  | { [chave: string]: ValorFrontMatter };
+
+export type FrontMatter = Record<string, ValorFrontMatter>;
+
+export class ErroFrontMatter extends Error {
+  constructor(message: string, public readonly linha?: number) {
+    super(linha ? `Linha ${linha}: ${message}` : message);
+    this.name = 'ErroFrontMatter';
+  }
+}
+
+const CHAVE = /^([A-Za-z_][\w-]*)\s*:(?:\s+(.*))?$/;
+
+const indentacao = (linha: string): number => linha.length - linha.trimStart().length;
+
+const ignorada = (linha: string): boolean => !linha.trim() || linha.trim().startsWith('#');
+
+/**
+ * Valor escalar de uma linha (texto sem aspas, aspas simples ou duplas,
+ * número, booleano ou null)
+ */
+const lerEscalar = (bruto: string, linha: number): ValorFrontMatter => {
+  const valor = bruto.trim();
+
+  if (valor.startsWith('"')) {
+    if (!/^"(?:[^"\\]|\\.)*"$/.test(valor)) {
+      throw new ErroFrontMatter(`aspas não fechadas em ${valor}`, linha);
+    }
+    return JSON.parse(valor);
+  }
+  if (valor.startsWith("'")) {
+    if (!/^'(?:[^']|'')*'$/.test(valor)) {
+      throw new ErroFrontMatter(`aspas não fechadas em ${valor}`, linha);
+    }
+    return valor.slice(1, -1).replace(/''/g, "'");
+  }
+  if (valor.startsWith('[')) return lerListaEmLinha(valor, linha);
+  if (valor.startsWith('{') || valor.startsWith('&') || valor.startsWith('*')) {
+    throw new ErroFrontMatter(`construção YAML não suportada: ${valor}`, linha);
+  }
+
+  // Comentário no fim da linha
+  const semComentario = valor.replace(/\s+#.*$/, '');
+  if (semComentario === 'true') return true;
+  if (semComentario === 'false') return false;
+  if (semComentario === 'null' || semComentario === '~' || semComentario === '') return null;
+  if (/^-?\d+(\.\d+)?$/.test(semComentario)) return Number(semComentario);
+  return semComentario;
+};
+
+/**
+ * Lista na mesma linha: `[a, "b, c", 3]`
+ */
+const lerListaEmLinha = (valor: string, linha: number): ValorFrontMatter[] => {
+  if (!valor.endsWith(']')) {
+    throw new ErroFrontMatter(`lista não fechada em ${valor}`, linha);
+  }
+  const conteudo = valor.slice(1, -1).trim();
+  if (!conteudo) return [];
+
+  const itens: string[] = [];
+  let atual = '';
+  let aspas: string | null = null;
+  for (const caractere of conteudo) {
+    if (aspas) {
+      if (caractere === aspas) aspas = null;
+    } else if (caractere === '"' || caractere === "'") {
+      aspas = caractere;
+    } else if (caractere === ',') {
+      itens.push(atual);
+      atual = '';
+      continue;
+    } else if (caractere === '[') {
+      throw new ErroFrontMatter('listas aninhadas não são suportadas', linha);
+    }
+    atual += caractere;
+  }
+  if (aspas) throw new ErroFrontMatter(`aspas não fechadas em ${valor}`, linha);
+  itens.push(atual);
+
+  return itens.map(item => lerEscalar(item, linha));
+};
+
+interface Leitor {
+  linhas: string[];
+  /** Deslocamento do front matter no arquivo, para as mensagens de erro */
+  inicio: number;
+  i: number;
+}
+
+const numeroLinha = (leitor: Leitor): number => leitor.inicio + leitor.i + 1;
+
+const pularIgnoradas = (leitor: Leitor) => {
+  while (leitor.i < leitor.linhas.length && ignorada(leitor.linhas[leitor.i])) leitor.i++;
+};
+
+/**
+ * Texto em várias linhas (`>` junta as linhas, `|` mantém as quebras)
+ */
+const lerBloco = (leitor: Leitor, estilo: string, nivel: number): string => {
+  const partes: string[] = [];
+  let recuo: number | null = null;
+  while (leitor.i < leitor.linhas.length) {
+    const linha = leitor.linhas[leitor.i];
+    if (linha.trim() && indentacao(linha) <= nivel) break;
+    if (linha.trim() && recuo === null) recuo = indentacao(linha);
+    partes.push(linha.trim() ? linha.slice(recuo ?? 0) : '');
+    leitor.i++;
+  }
+  while (partes.length > 0 && !partes[partes.length - 1]) partes.pop();
+
+  if (estilo.startsWith('|')) return partes.join('\n');
+  // Linhas em branco separam parágrafos
+  return partes
+    .join('\n')
+    .split(/\n{2,}/)
+    .map(paragrafo => paragrafo.replace(/\n/g, ' '))
+    .join('\n');
+};
+
+/**
+ * Pares `chave: valor` com a mesma indentação
+ */
+const lerObjeto = (leitor: Leitor, nivel: number): Record<string, ValorFrontMatter> => {
+  const objeto: Record<string, ValorFrontMatter> = {};
+
+  while (leitor.i < leitor.linhas.length) {
+    pularIgnoradas(leitor);
+    if (leitor.i >= leitor.linhas.length) break;
+    const linha = leitor.linhas[leitor.i];
+    const recuo = indentacao(linha);
+    if (recuo < nivel) break;
+    if (recuo > nivel) {
+      throw new ErroFrontMatter('indentação inesperada', numeroLinha(leitor));
+    }
+
+    const par = linha.trim().match(CHAVE);
+    if (!par) {
+      throw new ErroFrontMatter(`esperado "chave: valor", encontrado "${linha.trim()}"`, numeroLinha(leitor));
+    }
+    const [, chave, valor = ''] = par;
+    if (chave in objeto) {
+      throw new ErroFrontMatter(`chave "${chave}" repetida`, numeroLinha(leitor));
+    }
+    const linhaChave = numeroLinha(leitor);
+    leitor.i++;
+
+    if (/^[>|][+-]?$/.test(valor.trim())) {
+      objeto[chave] = lerBloco(leitor, valor.trim(), recuo);
+    } else if (valor.trim() && !valor.trim().startsWith('#')) {
+      objeto[chave] = lerEscalar(valor, linhaChave);
+    } else {
+      // Valor vazio: lista em bloco nas linhas seguintes, ou null
+      pularIgnoradas(leitor);
+      const proxima = leitor.linhas[leitor.i];
+      objeto[chave] = proxima !== undefined && proxima.trim().startsWith('- ') && indentacao(proxima) >= recuo
+        ? lerLista(leitor, indentacao(proxima))
+        : null;
+    }
+  }
+
+  return objeto;
+};
+
+/**
+ * Itens `- valor` ou `- chave: valor` com a mesma indentação
+ */
+const lerLista = (leitor: Leitor, nivel: number): ValorFrontMatter[] => {
+  const lista: ValorFrontMatter[] = [];
+
+  while (leitor.i < leitor.linhas.length) {
+    pularIgnoradas(leitor);
+    if (leitor.i >= leitor.linhas.length) break;
+    const linha = leitor.linhas[leitor.i];
+    if (indentacao(linha) !== nivel || !linha.trim().startsWith('-')) break;
+
+    const conteudo = linha.trim().replace(/^-\s*/, '');
+    if (CHAVE.test(conteudo)) {
+      // Objeto: a primeira chave fica na linha do traço, as demais
+      // alinhadas com ela
+      const recuoObjeto = nivel + (linha.trim().length - conteudo.length);
+      leitor.linhas[leitor.i] = ' '.repeat(recuoObjeto) + conteudo;
+      lista.push(lerObjeto(leitor, recuoObjeto));
+    } else {
+      lista.push(lerEscalar(conteudo, numeroLinha(leitor)));
+      leitor.i++;
+    }
+  }
+
+  return lista;
+};
+
+/**
+ * Separa o front matter do corpo de um arquivo de pacote
+ */
+export const lerFrontMatter = (texto: string): { dados: FrontMatter; corpo: string } => {
+  const linhas = texto.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  if (linhas[0]?.trim() !== '---') {
+    throw new ErroFrontMatter('o arquivo deve começar com um bloco de front matter (---)');
+  }
+  const fim = linhas.findIndex((linha, indice) => indice > 0 && linha.trim() === '---');
+  if (fim === -1) {
+    throw new ErroFrontMatter('bloco de front matter sem o --- de fechamento');
+  }
+
+  const leitor: Leitor = { linhas: linhas.slice(1, fim), inicio: 1, i: 0 };
+  const dados = lerObjeto(leitor, 0);
+  if (leitor.i < leitor.linhas.length) {
+    throw new ErroFrontMatter('indentação inesperada', numeroLinha(leitor));
+  }
+
+  return { dados, corpo: linhas.slice(fim + 1).join('\n').trim() };
+};
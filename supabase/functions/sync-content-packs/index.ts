@@ -0,0 +1,142 @@
+// Edge Function: sync-content-packs
+// Sincroniza os pacotes de conteúdo (packs/workflows, packs/mcp-servers e
+// packs/sites) com as tabelas workflows, mcp_servers e recommended_sites
+// Substitui auto-sync-workflows, auto-sync-mcp-servers e auto-sync-sites, que
+// só inseriam slugs novos a partir de arrays fixos no código
+// Body opcional: { "pack": "workflows", "dry_run": true }
+// - pack: sincroniza só esse pacote (padrão: todos)
+// - dry_run: devolve o que seria criado/atualizado sem gravar nada
+// Só admins (ou a service_role) podem chamar.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import {
+  NOMES_PACOTES,
+  sincronizarPacote,
+  type ArquivoPacote,
+  type BancoPacotes,
+  type NomePacote,
+  type ResultadoPacote,
+} from "./pacotes.ts";
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Os arquivos vão no deploy via static_files (supabase/config.toml)
+const PASTA_PACOTES = new URL('./packs/', import.meta.url);
+
+const responder = (body: Record<string, unknown>, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+/**
+ * Arquivos .md de um pacote, em ordem alfabética
+ */
+const lerArquivos = async (pacote: NomePacote): Promise<ArquivoPacote[]> => {
+  const pasta = new URL(`${pacote}/`, PASTA_PACOTES);
+  const arquivos: ArquivoPacote[] = [];
+  for await (const entrada of Deno.readDir(pasta)) {
+    if (entrada.isFile && entrada.name.endsWith('.md')) {
+      arquivos.push({ nome: entrada.name, texto: await Deno.readTextFile(new URL(entrada.name, pasta)) });
+    }
+  }
+  return arquivos.sort((a, b) => a.nome.localeCompare(b.nome));
+};
+
+const criarBanco = (supabase: ReturnType<typeof createClient>): BancoPacotes => ({
+  async buscar(tabela, slugs) {
+    const { data, error } = await supabase
+      .from(tabela)
+      .select('id, slug, content_hash')
+      .in('slug', slugs);
+    if (error) throw error;
+    return data ?? [];
+  },
+  async inserir(tabela, linha) {
+    const { error } = await supabase.from(tabela).insert(linha);
+    if (error) throw new Error(error.message);
+  },
+  async atualizar(tabela, id, linha) {
+    const { error } = await supabase.from(tabela).update(linha).eq('id', id);
+    if (error) throw new Error(error.message);
+  },
+});
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Service role (SQL/cron) ou um admin autenticado
+    const token = req.headers.get('authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return responder({ success: false, error: 'Missing authorization header' }, 401);
+    }
+    let autorId: string | null = null;
+    if (token !== supabaseServiceKey) {
+      const { data: { user }, error: authError } = await createClient(supabaseUrl, token).auth.getUser();
+      if (authError || !user) {
+        return responder({ success: false, error: 'Invalid or expired authentication token' }, 401);
+      }
+      const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+      if (!isAdmin) {
+        return responder({ success: false, error: 'Apenas administradores podem sincronizar os pacotes de conteúdo' }, 403);
+      }
+      autorId = user.id;
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const dryRun = body?.dry_run === true;
+    if (body?.pack !== undefined && !NOMES_PACOTES.includes(body.pack)) {
+      return responder({ success: false, error: `Pacote desconhecido: ${body.pack} (use ${NOMES_PACOTES.join(', ')})` }, 400);
+    }
+    const pacotes: NomePacote[] = body?.pack ? [body.pack] : NOMES_PACOTES;
+
+    console.log(`🚀 Sincronizando pacotes de conteúdo: ${pacotes.join(', ')}${dryRun ? ' (dry run)' : ''}`);
+
+    const banco = criarBanco(supabase);
+    const resultados: ResultadoPacote[] = [];
+    for (const pacote of pacotes) {
+      const resultado = await sincronizarPacote(pacote, await lerArquivos(pacote), banco, { dryRun, autorId });
+      resultados.push(resultado);
+
+      for (const item of resultado.items.filter(item => item.action === 'failed')) {
+        console.error(`❌ ${pacote}/${item.file}: ${item.error}`);
+      }
+      console.log(
+        `✨ ${pacote}: ${resultado.created} criados, ${resultado.updated} atualizados, ` +
+        `${resultado.unchanged} inalterados, ${resultado.failed} com erro`
+      );
+    }
+
+    const total = (campo: 'created' | 'updated' | 'unchanged' | 'failed') =>
+      resultados.reduce((soma, resultado) => soma + resultado[campo], 0);
+
+    return responder({
+      success: total('failed') === 0,
+      dry_run: dryRun,
+      created: total('created'),
+      updated: total('updated'),
+      unchanged: total('unchanged'),
+      failed: total('failed'),
+      packs: resultados,
+    });
+  } catch (error) {
+    console.error('❌ Erro na sincronização dos pacotes de conteúdo:', error);
+    return responder({ success: false, error: error.message }, 500);
+  }
+});
@@ -0,0 +1,333 @@
+// Pacotes de conteúdo
+//
+// Cada pacote é uma pasta de packs/ com um arquivo markdown por item
+// (workflow, servidor MCP ou site), versionada junto com o código. O front
+// matter vira as colunas da tabela e o corpo vira `content` em HTML.
+//
+// A sincronização compara o hash de cada item com o content_hash gravado na
+// linha do mesmo slug: hash novo atualiza a linha, hash igual não mexe nela
+// (edições feitas pelos managers continuam até o arquivo mudar) e slug novo
+// cria a linha publicada.
+
+import { markdownParaHtml } from '../_shared/markdown.ts';
+import type { McpEnvVar, McpTransport } from '../_shared/mcp-types.ts';
+import { lerFrontMatter, type FrontMatter, type ValorFrontMatter } from './frontmatter.ts';
+
+export type NomePacote = 'workflows' | 'mcp-servers' | 'sites';
+
+export type Tabela = 'workflows' | 'mcp_servers' | 'recommended_sites';
+
+export type Linha = Record<string, string | boolean | string[] | McpEnvVar[] | null>;
+
+export class ErroPacote extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ErroPacote';
+  }
+}
+
+const SLUG = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const TRANSPORTES: McpTransport[] = ['stdio', 'sse', 'http'];
+
+// Autor exibido nos itens dos pacotes
+const AUTOR_PADRAO = 'Vibe Flow';
+
+const texto = (dados: FrontMatter, chave: string, obrigatorio = false): string | null => {
+  const valor = dados[chave];
+  if (valor === undefined || valor === null || valor === '') {
+    if (obrigatorio) throw new ErroPacote(`campo obrigatório "${chave}" ausente`);
+    return null;
+  }
+  if (typeof valor !== 'string' && typeof valor !== 'number') {
+    throw new ErroPacote(`"${chave}" deve ser um texto`);
+  }
+  return String(valor).trim();
+};
+
+const url = (dados: FrontMatter, chave: string, obrigatorio = false): string | null => {
+  const valor = texto(dados, chave, obrigatorio);
+  if (valor && !/^https?:\/\/\S+$/i.test(valor)) {
+    throw new ErroPacote(`"${chave}" deve ser uma URL http(s)`);
+  }
+  return valor;
+};
+
+const booleano = (valor: ValorFrontMatter | undefined, chave: string, padrao: boolean): boolean => {
+  if (valor === undefined || valor === null) return padrao;
+  if (typeof valor !== 'boolean') throw new ErroPacote(`"${chave}" deve ser true ou false`);
+  return valor;
+};
+
+const listaDeTextos = (dados: FrontMatter, chave: string): string[] => {
+  const valor = dados[chave];
+  if (valor === undefined || valor === null) return [];
+  if (!Array.isArray(valor) || valor.some(item => typeof item !== 'string' && typeof item !== 'number')) {
+    throw new ErroPacote(`"${chave}" deve ser uma lista de textos`);
+  }
+  return valor.map(item => String(item).trim()).filter(Boolean);
+};
+
+const variaveis = (dados: FrontMatter): McpEnvVar[] => {
+  const valor = dados.env_vars;
+  if (valor === undefined || valor === null) return [];
+  if (!Array.isArray(valor)) throw new ErroPacote('"env_vars" deve ser uma lista');
+
+  return valor.map((item, indice) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new ErroPacote(`env_vars[${indice}] deve ter name, description, required e secret`);
+    }
+    const nome = texto(item, 'name', true) as string;
+    if (!/^[A-Z_][A-Z0-9_]*$/.test(nome)) {
+      throw new ErroPacote(`env_vars[${indice}]: nome de variável inválido "${nome}"`);
+    }
+    const exemplo = texto(item, 'example');
+    return {
+      name: nome,
+      description: texto(item, 'description') ?? '',
+      required: booleano(item.required, `env_vars[${indice}].required`, true),
+      secret: booleano(item.secret, `env_vars[${indice}].secret`, false),
+      ...(exemplo ? { example: exemplo } : {}),
+    };
+  });
+};
+
+const conteudo = (corpo: string): string => {
+  if (!corpo) throw new ErroPacote('o corpo em markdown está vazio');
+  return markdownParaHtml(corpo);
+};
+
+interface DefinicaoPacote {
+  tabela: Tabela;
+  /** Colunas gravadas a partir do front matter e do corpo */
+  linha: (dados: FrontMatter, corpo: string) => Linha;
+}
+
+export const PACOTES: Record<NomePacote, DefinicaoPacote> = {
+  workflows: {
+    tabela: 'workflows',
+    linha: (dados, corpo) => ({
+      title: texto(dados, 'title', true),
+      description: texto(dados, 'description'),
+      content: conteudo(corpo),
+      image_url: url(dados, 'image_url'),
+      author_name: texto(dados, 'author_name') ?? AUTOR_PADRAO,
+    }),
+  },
+  'mcp-servers': {
+    tabela: 'mcp_servers',
+    linha: (dados, corpo) => {
+      const transporte = (texto(dados, 'transport') ?? 'stdio') as McpTransport;
+      if (!TRANSPORTES.includes(transporte)) {
+        throw new ErroPacote(`"transport" deve ser ${TRANSPORTES.join(', ')}`);
+      }
+      const servidor = url(dados, 'server_url', transporte !== 'stdio');
+      return {
+        title: texto(dados, 'title', true),
+        description: texto(dados, 'description'),
+        content: conteudo(corpo),
+        image_url: url(dados, 'image_url'),
+        author_name: texto(dados, 'author_name') ?? AUTOR_PADRAO,
+        category: texto(dados, 'category'),
+        tags: listaDeTextos(dados, 'tags'),
+        npm_package: texto(dados, 'npm_package'),
+        github_url: url(dados, 'github_url'),
+        install_command: texto(dados, 'install_command'),
+        transport: transporte,
+        launch_command: texto(dados, 'launch_command'),
+        launch_args: listaDeTextos(dados, 'launch_args'),
+        server_url: servidor,
+        env_vars: variaveis(dados),
+      };
+    },
+  },
+  sites: {
+    tabela: 'recommended_sites',
+    // Sites não têm página própria: o corpo, quando existe, é a descrição
+    linha: (dados, corpo) => ({
+      title: texto(dados, 'title', true),
+      description: texto(dados, 'description') ?? (corpo.replace(/\s+/g, ' ') || null),
+      url: url(dados, 'url', true),
+      image_url: url(dados, 'image_url'),
+      favicon_url: url(dados, 'favicon_url'),
+      author_name: texto(dados, 'author_name') ?? AUTOR_PADRAO,
+      category: texto(dados, 'category'),
+      tags: listaDeTextos(dados, 'tags'),
+    }),
+  },
+};
+
+export const NOMES_PACOTES = Object.keys(PACOTES) as NomePacote[];
+
+export interface ArquivoPacote {
+  /** Nome do arquivo (`setup-tailwind-react.md`) */
+  nome: string;
+  texto: string;
+}
+
+export interface ItemPacote {
+  arquivo: string;
+  slug: string;
+  linha: Linha;
+  /** Publicado ao ser criado (`published: false` cria como rascunho) */
+  publicado: boolean;
+  hash: string;
+}
+
+/**
+ * JSON com as chaves em ordem, para o hash não depender da ordem do front
+ * matter
+ */
+const jsonCanonico = (valor: unknown): string => {
+  if (Array.isArray(valor)) return `[${valor.map(jsonCanonico).join(',')}]`;
+  if (valor && typeof valor === 'object') {
+    return `{${Object.keys(valor).sort().map(chave =>
+      `${JSON.stringify(chave)}:${jsonCanonico((valor as Record<string, unknown>)[chave])}`
+    ).join(',')}}`;
+  }
+  return JSON.stringify(valor ?? null);
+};
+
+/**
+ * SHA-256 (hex) das colunas gravadas por um item
+ */
+export const calcularHash = async (linha: Linha): Promise<string> => {
+  const bytes = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(jsonCanonico(linha)));
+  return [...new Uint8Array(bytes)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Lê um arquivo do pacote; o slug é o do front matter ou o nome do arquivo
+ */
+export const lerItem = async (pacote: NomePacote, arquivo: ArquivoPacote): Promise<ItemPacote> => {
+  const { dados, corpo } = lerFrontMatter(arquivo.texto);
+  const slug = texto(dados, 'slug') ?? arquivo.nome.replace(/\.md$/i, '');
+  if (!SLUG.test(slug)) {
+    throw new ErroPacote(`slug inválido "${slug}" (use letras minúsculas, números e hífens)`);
+  }
+
+  const linha = PACOTES[pacote].linha(dados, corpo);
+  return {
+    arquivo: arquivo.nome,
+    slug,
+    linha,
+    publicado: booleano(dados.published, 'published', true),
+    hash: await calcularHash(linha),
+  };
+};
+
+export type AcaoItem = 'created' | 'updated' | 'unchanged' | 'failed';
+
+export interface ResultadoItem {
+  file: string;
+  slug: string | null;
+  action: AcaoItem;
+  error?: string;
+}
+
+export interface ResultadoPacote {
+  pack: NomePacote;
+  table: Tabela;
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  items: ResultadoItem[];
+}
+
+export interface LinhaExistente {
+  id: string;
+  slug: string;
+  content_hash: string | null;
+}
+
+/**
+ * Acesso ao banco usado pela sincronização (Supabase na Edge Function,
+ * memória nos testes)
+ */
+export interface BancoPacotes {
+  buscar(tabela: Tabela, slugs: string[]): Promise<LinhaExistente[]>;
+  inserir(tabela: Tabela, linha: Linha): Promise<void>;
+  atualizar(tabela: Tabela, id: string, linha: Linha): Promise<void>;
+}
+
+export interface OpcoesSincronizacao {
+  /** Só calcula o que seria criado/atualizado, sem gravar */
+  dryRun?: boolean;
+  /** author_id dos itens criados (o admin que rodou a sincronização) */
+  autorId?: string | null;
+}
+
+const mensagem = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Cria e atualiza as linhas de um pacote. Arquivos inválidos ou que falham
+ * ao gravar ficam como `failed` e não interrompem os demais.
+ */
+export const sincronizarPacote = async (
+  pacote: NomePacote,
+  arquivos: ArquivoPacote[],
+  banco: BancoPacotes,
+  opcoes: OpcoesSincronizacao = {},
+): Promise<ResultadoPacote> => {
+  const { tabela } = PACOTES[pacote];
+  const resultado: ResultadoPacote = {
+    pack: pacote,
+    table: tabela,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    failed: 0,
+    items: [],
+  };
+  const falhar = (arquivo: string, slug: string | null, error: unknown) => {
+    resultado.failed++;
+    resultado.items.push({ file: arquivo, slug, action: 'failed', error: mensagem(error) });
+  };
+
+  const itens: ItemPacote[] = [];
+  for (const arquivo of arquivos) {
+    try {
+      const item = await lerItem(pacote, arquivo);
+      const repetido = itens.find(outro => outro.slug === item.slug);
+      if (repetido) {
+        throw new ErroPacote(`slug "${item.slug}" repetido (também em ${repetido.arquivo})`);
+      }
+      itens.push(item);
+    } catch (error) {
+      falhar(arquivo.nome, null, error);
+    }
+  }
+
+  const existentes = new Map(
+    (itens.length > 0 ? await banco.buscar(tabela, itens.map(item => item.slug)) : [])
+      .map(linha => [linha.slug, linha])
+  );
+
+  for (const item of itens) {
+    const existente = existentes.get(item.slug);
+    const acao: AcaoItem = !existente ? 'created' : existente.content_hash === item.hash ? 'unchanged' : 'updated';
+
+    try {
+      if (!opcoes.dryRun && acao === 'created') {
+        await banco.inserir(tabela, {
+          ...item.linha,
+          slug: item.slug,
+          content_hash: item.hash,
+          is_published: item.publicado,
+          author_id: opcoes.autorId ?? null,
+        });
+      } else if (!opcoes.dryRun && acao === 'updated' && existente) {
+        await banco.atualizar(tabela, existente.id, { ...item.linha, content_hash: item.hash });
+      }
+    } catch (error) {
+      falhar(item.arquivo, item.slug, error);
+      continue;
+    }
+
+    resultado[acao]++;
+    resultado.items.push({ file: item.arquivo, slug: item.slug, action: acao });
+  }
+
+  return resultado;
+};
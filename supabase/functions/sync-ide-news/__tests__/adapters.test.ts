@@ -0,0 +1,207 @@
+/**
+ * Unit Tests for sync-ide-news source adapters
+ *
+ * Each adapter is run against a page saved in ./fixtures (trimmed copies of
+ * the real changelog pages), checking per-release titles, dates and deep
+ * links.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  encontrarElementos,
+  extrairData,
+  extrairVersao,
+  lerFonte,
+  lerGithubReleases,
+  lerHtml,
+  lerMarkdown,
+  lerRss,
+  type Fonte,
+} from '../adapters.ts';
+
+const fixture = (nome: string): string => readFileSync(join(__dirname, 'fixtures', nome), 'utf-8');
+
+describe('rss adapter', () => {
+  it('reads RSS 2.0 items with CDATA, entities and relative links', () => {
+    const entradas = lerRss(fixture('replit-blog.rss.xml'), 'https://blog.replit.com');
+
+    expect(entradas).toEqual([
+      {
+        titulo: 'Introducing Agent 3 & Dynamic Intelligence',
+        resumo: 'Agent 3 can now test and fix the apps it builds, running for up to 200 minutes.',
+        link: 'https://blog.replit.com/introducing-agent-3',
+        publicado_em: '2025-09-10T16:00:00.000Z',
+      },
+      {
+        titulo: 'Replit Deployments: autoscale by default',
+        resumo: 'New deployments scale to zero when idle.',
+        link: 'https://blog.replit.com/deployments-autoscale',
+        publicado_em: '2025-09-02T09:30:00.000Z',
+      },
+      {
+        titulo: 'Database checkpoints',
+        resumo: null,
+        link: 'https://blog.replit.com/database-checkpoints',
+        publicado_em: null,
+      },
+    ]);
+  });
+
+  it('reads Atom entries using the alternate link', () => {
+    const entradas = lerRss(fixture('jetbrains-blog.atom.xml'), 'https://blog.jetbrains.com');
+
+    expect(entradas).toEqual([
+      {
+        titulo: 'Junie Is Now Available in All JetBrains IDEs',
+        resumo: 'Our coding agent leaves beta – with support for MCP servers.',
+        link: 'https://blog.jetbrains.com/junie/2025/10/junie-ga/',
+        publicado_em: '2025-10-01T12:00:00.000Z',
+      },
+      {
+        titulo: 'IntelliJ IDEA 2025.2.3 Is Out',
+        resumo: 'This bug-fix update improves Gradle sync.',
+        link: 'https://blog.jetbrains.com/idea/2025/09/intellij-idea-2025-2-3/',
+        publicado_em: '2025-09-25T10:15:00.000Z',
+      },
+    ]);
+  });
+});
+
+describe('github_releases adapter', () => {
+  it('lists published releases with their tag as fallback title', () => {
+    const entradas = lerGithubReleases(fixture('vscode-releases.json'));
+
+    expect(entradas).toEqual([
+      {
+        titulo: 'September 2025 Recovery 1',
+        resumo: 'The update addresses these issues.',
+        link: 'https://github.com/microsoft/vscode/releases/tag/1.105.1',
+        publicado_em: '2025-10-14T18:10:05.000Z',
+        versao: '1.105.1',
+      },
+      {
+        titulo: '1.105.0',
+        resumo: 'Chat: OS notifications when a chat response needs your input',
+        link: 'https://github.com/microsoft/vscode/releases/tag/1.105.0',
+        publicado_em: '2025-10-09T16:40:00.000Z',
+        versao: '1.105.0',
+      },
+    ]);
+  });
+
+  it('rejects an API error payload', () => {
+    expect(() => lerGithubReleases('{"message":"API rate limit exceeded"}')).toThrow('releases do GitHub');
+  });
+});
+
+describe('html adapter', () => {
+  const seletores = { item: 'article.release', titulo: 'h2', resumo: 'p', data: 'time', link: 'a' };
+
+  it('reads one entry per item element', () => {
+    const entradas = lerHtml(fixture('windsurf-changelog.html'), seletores, 'https://windsurf.com/changelog');
+
+    expect(entradas).toEqual([
+      {
+        titulo: 'Windsurf 1.12.18',
+        resumo: 'SWE-1.5 is now the default model & Cascade runs terminal commands in the background.',
+        link: 'https://windsurf.com/changelog#1-12-18',
+        publicado_em: '2025-10-08T00:00:00.000Z',
+      },
+      {
+        titulo: 'Windsurf 1.12.16',
+        resumo: 'Patch release.',
+        link: 'https://windsurf.com/changelog',
+        publicado_em: '2025-09-30T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('matches tag, class and tag.class selectors without splitting nested elements', () => {
+    const html = fixture('windsurf-changelog.html');
+
+    expect(encontrarElementos(html, 'article.release')).toHaveLength(3);
+    expect(encontrarElementos(html, '.release')).toHaveLength(3);
+    expect(encontrarElementos(html, 'article')).toHaveLength(3);
+    expect(encontrarElementos(html, 'article.note')).toHaveLength(1);
+  });
+});
+
+describe('markdown adapter', () => {
+  it('uses the repeated heading level as releases', () => {
+    const entradas = lerMarkdown(fixture('cursor-changelog.jina.md'), 'https://www.cursor.com/changelog');
+
+    expect(entradas).toEqual([
+      {
+        titulo: '1.7 Browser controls, plan mode and hooks',
+        resumo: 'Agent can now take screenshots, improve UI and debug client issues with browser controls.',
+        link: 'https://www.cursor.com/changelog/1-7',
+        publicado_em: '2025-09-29T00:00:00.000Z',
+      },
+      {
+        titulo: '1.6: Slash commands and summarization',
+        resumo: 'Slash commands run custom prompts with /.',
+        link: 'https://www.cursor.com/changelog',
+        publicado_em: '2025-09-12T00:00:00.000Z',
+      },
+      {
+        titulo: 'Older releases',
+        resumo: 'Browse earlier versions of Cursor.',
+        link: 'https://www.cursor.com/changelog',
+        publicado_em: null,
+      },
+    ]);
+  });
+
+  it('returns nothing for a page without headings', () => {
+    expect(lerMarkdown('Markdown Content:\nJust a paragraph.', 'https://bolt.new/changelog')).toEqual([]);
+  });
+});
+
+describe('extrairData', () => {
+  it('recognizes ISO, English and Portuguese dates', () => {
+    expect(extrairData('Released 2025-01-15')).toBe('2025-01-15T00:00:00.000Z');
+    expect(extrairData('January 5th, 2025')).toBe('2025-01-05T00:00:00.000Z');
+    expect(extrairData('Jan 5 2025')).toBe('2025-01-05T00:00:00.000Z');
+    expect(extrairData('15 de março de 2025')).toBe('2025-03-15T00:00:00.000Z');
+  });
+
+  it('ignores invalid dates and version numbers', () => {
+    expect(extrairData('2025-02-30')).toBeNull();
+    expect(extrairData('Version 1.105.1')).toBeNull();
+  });
+});
+
+describe('extrairVersao', () => {
+  it('finds semantic and calendar versions in titles', () => {
+    expect(extrairVersao('Windsurf 1.12.18')).toBe('1.12.18');
+    expect(extrairVersao('1.6: Slash commands and summarization')).toBe('1.6');
+    expect(extrairVersao('IntelliJ IDEA 2025.2.3 Is Out')).toBe('2025.2.3');
+    expect(extrairVersao('Released v1.2.3.')).toBe('1.2.3');
+    expect(extrairVersao('1.0.0-beta.2 ships today')).toBe('1.0.0-beta.2');
+  });
+
+  it('ignores titles without a version, prices and percentages', () => {
+    expect(extrairVersao('Introducing Agent 3 & Dynamic Intelligence')).toBeNull();
+    expect(extrairVersao('September 2025 Recovery 1')).toBeNull();
+    expect(extrairVersao('Pro plan now $1.99')).toBeNull();
+    expect(extrairVersao('Indexing is 12.5% faster and 1.5x smaller')).toBeNull();
+  });
+});
+
+describe('lerFonte', () => {
+  it('routes the content to the adapter configured for the source', () => {
+    const fonte: Fonte = {
+      id: 'vscode',
+      nome: 'VS Code',
+      url: 'https://code.visualstudio.com/updates',
+      adaptador: { tipo: 'github_releases', repo: 'microsoft/vscode' },
+    };
+
+    expect(lerFonte(fonte, fixture('vscode-releases.json')).map(e => e.titulo)).toEqual([
+      'September 2025 Recovery 1',
+      '1.105.0',
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit Tests for the sync-ide-news summary providers
+ *
+ * The stub provider is deterministic and offline; the OpenAI-compatible
+ * provider is exercised with a fake fetch. Both go through
+ * normalizarResumo, which enforces the 3-sentence limit and the tag
+ * vocabulary.
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  criarProvedorOpenAi,
+  criarProvedorStub,
+  normalizarResumo,
+  provedorDoAmbiente,
+  type EntradaResumo,
+} from '../resumos.ts';
+
+const entrada: EntradaResumo = {
+  titulo: '1.7 Browser controls, plan mode and hooks',
+  resumo: 'Agent can now take screenshots, improve UI and debug client issues with browser controls.',
+  fonte: 'Cursor',
+  versao: '1.7',
+};
+
+const respostaJson = (corpo: unknown, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => corpo,
+});
+
+describe('normalizarResumo', () => {
+  it('keeps at most three sentences and known tags', () => {
+    const resumo = normalizarResumo({
+      resumo: 'Primeira frase.  Segunda frase! Terceira frase? Quarta frase.',
+      tags: ['Agent', 'agent', 'unknown', 'pricing', 42],
+    });
+
+    expect(resumo).toEqual({
+      resumo: 'Primeira frase. Segunda frase! Terceira frase?',
+      tags: ['agent', 'pricing'],
+    });
+  });
+
+  it('rejects a response without summary', () => {
+    expect(() => normalizarResumo({ tags: ['agent'] })).toThrow('não retornou um resumo');
+    expect(() => normalizarResumo(null)).toThrow('não retornou um resumo');
+  });
+});
+
+describe('stub provider', () => {
+  it('builds the same Portuguese summary and tags for the same entry', async () => {
+    const provedor = criarProvedorStub();
+
+    const primeiro = await provedor.resumir(entrada);
+    const segundo = await provedor.resumir(entrada);
+
+    expect(primeiro).toEqual(segundo);
+    expect(primeiro).toEqual({
+      resumo: 'Cursor publicou a versão 1.7: 1.7 Browser controls, plan mode and hooks. ' +
+        'Destaque da fonte: Agent can now take screenshots, improve UI and debug client issues with browser controls.',
+      tags: ['agent', 'ui'],
+    });
+  });
+});
+
+describe('openai provider', () => {
+  it('sends the entry to /chat/completions and validates the JSON answer', async () => {
+    const fetch = jest.fn(async () => respostaJson({
+      choices: [{ message: { content: '{"resumo": "O agente agora controla o navegador.", "tags": ["agent", "browser"]}' } }],
+    }));
+    const provedor = criarProvedorOpenAi({ apiKey: 'sk-test', modelo: 'gpt-4o-mini', baseUrl: 'https://gateway.test/v1/', fetch });
+
+    await expect(provedor.resumir(entrada)).resolves.toEqual({
+      resumo: 'O agente agora controla o navegador.',
+      tags: ['agent'],
+    });
+    expect(provedor.nome).toBe('openai:gpt-4o-mini');
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, { headers: Record<string, string>; body: string }];
+    expect(url).toBe('https://gateway.test/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer sk-test');
+    expect(JSON.parse(init.body)).toMatchObject({ model: 'gpt-4o-mini', response_format: { type: 'json_object' } });
+  });
+
+  it('fails on HTTP errors and non-JSON answers', async () => {
+    const erroHttp = criarProvedorOpenAi({ apiKey: 'k', modelo: 'm', fetch: async () => respostaJson({}, 429) });
+    await expect(erroHttp.resumir(entrada)).rejects.toThrow('respondeu 429');
+
+    const texto = criarProvedorOpenAi({
+      apiKey: 'k',
+      modelo: 'm',
+      fetch: async () => respostaJson({ choices: [{ message: { content: 'Aqui está o resumo' } }] }),
+    });
+    await expect(texto.resumir(entrada)).rejects.toThrow('não é JSON');
+  });
+});
+
+describe('provedorDoAmbiente', () => {
+  const fetch = async () => respostaJson({});
+  const ambiente = (valores: Record<string, string>) => (nome: string) => valores[nome];
+
+  it('is disabled without IDE_NEWS_SUMMARY_PROVIDER', () => {
+    expect(provedorDoAmbiente(ambiente({}), fetch)).toBeNull();
+  });
+
+  it('builds the configured provider', () => {
+    expect(provedorDoAmbiente(ambiente({ IDE_NEWS_SUMMARY_PROVIDER: 'stub' }), fetch)?.nome).toBe('stub');
+    expect(provedorDoAmbiente(ambiente({
+      IDE_NEWS_SUMMARY_PROVIDER: 'openai',
+      IDE_NEWS_SUMMARY_API_KEY: 'sk-test',
+    }), fetch)?.nome).toBe('openai:gpt-4o-mini');
+  });
+
+  it('rejects an incomplete or unknown configuration', () => {
+    expect(() => provedorDoAmbiente(ambiente({ IDE_NEWS_SUMMARY_PROVIDER: 'openai' }), fetch)).toThrow('IDE_NEWS_SUMMARY_API_KEY');
+    expect(() => provedorDoAmbiente(ambiente({ IDE_NEWS_SUMMARY_PROVIDER: 'llama' }), fetch)).toThrow('desconhecido: llama');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit Tests for the sync-ide-news source registry
+ *
+ * Rows of ide_news_sources are turned into Fonte objects; rows with an
+ * incomplete adapter_config are rejected with a message naming the missing
+ * key.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { IdeNewsSource } from '../../_shared/ide-news-types.ts';
+import { lerAdaptador, paraFonte } from '../sources.ts';
+
+const linha = (campos: Partial<IdeNewsSource>): IdeNewsSource => ({
+  id: '00000000-0000-0000-0000-000000000001',
+  slug: 'replit',
+  name: 'Replit',
+  url: 'https://blog.replit.com',
+  logo: '⚡',
+  color: '#f97316',
+  adapter_type: 'rss',
+  adapter_config: { feed: 'https://blog.replit.com/feed.xml' },
+  item_limit: 5,
+  position: 2,
+  is_enabled: true,
+  ...campos,
+});
+
+describe('paraFonte', () => {
+  it('maps a row to a Fonte', () => {
+    expect(paraFonte(linha({}))).toEqual({
+      id: 'replit',
+      nome: 'Replit',
+      url: 'https://blog.replit.com',
+      logo: '⚡',
+      cor: '#f97316',
+      adaptador: { tipo: 'rss', feed: 'https://blog.replit.com/feed.xml' },
+      limite: 5,
+    });
+  });
+
+  it('leaves missing logo and color undefined', () => {
+    const fonte = paraFonte(linha({ logo: null, color: null, adapter_type: 'markdown', adapter_config: null }));
+
+    expect(fonte.logo).toBeUndefined();
+    expect(fonte.cor).toBeUndefined();
+    expect(fonte.adaptador).toEqual({ tipo: 'markdown' });
+  });
+});
+
+describe('lerAdaptador', () => {
+  it('reads html selectors, dropping blank optional ones', () => {
+    expect(lerAdaptador('html', { seletores: { item: 'article', titulo: 'h2', resumo: ' ', link: 'a' } })).toEqual({
+      tipo: 'html',
+      seletores: { item: 'article', titulo: 'h2', resumo: undefined, data: undefined, link: 'a' },
+    });
+  });
+
+  it('rejects incomplete configurations', () => {
+    expect(() => lerAdaptador('rss', {})).toThrow('"feed"');
+    expect(() => lerAdaptador('github_releases', { repo: 'vscode' })).toThrow('dono/repositorio');
+    expect(() => lerAdaptador('html', { seletores: { item: 'article' } })).toThrow('seletores.titulo');
+    expect(() => lerAdaptador('atom', {})).toThrow('Adaptador desconhecido: atom');
+  });
+});
@@ -0,0 +1,470 @@
+// Adaptadores de fonte do sync-ide-news
+//
+// Cada fonte em ide_news_sources (ver sources.ts) declara o adaptador que sabe ler o seu changelog:
+// - rss: feed RSS 2.0 ou Atom
+// - github_releases: API de releases do GitHub
+// - html: página HTML com seletores (tag e/ou classe) para item, título, data e link
+// - markdown: página convertida em markdown pelo r.jina.ai, um item por heading
+//
+// Os parsers são funções puras (texto -> entradas), testadas com páginas
+// salvas em __tests__/fixtures; só buscarFonte() acessa a rede.
+
+export interface NewsItem {
+  titulo: string;
+  resumo: string | null;
+  link: string;
+  fonte: string;
+  /** Slug da fonte em ide_news_sources */
+  fonte_slug: string;
+  cor?: string;
+  logo?: string;
+  /** Data da release/post, quando a fonte informa */
+  publicado_em: string | null;
+  /** Versão da release (`1.105.0`, `2025.2.3`), quando o título ou a tag informa */
+  versao: string | null;
+}
+
+/**
+ * Release/post lido de uma fonte, antes de receber os dados da fonte
+ */
+export interface Entrada {
+  titulo: string;
+  resumo: string | null;
+  /** Link direto para a release/post (ou a página do changelog) */
+  link: string;
+  publicado_em: string | null;
+  /** Versão lida da tag (github_releases); nos demais adaptadores vem do título */
+  versao?: string | null;
+}
+
+/**
+ * Seletores do adaptador html: `tag`, `.classe` ou `tag.classe`
+ */
+export interface SeletoresHtml {
+  /** Elemento que contém uma release */
+  item: string;
+  titulo: string;
+  resumo?: string;
+  /** Elemento com a data (atributo datetime ou texto) */
+  data?: string;
+  /** Elemento com o link (atributo href); padrão: `a` */
+  link?: string;
+}
+
+export type AdaptadorConfig =
+  | { tipo: 'rss'; feed: string }
+  | { tipo: 'github_releases'; repo: string }
+  | { tipo: 'html'; seletores: SeletoresHtml }
+  | { tipo: 'markdown' };
+
+export interface Fonte {
+  id: string;
+  nome: string;
+  /** Página pública do changelog */
+  url: string;
+  logo?: string;
+  cor?: string;
+  adaptador: AdaptadorConfig;
+  /** Máximo de itens por sincronização (padrão: LIMITE_PADRAO) */
+  limite?: number;
+}
+
+export const LIMITE_PADRAO = 5;
+
+const TAMANHO_RESUMO = 300;
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; VibeFlow/1.0)';
+
+const MESES: Record<string, number> = {
+  jan: 0, feb: 1, fev: 1, mar: 2, apr: 3, abr: 3, may: 4, mai: 4, jun: 5,
+  jul: 6, aug: 7, ago: 7, sep: 8, set: 8, oct: 9, out: 9, nov: 10, dec: 11, dez: 11,
+};
+
+const ENTIDADES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+};
+
+export const proxificar = (url: string): string => {
+  const limpa = url.startsWith('http') ? url : `https://${url}`;
+  return `https://r.jina.ai/${limpa}`;
+};
+
+const limparTexto = (valor?: string | null): string | null =>
+  valor?.replace(/\s+/g, ' ').trim() || null;
+
+const decodificarEntidades = (texto: string): string =>
+  texto.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entidade, codigo: string) => {
+    if (codigo[0] === '#') {
+      const numero = codigo[1].toLowerCase() === 'x' ? parseInt(codigo.slice(2), 16) : parseInt(codigo.slice(1), 10);
+      return Number.isNaN(numero) ? entidade : String.fromCodePoint(numero);
+    }
+    return ENTIDADES[codigo.toLowerCase()] ?? entidade;
+  });
+
+const removerTags = (html: string): string =>
+  decodificarEntidades(html.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').replace(/<[^>]*>/g, ' '));
+
+/**
+ * Texto visível de um trecho HTML. Feeds com `type="html"` trazem o HTML
+ * escapado, que só vira tag depois da primeira decodificação.
+ */
+const textoHtml = (html: string): string | null =>
+  limparTexto(removerTags(removerTags(html)));
+
+/**
+ * Remove a sintaxe de links, ênfase e código do markdown
+ */
+const textoMarkdown = (linha: string): string | null =>
+  limparTexto(
+    linha
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[(.*?)\]\((.*?)\)/g, '$1')
+      .replace(/[*_`]+/g, '')
+      .replace(/^[-*>]\s*/, '')
+  );
+
+const resumir = (texto: string | null): string | null =>
+  texto && texto.length > TAMANHO_RESUMO ? `${texto.slice(0, TAMANHO_RESUMO - 3).trimEnd()}...` : texto;
+
+const resolverLink = (href: string | null | undefined, base: string): string => {
+  if (!href) return base;
+  try {
+    return new URL(decodificarEntidades(href.trim()), base).toString();
+  } catch {
+    return base;
+  }
+};
+
+/**
+ * Converte uma data do feed/API para ISO; null quando inválida
+ */
+export const normalizarData = (valor?: string | null): string | null => {
+  if (!valor) return null;
+  const data = new Date(valor.trim());
+  return Number.isNaN(data.getTime()) ? null : data.toISOString();
+};
+
+/**
+ * Procura uma data em texto livre: `2025-01-15`, `January 15, 2025`,
+ * `Jan 15 2025` ou `15 de janeiro de 2025`
+ */
+export const extrairData = (texto: string): string | null => {
+  const iso = texto.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) {
+    return montarData(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+  }
+
+  const mesDiaAno = texto.match(/\b([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/);
+  if (mesDiaAno) {
+    const mes = MESES[mesDiaAno[1].slice(0, 3).toLowerCase()];
+    if (mes !== undefined) return montarData(Number(mesDiaAno[3]), mes, Number(mesDiaAno[2]));
+  }
+
+  const diaMesAno = texto.match(/\b(\d{1,2})\s+(?:de\s+)?([A-Za-zç]{3,9})\.?,?\s+(?:de\s+)?(\d{4})\b/i);
+  if (diaMesAno) {
+    const mes = MESES[diaMesAno[2].slice(0, 3).toLowerCase()];
+    if (mes !== undefined) return montarData(Number(diaMesAno[3]), mes, Number(diaMesAno[1]));
+  }
+
+  return null;
+};
+
+/**
+ * Procura um número de versão em texto livre: `1.105.0`, `v2.1`,
+ * `2025.2.3` ou `1.0.0-beta.2`. Ignora preços e porcentagens.
+ */
+export const extrairVersao = (texto: string): string | null => {
+  const match = texto.match(/(?<![\w.$])v?(\d+\.\d+(?:\.\d+){0,2}(?:-[0-9a-z]+(?:\.[0-9a-z]+)*)?)(?![\w%]|\.\d)/i);
+  return match ? match[1] : null;
+};
+
+const montarData = (ano: number, mes: number, dia: number): string | null => {
+  const data = new Date(Date.UTC(ano, mes, dia));
+  return data.getUTCMonth() === mes && data.getUTCDate() === dia ? data.toISOString() : null;
+};
+
+// ---------------------------------------------------------------------------
+// rss: RSS 2.0 (<item>) e Atom (<entry>)
+// ---------------------------------------------------------------------------
+
+const conteudoTag = (xml: string, ...tags: string[]): string | null => {
+  for (const tag of tags) {
+    const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+    if (match) return match[1];
+  }
+  return null;
+};
+
+const linkAtom = (entrada: string): string | null => {
+  const links = [...entrada.matchAll(/<link\b([^>]*)\/?>/gi)].map(m => m[1]);
+  const alternativo = links.find(attrs => !/rel=["']/.test(attrs) || /rel=["']alternate["']/.test(attrs));
+  return alternativo?.match(/href=["']([^"']+)["']/)?.[1] ?? null;
+};
+
+export const lerRss = (xml: string, base: string): Entrada[] => {
+  const atom = /<feed[\s>]/.test(xml);
+  const blocos = [...xml.matchAll(atom ? /<entry[\s>]([\s\S]*?)<\/entry>/g : /<item[\s>]([\s\S]*?)<\/item>/g)]
+    .map(m => m[1]);
+
+  return blocos.flatMap((bloco): Entrada[] => {
+    const titulo = textoHtml(conteudoTag(bloco, 'title') ?? '');
+    if (!titulo) return [];
+
+    const href = atom ? linkAtom(bloco) : textoHtml(conteudoTag(bloco, 'link') ?? '') ?? textoHtml(conteudoTag(bloco, 'guid') ?? '');
+    const resumo = textoHtml(conteudoTag(bloco, 'description', 'summary', 'content', 'content:encoded') ?? '');
+
+    return [{
+      titulo,
+      resumo: resumir(resumo),
+      link: resolverLink(href, base),
+      publicado_em: normalizarData(textoHtml(conteudoTag(bloco, 'pubDate', 'published', 'updated', 'dc:date') ?? '')),
+    }];
+  });
+};
+
+// ---------------------------------------------------------------------------
+// github_releases: GET /repos/{owner}/{repo}/releases
+// ---------------------------------------------------------------------------
+
+interface GithubRelease {
+  name: string | null;
+  tag_name: string;
+  body: string | null;
+  html_url: string;
+  published_at: string | null;
+  draft: boolean;
+  prerelease: boolean;
+}
+
+/**
+ * Primeira linha de texto do corpo da release (ignora headings e linhas vazias)
+ */
+const primeiroParagrafo = (markdown: string | null): string | null => {
+  for (const linha of (markdown ?? '').split('\n')) {
+    const limpa = linha.trim();
+    if (!limpa || /^#+\s/.test(limpa) || /^[-=]{3,}$/.test(limpa)) continue;
+    const texto = textoMarkdown(limpa);
+    if (texto) return texto;
+  }
+  return null;
+};
+
+export const lerGithubReleases = (json: string): Entrada[] => {
+  const releases = JSON.parse(json) as GithubRelease[];
+  if (!Array.isArray(releases)) {
+    throw new Error('Resposta inesperada da API de releases do GitHub');
+  }
+
+  return releases
+    .filter(release => !release.draft && !release.prerelease)
+    .map(release => ({
+      titulo: limparTexto(release.name) ?? release.tag_name,
+      resumo: resumir(primeiroParagrafo(release.body)),
+      link: release.html_url,
+      publicado_em: normalizarData(release.published_at),
+      versao: extrairVersao(release.tag_name) ?? extrairVersao(release.name ?? ''),
+    }));
+};
+
+// ---------------------------------------------------------------------------
+// html: seletores `tag`, `.classe` ou `tag.classe`
+// ---------------------------------------------------------------------------
+
+interface Elemento {
+  atributos: string;
+  interno: string;
+}
+
+const TAGS_VAZIAS = new Set(['img', 'br', 'hr', 'input', 'meta', 'link', 'source']);
+
+const atributo = (atributos: string, nome: string): string | null =>
+  atributos.match(new RegExp(`\\b${nome}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'))?.slice(1).find(v => v !== undefined) ?? null;
+
+/**
+ * Elementos que casam com o seletor, na ordem do documento. Elementos da
+ * mesma tag aninhados dentro de um resultado não são retornados.
+ */
+export const encontrarElementos = (html: string, seletor: string): Elemento[] => {
+  const [tag, classe] = seletor.split('.');
+  const padraoAbertura = new RegExp(`<(${tag || '[a-z][a-z0-9-]*'})(\\s[^>]*)?>`, 'gi');
+  const elementos: Elemento[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = padraoAbertura.exec(html))) {
+    const nome = match[1].toLowerCase();
+    const atributos = match[2] ?? '';
+    if (classe && !(atributo(atributos, 'class') ?? '').split(/\s+/).includes(classe)) continue;
+
+    const inicio = match.index + match[0].length;
+    if (TAGS_VAZIAS.has(nome) || match[0].endsWith('/>')) {
+      elementos.push({ atributos, interno: '' });
+      continue;
+    }
+
+    // Procura o fechamento correspondente, contando aberturas da mesma tag
+    const padraoTag = new RegExp(`<(/?)${nome}(?:\\s[^>]*)?>`, 'gi');
+    padraoTag.lastIndex = inicio;
+    let profundidade = 1;
+    let fim = html.length;
+    let tagMatch: RegExpExecArray | null;
+    while ((tagMatch = padraoTag.exec(html))) {
+      profundidade += tagMatch[1] ? -1 : 1;
+      if (profundidade === 0) {
+        fim = tagMatch.index;
+        break;
+      }
+    }
+
+    elementos.push({ atributos, interno: html.slice(inicio, fim) });
+    padraoAbertura.lastIndex = fim;
+  }
+
+  return elementos;
+};
+
+export const lerHtml = (html: string, seletores: SeletoresHtml, base: string): Entrada[] =>
+  encontrarElementos(html, seletores.item).flatMap((item): Entrada[] => {
+    const [tituloEl] = encontrarElementos(item.interno, seletores.titulo);
+    const titulo = tituloEl ? textoHtml(tituloEl.interno) : null;
+    if (!titulo) return [];
+
+    const [resumoEl] = seletores.resumo ? encontrarElementos(item.interno, seletores.resumo) : [];
+    const [dataEl] = seletores.data ? encontrarElementos(item.interno, seletores.data) : [];
+    const [linkEl] = encontrarElementos(item.interno, seletores.link ?? 'a');
+
+    const textoData = dataEl ? atributo(dataEl.atributos, 'datetime') ?? textoHtml(dataEl.interno) : null;
+
+    return [{
+      titulo,
+      resumo: resumir(resumoEl ? textoHtml(resumoEl.interno) : null),
+      link: resolverLink(linkEl ? atributo(linkEl.atributos, 'href') : null, base),
+      publicado_em: textoData ? normalizarData(textoData) ?? extrairData(textoData) : null,
+    }];
+  });
+
+// ---------------------------------------------------------------------------
+// markdown: saída do r.jina.ai, um item por heading
+// ---------------------------------------------------------------------------
+
+interface Heading {
+  nivel: number;
+  texto: string;
+  /** Índice da linha do heading */
+  inicio: number;
+  /** Índice da primeira linha depois do heading */
+  proxima: number;
+}
+
+/**
+ * Linha com só uma data, como as que os changelogs põem abaixo do título
+ */
+const ehSoData = (linha: string): boolean =>
+  extrairData(linha) !== null && linha.replace(/[^A-Za-z0-9]/g, '').length <= 16;
+
+export const lerMarkdown = (conteudo: string, base: string): Entrada[] => {
+  const trecho = conteudo.includes('Markdown Content:')
+    ? conteudo.split('Markdown Content:').pop() || conteudo
+    : conteudo;
+  const linhas = trecho.split('\n').map(l => l.trim());
+
+  // Headings "# Título" e "Título" + underline ("===" nível 1, "---" nível 2)
+  const headings: Heading[] = [];
+  linhas.forEach((linha, i) => {
+    const hash = linha.match(/^(#{1,4})\s+(.*)$/);
+    if (hash) {
+      headings.push({ nivel: hash[1].length, texto: hash[2], inicio: i, proxima: i + 1 });
+      return;
+    }
+    const underline = linhas[i + 1]?.match(/^([-=])\1{2,}$/);
+    if (linha && underline && !/^[-=]{3,}$/.test(linha)) {
+      headings.push({ nivel: underline[1] === '=' ? 1 : 2, texto: linha, inicio: i, proxima: i + 2 });
+    }
+  });
+
+  // Changelogs usam um nível por release, abaixo do título da página: o
+  // nível mais raso que se repete
+  const niveis = [...new Set(headings.map(h => h.nivel))].sort((a, b) => a - b);
+  const nivelRelease = niveis.find(n => headings.filter(h => h.nivel === n).length > 1) ?? niveis[0];
+
+  return headings
+    .filter(h => h.nivel === nivelRelease)
+    .flatMap((heading, indice, releases): Entrada[] => {
+      const titulo = textoMarkdown(heading.texto.replace(/\s+#+$/, ''));
+      if (!titulo) return [];
+
+      const corpo = linhas.slice(heading.proxima, releases[indice + 1]?.inicio ?? linhas.length);
+      const primeira = corpo.find(l => l && !/^#+\s/.test(l) && !/^[-=]{3,}$/.test(l) && !ehSoData(l) && textoMarkdown(l));
+      const href = heading.texto.match(/\[[^\]]*\]\(([^)\s]+)[^)]*\)/)?.[1];
+
+      return [{
+        titulo,
+        resumo: resumir(primeira ? textoMarkdown(primeira) : null),
+        link: resolverLink(href, base),
+        publicado_em: extrairData(heading.texto) ?? extrairData(corpo.slice(0, 3).join(' ')),
+      }];
+    });
+};
+
+// ---------------------------------------------------------------------------
+// Busca
+// ---------------------------------------------------------------------------
+
+const urlDoAdaptador = (fonte: Fonte): string => {
+  switch (fonte.adaptador.tipo) {
+    case 'rss':
+      return fonte.adaptador.feed;
+    case 'github_releases':
+      return `https://api.github.com/repos/${fonte.adaptador.repo}/releases?per_page=${fonte.limite ?? LIMITE_PADRAO}`;
+    case 'html':
+      return fonte.url;
+    case 'markdown':
+      return proxificar(fonte.url);
+  }
+};
+
+/**
+ * Lê o conteúdo de uma fonte com o seu adaptador
+ */
+export const lerFonte = (fonte: Fonte, conteudo: string): Entrada[] => {
+  switch (fonte.adaptador.tipo) {
+    case 'rss':
+      return lerRss(conteudo, fonte.url);
+    case 'github_releases':
+      return lerGithubReleases(conteudo);
+    case 'html':
+      return lerHtml(conteudo, fonte.adaptador.seletores, fonte.url);
+    case 'markdown':
+      return lerMarkdown(conteudo, fonte.url);
+  }
+};
+
+/**
+ * Busca as novidades de uma fonte. Lança erro quando a fonte não responde
+ * ou não tem nenhum item reconhecível.
+ */
+export const buscarFonte = async (fonte: Fonte): Promise<NewsItem[]> => {
+  const resposta = await fetch(urlDoAdaptador(fonte), {
+    headers: {
+      'User-Agent': USER_AGENT,
+      ...(fonte.adaptador.tipo === 'github_releases' && { 'Accept': 'application/vnd.github+json' }),
+    },
+  });
+
+  if (!resposta.ok) {
+    throw new Error(`Status ${resposta.status}`);
+  }
+
+  const entradas = lerFonte(fonte, await resposta.text());
+  if (entradas.length === 0) {
+    throw new Error(`Nenhum item reconhecido pelo adaptador ${fonte.adaptador.tipo}`);
+  }
+
+  return entradas.slice(0, fonte.limite ?? LIMITE_PADRAO).map(entrada => ({
+    ...entrada,
+    versao: entrada.versao ?? extrairVersao(entrada.titulo),
+    fonte: fonte.nome,
+    fonte_slug: fonte.id,
+    cor: fonte.cor,
+    logo: fonte.logo,
+  }));
+};
@@ -1,9 +1,18 @@
 // Edge Function: sync-ide-news
 // Busca novidades das IDEs e salva no banco de dados
-// Executada diariamente às 00:00 UTC via pg_cron
+// Único pipeline de novidades: chamada pelo botão "Atualizar" da página e
+// diariamente às 08:00 UTC via pg_cron (run_scheduled_job('sync-ide-news'))
+// Body opcional: { "fonte": "<slug>" } sincroniza só essa fonte ("Rodar
+// agora" em /ide-news-manager)
+// Com IDE_NEWS_SUMMARY_PROVIDER configurado, novidades sem resumo_ia recebem
+// um resumo em português e tags (resumos.ts)
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { buscarFonte, type Fonte } from "./adapters.ts";
+import { paraFonte } from "./sources.ts";
+import { provedorDoAmbiente, type ProvedorResumo } from "./resumos.ts";
+import type { IdeNewsSource, IdeNewsSourceResult } from "../_shared/ide-news-types.ts";
 
 // CORS headers
 const corsHeaders = {
@@ -11,126 +20,50 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface NewsItem {
-  titulo: string;
-  resumo?: string | null;
-  link: string;
-  fonte: string;
-  cor?: string;
-  logo?: string;
-}
-
-interface Fonte {
-  id: string;
-  nome: string;
-  url: string;
-  logo?: string;
-  cor?: string;
-}
-
-const FONTES: Fonte[] = [
-  { id: 'windsurf', nome: 'Windsurf', url: 'https://windsurf.com/changelog', logo: '🌀', cor: '#2563eb' },
-  { id: 'cursor', nome: 'Cursor', url: 'https://www.cursor.com/changelog', logo: '🖥️', cor: '#111827' },
-  { id: 'replit', nome: 'Replit', url: 'https://blog.replit.com', logo: '⚡', cor: '#f97316' },
-  { id: 'bolt', nome: 'Bolt', url: 'https://bolt.new/changelog', logo: '🚧', cor: '#0ea5e9' },
-  { id: 'bind', nome: 'Bind AI', url: 'https://bind.ai/changelog', logo: '🔗', cor: '#6d28d9' },
-  { id: 'firebase', nome: 'Firebase Studio', url: 'https://firebase.google.com/updates', logo: '🔥', cor: '#f59e0b' },
-  { id: 'vscode', nome: 'VS Code', url: 'https://code.visualstudio.com/updates', logo: '🧩', cor: '#2563eb' },
-  { id: 'jetbrains', nome: 'JetBrains', url: 'https://blog.jetbrains.com', logo: '💡', cor: '#e11d48' },
-  { id: 'antgravit', nome: 'Antgravit', url: 'https://antgravit.com/changelog', logo: '🚀', cor: '#6d28d9' },
-];
-
-const proxificar = (url: string): string => {
-  const limpa = url.startsWith('http') ? url : `https://${url}`;
-  return `https://r.jina.ai/${limpa}`;
-};
-
-const limparTexto = (valor?: string | null): string | null => 
-  valor?.replace(/\s+/g, ' ').trim() || null;
-
-const limparLink = (linha: string | null | undefined): string =>
-  (linha || '').replace(/\[(.*?)\]\((.*?)\)/g, '$1').trim();
-
-const extrairItensMarkdown = (conteudo: string, fonte: Fonte): NewsItem[] => {
-  const trecho = conteudo.includes('Markdown Content:')
-    ? conteudo.split('Markdown Content:').pop() || conteudo
-    : conteudo;
-
-  const linhas = trecho.split('\n').map(l => l.trim());
-  const itens: NewsItem[] = [];
-
-  const ehVersao = (linha: string) => /^\d+\.\d+(\.\d+)?$/.test(linha);
-  const ehHeadingHash = (linha: string) => /^#+\s+/.test(linha);
-  const ehUnderline = (linha: string) => /^[-=]{3,}$/.test(linha);
-  const jaInserido = (titulo?: string | null) =>
-    titulo && itens.some(i => i.titulo === titulo);
-
-  for (let i = 0; i < linhas.length; i++) {
-    const atual = linhas[i];
-    if (!atual) continue;
-
-    // Formato "# Título"
-    if (ehHeadingHash(atual)) {
-      const titulo = limparTexto(limparLink(atual.replace(/^#+\s*/, ''))) || 'Atualização do produto';
-      let resumo: string | null = null;
-      for (let j = i + 1; j < linhas.length; j++) {
-        const prox = linhas[j];
-        if (!prox) continue;
-        if (ehHeadingHash(prox)) break;
-        resumo = limparTexto(limparLink(prox.replace(/^[-*]\s*/, '')));
-        break;
-      }
-      if (!jaInserido(titulo)) {
-        itens.push({ 
-          titulo, 
-          resumo, 
-          link: fonte.url, 
-          fonte: fonte.nome, 
-          cor: fonte.cor, 
-          logo: fonte.logo 
-        });
-      }
-      continue;
-    }
-
-    // Formato "Título" + underline "----"
-    const proxima = linhas[i + 1];
-    if (proxima && ehUnderline(proxima) && !ehVersao(atual)) {
-      const titulo = limparTexto(limparLink(atual)) || 'Atualização do produto';
-      let resumo: string | null = null;
-      for (let j = i + 2; j < linhas.length; j++) {
-        const prox = linhas[j];
-        if (!prox) continue;
-        if (ehUnderline(prox) || ehHeadingHash(prox)) break;
-        resumo = limparTexto(limparLink(prox.replace(/^[-*]\s*/, '')));
-        break;
-      }
-      if (!jaInserido(titulo)) {
-        itens.push({ 
-          titulo, 
-          resumo, 
-          link: fonte.url, 
-          fonte: fonte.nome, 
-          cor: fonte.cor, 
-          logo: fonte.logo 
-        });
-      }
-    }
+// Limite de chamadas ao provedor por execução; o restante fica para a próxima
+const MAX_RESUMOS_POR_EXECUCAO = 20;
+
+/**
+ * Gera resumo_ia e tags das novidades das fontes sincronizadas que ainda não
+ * têm resumo. Falhas do provedor ficam no log e não interrompem a
+ * sincronização. Retorna quantas novidades foram resumidas.
+ */
+const resumirPendentes = async (
+  supabase: ReturnType<typeof createClient>,
+  provedor: ProvedorResumo,
+  slugs: string[],
+): Promise<number> => {
+  if (slugs.length === 0) return 0;
+
+  const { data: pendentes, error } = await supabase
+    .from('ide_news')
+    .select('id, titulo, resumo, fonte, versao')
+    .is('resumo_ia', null)
+    .in('fonte_slug', slugs)
+    .order('publicado_em', { ascending: false, nullsFirst: false })
+    .limit(MAX_RESUMOS_POR_EXECUCAO);
+
+  if (error) {
+    console.error('Erro ao buscar novidades sem resumo:', error);
+    return 0;
   }
 
-  // Fallback: se nada extraído, devolve um item padrão
-  if (itens.length === 0) {
-    return [{
-      titulo: 'Ver changelog completo',
-      resumo: 'Acesse o changelog para ver as últimas novidades.',
-      link: fonte.url,
-      fonte: fonte.nome,
-      cor: fonte.cor,
-      logo: fonte.logo,
-    }];
+  let resumidas = 0;
+  for (const novidade of pendentes ?? []) {
+    try {
+      const { resumo, tags } = await provedor.resumir(novidade);
+      const { error: updateError } = await supabase
+        .from('ide_news')
+        .update({ resumo_ia: resumo, tags, resumo_ia_modelo: provedor.nome })
+        .eq('id', novidade.id);
+      if (updateError) throw updateError;
+      resumidas++;
+    } catch (error) {
+      console.error(`Erro ao resumir "${novidade.titulo}" (${provedor.nome}):`, error.message ?? error);
+    }
   }
 
-  return itens.slice(0, 2); // Limitar a 2 itens por fonte
+  return resumidas;
 };
 
 serve(async (req) => {
@@ -148,12 +81,16 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    const body = await req.json().catch(() => ({}));
+    const slug: string | null = typeof body?.fonte === 'string' ? body.fonte : null;
+
     // Criar log de sincronização
     const { data: logData, error: logError } = await supabase
       .from('ide_news_sync_log')
       .insert({
         status: 'running',
         sync_started_at: new Date().toISOString(),
+        source_slug: slug,
       })
       .select()
       .single();
@@ -164,63 +101,76 @@ serve(async (req) => {
 
     const logId = logData?.id;
 
-    // Buscar novidades de todas as fontes
-    const resultados = await Promise.all(FONTES.map(async (fonte) => {
-      try {
-        const respostaProxy = await fetch(proxificar(fonte.url), {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (compatible; VibeFlow/1.0)',
-          },
-        });
+    // Fontes cadastradas em ide_news_sources. Uma linha com configuração
+    // inválida conta como fonte com falha
+    let consulta = supabase
+      .from('ide_news_sources')
+      .select('*')
+      .eq('is_enabled', true)
+      .order('position');
+    if (slug) {
+      consulta = consulta.eq('slug', slug);
+    }
 
-        if (!respostaProxy.ok) {
-          console.warn(`Falha ao buscar ${fonte.nome}: Status ${respostaProxy.status}`);
-          return [{
-            titulo: `Ver changelog do ${fonte.nome}`,
-            resumo: 'Acesse o changelog para ver as últimas novidades.',
-            link: fonte.url,
-            fonte: fonte.nome,
-            cor: fonte.cor,
-            logo: fonte.logo,
-          }];
-        }
+    const { data: linhas, error: fontesError } = await consulta;
+
+    if (fontesError) {
+      const mensagem = `Erro ao carregar fontes: ${fontesError.message}`;
+      if (logId) {
+        await supabase
+          .from('ide_news_sync_log')
+          .update({ status: 'error', sync_completed_at: new Date().toISOString(), error_message: mensagem })
+          .eq('id', logId);
+      }
+      throw new Error(mensagem);
+    }
+
+    // Resultado de cada fonte, na ordem de ide_news_sources
+    const resultadosFontes: IdeNewsSourceResult[] = [];
+    const fontes: Fonte[] = [];
+    for (const linha of (linhas ?? []) as IdeNewsSource[]) {
+      try {
+        fontes.push(paraFonte(linha));
+      } catch (error) {
+        console.error(`Fonte ${linha.slug} ignorada:`, error.message);
+        resultadosFontes.push({ source: linha.slug, name: linha.name, status: 'error', items: 0, error: error.message });
+      }
+    }
 
-        const texto = await respostaProxy.text();
-        const itens = extrairItensMarkdown(texto, fonte);
+    // Buscar novidades de todas as fontes. Uma fonte que falha fica de
+    // fora da sincronização e mantém as novidades já gravadas
+    const resultados = await Promise.all(fontes.map(async (fonte) => {
+      try {
+        const itens = await buscarFonte(fonte);
+        resultadosFontes.push({ source: fonte.id, name: fonte.nome, status: 'success', items: itens.length, error: null });
         return itens;
       } catch (error) {
-        console.error(`Erro ao processar ${fonte.nome}:`, error);
-        return [{
-          titulo: `Ver changelog do ${fonte.nome}`,
-          resumo: 'Acesse o changelog para ver as últimas novidades.',
-          link: fonte.url,
-          fonte: fonte.nome,
-          cor: fonte.cor,
-          logo: fonte.logo,
-        }];
+        console.error(`Erro ao processar ${fonte.nome} (${fonte.adaptador.tipo}):`, error);
+        resultadosFontes.push({ source: fonte.id, name: fonte.nome, status: 'error', items: 0, error: error.message });
+        return [];
       }
     }));
 
-    const todasNovidades = resultados.flat();
+    const ordem = (linhas ?? []).map((linha) => linha.slug);
+    resultadosFontes.sort((a, b) => ordem.indexOf(a.source) - ordem.indexOf(b.source));
+    const fontesComFalha = resultadosFontes.filter((r) => r.status === 'error').map((r) => r.source);
 
-    // Limpar novidades antigas
-    const { error: deleteError } = await supabase
-      .from('ide_news')
-      .delete()
-      .neq('id', '00000000-0000-0000-0000-000000000000'); // Deleta tudo
+    const todasNovidades = resultados.flat();
 
-    if (deleteError) {
-      console.error('Erro ao limpar novidades antigas:', deleteError);
-    }
+    // Upsert transacional (sync_ide_news): itens já vistos mantêm o
+    // created_at e a tabela nunca fica vazia durante a sincronização
+    const { data: contagem, error: syncError } = todasNovidades.length > 0
+      ? await supabase.rpc('sync_ide_news', { p_itens: todasNovidades }).single()
+      : { data: { inserted: 0, updated: 0 }, error: null };
 
-    // Inserir novas novidades
-    const { error: insertError } = await supabase
-      .from('ide_news')
-      .insert(todasNovidades);
+    // Sem nenhuma linha habilitada, fontesComFalha também fica vazia
+    const totalFontes = linhas?.length ?? 0;
+    if (syncError || fontesComFalha.length === totalFontes) {
+      const semFontes = slug ? `Fonte ${slug} não encontrada ou desabilitada` : 'Nenhuma fonte habilitada em ide_news_sources';
+      const mensagem = syncError?.message
+        ?? (totalFontes === 0 ? semFontes : 'Nenhuma fonte respondeu');
+      console.error('Erro ao gravar novidades:', mensagem);
 
-    if (insertError) {
-      console.error('Erro ao inserir novidades:', insertError);
-      
       // Atualizar log com erro
       if (logId) {
         await supabase
@@ -228,8 +178,10 @@ serve(async (req) => {
           .update({
             status: 'error',
             sync_completed_at: new Date().toISOString(),
-            error_message: insertError.message,
+            error_message: mensagem,
             items_fetched: todasNovidades.length,
+            failed_sources: fontesComFalha,
+            source_results: resultadosFontes,
           })
           .eq('id', logId);
       }
@@ -237,8 +189,10 @@ serve(async (req) => {
       return new Response(
         JSON.stringify({ 
           success: false, 
-          error: insertError.message,
+          error: mensagem,
           items_fetched: todasNovidades.length,
+          failed_sources: fontesComFalha,
+          source_results: resultadosFontes,
         }),
         { 
           status: 500,
@@ -247,8 +201,17 @@ serve(async (req) => {
       );
     }
 
-    // Limpar novidades antigas (manter apenas últimas 100)
-    await supabase.rpc('cleanup_old_ide_news');
+    // Resumos em português (etapa opcional)
+    let resumidas = 0;
+    try {
+      const provedor = provedorDoAmbiente((nome) => Deno.env.get(nome), fetch);
+      if (provedor) {
+        const sincronizadas = resultadosFontes.filter((r) => r.status === 'success').map((r) => r.source);
+        resumidas = await resumirPendentes(supabase, provedor, sincronizadas);
+      }
+    } catch (error) {
+      console.error('Etapa de resumo ignorada:', error.message);
+    }
 
     // Limpar logs antigos
     await supabase.rpc('cleanup_old_sync_logs');
@@ -261,6 +224,12 @@ serve(async (req) => {
           status: 'success',
           sync_completed_at: new Date().toISOString(),
           items_fetched: todasNovidades.length,
+          items_inserted: contagem.inserted,
+          items_updated: contagem.updated,
+          items_summarized: resumidas,
+          failed_sources: fontesComFalha,
+          source_results: resultadosFontes,
+          error_message: fontesComFalha.length > 0 ? `Fontes com falha: ${fontesComFalha.join(', ')}` : null,
         })
         .eq('id', logId);
     }
@@ -269,6 +238,11 @@ serve(async (req) => {
       JSON.stringify({ 
         success: true, 
         items_synced: todasNovidades.length,
+        items_inserted: contagem.inserted,
+        items_updated: contagem.updated,
+        items_summarized: resumidas,
+        failed_sources: fontesComFalha,
+        source_results: resultadosFontes,
         timestamp: new Date().toISOString(),
       }),
       { 
@@ -0,0 +1,239 @@
+// Resumos em português das novidades (etapa opcional do sync-ide-news)
+//
+// A maioria dos changelogs é em inglês e o `resumo` gravado é só a primeira
+// linha abaixo do título. Quando IDE_NEWS_SUMMARY_PROVIDER está configurado,
+// a sincronização pede a um provedor um resumo de 2 a 3 frases em português
+// e tags do vocabulário TAGS_NOVIDADES, gravados em ide_news.resumo_ia e
+// ide_news.tags.
+//
+// Provedores implementam ProvedorResumo:
+// - openai: qualquer API compatível com /chat/completions (OpenAI, gateways)
+// - stub: determinístico e sem rede, para testes e desenvolvimento local
+//
+// Sem imports de Deno: o módulo é testado no Jest com um fetch falso.
+
+/**
+ * Tags que um resumo pode ter. Provedores não inventam tags novas: o que
+ * não estiver aqui é descartado por normalizarResumo().
+ */
+export const TAGS_NOVIDADES = [
+  'agent',
+  'model',
+  'pricing',
+  'mcp',
+  'performance',
+  'security',
+  'ui',
+  'extension',
+  'integration',
+  'bugfix',
+] as const;
+
+export type TagNovidade = typeof TAGS_NOVIDADES[number];
+
+export const MAX_TAGS = 4;
+
+const MAX_FRASES = 3;
+
+const TAMANHO_MAXIMO = 480;
+
+/**
+ * Novidade enviada ao provedor
+ */
+export interface EntradaResumo {
+  titulo: string;
+  /** Trecho da fonte (normalmente em inglês) */
+  resumo: string | null;
+  fonte: string;
+  versao: string | null;
+}
+
+export interface ResumoGerado {
+  /** 2 a 3 frases em português */
+  resumo: string;
+  tags: TagNovidade[];
+}
+
+export interface ProvedorResumo {
+  /** Gravado em ide_news.resumo_ia_modelo, ex.: `openai:gpt-4o-mini` ou `stub` */
+  nome: string;
+  resumir(entrada: EntradaResumo): Promise<ResumoGerado>;
+}
+
+type Fetch = (url: string, init: { method: string; headers: Record<string, string>; body: string }) => Promise<{
+  ok: boolean;
+  status: number;
+  json(): Promise<unknown>;
+}>;
+
+const ehTag = (valor: string): valor is TagNovidade =>
+  (TAGS_NOVIDADES as readonly string[]).includes(valor);
+
+/**
+ * Valida a resposta de um provedor: no máximo 3 frases e 480 caracteres,
+ * tags do vocabulário (sem repetição, no máximo 4). Lança erro quando não
+ * há resumo.
+ */
+export const normalizarResumo = (bruto: unknown): ResumoGerado => {
+  const dados = (bruto && typeof bruto === 'object' ? bruto : {}) as Record<string, unknown>;
+  const texto = typeof dados.resumo === 'string' ? dados.resumo.replace(/\s+/g, ' ').trim() : '';
+  if (!texto) {
+    throw new Error('Provedor não retornou um resumo');
+  }
+
+  let resumo = texto.split(/(?<=[.!?])\s+/).slice(0, MAX_FRASES).join(' ');
+  if (resumo.length > TAMANHO_MAXIMO) {
+    resumo = `${resumo.slice(0, TAMANHO_MAXIMO - 3).trimEnd()}...`;
+  }
+
+  const tags = (Array.isArray(dados.tags) ? dados.tags : [])
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map(tag => tag.trim().toLowerCase())
+    .filter(ehTag);
+
+  return { resumo, tags: [...new Set(tags)].slice(0, MAX_TAGS) };
+};
+
+// ---------------------------------------------------------------------------
+// stub: determinístico, sem rede
+// ---------------------------------------------------------------------------
+
+const PALAVRAS_TAGS: Record<TagNovidade, RegExp> = {
+  agent: /\bagent(e|s|ic)?\b|\bcascade\b|\bcomposer\b/i,
+  model: /\bmodel(o|os|s)?\b|\bgpt-?\d|\bclaude\b|\bgemini\b|\bllm\b/i,
+  pricing: /\bpric(e|es|ing)\b|\bpreço|\bsubscriptions?\b|\bbilling\b|\bcredits?\b|\bfree tier\b/i,
+  mcp: /\bmcp\b|model context protocol/i,
+  performance: /\bfaster\b|\bperformance\b|\blatency\b|\bspeed\b|\bdesempenho\b/i,
+  security: /\bsecurity\b|\bsegurança\b|\bvulnerabilit/i,
+  ui: /\bui\b|\binterface\b|\blayout\b|\btheme\b|\bdesign\b/i,
+  extension: /\bextens(ion|ões|ao|ão)s?\b|\bplugin/i,
+  integration: /\bintegra(tion|ção|ções)s?\b|\bgithub\b|\bslack\b/i,
+  bugfix: /\bbug\b|\bfix(es|ed)?\b|\bcorre(ção|ções)\b|\brecovery\b|\bpatch\b/i,
+};
+
+/**
+ * Provedor sem rede: monta o resumo a partir do título e do trecho da fonte
+ * e escolhe as tags por palavras-chave. A mesma entrada sempre gera o mesmo
+ * resultado.
+ */
+export const criarProvedorStub = (): ProvedorResumo => ({
+  nome: 'stub',
+  resumir: async (entrada) => {
+    const versao = entrada.versao ? ` a versão ${entrada.versao}` : '';
+    const frases = [`${entrada.fonte} publicou${versao}: ${entrada.titulo.replace(/[.!?]+$/, '')}.`];
+    if (entrada.resumo) {
+      frases.push(`Destaque da fonte: ${entrada.resumo.replace(/[.!?]+$/, '')}.`);
+    }
+
+    const texto = `${entrada.titulo} ${entrada.resumo ?? ''}`;
+    const tags = TAGS_NOVIDADES.filter(tag => PALAVRAS_TAGS[tag].test(texto));
+
+    return normalizarResumo({ resumo: frases.join(' '), tags });
+  },
+});
+
+// ---------------------------------------------------------------------------
+// openai: API compatível com /chat/completions
+// ---------------------------------------------------------------------------
+
+export interface ConfigOpenAi {
+  apiKey: string;
+  modelo: string;
+  /** Padrão: https://api.openai.com/v1 */
+  baseUrl?: string;
+  fetch: Fetch;
+}
+
+const INSTRUCOES = [
+  'Você resume changelogs de IDEs e ferramentas de programação com IA para uma comunidade brasileira.',
+  'Responda só com JSON: {"resumo": string, "tags": string[]}.',
+  'O resumo tem 2 ou 3 frases em português do Brasil, diz o que mudou e por que importa, sem marketing.',
+  `As tags são até ${MAX_TAGS} desta lista: ${TAGS_NOVIDADES.join(', ')}.`,
+].join(' ');
+
+export const criarProvedorOpenAi = (config: ConfigOpenAi): ProvedorResumo => ({
+  nome: `openai:${config.modelo}`,
+  resumir: async (entrada) => {
+    const baseUrl = (config.baseUrl ?? 'https://api.openai.com/v1').replace(/\/+$/, '');
+    const resposta = await config.fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: config.modelo,
+        temperature: 0.2,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: INSTRUCOES },
+          {
+            role: 'user',
+            content: JSON.stringify({
+              fonte: entrada.fonte,
+              titulo: entrada.titulo,
+              versao: entrada.versao,
+              trecho: entrada.resumo,
+            }),
+          },
+        ],
+      }),
+    });
+
+    if (!resposta.ok) {
+      throw new Error(`Provedor de resumo respondeu ${resposta.status}`);
+    }
+
+    const corpo = await resposta.json() as { choices?: { message?: { content?: string } }[] };
+    const conteudo = corpo.choices?.[0]?.message?.content;
+    if (!conteudo) {
+      throw new Error('Resposta do provedor de resumo sem conteúdo');
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(conteudo);
+    } catch {
+      throw new Error('Resposta do provedor de resumo não é JSON');
+    }
+    return normalizarResumo(json);
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Configuração
+// ---------------------------------------------------------------------------
+
+/**
+ * Provedor configurado nas variáveis de ambiente, ou null quando a etapa de
+ * resumo está desligada (IDE_NEWS_SUMMARY_PROVIDER vazio):
+ * - IDE_NEWS_SUMMARY_PROVIDER: `openai` ou `stub`
+ * - IDE_NEWS_SUMMARY_API_KEY: obrigatória para `openai`
+ * - IDE_NEWS_SUMMARY_MODEL: padrão `gpt-4o-mini`
+ * - IDE_NEWS_SUMMARY_BASE_URL: para gateways compatíveis com a API da OpenAI
+ */
+export const provedorDoAmbiente = (env: (nome: string) => string | undefined, fetch: Fetch): ProvedorResumo | null => {
+  const tipo = env('IDE_NEWS_SUMMARY_PROVIDER')?.trim();
+
+  switch (tipo) {
+    case undefined:
+    case '':
+      return null;
+    case 'stub':
+      return criarProvedorStub();
+    case 'openai': {
+      const apiKey = env('IDE_NEWS_SUMMARY_API_KEY');
+      if (!apiKey) {
+        throw new Error('IDE_NEWS_SUMMARY_API_KEY é obrigatória com IDE_NEWS_SUMMARY_PROVIDER=openai');
+      }
+      return criarProvedorOpenAi({
+        apiKey,
+        modelo: env('IDE_NEWS_SUMMARY_MODEL') || 'gpt-4o-mini',
+        baseUrl: env('IDE_NEWS_SUMMARY_BASE_URL') || undefined,
+        fetch,
+      });
+    }
+    default:
+      throw new Error(`Provedor de resumo desconhecido: ${tipo}`);
+  }
+};
@@ -0,0 +1,71 @@
+// Registro de fontes do sync-ide-news
+//
+// As fontes ficam na tabela ide_news_sources (editável pelos admins). Cada
+// linha vira uma Fonte; uma linha com adapter_config inválido é recusada com
+// um erro que diz o que falta, e as demais fontes seguem na sincronização.
+
+import type { IdeNewsSource } from "../_shared/ide-news-types.ts";
+import type { AdaptadorConfig, Fonte, SeletoresHtml } from "./adapters.ts";
+
+const texto = (valor: unknown): string | null =>
+  typeof valor === 'string' && valor.trim() !== '' ? valor.trim() : null;
+
+const lerSeletores = (valor: unknown): SeletoresHtml | null => {
+  if (!valor || typeof valor !== 'object') return null;
+  const seletores = valor as Record<string, unknown>;
+  const item = texto(seletores.item);
+  const titulo = texto(seletores.titulo);
+  if (!item || !titulo) return null;
+
+  return {
+    item,
+    titulo,
+    resumo: texto(seletores.resumo) ?? undefined,
+    data: texto(seletores.data) ?? undefined,
+    link: texto(seletores.link) ?? undefined,
+  };
+};
+
+/**
+ * Monta o adaptador a partir de adapter_type e adapter_config
+ */
+export const lerAdaptador = (tipo: string, config: Record<string, unknown> | null): AdaptadorConfig => {
+  const valores = config ?? {};
+
+  switch (tipo) {
+    case 'rss': {
+      const feed = texto(valores.feed);
+      if (!feed) throw new Error('Adaptador rss sem "feed"');
+      return { tipo, feed };
+    }
+    case 'github_releases': {
+      const repo = texto(valores.repo);
+      if (!repo || !/^[\w.-]+\/[\w.-]+$/.test(repo)) {
+        throw new Error('Adaptador github_releases sem "repo" no formato dono/repositorio');
+      }
+      return { tipo, repo };
+    }
+    case 'html': {
+      const seletores = lerSeletores(valores.seletores);
+      if (!seletores) throw new Error('Adaptador html sem "seletores.item" e "seletores.titulo"');
+      return { tipo, seletores };
+    }
+    case 'markdown':
+      return { tipo };
+    default:
+      throw new Error(`Adaptador desconhecido: ${tipo}`);
+  }
+};
+
+/**
+ * Converte uma linha de ide_news_sources em Fonte
+ */
+export const paraFonte = (row: IdeNewsSource): Fonte => ({
+  id: row.slug,
+  nome: row.name,
+  url: row.url,
+  logo: row.logo ?? undefined,
+  cor: row.color ?? undefined,
+  adaptador: lerAdaptador(row.adapter_type, row.adapter_config),
+  limite: row.item_limit,
+});
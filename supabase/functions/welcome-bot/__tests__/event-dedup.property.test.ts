@@ -0,0 +1,114 @@
+/**
+ * Property-Based Tests for welcome-bot Edge Function - Event Deduplication
+ *
+ * Feature: slack-community-integration
+ *
+ * For any sequence of Slack deliveries (first deliveries and retries with
+ * X-Slack-Retry-Num), each event_id should be processed exactly once, and
+ * the retry headers should be reported as-is.
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import fc from 'fast-check';
+import { claimSlackEvent, parseRetryHeaders, type SlackEventStore } from '../../_shared/slack-events.ts';
+
+/**
+ * In-memory stand-in for the claim_slack_event() RPC
+ */
+function createMockSupabaseClient(options: { failing?: boolean } = {}) {
+  const processed = new Map<string, { duplicate_count: number }>();
+
+  const client: SlackEventStore = {
+    rpc: async (_fn, params) => {
+      if (options.failing) {
+        return { data: null, error: { message: 'connection refused' } };
+      }
+
+      const eventId = params.p_event_id as string;
+      const existing = processed.get(eventId);
+      if (existing) {
+        existing.duplicate_count++;
+        return { data: false, error: null };
+      }
+      processed.set(eventId, { duplicate_count: 0 });
+      return { data: true, error: null };
+    },
+  };
+
+  return { client, processed };
+}
+
+const deliveryArb = fc.record({
+  event_id: fc.stringMatching(/^Ev[A-Z0-9]{6,10}$/),
+  retry_num: fc.integer({ min: 0, max: 3 }),
+});
+
+describe('Event deduplication', () => {
+  it('Property: Each event_id is processed exactly once', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(deliveryArb, { maxLength: 30 }), async (deliveries) => {
+        const { client, processed } = createMockSupabaseClient();
+        const processedIds: string[] = [];
+
+        for (const delivery of deliveries) {
+          const claimed = await claimSlackEvent(client, {
+            event_id: delivery.event_id,
+            event_type: 'team_join',
+            team_id: 'T123',
+            retry_num: delivery.retry_num,
+            retry_reason: delivery.retry_num > 0 ? 'http_timeout' : null,
+          });
+          if (claimed) processedIds.push(delivery.event_id);
+        }
+
+        const uniqueIds = [...new Set(deliveries.map(d => d.event_id))];
+        expect(processedIds.sort()).toEqual(uniqueIds.sort());
+
+        const duplicates = [...processed.values()].reduce((sum, e) => sum + e.duplicate_count, 0);
+        expect(duplicates).toBe(deliveries.length - uniqueIds.length);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('processes the event when the store is unavailable', async () => {
+    const { client } = createMockSupabaseClient({ failing: true });
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const claimed = await claimSlackEvent(client, {
+      event_id: 'Ev123456',
+      event_type: 'team_join',
+      team_id: null,
+      retry_num: 0,
+      retry_reason: null,
+    });
+
+    expect(claimed).toBe(true);
+    errorSpy.mockRestore();
+  });
+});
+
+describe('parseRetryHeaders', () => {
+  it('Property: Retry headers are reported as sent by Slack', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 10 }),
+        fc.constantFrom('http_timeout', 'http_error', 'too_many_redirects', 'unknown_error'),
+        (retryNum, reason) => {
+          const headers = new Headers({
+            'X-Slack-Retry-Num': String(retryNum),
+            'X-Slack-Retry-Reason': reason,
+          });
+
+          expect(parseRetryHeaders(headers)).toEqual({ retry_num: retryNum, retry_reason: reason });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('treats missing or invalid headers as a first delivery', () => {
+    expect(parseRetryHeaders(new Headers())).toEqual({ retry_num: 0, retry_reason: null });
+    expect(parseRetryHeaders(new Headers({ 'X-Slack-Retry-Num': 'abc' }))).toEqual({ retry_num: 0, retry_reason: null });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Property-Based Tests for welcome-bot Edge Function - Event Dispatch
+ *
+ * Feature: slack-community-integration
+ *
+ * For any Events API callback, only the handler registered for the event's
+ * type should run, with the event and the shared context; events without a
+ * handler are reported as unhandled.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import fc from 'fast-check';
+import { dispatchSlackEvent, type SlackEventHandlers } from '../../_shared/slack-event-dispatcher.ts';
+import type { SlackEvent } from '../../_shared/slack-types.ts';
+
+const HANDLED_TYPES = ['team_join', 'member_joined_channel', 'app_mention', 'reaction_added'] as const;
+
+interface TestContext {
+  calls: string[];
+}
+
+function recordingHandlers(): SlackEventHandlers<TestContext> {
+  return {
+    team_join: async (event, context) => {
+      context.calls.push(`team_join:${event.user.id}`);
+    },
+    member_joined_channel: async (event, context) => {
+      context.calls.push(`member_joined_channel:${event.user}`);
+    },
+    app_mention: async (event, context) => {
+      context.calls.push(`app_mention:${event.user}`);
+    },
+    reaction_added: async (event, context) => {
+      context.calls.push(`reaction_added:${event.user}`);
+    },
+  };
+}
+
+function buildEvent(type: typeof HANDLED_TYPES[number], userId: string): SlackEvent {
+  switch (type) {
+    case 'team_join':
+      return { type, user: { id: userId, name: 'membro', real_name: 'Membro' }, event_ts: '1700000000.000100' };
+    case 'member_joined_channel':
+      return { type, user: userId, channel: 'C123', channel_type: 'C', team: 'T123', event_ts: '1700000000.000100' };
+    case 'app_mention':
+      return { type, user: userId, text: '<@UBOT> postgres', channel: 'C123', ts: '1700000000.000100', event_ts: '1700000000.000100' };
+    case 'reaction_added':
+      return {
+        type,
+        user: userId,
+        reaction: 'thumbsup',
+        item: { type: 'message', channel: 'C123', ts: '1700000000.000100' },
+        event_ts: '1700000000.000200',
+      };
+  }
+}
+
+describe('Event dispatch', () => {
+  it('Property: Only the handler of the event type runs', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom(...HANDLED_TYPES),
+        fc.stringMatching(/^U[A-Z0-9]{8}$/),
+        async (type, userId) => {
+          const context: TestContext = { calls: [] };
+
+          const handled = dispatchSlackEvent(recordingHandlers(), buildEvent(type, userId), context);
+
+          expect(handled).not.toBeNull();
+          await handled;
+          expect(context.calls).toEqual([`${type}:${userId}`]);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('Property: Events without a handler are not dispatched', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...HANDLED_TYPES),
+        fc.stringMatching(/^[a-z_]{3,20}$/).filter(t => !(HANDLED_TYPES as readonly string[]).includes(t)),
+        (registered, unknownType) => {
+          const context: TestContext = { calls: [] };
+          const handlers = { [registered]: recordingHandlers()[registered] };
+
+          expect(dispatchSlackEvent(handlers, { type: unknownType }, context)).toBeNull();
+          expect(context.calls).toEqual([]);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('reports a registered type without its handler as unhandled', () => {
+    const { app_mention: _omitted, ...handlers } = recordingHandlers();
+    expect(dispatchSlackEvent(handlers, buildEvent('app_mention', 'U12345678'), { calls: [] })).toBeNull();
+  });
+
+  it('does not dispatch inherited property names', () => {
+    for (const type of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+      expect(dispatchSlackEvent(recordingHandlers(), { type }, { calls: [] })).toBeNull();
+    }
+  });
+
+  it('propagates handler failures to the caller', async () => {
+    const handlers: SlackEventHandlers<TestContext> = {
+      reaction_added: async () => {
+        throw new Error('record_slack_reaction failed');
+      },
+    };
+
+    await expect(
+      dispatchSlackEvent(handlers, buildEvent('reaction_added', 'U12345678'), { calls: [] })
+    ).rejects.toThrow('record_slack_reaction failed');
+  });
+});
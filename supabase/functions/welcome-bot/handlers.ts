@@ -0,0 +1,139 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { processOnboarding } from '../_shared/onboarding.ts';
+import { searchCatalog } from '../_shared/catalog-search.ts';
+import { callSlackApi } from '../_shared/slack-delivery.ts';
+import { parseMentionSearchTerm } from '../_shared/slack-commands.ts';
+import type { SlackEventDelivery } from '../_shared/slack-events.ts';
+import type { SlackEventHandlers } from '../_shared/slack-event-dispatcher.ts';
+import { formatOnboardingStepMessage, formatSearchResultsMessage } from '../_shared/slack-formatters.ts';
+import type { SlackChannelTip, SlackMessage } from '../_shared/slack-types.ts';
+
+/**
+ * What every welcome-bot event handler receives besides its event
+ */
+export interface WelcomeBotContext {
+  supabase: SupabaseClient;
+  botToken: string;
+  delivery: SlackEventDelivery;
+}
+
+/** Reply to a mention without a search term */
+const MENTION_HINT = 'Me mencione com o que você procura, por exemplo `@vibeflow postgres`. Para mais opções, use `/vibeflow help`.';
+
+/**
+ * Posts with the bot token, failing on Slack API errors so the handler's
+ * caller logs them
+ */
+async function postMessage(
+  method: 'chat.postMessage' | 'chat.postEphemeral',
+  botToken: string,
+  body: Record<string, unknown>
+): Promise<void> {
+  const result = await callSlackApi(method, botToken, body);
+  if (!result.ok) {
+    throw new Error(result.error ?? `${method} failed`);
+  }
+}
+
+export const handlers: SlackEventHandlers<WelcomeBotContext> = {
+  /**
+   * Schedule the onboarding sequence for a new member and send the steps
+   * that are already due (the day 0 welcome). Later steps are sent by
+   * onboarding-worker.
+   */
+  team_join: async (event, { supabase, botToken, delivery }) => {
+    const userId = event.user.id;
+    const userName = event.user.real_name || event.user.name;
+
+    console.log(`👤 New member joined: ${userName} (${userId})`);
+
+    const { data: scheduled, error } = await supabase
+      .rpc('schedule_onboarding', { p_user_id: userId, p_user_name: userName });
+
+    if (error) {
+      throw new Error(`Failed to schedule onboarding: ${error.message}`);
+    }
+
+    console.log(`📅 Scheduled ${scheduled} onboarding steps for ${userName} (${userId})`);
+
+    const summary = await processOnboarding(supabase, botToken, userId, delivery);
+    console.log(`✅ Onboarding started for ${userName} (${userId}):`, summary);
+  },
+
+  /**
+   * Shows the channel's tip, if one is configured, to the member who joined.
+   * The tip is ephemeral so the channel is not flooded with greetings.
+   */
+  member_joined_channel: async (event, { supabase, botToken }) => {
+    const { data: tip, error } = await supabase
+      .from('slack_channel_tips')
+      .select('*')
+      .eq('channel_id', event.channel)
+      .eq('is_enabled', true)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch channel tip: ${error.message}`);
+    }
+    if (!tip) {
+      return;
+    }
+
+    const message = formatOnboardingStepMessage(tip as SlackChannelTip, `<@${event.user}>`);
+    await postMessage('chat.postEphemeral', botToken, {
+      channel: event.channel,
+      user: event.user,
+      ...message,
+    });
+
+    console.log(`💡 Tip for #${(tip as SlackChannelTip).channel_name} shown to ${event.user}`);
+  },
+
+  /**
+   * Answers a mention with a catalog search, in the mention's thread
+   */
+  app_mention: async (event, { supabase, botToken }) => {
+    // Ignore other bots (and our own messages)
+    if (event.bot_id) {
+      return;
+    }
+
+    const term = parseMentionSearchTerm(event.text);
+    const message: SlackMessage = term
+      ? formatSearchResultsMessage(term, await searchCatalog(supabase, term))
+      : { blocks: [{ type: 'section', text: { type: 'mrkdwn', text: MENTION_HINT } }], text: MENTION_HINT };
+
+    await postMessage('chat.postMessage', botToken, {
+      channel: event.channel,
+      thread_ts: event.thread_ts ?? event.ts,
+      ...message,
+    });
+
+    console.log(`🔎 Mention by ${event.user} answered (term: "${term}")`);
+  },
+
+  /**
+   * Counts reactions to the notifications posted in bot mode (tracked in
+   * slack_messages) into the content's slack_reactions_count
+   */
+  reaction_added: async (event, { supabase }) => {
+    if (event.item.type !== 'message') {
+      return;
+    }
+
+    const { data: counted, error } = await supabase.rpc('record_slack_reaction', {
+      p_channel_id: event.item.channel,
+      p_ts: event.item.ts,
+      p_slack_user_id: event.user,
+      p_reaction: event.reaction,
+    });
+
+    if (error) {
+      throw new Error(`Failed to record reaction: ${error.message}`);
+    }
+
+    if (counted) {
+      console.log(`⭐ :${event.reaction}: by ${event.user} counted for ${event.item.channel}/${event.item.ts}`);
+    }
+  },
+};
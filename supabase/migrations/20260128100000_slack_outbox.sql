@@ -0,0 +1,201 @@
+-- Durable outbox for Slack deliveries
+-- Publication triggers enqueue one row per enabled webhook; the
+-- slack-outbox-worker Edge Function (driven by pg_cron) claims pending rows,
+-- delivers them and reschedules failures with exponential backoff. Rows that
+-- exhaust max_attempts are moved to the dead_letter state.
+
+CREATE TABLE IF NOT EXISTS public.slack_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id UUID NOT NULL REFERENCES public.slack_webhooks(id) ON DELETE CASCADE,
+  content_type TEXT NOT NULL CHECK (content_type IN ('workflow', 'mcp_server', 'blog_post', 'ide_news')),
+  content_id UUID NOT NULL,
+  action TEXT NOT NULL DEFAULT 'published' CHECK (action IN ('published', 'updated', 'deleted')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'delivered', 'dead_letter')),
+  attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  max_attempts INTEGER NOT NULL DEFAULT 10 CHECK (max_attempts >= 1),
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  last_response_code INTEGER,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_slack_outbox_pending
+  ON public.slack_outbox(next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_slack_outbox_processing
+  ON public.slack_outbox(locked_at)
+  WHERE status = 'processing';
+
+CREATE INDEX IF NOT EXISTS idx_slack_outbox_content
+  ON public.slack_outbox(content_type, content_id);
+
+-- Keep updated_at current
+CREATE TRIGGER update_slack_outbox_updated_at
+  BEFORE UPDATE ON public.slack_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only admins can inspect the outbox; the worker uses the service role
+ALTER TABLE public.slack_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view slack outbox"
+  ON public.slack_outbox
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Delivery logs now record worker attempts beyond the old inline limit of 3
+-- and the dead_letter terminal state
+ALTER TABLE public.slack_delivery_logs
+  DROP CONSTRAINT IF EXISTS slack_delivery_logs_attempt_number_check;
+
+ALTER TABLE public.slack_delivery_logs
+  ADD CONSTRAINT slack_delivery_logs_attempt_number_check CHECK (attempt_number >= 0);
+
+ALTER TABLE public.slack_delivery_logs
+  DROP CONSTRAINT IF EXISTS slack_delivery_logs_status_check;
+
+ALTER TABLE public.slack_delivery_logs
+  ADD CONSTRAINT slack_delivery_logs_status_check CHECK (status IN ('success', 'failed', 'skipped', 'dead_letter'));
+
+ALTER TABLE public.slack_delivery_logs
+  ADD COLUMN IF NOT EXISTS outbox_id UUID REFERENCES public.slack_outbox(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_slack_delivery_logs_outbox_id
+  ON public.slack_delivery_logs(outbox_id);
+
+-- Enqueue a notification for every enabled webhook of a content type
+CREATE OR REPLACE FUNCTION public.enqueue_slack_notification(
+  p_content_type TEXT,
+  p_content_id UUID,
+  p_action TEXT DEFAULT 'published'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  enqueued INTEGER;
+BEGIN
+  INSERT INTO public.slack_outbox (webhook_id, content_type, content_id, action)
+  SELECT id, p_content_type, p_content_id, p_action
+  FROM public.slack_webhooks
+  WHERE content_type = p_content_type
+    AND is_enabled = true;
+
+  GET DIAGNOSTICS enqueued = ROW_COUNT;
+  RETURN enqueued;
+END;
+$$;
+
+-- Claim a batch of due rows for delivery. Rows stuck in processing (worker
+-- crashed mid-batch) are reclaimed after 10 minutes.
+CREATE OR REPLACE FUNCTION public.claim_slack_outbox(p_batch_size INTEGER DEFAULT 20)
+RETURNS SETOF public.slack_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.slack_outbox o
+  SET status = 'processing',
+      locked_at = NOW(),
+      attempts = o.attempts + 1
+  WHERE o.id IN (
+    SELECT id
+    FROM public.slack_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'processing' AND locked_at < NOW() - INTERVAL '10 minutes')
+    ORDER BY next_attempt_at
+    LIMIT p_batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enqueue_slack_notification(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.claim_slack_outbox(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_slack_notification(TEXT, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_slack_outbox(INTEGER) TO service_role;
+
+-- Publication trigger shared by workflows, mcp_servers and blog_posts.
+-- TG_ARGV[0] is the content_type passed to the outbox.
+CREATE OR REPLACE FUNCTION public.enqueue_slack_on_publish()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  now_published BOOLEAN;
+  was_published BOOLEAN := false;
+BEGIN
+  IF TG_TABLE_NAME = 'blog_posts' THEN
+    now_published := NEW.status = 'published';
+    IF TG_OP = 'UPDATE' THEN
+      was_published := OLD.status = 'published';
+    END IF;
+  ELSE
+    now_published := COALESCE(NEW.is_published, false);
+    IF TG_OP = 'UPDATE' THEN
+      was_published := COALESCE(OLD.is_published, false);
+    END IF;
+  END IF;
+
+  IF now_published AND NOT was_published THEN
+    PERFORM public.enqueue_slack_notification(TG_ARGV[0], NEW.id, 'published');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER workflows_enqueue_slack
+  AFTER INSERT OR UPDATE OF is_published ON public.workflows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_slack_on_publish('workflow');
+
+CREATE TRIGGER mcp_servers_enqueue_slack
+  AFTER INSERT OR UPDATE OF is_published ON public.mcp_servers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_slack_on_publish('mcp_server');
+
+CREATE TRIGGER blog_posts_enqueue_slack
+  AFTER INSERT OR UPDATE OF status ON public.blog_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_slack_on_publish('blog_post');
+
+-- Drain the outbox every minute
+SELECT cron.schedule(
+  'slack-outbox-worker',
+  '* * * * *',
+  $$
+  SELECT
+    net.http_post(
+      url := current_setting('app.settings.supabase_url') || '/functions/v1/slack-outbox-worker',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+      ),
+      body := '{}'::jsonb
+    ) as request_id;
+  $$
+);
+
+-- Add comments
+COMMENT ON TABLE public.slack_outbox IS 'Durable queue of pending Slack deliveries, one row per webhook';
+COMMENT ON COLUMN public.slack_outbox.status IS 'pending, processing (claimed by worker), delivered, or dead_letter (max_attempts exhausted)';
+COMMENT ON COLUMN public.slack_outbox.attempts IS 'Number of delivery attempts claimed so far';
+COMMENT ON COLUMN public.slack_outbox.next_attempt_at IS 'Earliest time the worker may retry this row';
+COMMENT ON COLUMN public.slack_outbox.locked_at IS 'When the row was claimed; stale claims are reclaimed after 10 minutes';
+COMMENT ON COLUMN public.slack_delivery_logs.outbox_id IS 'Outbox row this attempt belongs to (null for direct notify-slack calls)';
+COMMENT ON FUNCTION public.enqueue_slack_notification(TEXT, UUID, TEXT) IS 'Enqueues one outbox row per enabled webhook for the content type';
+COMMENT ON FUNCTION public.claim_slack_outbox(INTEGER) IS 'Atomically claims due outbox rows for the slack-outbox-worker';
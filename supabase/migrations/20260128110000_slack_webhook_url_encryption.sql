@@ -0,0 +1,86 @@
+-- Encrypt slack_webhooks.webhook_url at rest with pgcrypto
+--
+-- URLs are encrypted with a PGP public key read from
+-- app.settings.slack_webhook_public_key. The matching private key is only
+-- available to the Slack delivery Edge Functions (SLACK_WEBHOOK_PRIVATE_KEY
+-- secret), which read the ciphertext and decrypt it themselves, so neither
+-- the private key nor the plaintext URL reaches the database. Admins keep
+-- writing plaintext URLs; the trigger below replaces them with ciphertext and
+-- stores a masked hint for listings.
+--
+-- See supabase/functions/notify-slack/WEBHOOK_ENCRYPTION.md for key setup.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE public.slack_webhooks
+  ADD COLUMN IF NOT EXISTS webhook_url_hint TEXT;
+
+-- Masked representation safe to show in admin listings
+CREATE OR REPLACE FUNCTION public.mask_slack_webhook_url(p_url TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(substring(p_url FROM '^https?://[^/]+'), '') || '/••••' || right(p_url, 4);
+$$;
+
+-- Encrypt plaintext URLs on insert/update
+CREATE OR REPLACE FUNCTION public.encrypt_slack_webhook_url()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  public_key TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.webhook_url = OLD.webhook_url THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.webhook_url LIKE '-----BEGIN PGP MESSAGE-----%' THEN
+    RETURN NEW;
+  END IF;
+
+  public_key := current_setting('app.settings.slack_webhook_public_key', true);
+  IF public_key IS NULL OR public_key = '' THEN
+    RAISE EXCEPTION 'Slack webhook encryption key not configured (app.settings.slack_webhook_public_key)';
+  END IF;
+
+  NEW.webhook_url_hint := public.mask_slack_webhook_url(NEW.webhook_url);
+  NEW.webhook_url := armor(pgp_pub_encrypt(NEW.webhook_url, dearmor(public_key)));
+
+  RETURN NEW;
+END;
+$$;
+
+-- Re-encrypt existing plaintext rows
+DO $$
+DECLARE
+  public_key TEXT;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.slack_webhooks
+    WHERE webhook_url NOT LIKE '-----BEGIN PGP MESSAGE-----%'
+  ) THEN
+    public_key := current_setting('app.settings.slack_webhook_public_key', true);
+    IF public_key IS NULL OR public_key = '' THEN
+      RAISE EXCEPTION 'Cannot encrypt existing Slack webhooks: app.settings.slack_webhook_public_key is not set';
+    END IF;
+
+    UPDATE public.slack_webhooks
+    SET webhook_url_hint = public.mask_slack_webhook_url(webhook_url),
+        webhook_url = armor(pgp_pub_encrypt(webhook_url, dearmor(public_key)))
+    WHERE webhook_url NOT LIKE '-----BEGIN PGP MESSAGE-----%';
+  END IF;
+END;
+$$;
+
+CREATE TRIGGER encrypt_slack_webhook_url
+  BEFORE INSERT OR UPDATE OF webhook_url ON public.slack_webhooks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.encrypt_slack_webhook_url();
+
+-- Update comments
+COMMENT ON COLUMN public.slack_webhooks.webhook_url IS 'Slack webhook URL, PGP-encrypted (armored) with app.settings.slack_webhook_public_key';
+COMMENT ON COLUMN public.slack_webhooks.webhook_url_hint IS 'Masked webhook URL for admin listings (host and last 4 characters)';
@@ -0,0 +1,156 @@
+-- Slack notifications for content updates and deletions
+--
+-- Each webhook now chooses which actions notify (published, updated,
+-- deleted). The publication triggers are replaced by change triggers that
+-- also enqueue 'updated' notifications (with a diff of the changed fields)
+-- while content stays published, and 'deleted' notifications (with a title
+-- snapshot) when published content is deleted.
+
+-- Per-webhook action settings; existing webhooks keep notifying only on publish
+ALTER TABLE public.slack_webhooks
+  ADD COLUMN IF NOT EXISTS notify_actions TEXT[] NOT NULL DEFAULT ARRAY['published'];
+
+ALTER TABLE public.slack_webhooks
+  ADD CONSTRAINT slack_webhooks_notify_actions_check
+  CHECK (notify_actions <@ ARRAY['published', 'updated', 'deleted']);
+
+-- Diff / snapshot captured at enqueue time
+ALTER TABLE public.slack_outbox
+  ADD COLUMN IF NOT EXISTS payload JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Record which action each delivery attempt was for
+ALTER TABLE public.slack_delivery_logs
+  ADD COLUMN IF NOT EXISTS action TEXT NOT NULL DEFAULT 'published'
+  CHECK (action IN ('published', 'updated', 'deleted'));
+
+-- Enqueue only for webhooks that opted into the action
+DROP FUNCTION IF EXISTS public.enqueue_slack_notification(TEXT, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.enqueue_slack_notification(
+  p_content_type TEXT,
+  p_content_id UUID,
+  p_action TEXT DEFAULT 'published',
+  p_payload JSONB DEFAULT '{}'::jsonb
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  enqueued INTEGER;
+BEGIN
+  INSERT INTO public.slack_outbox (webhook_id, content_type, content_id, action, payload)
+  SELECT id, p_content_type, p_content_id, p_action, p_payload
+  FROM public.slack_webhooks
+  WHERE content_type = p_content_type
+    AND is_enabled = true
+    AND p_action = ANY(notify_actions);
+
+  GET DIAGNOSTICS enqueued = ROW_COUNT;
+  RETURN enqueued;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enqueue_slack_notification(TEXT, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_slack_notification(TEXT, UUID, TEXT, JSONB) TO service_role;
+
+-- Change trigger shared by workflows, mcp_servers and blog_posts.
+-- TG_ARGV[0] is the content_type passed to the outbox.
+CREATE OR REPLACE FUNCTION public.enqueue_slack_on_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_row JSONB;
+  old_row JSONB;
+  now_published BOOLEAN := false;
+  was_published BOOLEAN := false;
+  changes JSONB;
+BEGIN
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW);
+  END IF;
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD);
+  END IF;
+
+  IF TG_TABLE_NAME = 'blog_posts' THEN
+    now_published := COALESCE(new_row->>'status' = 'published', false);
+    was_published := COALESCE(old_row->>'status' = 'published', false);
+  ELSE
+    now_published := COALESCE((new_row->>'is_published')::boolean, false);
+    was_published := COALESCE((old_row->>'is_published')::boolean, false);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    IF was_published THEN
+      PERFORM public.enqueue_slack_notification(
+        TG_ARGV[0], OLD.id, 'deleted',
+        jsonb_build_object('title', old_row->>'title')
+      );
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF now_published AND NOT was_published THEN
+    PERFORM public.enqueue_slack_notification(TG_ARGV[0], NEW.id, 'published');
+  ELSIF now_published AND was_published THEN
+    -- Bookkeeping columns (timestamps, counters) don't count as an update.
+    -- Values are truncated so large bodies don't bloat the outbox.
+    SELECT COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'field', n.key,
+          'before', left(o.value #>> '{}', 200),
+          'after', left(n.value #>> '{}', 200)
+        )
+        ORDER BY n.key
+      ),
+      '[]'::jsonb
+    )
+    INTO changes
+    FROM jsonb_each(new_row) n
+    JOIN jsonb_each(old_row) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value
+      AND n.key NOT IN ('updated_at', 'created_at', 'views_count', 'clicks_count');
+
+    IF jsonb_array_length(changes) > 0 THEN
+      PERFORM public.enqueue_slack_notification(
+        TG_ARGV[0], NEW.id, 'updated',
+        jsonb_build_object('changes', changes)
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS workflows_enqueue_slack ON public.workflows;
+DROP TRIGGER IF EXISTS mcp_servers_enqueue_slack ON public.mcp_servers;
+DROP TRIGGER IF EXISTS blog_posts_enqueue_slack ON public.blog_posts;
+DROP FUNCTION IF EXISTS public.enqueue_slack_on_publish();
+
+CREATE TRIGGER workflows_enqueue_slack
+  AFTER INSERT OR UPDATE OR DELETE ON public.workflows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_slack_on_change('workflow');
+
+CREATE TRIGGER mcp_servers_enqueue_slack
+  AFTER INSERT OR UPDATE OR DELETE ON public.mcp_servers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_slack_on_change('mcp_server');
+
+CREATE TRIGGER blog_posts_enqueue_slack
+  AFTER INSERT OR UPDATE OR DELETE ON public.blog_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_slack_on_change('blog_post');
+
+-- Add comments
+COMMENT ON COLUMN public.slack_webhooks.notify_actions IS 'Content actions that notify this webhook: published, updated, deleted';
+COMMENT ON COLUMN public.slack_outbox.payload IS 'Data captured at enqueue time: {changes: [{field, before, after}]} for updates, {title} for deletions';
+COMMENT ON COLUMN public.slack_delivery_logs.action IS 'Content action the delivery was for';
+COMMENT ON FUNCTION public.enqueue_slack_notification(TEXT, UUID, TEXT, JSONB) IS 'Enqueues one outbox row per enabled webhook that opted into the action';
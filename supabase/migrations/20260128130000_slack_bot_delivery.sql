@@ -0,0 +1,96 @@
+-- Bot delivery mode for Slack channels
+--
+-- Incoming webhooks cannot edit or thread messages. Channels in 'bot' mode
+-- post with chat.postMessage (SLACK_BOT_TOKEN) instead; the returned message
+-- ts is stored per content item in slack_messages so updates and deletions
+-- edit the original message (update_mode 'edit') or reply in its thread
+-- (update_mode 'thread').
+
+ALTER TABLE public.slack_webhooks
+  ADD COLUMN IF NOT EXISTS delivery_mode TEXT NOT NULL DEFAULT 'webhook'
+    CHECK (delivery_mode IN ('webhook', 'bot')),
+  ADD COLUMN IF NOT EXISTS channel_id TEXT,
+  ADD COLUMN IF NOT EXISTS update_mode TEXT NOT NULL DEFAULT 'edit'
+    CHECK (update_mode IN ('edit', 'thread'));
+
+-- Bot channels have no webhook URL
+ALTER TABLE public.slack_webhooks
+  ALTER COLUMN webhook_url DROP NOT NULL;
+
+ALTER TABLE public.slack_webhooks
+  ADD CONSTRAINT slack_webhooks_delivery_target_check
+  CHECK (
+    (delivery_mode = 'webhook' AND webhook_url IS NOT NULL)
+    OR (delivery_mode = 'bot' AND channel_id IS NOT NULL)
+  );
+
+-- Skip encryption when there is no URL to encrypt
+CREATE OR REPLACE FUNCTION public.encrypt_slack_webhook_url()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  public_key TEXT;
+BEGIN
+  IF NEW.webhook_url IS NULL THEN
+    NEW.webhook_url_hint := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.webhook_url = OLD.webhook_url THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.webhook_url LIKE '-----BEGIN PGP MESSAGE-----%' THEN
+    RETURN NEW;
+  END IF;
+
+  public_key := current_setting('app.settings.slack_webhook_public_key', true);
+  IF public_key IS NULL OR public_key = '' THEN
+    RAISE EXCEPTION 'Slack webhook encryption key not configured (app.settings.slack_webhook_public_key)';
+  END IF;
+
+  NEW.webhook_url_hint := public.mask_slack_webhook_url(NEW.webhook_url);
+  NEW.webhook_url := armor(pgp_pub_encrypt(NEW.webhook_url, dearmor(public_key)));
+
+  RETURN NEW;
+END;
+$$;
+
+-- Messages posted in bot mode, one per channel and content item
+CREATE TABLE IF NOT EXISTS public.slack_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id UUID NOT NULL REFERENCES public.slack_webhooks(id) ON DELETE CASCADE,
+  content_type TEXT NOT NULL CHECK (content_type IN ('workflow', 'mcp_server', 'blog_post', 'ide_news')),
+  content_id UUID NOT NULL,
+  channel_id TEXT NOT NULL,
+  ts TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT unique_slack_message_per_content UNIQUE (webhook_id, content_type, content_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_slack_messages_content
+  ON public.slack_messages(content_type, content_id);
+
+CREATE TRIGGER update_slack_messages_updated_at
+  BEFORE UPDATE ON public.slack_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only admins can inspect posted messages; the Edge Functions use the service role
+ALTER TABLE public.slack_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view slack messages"
+  ON public.slack_messages
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Add comments
+COMMENT ON COLUMN public.slack_webhooks.delivery_mode IS 'webhook (incoming webhook URL) or bot (chat.postMessage with SLACK_BOT_TOKEN)';
+COMMENT ON COLUMN public.slack_webhooks.channel_id IS 'Slack channel ID for bot mode (e.g. C0123456789)';
+COMMENT ON COLUMN public.slack_webhooks.update_mode IS 'Bot mode only: edit the original message (chat.update) or reply in its thread';
+COMMENT ON TABLE public.slack_messages IS 'Slack message timestamps (ts) of bot-mode posts, used for chat.update and threaded replies';
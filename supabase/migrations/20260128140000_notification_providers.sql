@@ -0,0 +1,22 @@
+-- Notification channel providers
+--
+-- slack_webhooks rows become generic notification channels: each row has a
+-- provider (slack, discord, teams or generic JSON webhook) and notify-slack /
+-- slack-outbox-worker format and deliver through that provider. Only Slack
+-- supports the bot delivery mode.
+
+ALTER TABLE public.slack_webhooks
+  ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'slack'
+    CHECK (provider IN ('slack', 'discord', 'teams', 'generic'));
+
+ALTER TABLE public.slack_webhooks
+  ADD CONSTRAINT slack_webhooks_bot_provider_check
+  CHECK (provider = 'slack' OR delivery_mode = 'webhook');
+
+CREATE INDEX IF NOT EXISTS idx_slack_webhooks_provider
+  ON public.slack_webhooks(provider);
+
+-- Update comments
+COMMENT ON TABLE public.slack_webhooks IS 'Notification channels (Slack, Discord, Microsoft Teams or generic JSON webhooks) per content type';
+COMMENT ON COLUMN public.slack_webhooks.provider IS 'slack, discord, teams or generic (JSON POST); selects the message format';
+COMMENT ON COLUMN public.slack_webhooks.channel_name IS 'Display name of the destination channel (e.g. #anuncios)';
@@ -0,0 +1,37 @@
+-- Feedback buttons on Slack notifications
+--
+-- Workflow and MCP server notifications carry "👍 Útil", "Salvar para depois"
+-- and "Reportar problema" buttons. The slack-interactivity Edge Function
+-- records each click here, per Slack member and content item, and refreshes
+-- the message with the live counts.
+
+CREATE TABLE IF NOT EXISTS public.slack_content_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_type TEXT NOT NULL CHECK (content_type IN ('workflow', 'mcp_server')),
+  content_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('useful', 'save', 'report')),
+  slack_user_id TEXT NOT NULL,
+  slack_user_name TEXT,
+  slack_team_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT unique_slack_feedback_per_user UNIQUE (content_type, content_id, action, slack_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_slack_content_feedback_content
+  ON public.slack_content_feedback(content_type, content_id);
+
+CREATE INDEX IF NOT EXISTS idx_slack_content_feedback_reports
+  ON public.slack_content_feedback(created_at DESC)
+  WHERE action = 'report';
+
+-- Only admins can read feedback; the Edge Function uses the service role
+ALTER TABLE public.slack_content_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view slack content feedback"
+  ON public.slack_content_feedback
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+COMMENT ON TABLE public.slack_content_feedback IS 'Feedback given by Slack members through the buttons on workflow and MCP server notifications';
+COMMENT ON COLUMN public.slack_content_feedback.action IS 'useful and save toggle on repeated clicks; report is recorded once per member';
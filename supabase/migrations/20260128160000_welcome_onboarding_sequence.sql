@@ -0,0 +1,202 @@
+-- Onboarding sequence for new Slack members
+--
+-- welcome-bot used to send a single hardcoded DM on team_join. The sequence
+-- is now stored in onboarding_steps (editable from the admin), scheduled per
+-- member in onboarding_schedule when they join, and delivered by the
+-- onboarding-worker Edge Function (driven by pg_cron). Each step delivery is
+-- logged in welcome_bot_logs.
+
+CREATE TABLE IF NOT EXISTS public.onboarding_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  position INTEGER NOT NULL DEFAULT 0,
+  name TEXT NOT NULL,
+  delay_days INTEGER NOT NULL DEFAULT 0 CHECK (delay_days BETWEEN 0 AND 90),
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  content_list TEXT CHECK (content_list IN ('top_workflows', 'top_mcp_servers')),
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_steps_position
+  ON public.onboarding_steps(position);
+
+CREATE TRIGGER update_onboarding_steps_updated_at
+  BEFORE UPDATE ON public.onboarding_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.onboarding_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage onboarding steps"
+  ON public.onboarding_steps
+  FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Default sequence; the day 0 step is the previous hardcoded welcome DM
+INSERT INTO public.onboarding_steps (position, name, delay_days, title, body, content_list)
+VALUES
+  (
+    0,
+    'Boas-vindas',
+    0,
+    '👋 Bem-vindo ao Vibe Flow!',
+    E'Olá *{name}*! É ótimo ter você aqui. 🎉\n\nEsta é a comunidade Vibe Flow, onde compartilhamos workflows, MCP servers, e novidades sobre IDEs com IA.\n\n*📚 Canais importantes:*\n• <#regras|#regras> - Regras da comunidade\n• <#geral|#geral> - Conversas gerais\n• <#ajuda|#ajuda> - Tire suas dúvidas\n\n*🧭 Guia de navegação:*\n• Use `/vibeflow` para buscar no catálogo\n• Explore os canais no menu lateral\n• Apresente-se em <#geral|#geral>!',
+    NULL
+  ),
+  (
+    1,
+    'Workflows populares',
+    1,
+    '🚀 Workflows mais populares',
+    E'Oi *{name}*! Separamos os workflows mais acessados da comunidade para você começar:',
+    'top_workflows'
+  ),
+  (
+    2,
+    'Pedido de feedback',
+    7,
+    '💬 Como está sendo sua primeira semana?',
+    E'Oi *{name}*, você está há uma semana no Vibe Flow! Conta pra gente em <#geral|#geral> o que achou e o que gostaria de ver por aqui.',
+    NULL
+  );
+
+-- One row per member and step; send_at = join time + delay_days
+CREATE TABLE IF NOT EXISTS public.onboarding_schedule (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  user_name TEXT NOT NULL,
+  step_id UUID NOT NULL REFERENCES public.onboarding_steps(id) ON DELETE CASCADE,
+  send_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'sent', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  locked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Slack retries team_join deliveries; a member is scheduled once per step
+  CONSTRAINT unique_onboarding_step_per_user UNIQUE (user_id, step_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_schedule_pending
+  ON public.onboarding_schedule(send_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_schedule_user_id
+  ON public.onboarding_schedule(user_id);
+
+CREATE TRIGGER update_onboarding_schedule_updated_at
+  BEFORE UPDATE ON public.onboarding_schedule
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.onboarding_schedule ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view onboarding schedule"
+  ON public.onboarding_schedule
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Log each step delivery
+ALTER TABLE public.welcome_bot_logs
+  ADD COLUMN IF NOT EXISTS step_id UUID REFERENCES public.onboarding_steps(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS step_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_welcome_bot_logs_step_id
+  ON public.welcome_bot_logs(step_id);
+
+ALTER TABLE public.welcome_bot_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view welcome bot logs"
+  ON public.welcome_bot_logs
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Schedule every enabled step for a new member. Returns the number of
+-- steps scheduled (0 when the member was already scheduled).
+CREATE OR REPLACE FUNCTION public.schedule_onboarding(p_user_id TEXT, p_user_name TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  scheduled INTEGER;
+BEGIN
+  INSERT INTO public.onboarding_schedule (user_id, user_name, step_id, send_at)
+  SELECT p_user_id, p_user_name, s.id, NOW() + make_interval(days => s.delay_days)
+  FROM public.onboarding_steps s
+  WHERE s.is_enabled
+  ON CONFLICT (user_id, step_id) DO NOTHING;
+
+  GET DIAGNOSTICS scheduled = ROW_COUNT;
+  RETURN scheduled;
+END;
+$$;
+
+-- Claim due steps, optionally for a single member (welcome-bot sends the
+-- day 0 step right away). Stale claims are reclaimed after 10 minutes.
+CREATE OR REPLACE FUNCTION public.claim_onboarding_steps(
+  p_batch_size INTEGER DEFAULT 20,
+  p_user_id TEXT DEFAULT NULL
+)
+RETURNS SETOF public.onboarding_schedule
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.onboarding_schedule o
+  SET status = 'processing',
+      locked_at = NOW(),
+      attempts = o.attempts + 1
+  WHERE o.id IN (
+    SELECT id
+    FROM public.onboarding_schedule
+    WHERE ((status = 'pending' AND send_at <= NOW())
+       OR (status = 'processing' AND locked_at < NOW() - INTERVAL '10 minutes'))
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+    ORDER BY send_at
+    LIMIT p_batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.schedule_onboarding(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.claim_onboarding_steps(INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.schedule_onboarding(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_onboarding_steps(INTEGER, TEXT) TO service_role;
+
+-- Deliver due steps every 15 minutes
+SELECT cron.schedule(
+  'onboarding-worker',
+  '*/15 * * * *',
+  $$
+  SELECT
+    net.http_post(
+      url := current_setting('app.settings.supabase_url') || '/functions/v1/onboarding-worker',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+      ),
+      body := '{}'::jsonb
+    ) as request_id;
+  $$
+);
+
+-- Add comments
+COMMENT ON TABLE public.onboarding_steps IS 'Onboarding DMs sent to new Slack members, in position order';
+COMMENT ON COLUMN public.onboarding_steps.delay_days IS 'Days after team_join the step is sent (0 = right away)';
+COMMENT ON COLUMN public.onboarding_steps.body IS 'Slack mrkdwn; {name} is replaced by the member name';
+COMMENT ON COLUMN public.onboarding_steps.content_list IS 'Optional list appended to the message: top_workflows or top_mcp_servers (most viewed)';
+COMMENT ON TABLE public.onboarding_schedule IS 'Onboarding steps scheduled per new member';
+COMMENT ON COLUMN public.onboarding_schedule.status IS 'pending, processing (claimed by worker), sent, failed (attempts exhausted) or skipped (step disabled)';
+COMMENT ON COLUMN public.welcome_bot_logs.step_id IS 'Onboarding step delivered (null for logs before the onboarding sequence)';
@@ -0,0 +1,97 @@
+-- Idempotent Slack Events API handling
+--
+-- Slack retries an event (X-Slack-Retry-Num / X-Slack-Retry-Reason headers)
+-- when the endpoint does not answer within 3 seconds. welcome-bot records
+-- each event_id in slack_processed_events before processing it, so retries
+-- are acknowledged without sending duplicate DMs. Rows expire after 24 hours
+-- (Slack stops retrying after about an hour).
+
+CREATE TABLE IF NOT EXISTS public.slack_processed_events (
+  event_id TEXT PRIMARY KEY,
+  event_type TEXT NOT NULL,
+  team_id TEXT,
+  -- Retry number of the delivery that was processed (0 = first delivery)
+  retry_num INTEGER NOT NULL DEFAULT 0,
+  retry_reason TEXT,
+  -- Deliveries acknowledged without processing
+  duplicate_count INTEGER NOT NULL DEFAULT 0,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_duplicate_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '24 hours'
+);
+
+CREATE INDEX IF NOT EXISTS idx_slack_processed_events_expires_at
+  ON public.slack_processed_events(expires_at);
+
+ALTER TABLE public.slack_processed_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view slack processed events"
+  ON public.slack_processed_events
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Retry metadata of the delivery that triggered each welcome_bot_logs row
+ALTER TABLE public.welcome_bot_logs
+  ADD COLUMN IF NOT EXISTS event_id TEXT,
+  ADD COLUMN IF NOT EXISTS retry_num INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS retry_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_welcome_bot_logs_event_id
+  ON public.welcome_bot_logs(event_id);
+
+-- Records an event delivery. Returns true the first time an event_id is
+-- seen (the caller processes it) and false for retries of an event already
+-- recorded (the caller only acknowledges it).
+CREATE OR REPLACE FUNCTION public.claim_slack_event(
+  p_event_id TEXT,
+  p_event_type TEXT,
+  p_team_id TEXT DEFAULT NULL,
+  p_retry_num INTEGER DEFAULT 0,
+  p_retry_reason TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inserted INTEGER;
+BEGIN
+  -- An expired row belongs to an old event; let the id be reused
+  DELETE FROM public.slack_processed_events
+  WHERE event_id = p_event_id AND expires_at < NOW();
+
+  INSERT INTO public.slack_processed_events (event_id, event_type, team_id, retry_num, retry_reason)
+  VALUES (p_event_id, p_event_type, p_team_id, p_retry_num, p_retry_reason)
+  ON CONFLICT (event_id) DO NOTHING;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+
+  IF inserted = 0 THEN
+    UPDATE public.slack_processed_events
+    SET duplicate_count = duplicate_count + 1,
+        last_duplicate_at = NOW()
+    WHERE event_id = p_event_id;
+  END IF;
+
+  RETURN inserted > 0;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_slack_event(TEXT, TEXT, TEXT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_slack_event(TEXT, TEXT, TEXT, INTEGER, TEXT) TO service_role;
+
+-- Purge expired events every hour
+SELECT cron.schedule(
+  'slack-processed-events-cleanup',
+  '0 * * * *',
+  $$ DELETE FROM public.slack_processed_events WHERE expires_at < NOW(); $$
+);
+
+-- Add comments
+COMMENT ON TABLE public.slack_processed_events IS 'Slack Events API event_ids already processed, used to acknowledge retries without reprocessing';
+COMMENT ON COLUMN public.slack_processed_events.expires_at IS 'Rows are purged hourly after this time';
+COMMENT ON COLUMN public.welcome_bot_logs.event_id IS 'Slack event_id of the team_join that scheduled the onboarding (null for steps sent by onboarding-worker)';
+COMMENT ON COLUMN public.welcome_bot_logs.retry_num IS 'X-Slack-Retry-Num of the processed delivery (0 = first delivery)';
+COMMENT ON COLUMN public.welcome_bot_logs.retry_reason IS 'X-Slack-Retry-Reason of the processed delivery (e.g. http_timeout)';
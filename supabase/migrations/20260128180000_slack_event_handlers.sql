@@ -0,0 +1,199 @@
+-- More Slack Events API events in welcome-bot
+--
+-- - member_joined_channel: members joining a channel listed in
+--   slack_channel_tips see the channel's tip (ephemeral message)
+-- - app_mention: answered with a catalog search (no table)
+-- - reaction_added: reactions to the notifications posted in bot mode
+--   (slack_messages) are recorded in slack_content_reactions and counted in
+--   the content's slack_reactions_count
+
+CREATE TABLE IF NOT EXISTS public.slack_channel_tips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id TEXT NOT NULL UNIQUE,
+  channel_name TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_slack_channel_tips_updated_at
+  BEFORE UPDATE ON public.slack_channel_tips
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.slack_channel_tips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage slack channel tips"
+  ON public.slack_channel_tips
+  FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- One row per member, emoji and announcement; Slack sends reaction_added
+-- again when a member removes and re-adds a reaction
+CREATE TABLE IF NOT EXISTS public.slack_content_reactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_type TEXT NOT NULL CHECK (content_type IN ('workflow', 'mcp_server', 'blog_post', 'ide_news')),
+  content_id UUID NOT NULL,
+  channel_id TEXT NOT NULL,
+  ts TEXT NOT NULL,
+  slack_user_id TEXT NOT NULL,
+  reaction TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT unique_slack_reaction_per_user UNIQUE (channel_id, ts, slack_user_id, reaction)
+);
+
+CREATE INDEX IF NOT EXISTS idx_slack_content_reactions_content
+  ON public.slack_content_reactions(content_type, content_id);
+
+ALTER TABLE public.slack_content_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view slack content reactions"
+  ON public.slack_content_reactions
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+ALTER TABLE public.workflows ADD COLUMN IF NOT EXISTS slack_reactions_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.mcp_servers ADD COLUMN IF NOT EXISTS slack_reactions_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.blog_posts ADD COLUMN IF NOT EXISTS slack_reactions_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.ide_news ADD COLUMN IF NOT EXISTS slack_reactions_count INTEGER NOT NULL DEFAULT 0;
+
+-- slack_reactions_count is a counter like views_count: bumping it must not
+-- send an "updated" notification
+CREATE OR REPLACE FUNCTION public.enqueue_slack_on_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_row JSONB;
+  old_row JSONB;
+  now_published BOOLEAN := false;
+  was_published BOOLEAN := false;
+  changes JSONB;
+BEGIN
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW);
+  END IF;
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD);
+  END IF;
+
+  IF TG_TABLE_NAME = 'blog_posts' THEN
+    now_published := COALESCE(new_row->>'status' = 'published', false);
+    was_published := COALESCE(old_row->>'status' = 'published', false);
+  ELSE
+    now_published := COALESCE((new_row->>'is_published')::boolean, false);
+    was_published := COALESCE((old_row->>'is_published')::boolean, false);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    IF was_published THEN
+      PERFORM public.enqueue_slack_notification(
+        TG_ARGV[0], OLD.id, 'deleted',
+        jsonb_build_object('title', old_row->>'title')
+      );
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF now_published AND NOT was_published THEN
+    PERFORM public.enqueue_slack_notification(TG_ARGV[0], NEW.id, 'published');
+  ELSIF now_published AND was_published THEN
+    -- Bookkeeping columns (timestamps, counters) don't count as an update.
+    -- Values are truncated so large bodies don't bloat the outbox.
+    SELECT COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'field', n.key,
+          'before', left(o.value #>> '{}', 200),
+          'after', left(n.value #>> '{}', 200)
+        )
+        ORDER BY n.key
+      ),
+      '[]'::jsonb
+    )
+    INTO changes
+    FROM jsonb_each(new_row) n
+    JOIN jsonb_each(old_row) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value
+      AND n.key NOT IN ('updated_at', 'created_at', 'views_count', 'clicks_count', 'slack_reactions_count');
+
+    IF jsonb_array_length(changes) > 0 THEN
+      PERFORM public.enqueue_slack_notification(
+        TG_ARGV[0], NEW.id, 'updated',
+        jsonb_build_object('changes', changes)
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Records a reaction to a tracked notification. Returns false when the
+-- message is not a notification or the reaction was already counted.
+CREATE OR REPLACE FUNCTION public.record_slack_reaction(
+  p_channel_id TEXT,
+  p_ts TEXT,
+  p_slack_user_id TEXT,
+  p_reaction TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  message RECORD;
+  inserted INTEGER;
+BEGIN
+  SELECT content_type, content_id INTO message
+  FROM public.slack_messages
+  WHERE channel_id = p_channel_id AND ts = p_ts
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.slack_content_reactions (content_type, content_id, channel_id, ts, slack_user_id, reaction)
+  VALUES (message.content_type, message.content_id, p_channel_id, p_ts, p_slack_user_id, p_reaction)
+  ON CONFLICT (channel_id, ts, slack_user_id, reaction) DO NOTHING;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  IF inserted = 0 THEN
+    RETURN false;
+  END IF;
+
+  CASE message.content_type
+    WHEN 'workflow' THEN
+      UPDATE public.workflows SET slack_reactions_count = slack_reactions_count + 1 WHERE id = message.content_id;
+    WHEN 'mcp_server' THEN
+      UPDATE public.mcp_servers SET slack_reactions_count = slack_reactions_count + 1 WHERE id = message.content_id;
+    WHEN 'blog_post' THEN
+      UPDATE public.blog_posts SET slack_reactions_count = slack_reactions_count + 1 WHERE id = message.content_id;
+    WHEN 'ide_news' THEN
+      UPDATE public.ide_news SET slack_reactions_count = slack_reactions_count + 1 WHERE id = message.content_id;
+  END CASE;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_slack_reaction(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_slack_reaction(TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+-- Add comments
+COMMENT ON TABLE public.slack_channel_tips IS 'Tips shown by welcome-bot (ephemeral message) to members joining a channel';
+COMMENT ON COLUMN public.slack_channel_tips.body IS 'Slack mrkdwn; {name} is replaced by a mention of the member';
+COMMENT ON TABLE public.slack_content_reactions IS 'Slack reactions to the notifications posted in bot mode, one row per member, emoji and message';
+COMMENT ON COLUMN public.workflows.slack_reactions_count IS 'Reactions to the Slack notifications of the workflow';
+COMMENT ON COLUMN public.mcp_servers.slack_reactions_count IS 'Reactions to the Slack notifications of the MCP server';
+COMMENT ON COLUMN public.blog_posts.slack_reactions_count IS 'Reactions to the Slack notifications of the post';
+COMMENT ON COLUMN public.ide_news.slack_reactions_count IS 'Reactions to the Slack notifications of the news item';
@@ -0,0 +1,11 @@
+-- Migration: Data de publicação das novidades das IDEs
+-- Description: sync-ide-news agora lê cada fonte com um adaptador (RSS/Atom,
+-- GitHub releases, HTML ou markdown) e guarda a data da release/post
+
+ALTER TABLE public.ide_news
+  ADD COLUMN IF NOT EXISTS publicado_em TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_ide_news_publicado_em
+  ON public.ide_news(publicado_em DESC NULLS LAST);
+
+COMMENT ON COLUMN public.ide_news.publicado_em IS 'Data da release/post informada pela fonte (null quando a fonte não informa)';
@@ -0,0 +1,104 @@
+-- Migration: Sincronização incremental das novidades das IDEs
+-- Description: sync-ide-news apagava todas as novidades e inseria de novo, o
+-- que deixava a página vazia quando o insert falhava e dava um created_at
+-- novo a cada item em toda execução. Agora cada item tem um hash estável
+-- (fonte + título + link) e sync_ide_news() faz o upsert em uma única
+-- transação: itens já vistos mantêm o created_at (primeira vez vistos) e só
+-- atualizam resumo, data e last_seen_at.
+
+-- Hash de identidade de uma novidade
+CREATE OR REPLACE FUNCTION public.ide_news_content_hash(p_fonte TEXT, p_titulo TEXT, p_link TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT md5(lower(btrim(p_fonte)) || E'\n' || lower(btrim(p_titulo)) || E'\n' || btrim(p_link));
+$$;
+
+-- Remove duplicatas antes de criar o índice único (mantém a mais antiga)
+DELETE FROM public.ide_news a
+USING public.ide_news b
+WHERE public.ide_news_content_hash(a.fonte, a.titulo, a.link) = public.ide_news_content_hash(b.fonte, b.titulo, b.link)
+  AND (a.created_at, a.id) > (b.created_at, b.id);
+
+ALTER TABLE public.ide_news
+  ADD COLUMN IF NOT EXISTS content_hash TEXT
+    GENERATED ALWAYS AS (public.ide_news_content_hash(fonte, titulo, link)) STORED,
+  ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ide_news_content_hash
+  ON public.ide_news(content_hash);
+
+-- Resultado de cada sincronização
+ALTER TABLE public.ide_news_sync_log
+  ADD COLUMN IF NOT EXISTS items_inserted INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS items_updated INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS failed_sources TEXT[] NOT NULL DEFAULT '{}';
+
+-- Upsert das novidades de uma sincronização. p_itens é um array JSON de
+-- {titulo, resumo, link, fonte, cor, logo, publicado_em}. Roda em uma
+-- transação: leitores veem a tabela antes ou depois da sincronização.
+CREATE OR REPLACE FUNCTION public.sync_ide_news(p_itens JSONB)
+RETURNS TABLE (inserted INTEGER, updated INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  fontes TEXT[];
+BEGIN
+  WITH entrada AS (
+    -- Uma linha por hash: ON CONFLICT não pode atualizar a mesma linha duas vezes
+    SELECT DISTINCT ON (public.ide_news_content_hash(i.fonte, i.titulo, i.link))
+      i.titulo, i.resumo, i.link, i.fonte, i.cor, i.logo, i.publicado_em
+    FROM jsonb_to_recordset(p_itens) AS i(
+      titulo TEXT, resumo TEXT, link TEXT, fonte TEXT, cor TEXT, logo TEXT, publicado_em TIMESTAMPTZ
+    )
+    WHERE i.titulo IS NOT NULL AND i.link IS NOT NULL AND i.fonte IS NOT NULL
+  ),
+  gravados AS (
+    INSERT INTO public.ide_news AS n (titulo, resumo, link, fonte, cor, logo, publicado_em, last_seen_at)
+    SELECT titulo, resumo, link, fonte, cor, logo, publicado_em, NOW()
+    FROM entrada
+    ON CONFLICT (content_hash) DO UPDATE
+    SET resumo = EXCLUDED.resumo,
+        cor = EXCLUDED.cor,
+        logo = EXCLUDED.logo,
+        publicado_em = COALESCE(EXCLUDED.publicado_em, n.publicado_em),
+        last_seen_at = NOW(),
+        updated_at = CASE
+          WHEN (n.resumo, n.publicado_em) IS DISTINCT FROM (EXCLUDED.resumo, COALESCE(EXCLUDED.publicado_em, n.publicado_em))
+            THEN NOW()
+          ELSE n.updated_at
+        END
+    -- xmax = 0 só em linhas recém-inseridas
+    RETURNING (n.xmax = 0) AS novo
+  )
+  SELECT
+    COUNT(*) FILTER (WHERE novo)::INTEGER,
+    COUNT(*) FILTER (WHERE NOT novo)::INTEGER
+  INTO inserted, updated
+  FROM gravados;
+
+  -- Itens "Ver changelog do ..." gravados pela versão antiga quando a fonte
+  -- falhava; saem assim que a fonte volta a ter novidades reais
+  SELECT array_agg(DISTINCT i->>'fonte') INTO fontes FROM jsonb_array_elements(p_itens) AS i;
+  DELETE FROM public.ide_news
+  WHERE fonte = ANY(fontes)
+    AND (titulo = 'Ver changelog completo' OR titulo LIKE 'Ver changelog do %');
+
+  PERFORM public.cleanup_old_ide_news();
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sync_ide_news(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.sync_ide_news(JSONB) TO service_role;
+
+-- Comentários para documentação
+COMMENT ON COLUMN public.ide_news.content_hash IS 'Identidade da novidade: md5 de fonte, título e link normalizados';
+COMMENT ON COLUMN public.ide_news.created_at IS 'Primeira vez que a novidade foi vista por sync-ide-news';
+COMMENT ON COLUMN public.ide_news.last_seen_at IS 'Última sincronização em que a fonte ainda listava a novidade';
+COMMENT ON COLUMN public.ide_news_sync_log.failed_sources IS 'Fontes que falharam; as novidades já gravadas delas são mantidas';
+COMMENT ON FUNCTION public.sync_ide_news(JSONB) IS 'Upsert transacional das novidades de uma sincronização, preservando created_at';
@@ -0,0 +1,100 @@
+-- Migration: Registro de fontes das novidades das IDEs
+-- Description: Havia dois sincronizadores concorrentes (sync-ide-news, com a
+-- lista FONTES no código, e auto-sync-ide-news, com um fetcher por IDE),
+-- disparados por crons diferentes. Agora há um único pipeline, sync-ide-news,
+-- que lê as fontes de ide_news_sources (editável pelos admins). O botão
+-- "Atualizar" da página e o cron chamam a mesma função.
+
+CREATE TABLE IF NOT EXISTS public.ide_news_sources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9-]+$'),
+  -- Nome exibido e gravado em ide_news.fonte
+  name TEXT NOT NULL UNIQUE,
+  -- Página pública do changelog
+  url TEXT NOT NULL,
+  logo TEXT,
+  color TEXT,
+  adapter_type TEXT NOT NULL CHECK (adapter_type IN ('rss', 'github_releases', 'html', 'markdown')),
+  -- rss: {"feed": url}; github_releases: {"repo": "owner/repo"};
+  -- html: {"seletores": {"item", "titulo", "resumo", "data", "link"}}; markdown: {}
+  adapter_config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  item_limit INTEGER NOT NULL DEFAULT 5 CHECK (item_limit BETWEEN 1 AND 20),
+  position INTEGER NOT NULL DEFAULT 0,
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_ide_news_sources_updated_at
+  BEFORE UPDATE ON public.ide_news_sources
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.ide_news_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage ide news sources"
+  ON public.ide_news_sources
+  FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Fontes que estavam em FONTES (sync-ide-news)
+INSERT INTO public.ide_news_sources (slug, name, url, logo, color, adapter_type, adapter_config, position)
+VALUES
+  ('windsurf', 'Windsurf', 'https://windsurf.com/changelog', '🌀', '#2563eb', 'html',
+    '{"seletores": {"item": "article", "titulo": "h2", "resumo": "p", "data": "time", "link": "a"}}', 0),
+  ('cursor', 'Cursor', 'https://www.cursor.com/changelog', '🖥️', '#111827', 'markdown', '{}', 1),
+  ('replit', 'Replit', 'https://blog.replit.com', '⚡', '#f97316', 'rss', '{"feed": "https://blog.replit.com/feed.xml"}', 2),
+  ('bolt', 'Bolt', 'https://bolt.new/changelog', '🚧', '#0ea5e9', 'markdown', '{}', 3),
+  ('bind', 'Bind AI', 'https://bind.ai/changelog', '🔗', '#6d28d9', 'markdown', '{}', 4),
+  ('firebase', 'Firebase Studio', 'https://firebase.google.com/updates', '🔥', '#f59e0b', 'markdown', '{}', 5),
+  ('vscode', 'VS Code', 'https://code.visualstudio.com/updates', '🧩', '#2563eb', 'github_releases', '{"repo": "microsoft/vscode"}', 6),
+  ('jetbrains', 'JetBrains', 'https://blog.jetbrains.com', '💡', '#e11d48', 'rss', '{"feed": "https://blog.jetbrains.com/feed/"}', 7),
+  ('antgravit', 'Antgravit', 'https://antgravit.com/changelog', '🚀', '#6d28d9', 'markdown', '{}', 8)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Um único cron: o job das 00:00 (chave anon) sai e o das 08:00 passa a
+-- chamar sync-ide-news. A URL e a chave continuam as da função original.
+SELECT cron.unschedule('sync-ide-news-daily')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'sync-ide-news-daily');
+
+CREATE OR REPLACE FUNCTION trigger_auto_sync_ide_news()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  service_role_key text;
+BEGIN
+  -- Buscar service role key das configurações do Supabase
+  -- Nota: Em produção, isso deve ser configurado via Supabase Dashboard
+  service_role_key := current_setting('app.settings.service_role_key', true);
+
+  -- Se não encontrar a key, usar a variável de ambiente
+  IF service_role_key IS NULL THEN
+    service_role_key := current_setting('supabase.service_role_key', true);
+  END IF;
+
+  -- Fazer requisição HTTP para a Edge Function
+  PERFORM net.http_post(
+    url := 'https://zarigqmtaexgcayzfqpt.supabase.co/functions/v1/sync-ide-news',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || COALESCE(service_role_key, '')
+    ),
+    body := '{}'::jsonb
+  );
+
+  RAISE NOTICE 'IDE news sync triggered successfully';
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Error triggering IDE news sync: %', SQLERRM;
+END;
+$$;
+
+-- Comentários para documentação
+COMMENT ON TABLE public.ide_news_sources IS 'Fontes lidas por sync-ide-news, uma por IDE/changelog';
+COMMENT ON COLUMN public.ide_news_sources.adapter_config IS 'Configuração do adaptador: feed (rss), repo (github_releases) ou seletores (html)';
+COMMENT ON COLUMN public.ide_news_sources.name IS 'Gravado em ide_news.fonte; renomear uma fonte faz as novidades dela serem vistas como novas';
+COMMENT ON FUNCTION trigger_auto_sync_ide_news() IS 'Dispara sync-ide-news (único pipeline de novidades das IDEs) via Edge Function';
@@ -0,0 +1,13 @@
+-- Migration: Resultado por fonte nas sincronizações das novidades das IDEs
+-- Description: O painel /ide-news-manager mostra o histórico de
+-- sincronizações com o resultado de cada fonte e permite rodar uma fonte só.
+
+ALTER TABLE public.ide_news_sync_log
+  -- [{source, name, status: 'success' | 'error', items, error}]
+  ADD COLUMN IF NOT EXISTS source_results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Fonte sincronizada sozinha ("Rodar agora"); NULL = todas as fontes habilitadas
+  ADD COLUMN IF NOT EXISTS source_slug TEXT;
+
+-- Comentários para documentação
+COMMENT ON COLUMN public.ide_news_sync_log.source_results IS 'Resultado de cada fonte: status, itens lidos e erro';
+COMMENT ON COLUMN public.ide_news_sync_log.source_slug IS 'Slug da única fonte sincronizada, ou NULL quando todas rodaram';
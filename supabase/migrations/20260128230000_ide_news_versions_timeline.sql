@@ -0,0 +1,113 @@
+-- Migration: Versão das novidades das IDEs e linha do tempo por IDE
+-- Description: sync-ide-news passa a gravar a versão da release (da tag do
+-- GitHub ou do título) e o slug da fonte. A página pública /ide-news/:fonte
+-- mostra todas as releases de uma IDE em ordem cronológica, então a limpeza
+-- deixa de manter só as 100 novidades mais recentes no total e passa a
+-- manter as 200 mais recentes de cada fonte.
+
+ALTER TABLE public.ide_news
+  ADD COLUMN IF NOT EXISTS versao TEXT,
+  ADD COLUMN IF NOT EXISTS fonte_slug TEXT;
+
+-- Novidades já gravadas: slug pelo nome da fonte e versão pelo título
+-- (mesma regra de extrairVersao em sync-ide-news/adapters.ts, sem sufixos)
+UPDATE public.ide_news n
+SET fonte_slug = s.slug
+FROM public.ide_news_sources s
+WHERE n.fonte_slug IS NULL AND s.name = n.fonte;
+
+UPDATE public.ide_news
+SET versao = (regexp_match(titulo, '(?<![\w.$])v?(\d+\.\d+(?:\.\d+){0,2})(?![\w%]|\.\d)', 'i'))[1]
+WHERE versao IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ide_news_fonte_slug_publicado_em
+  ON public.ide_news(fonte_slug, publicado_em DESC NULLS LAST, created_at DESC);
+
+-- Upsert das novidades, agora com versao e fonte_slug
+CREATE OR REPLACE FUNCTION public.sync_ide_news(p_itens JSONB)
+RETURNS TABLE (inserted INTEGER, updated INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  fontes TEXT[];
+BEGIN
+  WITH entrada AS (
+    -- Uma linha por hash: ON CONFLICT não pode atualizar a mesma linha duas vezes
+    SELECT DISTINCT ON (public.ide_news_content_hash(i.fonte, i.titulo, i.link))
+      i.titulo, i.resumo, i.link, i.fonte, i.fonte_slug, i.cor, i.logo, i.publicado_em, i.versao
+    FROM jsonb_to_recordset(p_itens) AS i(
+      titulo TEXT, resumo TEXT, link TEXT, fonte TEXT, fonte_slug TEXT, cor TEXT, logo TEXT,
+      publicado_em TIMESTAMPTZ, versao TEXT
+    )
+    WHERE i.titulo IS NOT NULL AND i.link IS NOT NULL AND i.fonte IS NOT NULL
+  ),
+  gravados AS (
+    INSERT INTO public.ide_news AS n (titulo, resumo, link, fonte, fonte_slug, cor, logo, publicado_em, versao, last_seen_at)
+    SELECT titulo, resumo, link, fonte, fonte_slug, cor, logo, publicado_em, versao, NOW()
+    FROM entrada
+    ON CONFLICT (content_hash) DO UPDATE
+    SET resumo = EXCLUDED.resumo,
+        cor = EXCLUDED.cor,
+        logo = EXCLUDED.logo,
+        fonte_slug = COALESCE(EXCLUDED.fonte_slug, n.fonte_slug),
+        publicado_em = COALESCE(EXCLUDED.publicado_em, n.publicado_em),
+        versao = COALESCE(EXCLUDED.versao, n.versao),
+        last_seen_at = NOW(),
+        updated_at = CASE
+          WHEN (n.resumo, n.publicado_em, n.versao)
+            IS DISTINCT FROM (EXCLUDED.resumo, COALESCE(EXCLUDED.publicado_em, n.publicado_em), COALESCE(EXCLUDED.versao, n.versao))
+            THEN NOW()
+          ELSE n.updated_at
+        END
+    -- xmax = 0 só em linhas recém-inseridas
+    RETURNING (n.xmax = 0) AS novo
+  )
+  SELECT
+    COUNT(*) FILTER (WHERE novo)::INTEGER,
+    COUNT(*) FILTER (WHERE NOT novo)::INTEGER
+  INTO inserted, updated
+  FROM gravados;
+
+  -- Itens "Ver changelog do ..." gravados pela versão antiga quando a fonte
+  -- falhava; saem assim que a fonte volta a ter novidades reais
+  SELECT array_agg(DISTINCT i->>'fonte') INTO fontes FROM jsonb_array_elements(p_itens) AS i;
+  DELETE FROM public.ide_news
+  WHERE fonte = ANY(fontes)
+    AND (titulo = 'Ver changelog completo' OR titulo LIKE 'Ver changelog do %');
+
+  PERFORM public.cleanup_old_ide_news();
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Mantém as 200 novidades mais recentes de cada fonte (pela data da release)
+CREATE OR REPLACE FUNCTION public.cleanup_old_ide_news()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  DELETE FROM public.ide_news
+  WHERE id IN (
+    SELECT id
+    FROM (
+      SELECT
+        id,
+        ROW_NUMBER() OVER (
+          PARTITION BY fonte
+          ORDER BY COALESCE(publicado_em, created_at) DESC, created_at DESC
+        ) AS ordem
+      FROM public.ide_news
+    ) ranqueadas
+    WHERE ordem > 200
+  );
+END;
+$$;
+
+-- Comentários para documentação
+COMMENT ON COLUMN public.ide_news.versao IS 'Versão da release (tag do GitHub ou número no título); null quando a fonte não informa';
+COMMENT ON COLUMN public.ide_news.fonte_slug IS 'Slug da fonte em ide_news_sources; usado pela página /ide-news/:fonte';
+COMMENT ON FUNCTION public.cleanup_old_ide_news() IS 'Remove novidades antigas, mantendo as 200 mais recentes de cada fonte';
@@ -0,0 +1,21 @@
+-- Migration: Resumos em português das novidades das IDEs
+-- Description: Etapa opcional do sync-ide-news (IDE_NEWS_SUMMARY_PROVIDER):
+-- um provedor de LLM gera um resumo de 2 a 3 frases em português e tags
+-- para as novidades ainda sem resumo. O `resumo` original da fonte é mantido.
+
+ALTER TABLE public.ide_news
+  ADD COLUMN IF NOT EXISTS resumo_ia TEXT,
+  ADD COLUMN IF NOT EXISTS resumo_ia_modelo TEXT,
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_ide_news_tags
+  ON public.ide_news USING GIN (tags);
+
+ALTER TABLE public.ide_news_sync_log
+  ADD COLUMN IF NOT EXISTS items_summarized INTEGER NOT NULL DEFAULT 0;
+
+-- Comentários para documentação
+COMMENT ON COLUMN public.ide_news.resumo_ia IS 'Resumo em português (2 a 3 frases) gerado pelo provedor configurado no sync-ide-news';
+COMMENT ON COLUMN public.ide_news.resumo_ia_modelo IS 'Provedor e modelo que geraram resumo_ia, ex.: openai:gpt-4o-mini';
+COMMENT ON COLUMN public.ide_news.tags IS 'Tags do vocabulário TAGS_NOVIDADES (agent, model, pricing, ...)';
+COMMENT ON COLUMN public.ide_news_sync_log.items_summarized IS 'Novidades que receberam resumo_ia nesta execução';
@@ -0,0 +1,335 @@
+-- Scheduled jobs: pg_cron → Edge Functions
+-- Every cron job that calls an Edge Function goes through
+-- run_scheduled_job(name), which reads the project URL and service role key
+-- from Vault (falling back to app.settings.*) instead of hardcoding them, so
+-- the same migrations work on production, staging and local stacks. Each
+-- invocation is recorded in scheduled_job_runs; collect_scheduled_job_runs()
+-- fills in the HTTP result from pg_net and, when a job fails
+-- failure_threshold times in a row, sends an alert through notify-slack.
+--
+-- Settings (Vault secret name, or app.settings.<name>):
+--   supabase_url      e.g. https://<project>.supabase.co or http://kong:8000
+--   service_role_key  sent as the Bearer token
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE TABLE IF NOT EXISTS public.scheduled_jobs (
+  name TEXT PRIMARY KEY,
+  function_name TEXT NOT NULL,
+  body JSONB NOT NULL DEFAULT '{}'::jsonb,
+  timeout_ms INTEGER NOT NULL DEFAULT 5000 CHECK (timeout_ms > 0),
+  failure_threshold INTEGER NOT NULL DEFAULT 3 CHECK (failure_threshold >= 1),
+  alert_webhook_id UUID REFERENCES public.slack_webhooks(id) ON DELETE SET NULL,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0 CHECK (consecutive_failures >= 0),
+  last_run_at TIMESTAMPTZ,
+  last_success_at TIMESTAMPTZ,
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.scheduled_job_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_name TEXT NOT NULL REFERENCES public.scheduled_jobs(name) ON DELETE CASCADE ON UPDATE CASCADE,
+  request_id BIGINT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'success', 'error')),
+  http_status INTEGER,
+  response_body TEXT,
+  error_message TEXT,
+  alert_request_id BIGINT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_job
+  ON public.scheduled_job_runs(job_name, started_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_pending
+  ON public.scheduled_job_runs(started_at)
+  WHERE status = 'pending';
+
+-- Keep updated_at current
+CREATE TRIGGER update_scheduled_jobs_updated_at
+  BEFORE UPDATE ON public.scheduled_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Admins can inspect jobs and tune thresholds/alerts; cron runs as postgres
+ALTER TABLE public.scheduled_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scheduled_job_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view scheduled jobs"
+  ON public.scheduled_jobs
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update scheduled jobs"
+  ON public.scheduled_jobs
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view scheduled job runs"
+  ON public.scheduled_job_runs
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Reads a setting from Vault, falling back to app.settings.<name>.
+-- Returns null when neither is set.
+CREATE OR REPLACE FUNCTION public.scheduled_job_setting(p_name TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  setting TEXT;
+BEGIN
+  IF to_regclass('vault.decrypted_secrets') IS NOT NULL THEN
+    EXECUTE 'SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = $1 LIMIT 1'
+      INTO setting
+      USING p_name;
+  END IF;
+
+  RETURN COALESCE(NULLIF(setting, ''), NULLIF(current_setting('app.settings.' || p_name, true), ''));
+END;
+$$;
+
+-- POSTs to an Edge Function with the service role key. Raises when the
+-- settings are missing; the caller records the error.
+CREATE OR REPLACE FUNCTION public.invoke_edge_function(p_function TEXT, p_body JSONB, p_timeout_ms INTEGER DEFAULT 5000)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  base_url TEXT := public.scheduled_job_setting('supabase_url');
+  service_role_key TEXT := public.scheduled_job_setting('service_role_key');
+BEGIN
+  IF base_url IS NULL OR service_role_key IS NULL THEN
+    RAISE EXCEPTION 'Missing setting %: add it to Vault or app.settings',
+      CASE WHEN base_url IS NULL THEN 'supabase_url' ELSE 'service_role_key' END;
+  END IF;
+
+  RETURN net.http_post(
+    url := rtrim(base_url, '/') || '/functions/v1/' || p_function,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := p_body,
+    timeout_milliseconds := p_timeout_ms
+  );
+END;
+$$;
+
+-- Records the result of a run and updates the job's failure streak. Sends
+-- one alert per streak, when it reaches failure_threshold.
+CREATE OR REPLACE FUNCTION public.finish_scheduled_job_run(
+  p_run_id UUID,
+  p_http_status INTEGER,
+  p_response TEXT,
+  p_error TEXT
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  succeeded BOOLEAN := p_error IS NULL AND COALESCE(p_http_status BETWEEN 200 AND 299, false);
+  run public.scheduled_job_runs;
+  job public.scheduled_jobs;
+  alert_request BIGINT;
+BEGIN
+  UPDATE public.scheduled_job_runs
+  SET status = CASE WHEN succeeded THEN 'success' ELSE 'error' END,
+      http_status = p_http_status,
+      response_body = left(p_response, 2000),
+      error_message = CASE
+        WHEN succeeded THEN NULL
+        ELSE COALESCE(p_error, 'HTTP ' || p_http_status, 'No response')
+      END,
+      completed_at = NOW()
+  WHERE id = p_run_id AND status = 'pending'
+  RETURNING * INTO run;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.scheduled_jobs
+  SET consecutive_failures = CASE WHEN succeeded THEN 0 ELSE consecutive_failures + 1 END,
+      last_success_at = CASE WHEN succeeded THEN run.completed_at ELSE last_success_at END
+  WHERE name = run.job_name
+  RETURNING * INTO job;
+
+  IF succeeded OR job.consecutive_failures <> job.failure_threshold THEN
+    RETURN;
+  END IF;
+
+  IF job.alert_webhook_id IS NULL THEN
+    RAISE WARNING 'Scheduled job % failed % times in a row (no alert_webhook_id)', job.name, job.consecutive_failures;
+    RETURN;
+  END IF;
+
+  BEGIN
+    alert_request := public.invoke_edge_function(
+      'notify-slack',
+      jsonb_build_object(
+        'webhook_id', job.alert_webhook_id,
+        'job_alert', jsonb_build_object(
+          'job_name', job.name,
+          'function_name', job.function_name,
+          'consecutive_failures', job.consecutive_failures,
+          'last_http_status', run.http_status,
+          'last_error', concat_ws(': ', run.error_message, NULLIF(left(run.response_body, 500), '')),
+          'last_run_at', run.started_at
+        )
+      )
+    );
+  EXCEPTION
+    WHEN OTHERS THEN
+      RAISE WARNING 'Could not alert on scheduled job %: %', job.name, SQLERRM;
+      RETURN;
+  END;
+
+  UPDATE public.scheduled_job_runs SET alert_request_id = alert_request WHERE id = run.id;
+END;
+$$;
+
+-- Called by pg_cron: records a run and invokes the job's Edge Function.
+-- Returns the run id (null when the job is disabled).
+CREATE OR REPLACE FUNCTION public.run_scheduled_job(p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job public.scheduled_jobs;
+  run_id UUID;
+  request BIGINT;
+BEGIN
+  SELECT * INTO job FROM public.scheduled_jobs WHERE name = p_name;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown scheduled job: %', p_name;
+  END IF;
+
+  IF NOT job.is_enabled THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.scheduled_job_runs (job_name)
+  VALUES (job.name)
+  RETURNING id INTO run_id;
+
+  UPDATE public.scheduled_jobs SET last_run_at = NOW() WHERE name = job.name;
+
+  BEGIN
+    request := public.invoke_edge_function(job.function_name, job.body, job.timeout_ms);
+  EXCEPTION
+    WHEN OTHERS THEN
+      PERFORM public.finish_scheduled_job_run(run_id, NULL, NULL, SQLERRM);
+      RETURN run_id;
+  END;
+
+  UPDATE public.scheduled_job_runs SET request_id = request WHERE id = run_id;
+
+  RETURN run_id;
+END;
+$$;
+
+-- Fills in pending runs from pg_net responses. pg_net keeps responses for
+-- 6 hours, so runs still pending after that never got one.
+CREATE OR REPLACE FUNCTION public.collect_scheduled_job_runs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  response RECORD;
+  collected INTEGER := 0;
+BEGIN
+  FOR response IN
+    SELECT r.id, res.status_code, res.content, res.timed_out, res.error_msg
+    FROM public.scheduled_job_runs r
+    JOIN net._http_response res ON res.id = r.request_id
+    WHERE r.status = 'pending'
+    ORDER BY r.started_at
+  LOOP
+    PERFORM public.finish_scheduled_job_run(
+      response.id,
+      response.status_code,
+      response.content,
+      CASE WHEN response.timed_out THEN 'Request timed out' ELSE response.error_msg END
+    );
+    collected := collected + 1;
+  END LOOP;
+
+  FOR response IN
+    SELECT r.id
+    FROM public.scheduled_job_runs r
+    WHERE r.status = 'pending' AND r.started_at < NOW() - INTERVAL '6 hours'
+    ORDER BY r.started_at
+  LOOP
+    PERFORM public.finish_scheduled_job_run(response.id, NULL, NULL, 'No response recorded by pg_net');
+    collected := collected + 1;
+  END LOOP;
+
+  DELETE FROM public.scheduled_job_runs WHERE started_at < NOW() - INTERVAL '14 days';
+
+  RETURN collected;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.scheduled_job_setting(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.invoke_edge_function(TEXT, JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.finish_scheduled_job_run(UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.run_scheduled_job(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.collect_scheduled_job_runs() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.run_scheduled_job(TEXT) TO service_role;
+
+-- Jobs that used to call their Edge Function directly from cron
+INSERT INTO public.scheduled_jobs (name, function_name, timeout_ms, failure_threshold)
+VALUES
+  ('sync-ide-news', 'sync-ide-news', 120000, 2),
+  ('slack-outbox-worker', 'slack-outbox-worker', 30000, 5),
+  ('onboarding-worker', 'onboarding-worker', 30000, 3)
+ON CONFLICT (name) DO NOTHING;
+
+SELECT cron.unschedule(jobname)
+FROM cron.job
+WHERE jobname IN ('auto-sync-ide-news-daily', 'slack-outbox-worker', 'onboarding-worker');
+
+DROP FUNCTION IF EXISTS public.trigger_auto_sync_ide_news();
+
+-- Same schedules as before
+SELECT cron.schedule('auto-sync-ide-news-daily', '0 8 * * *', $$ SELECT public.run_scheduled_job('sync-ide-news'); $$);
+SELECT cron.schedule('slack-outbox-worker', '* * * * *', $$ SELECT public.run_scheduled_job('slack-outbox-worker'); $$);
+SELECT cron.schedule('onboarding-worker', '*/15 * * * *', $$ SELECT public.run_scheduled_job('onboarding-worker'); $$);
+
+-- Collect HTTP results every minute
+SELECT cron.schedule('scheduled-job-runs-collector', '* * * * *', $$ SELECT public.collect_scheduled_job_runs(); $$);
+
+-- Add comments
+COMMENT ON TABLE public.scheduled_jobs IS 'Edge Functions invoked by pg_cron through run_scheduled_job()';
+COMMENT ON COLUMN public.scheduled_jobs.body IS 'JSON body posted to the Edge Function';
+COMMENT ON COLUMN public.scheduled_jobs.failure_threshold IS 'Consecutive failures that trigger an alert to alert_webhook_id';
+COMMENT ON COLUMN public.scheduled_jobs.alert_webhook_id IS 'slack_webhooks row that receives failure alerts via notify-slack (null = only a database warning)';
+COMMENT ON COLUMN public.scheduled_jobs.consecutive_failures IS 'Failed runs since the last success';
+COMMENT ON TABLE public.scheduled_job_runs IS 'One row per cron invocation of a scheduled job, kept for 14 days';
+COMMENT ON COLUMN public.scheduled_job_runs.request_id IS 'pg_net request id (net._http_response.id)';
+COMMENT ON COLUMN public.scheduled_job_runs.status IS 'pending (waiting for the pg_net response), success (2xx) or error';
+COMMENT ON COLUMN public.scheduled_job_runs.alert_request_id IS 'pg_net request id of the notify-slack alert sent after this run';
+COMMENT ON FUNCTION public.scheduled_job_setting(TEXT) IS 'Reads a setting from Vault, falling back to app.settings.<name>';
+COMMENT ON FUNCTION public.run_scheduled_job(TEXT) IS 'Records a run and invokes the job''s Edge Function (called by pg_cron)';
+COMMENT ON FUNCTION public.collect_scheduled_job_runs() IS 'Records pg_net responses of pending runs and alerts on repeated failures';
@@ -0,0 +1,248 @@
+-- Migration: Busca full-text no catálogo
+-- Description: workflows, mcp_servers, blog_posts e recommended_sites ganham
+-- uma coluna search_vector (configuração portuguese_unaccent: stemming em
+-- português e sem acentos, então "automacao" encontra "Automação"). A RPC
+-- search_catalog() busca nas quatro tabelas com ranking, destaques e
+-- paginação; é usada pela busca global (Ctrl+K) e pelas buscas das páginas
+-- /blog e /mcp-servers, que antes filtravam tudo no navegador.
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- Português sem acentos
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'portuguese_unaccent') THEN
+    CREATE TEXT SEARCH CONFIGURATION public.portuguese_unaccent (COPY = pg_catalog.portuguese);
+    ALTER TEXT SEARCH CONFIGURATION public.portuguese_unaccent
+      ALTER MAPPING FOR hword, hword_part, word WITH unaccent, portuguese_stem;
+  END IF;
+END $$;
+
+-- array_to_string não é IMMUTABLE e não pode ser usada em colunas geradas
+CREATE OR REPLACE FUNCTION public.search_tags_text(p_tags TEXT[])
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_to_string(p_tags, ' '), '');
+$$;
+
+-- Título pesa mais que descrição/tags, que pesam mais que o conteúdo
+ALTER TABLE public.workflows
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('public.portuguese_unaccent', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('public.portuguese_unaccent', COALESCE(description, '')), 'B') ||
+    setweight(to_tsvector('public.portuguese_unaccent', COALESCE(content, '')), 'D')
+  ) STORED;
+
+ALTER TABLE public.mcp_servers
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('public.portuguese_unaccent', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('public.portuguese_unaccent', COALESCE(description, '') || ' ' || public.search_tags_text(tags)), 'B') ||
+    setweight(to_tsvector('public.portuguese_unaccent', COALESCE(npm_package, '') || ' ' || COALESCE(category, '')), 'C') ||
+    setweight(to_tsvector('public.portuguese_unaccent', COALESCE(content, '')), 'D')
+  ) STORED;
+
+ALTER TABLE public.blog_posts
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('public.portuguese_unaccent', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('public.portuguese_unaccent', COALESCE(excerpt, '') || ' ' || public.search_tags_text(tags)), 'B') ||
+    setweight(to_tsvector('public.portuguese_unaccent', COALESCE(category, '')), 'C') ||
+    setweight(to_tsvector('public.portuguese_unaccent', COALESCE(content, '')), 'D')
+  ) STORED;
+
+ALTER TABLE public.recommended_sites
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('public.portuguese_unaccent', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('public.portuguese_unaccent', COALESCE(description, '') || ' ' || public.search_tags_text(tags)), 'B') ||
+    setweight(to_tsvector('public.portuguese_unaccent', COALESCE(category, '')), 'C')
+  ) STORED;
+
+-- Índices GIN
+CREATE INDEX IF NOT EXISTS idx_workflows_search ON public.workflows USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_mcp_servers_search ON public.mcp_servers USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_blog_posts_search ON public.blog_posts USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_recommended_sites_search ON public.recommended_sites USING GIN (search_vector);
+
+-- Busca nos itens publicados. Cada palavra do termo vira um prefixo
+-- ("autom" encontra "automação"), todas obrigatórias. Os destaques vêm
+-- marcados com <mark>...</mark>; total_count é o total de resultados, para
+-- a paginação.
+CREATE OR REPLACE FUNCTION public.search_catalog(
+  p_query TEXT,
+  p_types TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 10,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  content_type TEXT,
+  id UUID,
+  title TEXT,
+  slug TEXT,
+  url TEXT,
+  title_highlight TEXT,
+  snippet TEXT,
+  rank REAL,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  termos TEXT;
+  consulta tsquery;
+BEGIN
+  SELECT string_agg(quote_literal(termo) || ':*', ' & ')
+  INTO termos
+  FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS termo
+  WHERE termo <> '';
+
+  IF termos IS NULL THEN
+    RETURN;
+  END IF;
+
+  consulta := to_tsquery('public.portuguese_unaccent', termos);
+
+  -- Só stopwords ("de", "para")
+  IF numnode(consulta) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH encontrados AS (
+    SELECT 'workflow'::TEXT AS tipo, w.id, w.title, w.slug, NULL::TEXT AS link,
+      w.description AS trecho, ts_rank_cd(w.search_vector, consulta) AS nota
+    FROM public.workflows w
+    WHERE w.is_published AND w.search_vector @@ consulta
+      AND (p_types IS NULL OR 'workflow' = ANY(p_types))
+    UNION ALL
+    SELECT 'mcp_server', m.id, m.title, m.slug, NULL,
+      m.description, ts_rank_cd(m.search_vector, consulta)
+    FROM public.mcp_servers m
+    WHERE m.is_published AND m.search_vector @@ consulta
+      AND (p_types IS NULL OR 'mcp_server' = ANY(p_types))
+    UNION ALL
+    SELECT 'blog_post', b.id, b.title, b.slug, NULL,
+      b.excerpt, ts_rank_cd(b.search_vector, consulta)
+    FROM public.blog_posts b
+    WHERE b.status = 'published' AND b.search_vector @@ consulta
+      AND (p_types IS NULL OR 'blog_post' = ANY(p_types))
+    UNION ALL
+    SELECT 'recommended_site', s.id, s.title, s.slug, s.url,
+      s.description, ts_rank_cd(s.search_vector, consulta)
+    FROM public.recommended_sites s
+    WHERE s.is_published AND s.search_vector @@ consulta
+      AND (p_types IS NULL OR 'recommended_site' = ANY(p_types))
+  ),
+  pagina AS (
+    SELECT e.*, COUNT(*) OVER () AS total
+    FROM encontrados e
+    ORDER BY e.nota DESC, e.title
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  SELECT
+    p.tipo,
+    p.id,
+    p.title,
+    p.slug,
+    p.link,
+    ts_headline('public.portuguese_unaccent', p.title, consulta,
+      'HighlightAll=true, StartSel=<mark>, StopSel=</mark>'),
+    CASE WHEN COALESCE(p.trecho, '') = '' THEN NULL ELSE
+      ts_headline('public.portuguese_unaccent', p.trecho, consulta,
+        'StartSel=<mark>, StopSel=</mark>, MinWords=12, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "')
+    END,
+    p.nota,
+    p.total
+  FROM pagina p
+  ORDER BY p.nota DESC, p.title;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_catalog(TEXT, TEXT[], INTEGER, INTEGER) TO anon, authenticated;
+
+-- search_vector é derivada de title/content: mudá-la não é uma edição e não
+-- deve aparecer nas mudanças da notificação "updated" do Slack
+CREATE OR REPLACE FUNCTION public.enqueue_slack_on_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_row JSONB;
+  old_row JSONB;
+  now_published BOOLEAN := false;
+  was_published BOOLEAN := false;
+  changes JSONB;
+BEGIN
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW);
+  END IF;
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD);
+  END IF;
+
+  IF TG_TABLE_NAME = 'blog_posts' THEN
+    now_published := COALESCE(new_row->>'status' = 'published', false);
+    was_published := COALESCE(old_row->>'status' = 'published', false);
+  ELSE
+    now_published := COALESCE((new_row->>'is_published')::boolean, false);
+    was_published := COALESCE((old_row->>'is_published')::boolean, false);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    IF was_published THEN
+      PERFORM public.enqueue_slack_notification(
+        TG_ARGV[0], OLD.id, 'deleted',
+        jsonb_build_object('title', old_row->>'title')
+      );
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF now_published AND NOT was_published THEN
+    PERFORM public.enqueue_slack_notification(TG_ARGV[0], NEW.id, 'published');
+  ELSIF now_published AND was_published THEN
+    -- Bookkeeping columns (timestamps, counters) don't count as an update.
+    -- Values are truncated so large bodies don't bloat the outbox.
+    SELECT COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'field', n.key,
+          'before', left(o.value #>> '{}', 200),
+          'after', left(n.value #>> '{}', 200)
+        )
+        ORDER BY n.key
+      ),
+      '[]'::jsonb
+    )
+    INTO changes
+    FROM jsonb_each(new_row) n
+    JOIN jsonb_each(old_row) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value
+      AND n.key NOT IN (
+        'updated_at', 'created_at', 'views_count', 'clicks_count', 'slack_reactions_count',
+        'search_vector'
+      );
+
+    IF jsonb_array_length(changes) > 0 THEN
+      PERFORM public.enqueue_slack_notification(
+        TG_ARGV[0], NEW.id, 'updated',
+        jsonb_build_object('changes', changes)
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Comentários para documentação
+COMMENT ON FUNCTION public.search_catalog(TEXT, TEXT[], INTEGER, INTEGER) IS 'Busca full-text (português, sem acentos) em workflows, MCP servers, artigos e sites publicados, com ranking, destaques <mark> e paginação';
+COMMENT ON COLUMN public.workflows.search_vector IS 'Título (A), descrição (B) e conteúdo (D) para search_catalog()';
+COMMENT ON COLUMN public.mcp_servers.search_vector IS 'Título (A), descrição e tags (B), pacote npm e categoria (C) e conteúdo (D) para search_catalog()';
+COMMENT ON COLUMN public.blog_posts.search_vector IS 'Título (A), resumo e tags (B), categoria (C) e conteúdo (D) para search_catalog()';
+COMMENT ON COLUMN public.recommended_sites.search_vector IS 'Título (A), descrição e tags (B) e categoria (C) para search_catalog()';
@@ -0,0 +1,59 @@
+-- Migration: Metadados de execução dos servidores MCP
+-- Description: mcp_servers ganha comando, argumentos, variáveis de ambiente e
+-- transporte estruturados, usados pelo gerador de configuração da página
+-- /mcp-servers/:slug (Claude Desktop, Cursor, VS Code e Windsurf). Antes só
+-- existia install_command, e cada membro montava o bloco mcpServers à mão.
+
+ALTER TABLE public.mcp_servers
+  ADD COLUMN IF NOT EXISTS transport TEXT NOT NULL DEFAULT 'stdio',
+  ADD COLUMN IF NOT EXISTS launch_command TEXT,
+  ADD COLUMN IF NOT EXISTS launch_args TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS server_url TEXT,
+  ADD COLUMN IF NOT EXISTS env_vars JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.mcp_servers
+  DROP CONSTRAINT IF EXISTS mcp_servers_transport_check;
+ALTER TABLE public.mcp_servers
+  ADD CONSTRAINT mcp_servers_transport_check CHECK (transport IN ('stdio', 'sse', 'http'));
+
+-- env_vars: [{ "name", "description", "required", "secret", "example"? }]
+ALTER TABLE public.mcp_servers
+  DROP CONSTRAINT IF EXISTS mcp_servers_env_vars_check;
+ALTER TABLE public.mcp_servers
+  ADD CONSTRAINT mcp_servers_env_vars_check CHECK (jsonb_typeof(env_vars) = 'array');
+
+-- Servidores remotos (sse/http) precisam de URL
+ALTER TABLE public.mcp_servers
+  DROP CONSTRAINT IF EXISTS mcp_servers_server_url_check;
+ALTER TABLE public.mcp_servers
+  ADD CONSTRAINT mcp_servers_server_url_check CHECK (transport = 'stdio' OR server_url IS NOT NULL);
+
+-- Preenche a partir do comando de instalação quando ele já é o comando de
+-- execução ("npx -y @pacote/servidor /caminho")
+UPDATE public.mcp_servers
+SET
+  launch_command = partes[1],
+  launch_args = partes[2:array_length(partes, 1)]
+FROM (
+  SELECT id AS servidor_id, regexp_split_to_array(trim(install_command), '\s+') AS partes
+  FROM public.mcp_servers
+  WHERE install_command ~ '^\s*(npx|uvx|bunx|docker|node|python3?)\s'
+) comandos
+WHERE id = comandos.servidor_id
+  AND launch_command IS NULL;
+
+-- Os demais com pacote npm rodam via npx
+UPDATE public.mcp_servers
+SET
+  launch_command = 'npx',
+  launch_args = ARRAY['-y', npm_package]
+WHERE launch_command IS NULL
+  AND npm_package IS NOT NULL
+  AND transport = 'stdio';
+
+-- Comentários para documentação
+COMMENT ON COLUMN public.mcp_servers.transport IS 'Transporte MCP: stdio (processo local), sse ou http (servidor remoto em server_url)';
+COMMENT ON COLUMN public.mcp_servers.launch_command IS 'Executável do servidor stdio (ex: npx, uvx, docker)';
+COMMENT ON COLUMN public.mcp_servers.launch_args IS 'Argumentos do executável (ex: {-y,@modelcontextprotocol/server-github})';
+COMMENT ON COLUMN public.mcp_servers.server_url IS 'URL do servidor remoto (transportes sse e http)';
+COMMENT ON COLUMN public.mcp_servers.env_vars IS 'Variáveis de ambiente: [{name, description, required, secret, example}]; secretas viram placeholders na configuração gerada';
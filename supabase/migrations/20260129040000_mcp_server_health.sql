@@ -0,0 +1,157 @@
+-- Migration: Saúde dos servidores MCP
+-- Description: A Edge Function check-mcp-health roda todo dia (scheduled job
+-- 'mcp-health-check') e registra, por servidor, a última versão no npm, a
+-- data de publicação, se a versão foi descontinuada, se o repositório está
+-- arquivado, estrelas e licença. O resultado vira health_status
+-- (maintained / stale / archived), exibido nos cards de /mcp-servers;
+-- mcp_server_health_checks guarda o histórico. Mudanças de status são
+-- avisadas no alert_webhook_id do job.
+
+ALTER TABLE public.mcp_servers
+  ADD COLUMN IF NOT EXISTS health_status TEXT,
+  ADD COLUMN IF NOT EXISTS health_reason TEXT,
+  ADD COLUMN IF NOT EXISTS health_checked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS latest_version TEXT,
+  ADD COLUMN IF NOT EXISTS last_published_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS repo_archived BOOLEAN,
+  ADD COLUMN IF NOT EXISTS github_stars INTEGER,
+  ADD COLUMN IF NOT EXISTS license TEXT;
+
+ALTER TABLE public.mcp_servers
+  DROP CONSTRAINT IF EXISTS mcp_servers_health_status_check;
+ALTER TABLE public.mcp_servers
+  ADD CONSTRAINT mcp_servers_health_status_check
+  CHECK (health_status IS NULL OR health_status IN ('maintained', 'stale', 'archived'));
+
+-- As colunas de saúde são regravadas todo dia por check-mcp-health e não
+-- são edições: sem isso cada servidor publicado geraria uma notificação
+-- "updated" no Slack por dia. Mudanças de status são avisadas pelo alerta
+-- do job.
+CREATE OR REPLACE FUNCTION public.enqueue_slack_on_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_row JSONB;
+  old_row JSONB;
+  now_published BOOLEAN := false;
+  was_published BOOLEAN := false;
+  changes JSONB;
+BEGIN
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW);
+  END IF;
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD);
+  END IF;
+
+  IF TG_TABLE_NAME = 'blog_posts' THEN
+    now_published := COALESCE(new_row->>'status' = 'published', false);
+    was_published := COALESCE(old_row->>'status' = 'published', false);
+  ELSE
+    now_published := COALESCE((new_row->>'is_published')::boolean, false);
+    was_published := COALESCE((old_row->>'is_published')::boolean, false);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    IF was_published THEN
+      PERFORM public.enqueue_slack_notification(
+        TG_ARGV[0], OLD.id, 'deleted',
+        jsonb_build_object('title', old_row->>'title')
+      );
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF now_published AND NOT was_published THEN
+    PERFORM public.enqueue_slack_notification(TG_ARGV[0], NEW.id, 'published');
+  ELSIF now_published AND was_published THEN
+    -- Bookkeeping columns (timestamps, counters) don't count as an update.
+    -- Values are truncated so large bodies don't bloat the outbox.
+    SELECT COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'field', n.key,
+          'before', left(o.value #>> '{}', 200),
+          'after', left(n.value #>> '{}', 200)
+        )
+        ORDER BY n.key
+      ),
+      '[]'::jsonb
+    )
+    INTO changes
+    FROM jsonb_each(new_row) n
+    JOIN jsonb_each(old_row) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value
+      AND n.key NOT IN (
+        'updated_at', 'created_at', 'views_count', 'clicks_count', 'slack_reactions_count',
+        'search_vector',
+        'health_status', 'health_reason', 'health_checked_at', 'latest_version',
+        'last_published_at', 'repo_archived', 'github_stars', 'license'
+      );
+
+    IF jsonb_array_length(changes) > 0 THEN
+      PERFORM public.enqueue_slack_notification(
+        TG_ARGV[0], NEW.id, 'updated',
+        jsonb_build_object('changes', changes)
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Histórico: uma linha por servidor por verificação
+CREATE TABLE IF NOT EXISTS public.mcp_server_health_checks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  server_id UUID NOT NULL REFERENCES public.mcp_servers(id) ON DELETE CASCADE,
+  checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- NULL quando nem o npm nem o GitHub responderam
+  status TEXT CHECK (status IS NULL OR status IN ('maintained', 'stale', 'archived')),
+  previous_status TEXT,
+  reason TEXT,
+  latest_version TEXT,
+  last_published_at TIMESTAMPTZ,
+  npm_deprecated TEXT,
+  repo_archived BOOLEAN,
+  repo_pushed_at TIMESTAMPTZ,
+  github_stars INTEGER,
+  license TEXT,
+  error_message TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_mcp_server_health_checks_server
+  ON public.mcp_server_health_checks(server_id, checked_at DESC);
+
+ALTER TABLE public.mcp_server_health_checks ENABLE ROW LEVEL SECURITY;
+
+-- Só admins leem o histórico; a Edge Function grava com service_role
+CREATE POLICY "Admins podem ver o histórico de saúde dos servidores MCP"
+  ON public.mcp_server_health_checks
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Verificação diária pelo runner de jobs agendados
+INSERT INTO public.scheduled_jobs (name, function_name, timeout_ms, failure_threshold)
+VALUES ('mcp-health-check', 'check-mcp-health', 300000, 2)
+ON CONFLICT (name) DO NOTHING;
+
+SELECT cron.unschedule(jobname)
+FROM cron.job
+WHERE jobname = 'mcp-health-check-daily';
+
+SELECT cron.schedule('mcp-health-check-daily', '0 6 * * *', $$ SELECT public.run_scheduled_job('mcp-health-check'); $$);
+
+-- Comentários para documentação
+COMMENT ON TABLE public.mcp_server_health_checks IS 'Histórico das verificações de saúde (npm e GitHub) de cada servidor MCP, gravado por check-mcp-health';
+COMMENT ON COLUMN public.mcp_servers.health_status IS 'maintained (atividade nos últimos 12 meses), stale (sem atividade há 12 meses) ou archived (repositório arquivado ou versão descontinuada); NULL = ainda não verificado';
+COMMENT ON COLUMN public.mcp_servers.health_reason IS 'Motivo do health_status, exibido no badge do card';
+COMMENT ON COLUMN public.mcp_servers.latest_version IS 'Última versão publicada no npm (dist-tags.latest)';
+COMMENT ON COLUMN public.mcp_servers.last_published_at IS 'Data de publicação da última versão no npm';
+COMMENT ON COLUMN public.mcp_servers.repo_archived IS 'Repositório arquivado no GitHub';
+COMMENT ON COLUMN public.mcp_servers.github_stars IS 'Estrelas do repositório no GitHub';
+COMMENT ON COLUMN public.mcp_servers.license IS 'Licença (npm ou SPDX do GitHub)';
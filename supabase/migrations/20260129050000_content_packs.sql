@@ -0,0 +1,101 @@
+-- Migration: Pacotes de conteúdo
+-- Description: workflows, mcp_servers e recommended_sites ganham content_hash,
+-- o SHA-256 das colunas gravadas pela Edge Function sync-content-packs a
+-- partir dos arquivos markdown de supabase/functions/sync-content-packs/packs.
+-- Hash diferente do arquivo atual = linha desatualizada; a sincronização
+-- reescreve só essas. Linhas criadas pelos managers ficam com NULL até um
+-- pacote ter um item com o mesmo slug.
+
+ALTER TABLE public.workflows
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+ALTER TABLE public.mcp_servers
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+ALTER TABLE public.recommended_sites
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+-- content_hash acompanha as colunas do pacote, que já aparecem nas mudanças
+-- da notificação "updated" do Slack; o hash em si não é uma edição
+CREATE OR REPLACE FUNCTION public.enqueue_slack_on_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_row JSONB;
+  old_row JSONB;
+  now_published BOOLEAN := false;
+  was_published BOOLEAN := false;
+  changes JSONB;
+BEGIN
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW);
+  END IF;
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD);
+  END IF;
+
+  IF TG_TABLE_NAME = 'blog_posts' THEN
+    now_published := COALESCE(new_row->>'status' = 'published', false);
+    was_published := COALESCE(old_row->>'status' = 'published', false);
+  ELSE
+    now_published := COALESCE((new_row->>'is_published')::boolean, false);
+    was_published := COALESCE((old_row->>'is_published')::boolean, false);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    IF was_published THEN
+      PERFORM public.enqueue_slack_notification(
+        TG_ARGV[0], OLD.id, 'deleted',
+        jsonb_build_object('title', old_row->>'title')
+      );
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF now_published AND NOT was_published THEN
+    PERFORM public.enqueue_slack_notification(TG_ARGV[0], NEW.id, 'published');
+  ELSIF now_published AND was_published THEN
+    -- Bookkeeping columns (timestamps, counters) don't count as an update.
+    -- Values are truncated so large bodies don't bloat the outbox.
+    SELECT COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'field', n.key,
+          'before', left(o.value #>> '{}', 200),
+          'after', left(n.value #>> '{}', 200)
+        )
+        ORDER BY n.key
+      ),
+      '[]'::jsonb
+    )
+    INTO changes
+    FROM jsonb_each(new_row) n
+    JOIN jsonb_each(old_row) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value
+      AND n.key NOT IN (
+        'updated_at', 'created_at', 'views_count', 'clicks_count', 'slack_reactions_count',
+        'search_vector',
+        'health_status', 'health_reason', 'health_checked_at', 'latest_version',
+        'last_published_at', 'repo_archived', 'github_stars', 'license',
+        'content_hash'
+      );
+
+    IF jsonb_array_length(changes) > 0 THEN
+      PERFORM public.enqueue_slack_notification(
+        TG_ARGV[0], NEW.id, 'updated',
+        jsonb_build_object('changes', changes)
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Comentários para documentação
+COMMENT ON COLUMN public.workflows.content_hash IS 'SHA-256 do item do pacote de conteúdo gravado por sync-content-packs (NULL = fora dos pacotes)';
+COMMENT ON COLUMN public.mcp_servers.content_hash IS 'SHA-256 do item do pacote de conteúdo gravado por sync-content-packs (NULL = fora dos pacotes)';
+COMMENT ON COLUMN public.recommended_sites.content_hash IS 'SHA-256 do item do pacote de conteúdo gravado por sync-content-packs (NULL = fora dos pacotes)';
@@ -0,0 +1,110 @@
+-- Migration: Filtro de categoria na busca do catálogo
+-- Description: search_catalog() ganha p_category, para que /blog e
+-- /mcp-servers paginem a busca no banco mesmo com uma categoria
+-- selecionada (antes o filtro era aplicado no navegador sobre uma única
+-- página de resultados). Workflows não têm categoria e ficam de fora quando
+-- p_category é informado.
+
+DROP FUNCTION IF EXISTS public.search_catalog(TEXT, TEXT[], INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_catalog(
+  p_query TEXT,
+  p_types TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 10,
+  p_offset INTEGER DEFAULT 0,
+  p_category TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  content_type TEXT,
+  id UUID,
+  title TEXT,
+  slug TEXT,
+  url TEXT,
+  title_highlight TEXT,
+  snippet TEXT,
+  rank REAL,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  termos TEXT;
+  consulta tsquery;
+BEGIN
+  SELECT string_agg(quote_literal(termo) || ':*', ' & ')
+  INTO termos
+  FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS termo
+  WHERE termo <> '';
+
+  IF termos IS NULL THEN
+    RETURN;
+  END IF;
+
+  consulta := to_tsquery('public.portuguese_unaccent', termos);
+
+  -- Só stopwords ("de", "para")
+  IF numnode(consulta) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH encontrados AS (
+    SELECT 'workflow'::TEXT AS tipo, w.id, w.title, w.slug, NULL::TEXT AS link,
+      w.description AS trecho, ts_rank_cd(w.search_vector, consulta) AS nota
+    FROM public.workflows w
+    WHERE w.is_published AND w.search_vector @@ consulta
+      AND (p_types IS NULL OR 'workflow' = ANY(p_types))
+      AND p_category IS NULL
+    UNION ALL
+    SELECT 'mcp_server', m.id, m.title, m.slug, NULL,
+      m.description, ts_rank_cd(m.search_vector, consulta)
+    FROM public.mcp_servers m
+    WHERE m.is_published AND m.search_vector @@ consulta
+      AND (p_types IS NULL OR 'mcp_server' = ANY(p_types))
+      AND (p_category IS NULL OR m.category = p_category)
+    UNION ALL
+    SELECT 'blog_post', b.id, b.title, b.slug, NULL,
+      b.excerpt, ts_rank_cd(b.search_vector, consulta)
+    FROM public.blog_posts b
+    WHERE b.status = 'published' AND b.search_vector @@ consulta
+      AND (p_types IS NULL OR 'blog_post' = ANY(p_types))
+      AND (p_category IS NULL OR b.category = p_category)
+    UNION ALL
+    SELECT 'recommended_site', s.id, s.title, s.slug, s.url,
+      s.description, ts_rank_cd(s.search_vector, consulta)
+    FROM public.recommended_sites s
+    WHERE s.is_published AND s.search_vector @@ consulta
+      AND (p_types IS NULL OR 'recommended_site' = ANY(p_types))
+      AND (p_category IS NULL OR s.category = p_category)
+  ),
+  pagina AS (
+    SELECT e.*, COUNT(*) OVER () AS total
+    FROM encontrados e
+    ORDER BY e.nota DESC, e.title
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  SELECT
+    p.tipo,
+    p.id,
+    p.title,
+    p.slug,
+    p.link,
+    ts_headline('public.portuguese_unaccent', p.title, consulta,
+      'HighlightAll=true, StartSel=<mark>, StopSel=</mark>'),
+    CASE WHEN COALESCE(p.trecho, '') = '' THEN NULL ELSE
+      ts_headline('public.portuguese_unaccent', p.trecho, consulta,
+        'StartSel=<mark>, StopSel=</mark>, MinWords=12, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "')
+    END,
+    p.nota,
+    p.total
+  FROM pagina p
+  ORDER BY p.nota DESC, p.title;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_catalog(TEXT, TEXT[], INTEGER, INTEGER, TEXT) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.search_catalog(TEXT, TEXT[], INTEGER, INTEGER, TEXT) IS 'Busca full-text (português, sem acentos) em workflows, MCP servers, artigos e sites publicados, com ranking, destaques <mark>, paginação e filtro opcional de categoria';
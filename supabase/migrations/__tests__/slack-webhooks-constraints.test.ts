@@ -319,8 +319,10 @@ describe('Slack Webhooks Database Constraints - Property Tests', () => {
           expect(afterDeleteData!.content_type).toBe(contentType);
           expect(afterDeleteData!.channel_name).toBe(channelName);
 
-          // Verify all original data is preserved
-          expect(afterDeleteData!.webhook_url).toBe(webhookUrl);
+          // Verify all original data is preserved (webhook_url is stored encrypted)
+          expect(afterDeleteData!.webhook_url).toBe(insertData![0].webhook_url);
+          expect(afterDeleteData!.webhook_url).not.toBe(webhookUrl);
+          expect(afterDeleteData!.webhook_url_hint).toBe(insertData![0].webhook_url_hint);
           expect(afterDeleteData!.created_at).toBeDefined();
           expect(afterDeleteData!.updated_at).toBeDefined();
 
@@ -396,4 +398,49 @@ describe('Slack Webhooks Database Constraints - Property Tests', () => {
       { numRuns: 50 }
     );
   });
+
+  /**
+   * Webhook URL encryption at rest
+   *
+   * For any webhook URL written to slack_webhooks, the stored value should be a
+   * PGP-armored ciphertext and webhook_url_hint should expose only the host and
+   * the last 4 characters of the URL.
+   */
+  test('Webhook URL encryption at rest', async () => {
+    if (!SUPABASE_SERVICE_ROLE_KEY) {
+      console.warn('Skipping test: SUPABASE_SERVICE_ROLE_KEY not set');
+      return;
+    }
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom('workflow', 'mcp_server', 'blog_post', 'ide_news'),
+        fc.stringMatching(/^[A-Za-z0-9]{24}$/),
+        fc.string({ minLength: 1, maxLength: 50 }).map(s => `#${s.replace(/[^a-z0-9-]/gi, '')}`),
+        async (contentType, secret, channelName) => {
+          const webhookUrl = `https://hooks.slack.com/services/T000/B000/${secret}`;
+
+          const { data, error } = await supabase
+            .from('slack_webhooks')
+            .insert({
+              content_type: contentType,
+              webhook_url: webhookUrl,
+              channel_name: channelName,
+              is_enabled: true,
+            })
+            .select()
+            .single();
+
+          expect(error).toBeNull();
+          expect(data!.webhook_url).toMatch(/^-----BEGIN PGP MESSAGE-----/);
+          expect(data!.webhook_url).not.toContain(secret);
+          expect(data!.webhook_url_hint).toBe(`https://hooks.slack.com/••••${secret.slice(-4)}`);
+
+          // Cleanup
+          await supabase.from('slack_webhooks').delete().eq('id', data!.id);
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
 });